@@ -1,4 +1,5 @@
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect, useMemo, useCallback } from 'react';
+import { Clock, Loader2 } from 'lucide-react';
 import Canvas, { CanvasHandle } from './components/Canvas';
 import Controls, { ControlsHandle } from './components/Controls';
 import SettingsModal from './components/SettingsModal';
@@ -7,15 +8,53 @@ import ErrorModal from './components/ErrorModal';
 import UrlImportModal from './components/UrlImportModal';
 import LoadingOverlay from './components/LoadingOverlay';
 import KeyboardShortcutsModal from './components/KeyboardShortcutsModal';
-import { DesignState, AppSettings, AspectRatio, Orientation, Point, TextLayer, ImageHistoryItem } from './types';
+import RecentProjectsModal from './components/RecentProjectsModal';
+import ExportModal from './components/ExportModal';
+import AnimationExportModal from './components/AnimationExportModal';
+import DataMergeModal from './components/DataMergeModal';
+import TemplateModal from './components/TemplateModal';
+import TemplateFillPanel from './components/TemplateFillPanel';
+import BrandKitModal from './components/BrandKitModal';
+import StyleLibraryModal from './components/StyleLibraryModal';
+import TimelinePanel from './components/TimelinePanel';
+import PdfExportModal, { PdfPageSource } from './components/PdfExportModal';
+import { DesignState, AppSettings, AspectRatio, Orientation, Point, TextLayer, ImageHistoryItem, RecentProjectSummary, SettingsProfile, SceneSnapshot, ImageExportOptions, Keyframe, MergeDataset, DataMergeExportOptions, TemplateInfo, TemplateSlotAccess, BrandKit, StylePreset, CustomFont } from './types';
 import { generateBackgroundImage, editImage } from './services/geminiService';
 import { useKeyboard, KeyboardShortcut } from './hooks/useKeyboard';
-import { createLayer, DEFAULT_DESIGN, DEFAULT_SETTINGS, INITIAL_LAYER_ID } from './utils/defaults';
+import { createLayer, DEFAULT_DESIGN, INITIAL_LAYER_ID } from './utils/defaults';
+import { IMAGE_EXPORT_FORMATS } from './constants';
+import { hasKeyframes, resolveLayersAtTime, recordKeyframeEdits } from './utils/keyframes';
 import { getFriendlyError } from './utils/errorHandler';
+import { downloadBlob } from './utils/download';
+import { applySlotEdit } from './utils/templates';
+import { updateRunsForEdit } from './utils/textRuns';
+import { applyBrandStyle } from './utils/brandKit';
+import { applyLayerStyle, extractLayerStyle, renderStyleThumbnail } from './utils/layerStyles';
+import { serializeProject, parseProject, applySettingsSnapshot, normalizeDesign, normalizeLayer, PROJECT_FILE_EXTENSION } from './utils/projectFile';
+import { exportSvg } from './services/svgExport';
+import { writePsd } from './services/psdWriter';
+import { exportPdf, PdfExportOptions } from './services/pdfExport';
+import { exportAnimation, AnimationExportOptions } from './services/animationExport';
+import { exportDataMerge } from './services/dataMergeExport';
+import { loadSettings, saveSettings, loadProfiles, saveProfiles } from './services/settingsStore';
+import { loadBrandKit, saveBrandKit } from './services/brandKitStore';
+import { loadStylePresets, saveStylePresets, createStylePreset } from './services/stylePresetStore';
+import { installCustomFont, uninstallCustomFont, loadStoredFonts, storeFont, deleteStoredFont } from './services/customFontService';
+import { registerFontCatalog } from './services/fontLoader';
+import { createCustomFont, extractEmbeddedFonts } from './utils/customFonts';
+import { listRecentSessions, loadSession, saveSession, deleteSession, createThumbnail, getSessionName } from './services/autosaveService';
+
+const AUTOSAVE_DELAY_MS = 1500;
+// Rendering a thumbnail re-composites the full canvas, so it is refreshed less often than the session data
+const THUMBNAIL_REFRESH_MS = 15000;
 
 export default function App() {
   const [design, setDesign] = useState<DesignState>(DEFAULT_DESIGN);
-  const [settings, setSettings] = useState<AppSettings>(DEFAULT_SETTINGS);
+  const [settings, setSettings] = useState<AppSettings>(loadSettings);
+  const [settingsProfiles, setSettingsProfiles] = useState<SettingsProfile[]>(loadProfiles);
+  const [brandKit, setBrandKit] = useState<BrandKit | null>(loadBrandKit);
+  const [stylePresets, setStylePresets] = useState<StylePreset[]>(loadStylePresets);
+  const [customFonts, setCustomFonts] = useState<CustomFont[]>([]);
   
   // Modal States
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
@@ -23,6 +62,17 @@ export default function App() {
   const [isGenerateConfirmOpen, setIsGenerateConfirmOpen] = useState(false);
   const [isUrlImportOpen, setIsUrlImportOpen] = useState(false);
   const [isShortcutsOpen, setIsShortcutsOpen] = useState(false);
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const [isPdfExportOpen, setIsPdfExportOpen] = useState(false);
+  const [isAnimationExportOpen, setIsAnimationExportOpen] = useState(false);
+  const [isDataMergeOpen, setIsDataMergeOpen] = useState(false);
+  const [isTemplateOpen, setIsTemplateOpen] = useState(false);
+  const [isBrandKitOpen, setIsBrandKitOpen] = useState(false);
+  const [isStyleLibraryOpen, setIsStyleLibraryOpen] = useState(false);
+  // Simplified editing of a template's editable slots; designers can switch back to the full editor
+  const [isTemplateMode, setIsTemplateMode] = useState(false);
+  const [recentProjectsState, setRecentProjectsState] = useState<{ isOpen: boolean; isStartup: boolean }>({ isOpen: false, isStartup: false });
+  const [recentSessions, setRecentSessions] = useState<RecentProjectSummary[]>([]);
   
   // Error State
   const [errorState, setErrorState] = useState<{ isOpen: boolean; title: string; message: string }>({
@@ -37,6 +87,15 @@ export default function App() {
   const [historyIndex, setHistoryIndex] = useState(-1);
   const [groundingMetadata, setGroundingMetadata] = useState<any>(null);
 
+  // Stamp progress while layers render in the background
+  const [stampProgress, setStampProgress] = useState<{ done: number; total: number } | null>(null);
+
+  // Timeline State
+  const [isTimelineOpen, setIsTimelineOpen] = useState(false);
+  const [playheadTime, setPlayheadTime] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const playheadRef = useRef(0);
+
   // Loading & Abort State
   const [isGenerating, setIsGenerating] = useState(false); // API call status
   const [isOverlayVisible, setIsOverlayVisible] = useState(false); // UI visibility
@@ -49,29 +108,136 @@ export default function App() {
   const abortControllerRef = useRef<AbortController | null>(null);
   const canvasRef = useRef<CanvasHandle>(null);
   const controlsRef = useRef<ControlsHandle>(null);
+  const projectInputRef = useRef<HTMLInputElement>(null);
+
+  // Autosave: each browser tab writes to its own session until another one is restored
+  const sessionIdRef = useRef<string>(crypto.randomUUID());
+  const thumbnailRef = useRef<{ src: string | null; updatedAt: number }>({ src: null, updatedAt: 0 });
 
   // Sync ref with state
   useEffect(() => {
     showLoadingDebugRef.current = showLoadingDebug;
   }, [showLoadingDebug]);
 
-  // Sync settings with DOM Overlay for Font Debug
   useEffect(() => {
-    const debugEl = document.getElementById('font-loading-debug');
-    if (debugEl) {
-        debugEl.style.display = settings.showFontDebug ? 'flex' : 'none';
-    }
-  }, [settings.showFontDebug]);
+    playheadRef.current = playheadTime;
+  }, [playheadTime]);
 
-  // Listen for Font Debug Close from Vanilla JS layer
+  // Timeline playback loops over the animation duration
   useEffect(() => {
-    const handleCloseFontDebug = () => {
-        setSettings(prev => ({ ...prev, showFontDebug: false }));
+    if (!isPlaying) return;
+    let rafId = 0;
+    const start = performance.now() - playheadRef.current * 1000;
+    const tick = () => {
+      setPlayheadTime(((performance.now() - start) / 1000) % design.animationDuration);
+      rafId = requestAnimationFrame(tick);
     };
-    window.addEventListener('textrot-close-font-debug', handleCloseFontDebug);
-    return () => window.removeEventListener('textrot-close-font-debug', handleCloseFontDebug);
+    rafId = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(rafId);
+  }, [isPlaying, design.animationDuration]);
+
+  // The design as shown at the playhead. Canvas and Controls edit this view; see editDesign.
+  const displayDesign = useMemo(() => hasKeyframes(design.layers)
+    ? { ...design, layers: resolveLayersAtTime(design.layers, playheadTime) }
+    : design, [design, playheadTime]);
+
+  // Edits to animated properties are recorded as keyframes at the playhead instead of
+  // replacing the stored value
+  const editDesign: React.Dispatch<React.SetStateAction<DesignState>> = useCallback((action) => {
+    setDesign(prev => {
+      if (!hasKeyframes(prev.layers)) return typeof action === 'function' ? action(prev) : action;
+      const time = playheadRef.current;
+      const shown = { ...prev, layers: resolveLayersAtTime(prev.layers, time) };
+      const next = typeof action === 'function' ? action(shown) : action;
+      return { ...next, layers: recordKeyframeEdits(prev.layers, next.layers, time) };
+    });
+  }, []);
+
+  const handleUpdateKeyframes = (layerId: string, keyframes: Record<string, Keyframe[]>) => {
+    editDesign(prev => ({
+      ...prev,
+      layers: prev.layers.map(l => l.id === layerId ? { ...l, keyframes } : l)
+    }));
+  };
+
+  // Persist settings and profiles across reloads
+  useEffect(() => {
+    saveSettings(settings);
+  }, [settings]);
+
+  useEffect(() => {
+    saveProfiles(settingsProfiles);
+  }, [settingsProfiles]);
+
+  useEffect(() => {
+    saveBrandKit(brandKit);
+  }, [brandKit]);
+
+  useEffect(() => {
+    saveStylePresets(stylePresets);
+  }, [stylePresets]);
+
+  // Make the built-in catalog available to font pickers; files download as families are used
+  useEffect(() => {
+    registerFontCatalog().catch(e => console.warn("Could not register the font catalog", e));
+  }, []);
+
+  // Re-install fonts uploaded in earlier visits
+  useEffect(() => {
+    loadStoredFonts()
+      .then(async fonts => {
+          const installed: CustomFont[] = [];
+          for (const font of fonts) {
+              await installCustomFont(font)
+                .then(() => installed.push(font))
+                .catch(e => console.warn("Could not install stored font", font.fileName, e));
+          }
+          setCustomFonts(installed);
+      })
+      .catch(e => console.warn("Font storage unavailable", e));
+  }, []);
+
+  // Offer to restore the last autosaved session on startup
+  useEffect(() => {
+    listRecentSessions()
+      .then(sessions => {
+          setRecentSessions(sessions);
+          if (sessions.length > 0) setRecentProjectsState({ isOpen: true, isStartup: true });
+      })
+      .catch(e => console.warn("Autosave unavailable", e));
   }, []);
 
+  // Debounced autosave of the working session
+  useEffect(() => {
+    if (!imageSrc) return;
+
+    const timer = setTimeout(async () => {
+        try {
+            const now = Date.now();
+            if (canvasRef.current && (!thumbnailRef.current.src || now - thumbnailRef.current.updatedAt > THUMBNAIL_REFRESH_MS)) {
+                const rendered = await canvasRef.current.exportImage();
+                thumbnailRef.current = { src: await createThumbnail(rendered), updatedAt: now };
+            }
+
+            await saveSession({
+                id: sessionIdRef.current,
+                name: getSessionName({ design }),
+                updatedAt: now,
+                thumbnail: thumbnailRef.current.src,
+                design,
+                imageSrc,
+                imageHistory,
+                historyIndex,
+                groundingMetadata
+            });
+        } catch (e) {
+            console.warn("Autosave failed", e);
+        }
+    }, AUTOSAVE_DELAY_MS);
+
+    return () => clearTimeout(timer);
+  }, [design, imageSrc, imageHistory, historyIndex, groundingMetadata]);
+
   // Helper: Log to Loading Overlay
   const log = (message: string) => {
       const timestamp = new Date().toLocaleTimeString();
@@ -266,13 +432,17 @@ export default function App() {
       
       log("Image data received. Processing...");
       
-      const newLayers = design.layers.map(l => ({
-        ...l,
-        textOverlay: l.id === design.activeLayerId && l.textOverlay === 'EDIT ME' ? design.prompt.substring(0, 20).toUpperCase() : l.textOverlay,
-        // Preserve paths
-        isPathInputMode: false,
-        isPathMoveMode: false,
-      }));
+      const newLayers = design.layers.map(l => {
+        const textOverlay = l.id === design.activeLayerId && l.textOverlay === 'EDIT ME' ? design.prompt.substring(0, 20).toUpperCase() : l.textOverlay;
+        return {
+          ...l,
+          textOverlay,
+          textRuns: updateRunsForEdit(l.textRuns, l.textOverlay, textOverlay),
+          // Preserve paths
+          isPathInputMode: false,
+          isPathMoveMode: false,
+        };
+      });
 
       // Generate sets type to 'image'. Snapshot current state first.
       addToHistory(imageData, design.aspectRatio, design.orientation, newLayers, 'image', design.backgroundColor, groundingMetadata, true);
@@ -398,7 +568,7 @@ export default function App() {
     const blankImgData = canvas.toDataURL('image/png');
     
     const newId = crypto.randomUUID();
-    const newLayers = [createLayer(newId, 'BLANK CANVAS')];
+    const newLayers = [applyBrandStyle(createLayer(newId, 'BLANK CANVAS'), brandKit)];
     
     // Blank Canvas sets type to 'solid' and defaults to dark gray/black. Snapshot current state first.
     const newBgColor = '#181818';
@@ -517,22 +687,16 @@ export default function App() {
      }
   };
 
-  const handleDownload = async () => {
+  const handleDownload = async (options: ImageExportOptions, onProgress?: (done: number, total: number) => void) => {
     if (canvasRef.current) {
       try {
-        const dataUrl = await canvasRef.current.exportImage();
+        const dataUrl = await canvasRef.current.exportImage(options, onProgress);
         const res = await fetch(dataUrl);
         const blob = await res.blob();
-        const url = window.URL.createObjectURL(blob);
-
-        const link = document.createElement('a');
-        link.download = `textrot-${Date.now()}.png`;
-        link.href = url;
-        document.body.appendChild(link);
-        link.click();
-        
-        document.body.removeChild(link);
-        window.URL.revokeObjectURL(url);
+        // Browsers without an encoder for the requested type fall back to PNG
+        const format = Object.values(IMAGE_EXPORT_FORMATS).find(f => f.mimeType === blob.type) || IMAGE_EXPORT_FORMATS.png;
+        downloadBlob(blob, `textrot-${Date.now()}.${format.extension}`);
+        setIsExportOpen(false);
       } catch (e) {
         console.error("Export failed", e);
         handleApiError(new Error("Could not export image. The canvas may be tainted or too large."));
@@ -540,13 +704,274 @@ export default function App() {
     }
   };
 
+  const handleDownloadSvg = async () => {
+    try {
+        const svg = await exportSvg(displayDesign, imageSrc);
+        downloadBlob(new Blob([svg], { type: 'image/svg+xml' }), `textrot-${Date.now()}.svg`);
+    } catch (e) {
+        console.error("SVG export failed", e);
+        handleApiError(new Error("Could not export SVG. The background image may be unavailable."));
+    }
+  };
+
+  const handleDownloadPsd = async () => {
+    if (!canvasRef.current) return;
+    try {
+        const { width, height, background, layers, composite } = await canvasRef.current.exportLayers();
+        const psd = writePsd({
+            width,
+            height,
+            composite,
+            layers: [
+                { name: 'Background', opacity: 1, visible: true, blendMode: 'normal', imageData: background },
+                ...layers.map(({ layer, imageData }) => ({
+                    name: layer.name,
+                    opacity: layer.opacity,
+                    visible: layer.visible,
+                    blendMode: layer.blendMode,
+                    imageData
+                }))
+            ]
+        });
+        downloadBlob(psd, `textrot-${Date.now()}.psd`);
+    } catch (e) {
+        console.error("PSD export failed", e);
+        handleApiError(new Error("Could not export image. The canvas may be tainted or too large."));
+    }
+  };
+
+  const handleExportPdf = async (options: PdfExportOptions, source: PdfPageSource, onProgress: (page: number, total: number) => void) => {
+    if (!canvasRef.current || !imageSrc) return;
+    const scenes: SceneSnapshot[] = source === 'history'
+        ? imageHistory.filter(item => item.src).map(item => ({
+            imageSrc: item.src,
+            layers: item.layers,
+            backgroundType: item.backgroundType,
+            backgroundColor: item.backgroundColor
+          }))
+        : [{ imageSrc, layers: displayDesign.layers, backgroundType: design.backgroundType, backgroundColor: design.backgroundColor }];
+
+    try {
+        const pdf = await exportPdf(scenes, options, canvasRef.current.renderScene, onProgress);
+        downloadBlob(pdf, `textrot-${Date.now()}.pdf`);
+    } catch (e) {
+        console.error("PDF export failed", e);
+        handleApiError(new Error("Could not export PDF. The canvas may be tainted or too large."));
+    }
+  };
+
+  const currentScene = useMemo<SceneSnapshot | null>(() => imageSrc ? {
+    imageSrc,
+    layers: displayDesign.layers,
+    backgroundType: design.backgroundType,
+    backgroundColor: design.backgroundColor
+  } : null, [imageSrc, displayDesign.layers, design.backgroundType, design.backgroundColor]);
+
+  const handleExportAnimation = async (options: AnimationExportOptions, onProgress: (frame: number, total: number) => void) => {
+    if (!canvasRef.current || !currentScene) return;
+    try {
+        const renderer = await canvasRef.current.createSceneRenderer(currentScene, { scale: options.scale });
+        try {
+            const blob = await exportAnimation(renderer, options, onProgress);
+            downloadBlob(blob, `textrot-${Date.now()}.${options.format}`);
+            setIsAnimationExportOpen(false);
+        } finally {
+            renderer.dispose();
+        }
+    } catch (e) {
+        console.error("Animation export failed", e);
+        handleApiError(new Error("Could not export animation. The canvas may be tainted or too large."));
+    }
+  };
+
+  const handleExportDataMerge = async (dataset: MergeDataset, options: DataMergeExportOptions, onProgress: (row: number, total: number) => void) => {
+    if (!canvasRef.current || !currentScene) return;
+    try {
+        const zip = await exportDataMerge(currentScene, dataset, options, canvasRef.current.renderSceneImage, onProgress);
+        downloadBlob(zip, `textrot-merge-${Date.now()}.zip`);
+        setIsDataMergeOpen(false);
+    } catch (e) {
+        console.error("Data merge export failed", e);
+        handleApiError(new Error("Could not export the merged images. The canvas may be tainted or too large."));
+    }
+  };
+
+  // --- Project Files ---
+  const handleSaveProject = () => {
+    try {
+        const json = serializeProject(design, imageSrc, settings, groundingMetadata, customFonts);
+        downloadBlob(new Blob([json], { type: 'application/json' }), `textrot-${Date.now()}${PROJECT_FILE_EXTENSION}`);
+    } catch (e) {
+        console.error("Project save failed", e);
+        handleApiError(new Error("Could not save the project file."));
+    }
+  };
+
+  // --- Templates ---
+  const handleSaveTemplate = (template: TemplateInfo, slots: Record<string, TemplateSlotAccess>, prompt: string) => {
+    const templateDesign: DesignState = {
+        ...design,
+        prompt,
+        template,
+        layers: design.layers.map(l => ({ ...l, templateSlot: slots[l.id] ?? l.templateSlot }))
+    };
+    try {
+        const json = serializeProject(templateDesign, imageSrc, settings, groundingMetadata, customFonts);
+        const fileName = template.name.replace(/[^\w-]+/g, '-').toLowerCase() || 'template';
+        downloadBlob(new Blob([json], { type: 'application/json' }), `${fileName}${PROJECT_FILE_EXTENSION}`);
+        setDesign(templateDesign);
+        setIsTemplateOpen(false);
+    } catch (e) {
+        console.error("Template save failed", e);
+        handleApiError(new Error("Could not save the template file."));
+    }
+  };
+
+  const handleUpdateSlot = (layerId: string, changes: Partial<Pick<TextLayer, 'textOverlay' | 'textColor'>>) => {
+    editDesign(prev => ({
+        ...prev,
+        layers: prev.layers.map(l => l.id === layerId ? applySlotEdit(l, changes) : l)
+    }));
+  };
+
+  const handleSaveStylePreset = (name: string) => {
+    const layer = design.layers.find(l => l.id === design.activeLayerId);
+    if (!layer) return;
+    const style = extractLayerStyle(layer);
+    setStylePresets(prev => [...prev, createStylePreset(name, style, renderStyleThumbnail(style))]);
+  };
+
+  const handleApplyStylePreset = (preset: StylePreset) => {
+    editDesign(prev => ({
+        ...prev,
+        layers: prev.layers.map(l => prev.selectedLayerIds.includes(l.id) ? applyLayerStyle(l, preset.style) : l)
+    }));
+  };
+
+  // --- Custom Fonts ---
+  // A font with the same family, weight and style as an installed one replaces it
+  const handleAddCustomFonts = async (fonts: CustomFont[]) => {
+    const added: CustomFont[] = [];
+    for (const uploaded of fonts) {
+        const existing = customFonts.find(f => f.family === uploaded.family && f.weight === uploaded.weight && f.italic === uploaded.italic);
+        const font = existing ? { ...uploaded, id: existing.id } : uploaded;
+        try {
+            await installCustomFont(font);
+            added.push(font);
+            await storeFont(font).catch(e => console.warn("Could not store font", font.fileName, e));
+        } catch (e) {
+            handleApiError(e);
+        }
+    }
+    setCustomFonts(prev => [...prev.filter(f => !added.some(a => a.id === f.id)), ...added]);
+  };
+
+  const handleUploadFonts = async (files: File[]) => {
+    try {
+        const fonts = await Promise.all(files.map(async file => createCustomFont(file.name, await file.arrayBuffer())));
+        await handleAddCustomFonts(fonts);
+    } catch (e) {
+        handleApiError(e);
+    }
+  };
+
+  const handleDeleteCustomFont = (family: string) => {
+    customFonts.filter(f => f.family === family).forEach(font => {
+        uninstallCustomFont(font.id);
+        deleteStoredFont(font.id).catch(e => console.warn("Could not delete stored font", font.fileName, e));
+    });
+    setCustomFonts(prev => prev.filter(f => f.family !== family));
+  };
+
+  const handleOpenProjectTrigger = () => {
+    projectInputRef.current?.click();
+  };
+
+  const handleOpenProject = async (file: File) => {
+    try {
+        const project = parseProject(await file.text());
+        const { design: loadedDesign } = project;
+        await handleAddCustomFonts(extractEmbeddedFonts(project.fonts));
+
+        // Opening a project starts a fresh history with the loaded state as its root
+        setImageHistory(project.imageSrc ? [{
+            src: project.imageSrc,
+            aspectRatio: loadedDesign.aspectRatio,
+            orientation: loadedDesign.orientation,
+            layers: loadedDesign.layers,
+            backgroundType: loadedDesign.backgroundType,
+            backgroundColor: loadedDesign.backgroundColor,
+            groundingMetadata: project.groundingMetadata
+        }] : []);
+        setHistoryIndex(project.imageSrc ? 0 : -1);
+
+        setImageSrc(project.imageSrc);
+        setGroundingMetadata(project.groundingMetadata);
+        setDesign(loadedDesign);
+        setSettings(prev => applySettingsSnapshot(prev, project.settings));
+        // Templates open in the simplified slot editor
+        setIsTemplateMode(!!loadedDesign.template);
+
+        canvasRef.current?.resetView();
+    } catch (e) {
+        handleApiError(e);
+    }
+  };
+
+  // --- Recent Projects ---
+  const handleOpenRecent = async () => {
+    try {
+        setRecentSessions(await listRecentSessions());
+    } catch (e) {
+        console.warn("Autosave unavailable", e);
+    }
+    setRecentProjectsState({ isOpen: true, isStartup: false });
+  };
+
+  const handleRestoreSession = async (id: string) => {
+    try {
+        const session = await loadSession(id);
+        if (!session) throw new Error("Session unavailable: This session is no longer available.");
+
+        // Continue writing to the restored session rather than forking a new one
+        sessionIdRef.current = session.id;
+        thumbnailRef.current = { src: session.thumbnail, updatedAt: session.updatedAt };
+
+        // Sessions saved by older versions may lack newer layer fields
+        setImageHistory(session.imageHistory.map(item => ({ ...item, layers: item.layers.map(normalizeLayer) })));
+        setHistoryIndex(session.historyIndex);
+        setImageSrc(session.imageSrc);
+        setGroundingMetadata(session.groundingMetadata);
+        const restoredDesign = normalizeDesign(session.design);
+        setDesign(restoredDesign);
+        setIsTemplateMode(!!restoredDesign.template);
+
+        setRecentProjectsState(prev => ({ ...prev, isOpen: false }));
+        canvasRef.current?.resetView();
+    } catch (e) {
+        handleApiError(e);
+    }
+  };
+
+  const handleDeleteSession = async (id: string) => {
+    try {
+        await deleteSession(id);
+        const remaining = await listRecentSessions();
+        setRecentSessions(remaining);
+        if (remaining.length === 0) setRecentProjectsState(prev => ({ ...prev, isOpen: false }));
+    } catch (e) {
+        console.warn("Could not delete session", e);
+    }
+  };
+
   const handleStamp = async (idsToStamp: string[]) => {
       if (!canvasRef.current || !imageSrc) return;
       
       const layersSnapshot = design.layers;
 
       try {
-          const newImageSrc = await canvasRef.current.stampLayers(idsToStamp);
+          setStampProgress({ done: 0, total: idsToStamp.length });
+          const newImageSrc = await canvasRef.current.stampLayers(idsToStamp, (done, total) => setStampProgress({ done, total }));
           const remainingLayers = layersSnapshot.filter(l => !idsToStamp.includes(l.id));
 
           setImageHistory(prev => {
@@ -603,6 +1028,8 @@ export default function App() {
       } catch (e) {
           console.error("Stamp failed", e);
           handleApiError(new Error("Failed to stamp layers."));
+      } finally {
+          setStampProgress(null);
       }
   };
 
@@ -618,7 +1045,7 @@ export default function App() {
   };
 
   const handleDesignUpdate = (updates: Partial<DesignState>) => {
-      setDesign(prev => ({ ...prev, ...updates }));
+      editDesign(prev => ({ ...prev, ...updates }));
   };
   
   const handleLayerDoubleClick = (layerId: string) => {
@@ -656,12 +1083,38 @@ export default function App() {
         id: 'import-url',
         combo: { code: 'KeyL', alt: true }, 
         action: () => setIsUrlImportOpen(true)
+    },
+    {
+        id: 'save-project',
+        combo: { code: 'KeyS', ctrl: true },
+        action: handleSaveProject
+    },
+    {
+        id: 'open-project',
+        combo: { code: 'KeyO', ctrl: true },
+        action: handleOpenProjectTrigger
+    },
+    {
+        id: 'timeline',
+        combo: { code: 'KeyT', alt: true },
+        action: () => setIsTimelineOpen(prev => !prev)
     }
   ];
   useKeyboard(shortcuts);
 
   return (
     <div className="h-screen w-screen flex flex-col md:flex-row bg-black text-white">
+      <input
+        type="file"
+        ref={projectInputRef}
+        className="hidden"
+        accept={`${PROJECT_FILE_EXTENSION},application/json`}
+        onChange={(e) => {
+            if (e.target.files?.[0]) handleOpenProject(e.target.files[0]);
+            e.target.value = '';
+        }}
+      />
+
       {/* Loading Overlay */}
       <LoadingOverlay 
         isVisible={isOverlayVisible}
@@ -674,26 +1127,69 @@ export default function App() {
       />
 
       {/* Left: Canvas Area */}
-      <div className="flex-1 bg-neutral-950 flex items-center justify-center p-8 relative overflow-hidden">
-        <Canvas 
-            ref={canvasRef}
-            imageSrc={imageSrc} 
-            design={design} 
-            enableZoom={settings.enableZoom}
-            onImageUpload={handleImageUpload}
-            onPathDrawn={handlePathDrawn}
-            onUpdateDesign={handleDesignUpdate}
-            onLayerDoubleClicked={handleLayerDoubleClick}
-            className="shadow-2xl ring-1 ring-white/10"
-        />
+      <div className="flex-1 flex flex-col min-w-0 min-h-0">
+        <div className="flex-1 bg-neutral-950 flex items-center justify-center p-8 relative overflow-hidden">
+          <Canvas 
+              ref={canvasRef}
+              imageSrc={imageSrc} 
+              design={isTemplateMode ? { ...displayDesign, activeLayerId: null, selectedLayerIds: [] } : displayDesign} 
+              enableZoom={settings.enableZoom}
+              onImageUpload={handleImageUpload}
+              onPathDrawn={handlePathDrawn}
+              onUpdateDesign={handleDesignUpdate}
+              onLayerDoubleClicked={isTemplateMode ? undefined : handleLayerDoubleClick}
+              className="shadow-2xl ring-1 ring-white/10"
+          />
+          {!isTimelineOpen && !isTemplateMode && imageSrc && (
+              <button
+                  onClick={() => setIsTimelineOpen(true)}
+                  className="absolute bottom-4 left-4 z-50 bg-black/80 backdrop-blur text-neutral-300 hover:text-white text-[10px] font-medium px-3 py-1.5 rounded-full border border-white/10 flex items-center gap-1.5 shadow-xl transition-colors"
+              >
+                  <Clock size={12} /> Timeline
+              </button>
+          )}
+          {stampProgress && (
+              <div className="absolute top-4 left-1/2 -translate-x-1/2 z-50 bg-black/80 backdrop-blur text-neutral-300 text-[10px] font-medium px-3 py-1.5 rounded-full border border-white/10 flex items-center gap-1.5 shadow-xl">
+                  <Loader2 size={12} className="animate-spin text-pink-500" />
+                  Stamping layers {stampProgress.done}/{stampProgress.total}
+              </div>
+          )}
+        </div>
+
+        {isTimelineOpen && (
+          <TimelinePanel
+              layer={displayDesign.layers.find(l => l.id === design.activeLayerId) || null}
+              duration={design.animationDuration}
+              onDurationChange={(animationDuration) => setDesign(prev => ({ ...prev, animationDuration }))}
+              time={playheadTime}
+              onTimeChange={(t) => { setIsPlaying(false); setPlayheadTime(Math.min(t, design.animationDuration)); }}
+              isPlaying={isPlaying}
+              onTogglePlay={() => setIsPlaying(prev => !prev)}
+              onUpdateKeyframes={handleUpdateKeyframes}
+              onClose={() => { setIsPlaying(false); setIsTimelineOpen(false); }}
+          />
+        )}
       </div>
 
       {/* Right: Controls */}
       <div className="w-full md:w-96 h-1/2 md:h-full z-20">
+        {isTemplateMode ? (
+        <TemplateFillPanel
+          design={displayDesign}
+          hasImage={!!imageSrc}
+          isGenerating={isGenerating}
+          onUpdateSlot={handleUpdateSlot}
+          onPromptChange={(prompt) => setDesign(prev => ({ ...prev, prompt }))}
+          onRegenerate={handleGenerateClick}
+          onDownload={() => setIsExportOpen(true)}
+          onEditTemplate={() => setIsTemplateMode(false)}
+          swatches={brandKit?.swatches || []}
+        />
+        ) : (
         <Controls 
           ref={controlsRef}
-          design={design} 
-          setDesign={setDesign}
+          design={displayDesign} 
+          setDesign={editDesign}
           settings={settings}
           onUpdateSettings={setSettings}
           onGenerate={handleGenerateClick}
@@ -701,8 +1197,25 @@ export default function App() {
           onBlank={handleBlankClick}
           onUpload={handleUploadTrigger}
           onUrlImport={() => setIsUrlImportOpen(true)}
-          onDownload={handleDownload}
+          onDownload={() => setIsExportOpen(true)}
+          onDownloadSvg={handleDownloadSvg}
+          onDownloadPsd={handleDownloadPsd}
+          onOpenPdfExport={() => setIsPdfExportOpen(true)}
+          onOpenAnimationExport={() => setIsAnimationExportOpen(true)}
+          onOpenDataMerge={() => setIsDataMergeOpen(true)}
+          onSaveProject={handleSaveProject}
+          onSaveTemplate={() => setIsTemplateOpen(true)}
+          onOpenProject={handleOpenProjectTrigger}
+          onOpenRecent={handleOpenRecent}
           onOpenSettings={() => setIsSettingsOpen(true)}
+          onOpenBrandKit={() => setIsBrandKitOpen(true)}
+          onOpenStyleLibrary={() => setIsStyleLibraryOpen(true)}
+          brandKit={brandKit}
+          customFonts={customFonts}
+          onUploadFonts={handleUploadFonts}
+          onDeleteCustomFont={handleDeleteCustomFont}
+          showFontDiagnostics={settings.showFontDebug}
+          onCloseFontDiagnostics={() => setSettings(prev => ({ ...prev, showFontDebug: false }))}
           onUndo={handleUndo}
           onRedo={handleRedo}
           onStamp={handleStamp}
@@ -715,6 +1228,7 @@ export default function App() {
           onError={handleApiError}
           groundingMetadata={groundingMetadata}
         />
+        )}
       </div>
 
       {/* Settings Modal */}
@@ -723,6 +1237,8 @@ export default function App() {
         onClose={() => setIsSettingsOpen(false)}
         settings={settings}
         onSettingsChange={setSettings}
+        profiles={settingsProfiles}
+        onProfilesChange={setSettingsProfiles}
       />
       
       {/* URL Import Modal */}
@@ -738,6 +1254,84 @@ export default function App() {
         onClose={() => setIsShortcutsOpen(false)}
       />
 
+      {/* Image Export Modal */}
+      <ExportModal
+        isOpen={isExportOpen}
+        onClose={() => setIsExportOpen(false)}
+        imageSrc={imageSrc}
+        onExport={handleDownload}
+      />
+
+      {/* PDF Export Modal */}
+      <PdfExportModal
+        isOpen={isPdfExportOpen}
+        onClose={() => setIsPdfExportOpen(false)}
+        historyCount={imageHistory.filter(item => item.src).length}
+        onExport={handleExportPdf}
+      />
+
+      {/* Animation Export Modal */}
+      <AnimationExportModal
+        isOpen={isAnimationExportOpen}
+        onClose={() => setIsAnimationExportOpen(false)}
+        scene={currentScene}
+        timelineDuration={design.animationDuration}
+        createRenderer={(scene, options) => canvasRef.current!.createSceneRenderer(scene, options)}
+        onExport={handleExportAnimation}
+      />
+
+      {/* Template Modal */}
+      <TemplateModal
+        isOpen={isTemplateOpen}
+        onClose={() => setIsTemplateOpen(false)}
+        design={design}
+        onSave={handleSaveTemplate}
+      />
+
+      {/* Brand Kit Modal */}
+      <BrandKitModal
+        isOpen={isBrandKitOpen}
+        onClose={() => setIsBrandKitOpen(false)}
+        brandKit={brandKit}
+        activeLayer={design.layers.find(l => l.id === design.activeLayerId) || null}
+        onSave={(kit) => {
+          setBrandKit(kit);
+          setIsBrandKitOpen(false);
+        }}
+      />
+
+      {/* Style Library Modal */}
+      <StyleLibraryModal
+        isOpen={isStyleLibraryOpen}
+        onClose={() => setIsStyleLibraryOpen(false)}
+        presets={stylePresets}
+        activeLayer={design.layers.find(l => l.id === design.activeLayerId) || null}
+        selectedCount={design.selectedLayerIds.length}
+        onSavePreset={handleSaveStylePreset}
+        onApplyPreset={handleApplyStylePreset}
+        onDeletePreset={(id) => setStylePresets(prev => prev.filter(p => p.id !== id))}
+      />
+
+      {/* Data Merge Modal */}
+      <DataMergeModal
+        isOpen={isDataMergeOpen}
+        onClose={() => setIsDataMergeOpen(false)}
+        scene={currentScene}
+        renderScene={(scene, options) => canvasRef.current!.renderScene(scene, options)}
+        onExport={handleExportDataMerge}
+      />
+
+      {/* Recent Projects / Session Restore Modal */}
+      <RecentProjectsModal
+        isOpen={recentProjectsState.isOpen}
+        isStartup={recentProjectsState.isStartup}
+        onClose={() => setRecentProjectsState(prev => ({ ...prev, isOpen: false }))}
+        sessions={recentSessions}
+        currentSessionId={imageSrc ? sessionIdRef.current : undefined}
+        onRestore={handleRestoreSession}
+        onDelete={handleDeleteSession}
+      />
+
       {/* Confirmation Modal for Blank Canvas */}
       <ConfirmationModal
         isOpen={isBlankConfirmOpen}
@@ -0,0 +1,78 @@
+import { existsSync } from 'node:fs';
+import { mkdir, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import { FontFaceSource, FontManifest } from '../types';
+import { FONT_SOURCES } from '../constants';
+import { FONT_MANIFEST_VERSION, getGoogleFontsUrl, parseFontFaceCss } from '../utils/fontManifest';
+
+/**
+ * Builds the self-hosted font bundle the app loads instead of Google Fonts: downloads every catalog
+ * family as TTF into public/fonts and writes public/fonts/manifest.json. Run it once with network
+ * access and deploy the folder with the app; re-running only downloads files that are missing.
+ *
+ *   npm run fonts:fetch -- --out public/fonts
+ */
+
+const USAGE = `Usage: fonts:fetch [options]
+
+Options:
+  --out <dir>            Bundle directory served at fonts/ (default public/fonts)`;
+
+// Without a browser User-Agent Google Fonts serves whole TTF files rather than WOFF2 unicode-range
+// subsets, so the app can parse the bundle (PDF outlines, variable axes, OpenType features) and
+// the CLI can load it
+const fetchOk = async (url: string) => {
+  const res = await fetch(url);
+  if (!res.ok) throw new Error(`Request failed (${res.status}): ${url}`);
+  return res;
+};
+
+const fetchFamily = async (family: string, outDir: string): Promise<FontFaceSource[]> => {
+  const css = await (await fetchOk(getGoogleFontsUrl([family]))).text();
+  const faces = parseFontFaceCss(css);
+  if (faces.length === 0) throw new Error(`Google Fonts returned no faces for ${family}`);
+
+  const slug = family.toLowerCase().replace(/[^a-z0-9]+/g, '-');
+  return Promise.all(faces.map(async face => {
+    // The file names Google assigns are stable, so they double as cache keys for re-runs
+    const fileName = `${slug}-${path.basename(new URL(face.src).pathname)}`;
+    const filePath = path.join(outDir, fileName);
+    if (!existsSync(filePath)) {
+      await writeFile(filePath, Buffer.from(await (await fetchOk(face.src)).arrayBuffer()));
+    }
+    return { ...face, src: fileName };
+  }));
+};
+
+const main = async () => {
+  const { values } = parseArgs({
+    options: {
+      out: { type: 'string', default: path.join('public', 'fonts') },
+      help: { type: 'boolean', short: 'h', default: false }
+    }
+  });
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+
+  const outDir = values.out!;
+  await mkdir(outDir, { recursive: true });
+
+  const faces: FontFaceSource[] = [];
+  for (const family of Object.keys(FONT_SOURCES)) {
+    const familyFaces = await fetchFamily(family, outDir);
+    console.log(`${family}: ${familyFaces.length} files`);
+    faces.push(...familyFaces);
+  }
+
+  const manifest: FontManifest = { version: FONT_MANIFEST_VERSION, faces };
+  await writeFile(path.join(outDir, 'manifest.json'), JSON.stringify(manifest, null, 2));
+  console.log(`Wrote ${path.join(outDir, 'manifest.json')} (${faces.length} faces)`);
+};
+
+main().catch((e) => {
+  console.error(`fonts:fetch: ${e instanceof Error ? e.message : e}`);
+  process.exitCode = 1;
+});
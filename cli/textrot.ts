@@ -0,0 +1,199 @@
+import { existsSync } from 'node:fs';
+import { readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import { createCanvas, GlobalFonts, loadImage } from '@napi-rs/canvas';
+import { RenderContext2D, TextLayer } from '../types';
+import { MAX_CANVAS_PIXELS, MAX_CANVAS_SIDE } from '../constants';
+import { parseProject } from '../utils/projectFile';
+import { extractEmbeddedFonts } from '../utils/customFonts';
+import { resolveLayersAtTime } from '../utils/keyframes';
+import { drawScene, scaleLayerGeometry } from '../utils/layerRenderer';
+import { getFontLayers, updateRunsForEdit } from '../utils/textRuns';
+
+/**
+ * Headless renderer for pipelines: draws a saved project with the same layer renderer as the app,
+ * on a Skia canvas with fonts from local directories and the project's embedded fonts. Nothing is
+ * fetched from the network.
+ *
+ *   npm run textrot -- render project.textrot --out poster.png --scale 2 --set "Title.textOverlay=Hello"
+ */
+
+const USAGE = `Usage: textrot render <project> --out <file> [options]
+
+Options:
+  --out <file>           Output image (.png, .jpg, .jpeg or .webp)
+  --scale <n>            Output size relative to the background image (default 1)
+  --quality <0-1>        JPEG/WebP quality (default 0.92)
+  --time <seconds>       Point in the keyframe animation to render (default 0)
+  --fonts <dir>          Directory of .ttf/.otf/.woff2 files; repeatable (default: the public/fonts
+                         bundle from fonts:fetch, plus ./fonts when present)
+  --set <layer.prop=v>   Override a layer property by layer name, e.g. Title.textOverlay=Hello
+                         or Title.overlayPosition.x=40; repeatable. \\n in text becomes a newline.
+  --text-only            Render layers on transparency without the background`;
+
+// The catalog bundle written by fonts:fetch, then a local directory of extra fonts
+const DEFAULT_FONT_DIRS = [path.join('public', 'fonts'), 'fonts'];
+
+const OUTPUT_FORMATS: Record<string, 'png' | 'jpeg' | 'webp'> = {
+  '.png': 'png',
+  '.jpg': 'jpeg',
+  '.jpeg': 'jpeg',
+  '.webp': 'webp'
+};
+
+// Coerces the override to the type of the value it replaces
+const coerceValue = (current: unknown, raw: string, key: string): unknown => {
+  if (typeof current === 'number') {
+    const value = Number(raw);
+    if (raw.trim() === '' || isNaN(value)) throw new Error(`Override ${key} expects a number, got "${raw}"`);
+    return value;
+  }
+  if (typeof current === 'boolean') {
+    if (raw !== 'true' && raw !== 'false') throw new Error(`Override ${key} expects true or false, got "${raw}"`);
+    return raw === 'true';
+  }
+  if (typeof current === 'string') return raw.replace(/\\n/g, '\n');
+  throw new Error(`Override ${key} targets a property that can't be set from the command line`);
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+/**
+ * Applies `layerName.path.to.prop=value` overrides. Layer names may contain dots, so the longest
+ * matching name wins; layer ids are accepted as well.
+ */
+const applyOverrides = (layers: TextLayer[], overrides: string[]): TextLayer[] => {
+  let result = layers;
+  for (const override of overrides) {
+    const eq = override.indexOf('=');
+    if (eq === -1) throw new Error(`Override "${override}" must look like layerName.property=value`);
+    const target = override.slice(0, eq);
+    const raw = override.slice(eq + 1);
+
+    const layer = result
+      .filter(l => target.startsWith(`${l.name}.`) || target.startsWith(`${l.id}.`))
+      .sort((a, b) => b.name.length - a.name.length)[0];
+    if (!layer) throw new Error(`Override "${override}" doesn't match any layer name`);
+
+    const propPath = target.slice((target.startsWith(`${layer.name}.`) ? layer.name : layer.id).length + 1).split('.');
+    const updated = structuredClone(layer);
+    // The path comes from the command line, so walk it through an untyped view of the copy
+    const root = updated as unknown as Record<string, unknown>;
+    let parent = root;
+    for (const segment of propPath.slice(0, -1)) {
+      const child = parent[segment];
+      if (!isRecord(child)) throw new Error(`Unknown layer property "${propPath.join('.')}"`);
+      parent = child;
+    }
+    const prop = propPath[propPath.length - 1];
+    if (!(prop in parent)) throw new Error(`Unknown layer property "${propPath.join('.')}"`);
+    parent[prop] = coerceValue(parent[prop], raw, target);
+    // Styled runs follow the new wording as they would when it is typed in the editor
+    if (parent === root && prop === 'textOverlay') updated.textRuns = updateRunsForEdit(layer.textRuns, layer.textOverlay, updated.textOverlay);
+
+    result = result.map(l => l.id === layer.id ? updated : l);
+  }
+  return result;
+};
+
+// Number() reads an empty option as 0; treat it as missing so the checks in render reject it
+const parseNumber = (raw: string | undefined) => raw === undefined || raw.trim() === '' ? NaN : Number(raw);
+
+const decodeImageSrc = (imageSrc: string): Buffer => {
+  const match = imageSrc.match(/^data:[^;,]*(;base64)?,(.*)$/s);
+  if (!match) throw new Error("The project's background is not embedded; only data URL backgrounds can be rendered offline");
+  return match[1] ? Buffer.from(match[2], 'base64') : Buffer.from(decodeURIComponent(match[2]));
+};
+
+const render = async (projectPath: string, options: {
+  out: string;
+  scale: number;
+  quality: number;
+  time: number;
+  fonts: string[];
+  overrides: string[];
+  textOnly: boolean;
+}) => {
+  const format = OUTPUT_FORMATS[path.extname(options.out).toLowerCase()];
+  if (!format) throw new Error(`Unsupported output type "${path.extname(options.out)}"; use .png, .jpg or .webp`);
+  if (!(options.scale > 0)) throw new Error("--scale must be a positive number");
+  if (!(options.quality >= 0 && options.quality <= 1)) throw new Error("--quality must be a number between 0 and 1");
+  if (!Number.isFinite(options.time)) throw new Error("--time must be a number of seconds");
+
+  for (const dir of options.fonts) {
+    if (!existsSync(dir)) throw new Error(`Font directory not found: ${dir}`);
+    GlobalFonts.loadFontsFromDir(path.resolve(dir));
+  }
+
+  const project = parseProject(await readFile(projectPath, 'utf8'));
+  if (!project.imageSrc) throw new Error("The project has no background image");
+
+  // Uploaded fonts travel inside the project file, so they need no local copy
+  extractEmbeddedFonts(project.fonts).forEach(font => GlobalFonts.register(Buffer.from(font.data), font.family));
+
+  const background = await loadImage(decodeImageSrc(project.imageSrc));
+  const width = Math.round(background.width * options.scale);
+  const height = Math.round(background.height * options.scale);
+  if (width > MAX_CANVAS_SIDE || height > MAX_CANVAS_SIDE || width * height > MAX_CANVAS_PIXELS) {
+    throw new Error(`Export size ${width}x${height} exceeds the canvas limit`);
+  }
+
+  const layers = resolveLayersAtTime(applyOverrides(project.design.layers, options.overrides), options.time)
+    .map(layer => scaleLayerGeometry(layer, options.scale));
+
+  const missing = Array.from(new Set(layers.filter(l => l.visible).flatMap(getFontLayers).map(l => l.fontFamily))).filter(f => !GlobalFonts.has(f));
+  if (missing.length > 0) console.warn(`Warning: no local font for ${missing.join(', ')}; a fallback font will be used`);
+
+  const canvas = createCanvas(width, height);
+  const scratch = createCanvas(width, height);
+  // Skia's context implements the same 2D API the renderer is written against
+  drawScene(canvas.getContext('2d') as unknown as RenderContext2D, scratch.getContext('2d') as unknown as RenderContext2D, {
+    background: options.textOnly ? null : background as unknown as CanvasImageSource,
+    backgroundType: project.design.backgroundType,
+    backgroundColor: project.design.backgroundColor,
+    layers
+  });
+
+  const data = format === 'png' ? await canvas.encode('png') : await canvas.encode(format, Math.round(options.quality * 100));
+  await writeFile(options.out, data);
+  console.log(`Wrote ${options.out} (${width}x${height})`);
+};
+
+const main = async () => {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      out: { type: 'string', short: 'o' },
+      scale: { type: 'string', default: '1' },
+      quality: { type: 'string', default: '0.92' },
+      time: { type: 'string', default: '0' },
+      fonts: { type: 'string', multiple: true },
+      set: { type: 'string', multiple: true },
+      'text-only': { type: 'boolean', default: false },
+      help: { type: 'boolean', short: 'h', default: false }
+    }
+  });
+
+  const [command, projectPath] = positionals;
+  if (values.help || command !== 'render' || !projectPath || !values.out) {
+    console.log(USAGE);
+    process.exitCode = values.help ? 0 : 1;
+    return;
+  }
+
+  await render(projectPath, {
+    out: values.out,
+    scale: parseNumber(values.scale),
+    quality: parseNumber(values.quality),
+    time: parseNumber(values.time),
+    fonts: values.fonts || DEFAULT_FONT_DIRS.filter(dir => existsSync(dir)),
+    overrides: values.set || [],
+    textOnly: values['text-only'] ?? false
+  });
+};
+
+main().catch((e) => {
+  console.error(`textrot: ${e instanceof Error ? e.message : e}`);
+  process.exitCode = 1;
+});
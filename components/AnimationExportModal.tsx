@@ -0,0 +1,244 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { X, Film, Loader2, AlertTriangle } from 'lucide-react';
+import { SceneSnapshot } from '../types';
+import { SceneRenderOptions, SceneRenderer } from './Canvas';
+import { AnimationExportOptions, AnimationFormat, hasAnimatedEffects, isWebmSupported } from '../services/animationExport';
+import SliderControl from './SliderControl';
+
+interface AnimationExportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  scene: SceneSnapshot | null;
+  timelineDuration: number;
+  createRenderer: (scene: SceneSnapshot, options?: SceneRenderOptions) => Promise<SceneRenderer>;
+  onExport: (options: AnimationExportOptions, onProgress: (frame: number, total: number) => void) => Promise<void>;
+}
+
+const FPS_OPTIONS = [10, 15, 24, 30];
+const PREVIEW_WIDTH = 400;
+
+const AnimationExportModal: React.FC<AnimationExportModalProps> = ({ isOpen, onClose, scene, timelineDuration, createRenderer, onExport }) => {
+  const [options, setOptions] = useState<AnimationExportOptions>({
+    format: isWebmSupported() ? 'webm' : 'gif',
+    duration: 3,
+    fps: 24,
+    loop: true,
+    scale: 1
+  });
+  const [imageSize, setImageSize] = useState<{ width: number; height: number } | null>(null);
+  const [progress, setProgress] = useState<{ frame: number; total: number } | null>(null);
+  const previewRef = useRef<HTMLCanvasElement>(null);
+
+  // Keyframed designs export the whole timeline by default
+  useEffect(() => {
+    if (isOpen) setOptions(prev => ({ ...prev, duration: Math.min(30, timelineDuration) }));
+  }, [isOpen, timelineDuration]);
+
+  useEffect(() => {
+    if (!isOpen || !scene) return;
+    const img = new Image();
+    img.onload = () => setImageSize({ width: img.naturalWidth, height: img.naturalHeight });
+    img.src = scene.imageSrc;
+  }, [isOpen, scene]);
+
+  // Live preview: a small renderer looping the animation in real time
+  useEffect(() => {
+    if (!isOpen || !scene || !imageSize || progress) return;
+    let renderer: SceneRenderer | null = null;
+    let rafId = 0;
+    let cancelled = false;
+
+    createRenderer(scene, { scale: Math.min(1, PREVIEW_WIDTH / imageSize.width) }).then(r => {
+      if (cancelled) return r.dispose();
+      renderer = r;
+      const start = performance.now();
+      const tick = () => {
+        const preview = previewRef.current;
+        if (preview && renderer) {
+          const time = ((performance.now() - start) / 1000) % options.duration;
+          // Step at the export frame rate so the preview shows what will be encoded
+          const frameTime = Math.floor(time * options.fps) / options.fps;
+          const frame = renderer.render({ time: frameTime, duration: options.duration });
+          preview.width = frame.width;
+          preview.height = frame.height;
+          preview.getContext('2d')?.drawImage(frame, 0, 0);
+        }
+        rafId = requestAnimationFrame(tick);
+      };
+      tick();
+    }).catch(e => console.warn("Animation preview failed", e));
+
+    return () => {
+      cancelled = true;
+      cancelAnimationFrame(rafId);
+      renderer?.dispose();
+    };
+  }, [isOpen, scene, imageSize, options.duration, options.fps, progress !== null]);
+
+  if (!isOpen) return null;
+
+  const isExporting = progress !== null;
+  const update = (changes: Partial<AnimationExportOptions>) => setOptions(prev => ({ ...prev, ...changes }));
+  const isAnimated = scene ? hasAnimatedEffects(scene.layers) : false;
+  const totalFrames = Math.max(1, Math.round(options.duration * options.fps));
+
+  const handleExport = async () => {
+    setProgress({ frame: 0, total: totalFrames });
+    try {
+      await onExport(options, (frame, total) => setProgress({ frame, total }));
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const optionClass = (active: boolean) =>
+    `flex-1 py-2 text-xs font-medium rounded-[3px] border transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${
+      active ? 'bg-pink-500/10 border-pink-500 text-pink-400' : 'bg-neutral-950 border-neutral-800 text-neutral-400 hover:border-neutral-600'
+    }`;
+
+  const formatLabels: Record<AnimationFormat, string> = { webm: 'WebM Video', gif: 'Animated GIF' };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center">
+      {/* Backdrop */}
+      <div
+        className="absolute inset-0 bg-black/60 backdrop-blur-sm transition-opacity duration-300"
+        onClick={isExporting ? undefined : onClose}
+      />
+
+      {/* Modal Content */}
+      <div className="relative bg-neutral-900 border border-neutral-800 rounded-lg w-full max-w-lg shadow-2xl overflow-hidden animate-in zoom-in-95 duration-200">
+        <div className="p-6">
+            <div className="flex items-center justify-between mb-6">
+                <div className="flex items-center gap-3">
+                    <div className="w-10 h-10 rounded-full bg-neutral-800 flex items-center justify-center text-pink-500 border border-neutral-700">
+                        <Film size={20} />
+                    </div>
+                    <div>
+                        <h3 className="text-lg font-bold text-white">Export Animation</h3>
+                        <p className="text-xs text-neutral-400">Keyframes, glitch jitter, echo drift and rainbow cycling</p>
+                    </div>
+                </div>
+                <button onClick={onClose} disabled={isExporting} className="text-neutral-500 hover:text-white transition-colors disabled:opacity-40">
+                    <X size={20} />
+                </button>
+            </div>
+
+            <div className="bg-neutral-950 border border-neutral-800 rounded-[3px] flex items-center justify-center mb-5 min-h-[120px] overflow-hidden">
+                {isExporting ? (
+                    <div className="py-10 text-xs text-neutral-400 flex items-center gap-2">
+                        <Loader2 size={14} className="animate-spin text-pink-500" />
+                        Frame {progress.frame} of {progress.total}
+                    </div>
+                ) : (
+                    <canvas ref={previewRef} className="max-w-full max-h-56" />
+                )}
+            </div>
+
+            {!isAnimated && (
+                <p className="text-[10px] text-amber-400 flex items-center gap-1.5 mb-4">
+                    <AlertTriangle size={12} /> No visible layer has keyframes or uses glitch or echo, so every frame will look the same.
+                </p>
+            )}
+
+            <div className="space-y-5">
+                <div>
+                    <label className="block text-[10px] font-bold text-neutral-500 mb-2 uppercase tracking-wider">Format</label>
+                    <div className="flex gap-2">
+                        {(['webm', 'gif'] as AnimationFormat[]).map(value => (
+                            <button
+                                key={value}
+                                onClick={() => update({ format: value })}
+                                disabled={isExporting || (value === 'webm' && !isWebmSupported())}
+                                className={optionClass(options.format === value)}
+                            >
+                                {formatLabels[value]}
+                            </button>
+                        ))}
+                    </div>
+                    <p className="text-[10px] text-neutral-500 mt-1.5">
+                        {options.format === 'webm'
+                            ? 'Recorded in real time; takes as long as the animation. Looping is up to the player.'
+                            : 'Limited to 256 colors per frame. Keep the size down for smaller files.'}
+                    </p>
+                </div>
+
+                <SliderControl
+                    label="Duration"
+                    value={options.duration}
+                    setValue={(v) => update({ duration: v })}
+                    min={1}
+                    max={30}
+                    step={0.5}
+                    suffix="s"
+                    defaultValue={3}
+                />
+
+                <div>
+                    <label className="block text-[10px] font-bold text-neutral-500 mb-2 uppercase tracking-wider">Frame Rate</label>
+                    <div className="flex gap-2">
+                        {FPS_OPTIONS.map(value => (
+                            <button key={value} onClick={() => update({ fps: value })} disabled={isExporting} className={optionClass(options.fps === value)}>
+                                {value} fps
+                            </button>
+                        ))}
+                    </div>
+                </div>
+
+                <div>
+                    <SliderControl
+                        label="Size"
+                        value={options.scale}
+                        setValue={(v) => update({ scale: v })}
+                        min={0.25}
+                        max={1}
+                        step={0.05}
+                        suffix="x"
+                        defaultValue={1}
+                    />
+                    {imageSize && (
+                        <p className="text-[10px] text-neutral-500 mt-1.5">
+                            {Math.round(imageSize.width * options.scale)} × {Math.round(imageSize.height * options.scale)} px · {totalFrames} frames
+                        </p>
+                    )}
+                </div>
+
+                {options.format === 'gif' && (
+                    <div className="flex items-center justify-between">
+                        <div>
+                            <h3 className="text-xs font-medium text-white">Loop</h3>
+                            <p className="text-[10px] text-neutral-500">{options.loop ? 'Repeats forever' : 'Plays once'}</p>
+                        </div>
+                        <button
+                            onClick={() => update({ loop: !options.loop })}
+                            className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors duration-200 focus:outline-none ${options.loop ? 'bg-pink-500' : 'bg-neutral-700'}`}
+                        >
+                            <span className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform duration-200 ${options.loop ? 'translate-x-6' : 'translate-x-1'}`} />
+                        </button>
+                    </div>
+                )}
+            </div>
+
+            <div className="flex gap-3 mt-6">
+                <button
+                    onClick={onClose}
+                    disabled={isExporting}
+                    className="flex-1 py-2.5 px-4 bg-neutral-800 hover:bg-neutral-700 text-neutral-300 rounded-[3px] text-xs font-medium transition-colors disabled:opacity-40"
+                >
+                    Cancel
+                </button>
+                <button
+                    onClick={handleExport}
+                    disabled={isExporting || !scene}
+                    className="flex-1 py-2.5 px-4 bg-pink-600 hover:bg-pink-500 disabled:bg-neutral-700 text-white rounded-[3px] text-xs font-bold transition-colors flex items-center justify-center gap-2"
+                >
+                    {isExporting ? <><Loader2 size={14} className="animate-spin" /> Exporting...</> : `Export ${options.format === 'gif' ? 'GIF' : 'WebM'}`}
+                </button>
+            </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AnimationExportModal;
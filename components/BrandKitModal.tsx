@@ -0,0 +1,251 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { X, SwatchBook, Plus, Trash2, Upload, Download, Pipette } from 'lucide-react';
+import { BrandKit, FontFamily, TextLayer } from '../types';
+import { FONTS } from '../constants';
+import { captureBrandStyle, createBrandKit } from '../utils/brandKit';
+import { parseBrandKit, serializeBrandKit } from '../services/brandKitStore';
+
+interface BrandKitModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  brandKit: BrandKit | null;
+  activeLayer: TextLayer | null;
+  onSave: (kit: BrandKit | null) => void;
+}
+
+const STYLE_LABELS: Record<string, string> = {
+  fontFamily: 'Font',
+  textColor: 'Text color',
+  textSize: 'Size',
+  letterSpacing: 'Spacing',
+  isBold: 'Bold',
+  isItalic: 'Italic',
+  isUppercase: 'Uppercase',
+  hasShadow: 'Shadow',
+  shadowColor: 'Shadow color',
+  shadowBlur: 'Shadow blur',
+  shadowOffset: 'Shadow offset',
+  shadowAngle: 'Shadow angle',
+  shadowOpacity: 'Shadow opacity',
+  hasOutline: 'Outline',
+  outlineWidth: 'Outline width',
+  outlineColor: 'Outline color'
+};
+
+const BrandKitModal: React.FC<BrandKitModalProps> = ({ isOpen, onClose, brandKit, activeLayer, onSave }) => {
+  const [kit, setKit] = useState<BrandKit>(createBrandKit());
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Edit a copy so Cancel leaves the active kit untouched
+  useEffect(() => {
+    if (!isOpen) return;
+    setKit(brandKit ? { ...brandKit, swatches: [...brandKit.swatches], fonts: [...brandKit.fonts] } : createBrandKit());
+    setError(null);
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const updateSwatch = (index: number, changes: Partial<BrandKit['swatches'][number]>) =>
+    setKit(prev => ({ ...prev, swatches: prev.swatches.map((s, i) => i === index ? { ...s, ...changes } : s) }));
+
+  const toggleFont = (font: FontFamily) =>
+    setKit(prev => ({
+      ...prev,
+      fonts: prev.fonts.includes(font) ? prev.fonts.filter(f => f !== font) : FONTS.filter(f => f === font || prev.fonts.includes(f))
+    }));
+
+  const handleImport = async (file: File) => {
+    try {
+      setKit(parseBrandKit(await file.text()));
+      setError(null);
+    } catch (e: any) {
+      setError(e.message || "Could not read the brand kit.");
+    }
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([serializeBrandKit(kit)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${kit.name.replace(/[^a-z0-9-_ ]/gi, '').trim() || 'brand-kit'}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const styleKeys = Object.keys(kit.layerStyle);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center">
+      {/* Backdrop */}
+      <div
+        className="absolute inset-0 bg-black/60 backdrop-blur-sm transition-opacity duration-300"
+        onClick={onClose}
+      />
+
+      {/* Modal Content */}
+      <div className="relative bg-neutral-900 border border-neutral-800 rounded-lg w-full max-w-lg max-h-[90vh] shadow-2xl overflow-hidden flex flex-col animate-in zoom-in-95 duration-200">
+        <div className="p-6 overflow-y-auto custom-scrollbar">
+            <div className="flex items-center justify-between mb-6">
+                <div className="flex items-center gap-3">
+                    <div className="w-10 h-10 rounded-full bg-neutral-800 flex items-center justify-center text-pink-500 border border-neutral-700">
+                        <SwatchBook size={20} />
+                    </div>
+                    <div>
+                        <h3 className="text-lg font-bold text-white">Brand Kit</h3>
+                        <p className="text-xs text-neutral-400">Shared colors, fonts and a default layer style</p>
+                    </div>
+                </div>
+                <button onClick={onClose} className="text-neutral-500 hover:text-white transition-colors">
+                    <X size={20} />
+                </button>
+            </div>
+
+            <input
+                type="file"
+                ref={fileInputRef}
+                className="hidden"
+                accept=".json,application/json"
+                onChange={(e) => {
+                    if (e.target.files?.[0]) handleImport(e.target.files[0]);
+                    e.target.value = '';
+                }}
+            />
+
+            <div className="space-y-5">
+                <div className="flex gap-2">
+                    <button
+                        onClick={() => fileInputRef.current?.click()}
+                        className="flex-1 py-2 px-3 bg-neutral-950 border border-neutral-800 hover:border-neutral-600 rounded-[3px] text-xs text-neutral-300 flex items-center justify-center gap-2 transition-colors"
+                    >
+                        <Upload size={14} /> Import JSON
+                    </button>
+                    <button
+                        onClick={handleExport}
+                        className="flex-1 py-2 px-3 bg-neutral-950 border border-neutral-800 hover:border-neutral-600 rounded-[3px] text-xs text-neutral-300 flex items-center justify-center gap-2 transition-colors"
+                    >
+                        <Download size={14} /> Export JSON
+                    </button>
+                </div>
+                {error && <p className="text-[10px] text-red-400 -mt-3">{error}</p>}
+
+                <div>
+                    <label className="block text-[10px] font-bold text-neutral-500 mb-2 uppercase tracking-wider">Kit Name</label>
+                    <input
+                        type="text"
+                        value={kit.name}
+                        onChange={(e) => setKit(prev => ({ ...prev, name: e.target.value }))}
+                        className="w-full bg-neutral-950 border border-neutral-800 rounded-[3px] px-3 py-2 text-xs text-white focus:outline-none focus:border-pink-500"
+                    />
+                </div>
+
+                <div>
+                    <label className="block text-[10px] font-bold text-neutral-500 mb-2 uppercase tracking-wider">Swatches</label>
+                    <div className="space-y-1.5">
+                        {kit.swatches.map((swatch, i) => (
+                            <div key={i} className="flex items-center gap-2 bg-neutral-950 border border-neutral-800 rounded-[3px] p-1 h-9">
+                                <input
+                                    type="color"
+                                    value={swatch.color}
+                                    onChange={(e) => updateSwatch(i, { color: e.target.value })}
+                                    className="w-10 h-full rounded-[2px] cursor-pointer bg-transparent border-none"
+                                />
+                                <input
+                                    type="text"
+                                    value={swatch.name}
+                                    onChange={(e) => updateSwatch(i, { name: e.target.value })}
+                                    className="flex-1 bg-transparent text-xs text-white focus:outline-none"
+                                />
+                                <span className="text-[10px] font-mono text-neutral-500">{swatch.color}</span>
+                                <button
+                                    onClick={() => setKit(prev => ({ ...prev, swatches: prev.swatches.filter((_, j) => j !== i) }))}
+                                    className="p-1.5 text-neutral-500 hover:text-red-400 transition-colors"
+                                >
+                                    <Trash2 size={12} />
+                                </button>
+                            </div>
+                        ))}
+                        <button
+                            onClick={() => setKit(prev => ({ ...prev, swatches: [...prev.swatches, { name: `Color ${prev.swatches.length + 1}`, color: '#ffffff' }] }))}
+                            className="w-full py-2 border border-dashed border-neutral-700 hover:border-pink-500 rounded-[3px] text-xs text-neutral-400 flex items-center justify-center gap-2 transition-colors"
+                        >
+                            <Plus size={12} /> Add Swatch
+                        </button>
+                    </div>
+                </div>
+
+                <div>
+                    <label className="block text-[10px] font-bold text-neutral-500 mb-2 uppercase tracking-wider">
+                        Fonts {kit.fonts.length > 0 ? `(${kit.fonts.length})` : '(all allowed)'}
+                    </label>
+                    <div className="max-h-40 overflow-y-auto custom-scrollbar bg-neutral-950 border border-neutral-800 rounded-[3px] p-2 grid grid-cols-2 gap-1">
+                        {FONTS.map(font => (
+                            <label key={font} className="flex items-center gap-2 text-xs text-neutral-300 cursor-pointer truncate">
+                                <input
+                                    type="checkbox"
+                                    checked={kit.fonts.includes(font)}
+                                    onChange={() => toggleFont(font)}
+                                    className="accent-pink-500"
+                                />
+                                <span className="truncate" style={{ fontFamily: `"${font}"` }}>{font}</span>
+                            </label>
+                        ))}
+                    </div>
+                </div>
+
+                <div>
+                    <label className="block text-[10px] font-bold text-neutral-500 mb-2 uppercase tracking-wider">Default Layer Style</label>
+                    <p className="text-[10px] text-neutral-500 mb-2">
+                        {styleKeys.length > 0
+                            ? `New layers use: ${styleKeys.map(key => STYLE_LABELS[key] || key).join(', ')}.`
+                            : 'New layers use the standard defaults.'}
+                    </p>
+                    <div className="flex gap-2">
+                        <button
+                            onClick={() => activeLayer && setKit(prev => ({ ...prev, layerStyle: captureBrandStyle(activeLayer) }))}
+                            disabled={!activeLayer}
+                            className="flex-1 py-2 px-3 bg-neutral-800 hover:bg-neutral-700 disabled:opacity-40 disabled:cursor-not-allowed text-neutral-300 rounded-[3px] text-xs font-medium flex items-center justify-center gap-2 transition-colors"
+                        >
+                            <Pipette size={12} /> Use Active Layer
+                        </button>
+                        <button
+                            onClick={() => setKit(prev => ({ ...prev, layerStyle: {} }))}
+                            disabled={styleKeys.length === 0}
+                            className="flex-1 py-2 px-3 bg-neutral-800 hover:bg-neutral-700 disabled:opacity-40 disabled:cursor-not-allowed text-neutral-300 rounded-[3px] text-xs font-medium transition-colors"
+                        >
+                            Clear Style
+                        </button>
+                    </div>
+                </div>
+            </div>
+
+            <div className="flex gap-3 mt-6">
+                {brandKit && (
+                    <button
+                        onClick={() => onSave(null)}
+                        className="py-2.5 px-4 bg-neutral-800 hover:bg-red-900/50 text-red-400 rounded-[3px] text-xs font-medium transition-colors"
+                    >
+                        Remove Kit
+                    </button>
+                )}
+                <button
+                    onClick={onClose}
+                    className="flex-1 py-2.5 px-4 bg-neutral-800 hover:bg-neutral-700 text-neutral-300 rounded-[3px] text-xs font-medium transition-colors"
+                >
+                    Cancel
+                </button>
+                <button
+                    onClick={() => onSave({ ...kit, name: kit.name.trim() || 'Brand Kit' })}
+                    className="flex-1 py-2.5 px-4 bg-pink-600 hover:bg-pink-500 text-white rounded-[3px] text-xs font-bold transition-colors"
+                >
+                    Save Kit
+                </button>
+            </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BrandKitModal;
@@ -0,0 +1,34 @@
+import React from 'react';
+import { BrandSwatch } from '../types';
+
+interface BrandSwatchesProps {
+  swatches: BrandSwatch[];
+  value: string;
+  onSelect: (color: string) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Brand kit colors shown under a color picker. Renders nothing without a kit.
+ */
+const BrandSwatches: React.FC<BrandSwatchesProps> = ({ swatches, value, onSelect, disabled }) => {
+  if (swatches.length === 0) return null;
+
+  return (
+    <div className={`flex flex-wrap gap-1 mt-1.5 ${disabled ? 'opacity-50 pointer-events-none' : ''}`}>
+      {swatches.map((swatch, i) => (
+        <button
+          key={`${swatch.color}-${i}`}
+          onClick={() => onSelect(swatch.color)}
+          title={`${swatch.name} (${swatch.color})`}
+          className={`w-4 h-4 rounded-[2px] border transition-transform hover:scale-110 ${
+            value.toLowerCase() === swatch.color ? 'border-pink-500 ring-1 ring-pink-500' : 'border-neutral-700'
+          }`}
+          style={{ backgroundColor: swatch.color }}
+        />
+      ))}
+    </div>
+  );
+};
+
+export default BrandSwatches;
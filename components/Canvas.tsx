@@ -1,8 +1,19 @@
 
 
 import React, { useRef, useState, forwardRef, useImperativeHandle, useEffect, useCallback, useLayoutEffect } from 'react';
-import { DesignState, Point, TextLayer } from '../types';
+import { DesignState, ImageExportOptions, Point, SceneSnapshot, TextLayer, TextRunStyle } from '../types';
 import { Upload, Maximize2, PenTool, RotateCw, Move as MoveIcon } from 'lucide-react';
+import { IMAGE_EXPORT_FORMATS, MAX_CANVAS_PIXELS, MAX_CANVAS_SIDE } from '../constants';
+import { hexToRgba } from '../utils/color';
+import { getSmoothedPoints, getPathBounds } from '../utils/geometry';
+import { calculatePathLayout, calculateStandardLayout, canShapeWords, getBaselineShift, getLineSegments, getStyledLines, isRtlLayer, joinStyledClusters, measureTextLayout, measureVerticalColumns } from '../utils/textLayout';
+import { getRunLayer, getRunScale } from '../utils/textRuns';
+import { EffectFrame } from '../utils/effectAnimation';
+import { resolveLayersAtTime } from '../utils/keyframes';
+import { constructCanvasFont, getFontFeatureSettings, getFontVariationSettings, isShadowSupported } from '../utils/typography';
+import { canRenderInWorker, renderSceneInWorker } from '../services/workerRenderer';
+import { ensureFontsReady, preloadFonts } from '../services/fontLoader';
+import { LayerPasses, drawLayerToCtx, drawScene, scaleLayerGeometry } from '../utils/layerRenderer';
 
 interface CanvasProps {
   imageSrc: string | null;
@@ -15,508 +26,150 @@ interface CanvasProps {
   onLayerDoubleClicked?: (layerId: string) => void;
 }
 
+export interface LayerRasters {
+  width: number;
+  height: number;
+  background: ImageData;
+  layers: { layer: TextLayer; imageData: ImageData }[];
+  composite: ImageData;
+}
+
+export interface SceneRenderOptions {
+  scale?: number;
+  includeBackground?: boolean;
+  // Per-layer choice of which passes to draw; layers default to 'all'
+  layerPasses?: (layer: TextLayer) => LayerPasses;
+}
+
+export interface SceneImageOptions extends SceneRenderOptions {
+  mimeType: string;
+  quality?: number;
+}
+
+export interface SceneRenderer {
+  canvas: HTMLCanvasElement;
+  render: (frame?: EffectFrame) => HTMLCanvasElement;
+  dispose: () => void;
+}
+
 export interface CanvasHandle {
-  exportImage: () => Promise<string>;
+  exportImage: (options?: ImageExportOptions, onProgress?: (done: number, total: number) => void) => Promise<string>;
+  exportLayers: () => Promise<LayerRasters>;
+  renderScene: (scene: SceneSnapshot, options?: SceneRenderOptions) => Promise<HTMLCanvasElement>;
+  createSceneRenderer: (scene: SceneSnapshot, options?: SceneRenderOptions) => Promise<SceneRenderer>;
+  renderSceneImage: (scene: SceneSnapshot, options: SceneImageOptions, onProgress?: (done: number, total: number) => void) => Promise<Blob>;
   triggerFileUpload: () => void;
-  stampLayers: (layerIds: string[]) => Promise<string>;
+  stampLayers: (layerIds: string[], onProgress?: (done: number, total: number) => void) => Promise<string>;
   resetView: () => void;
 }
 
-// Helper: Hex to RGB
-const hexToRgb = (hex: string) => {
-  const result = /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i.exec(hex);
-  return result ? {
-    r: parseInt(result[1], 16),
-    g: parseInt(result[2], 16),
-    b: parseInt(result[3], 16)
-  } : { r: 0, g: 0, b: 0 };
-};
-
-// Helper: Hex to RGBA
-const hexToRgba = (hex: string, alpha: number) => {
-    const rgb = hexToRgb(hex);
-    return `rgba(${rgb.r}, ${rgb.g}, ${rgb.b}, ${alpha})`;
-};
+const blobToDataUrl = (blob: Blob) => new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+});
 
-// Helper: Check if font supports external CSS shadows
-const isShadowSupported = (fontFamily: string) => {
-    // Honk has baked-in shadows/3D effects controlled by axes
-    return fontFamily !== 'Honk'; 
-};
+const loadImage = (src: string) => new Promise<HTMLImageElement>((resolve, reject) => {
+    const img = new Image();
+    img.crossOrigin = "anonymous";
+    img.onload = () => resolve(img);
+    img.onerror = reject;
+    img.src = src;
+});
 
-// Helper: Iterative Weighted Moving Average for Smoothing
-const getSmoothedPoints = (points: Point[], iterations: number): Point[] => {
-    if (points.length < 3 || iterations <= 0) return points;
-    
-    let currentPoints = [...points];
-    
-    // Apply smoothing iterations
-    for (let k = 0; k < iterations; k++) {
-        const nextPoints = [...currentPoints];
-        // Skip first and last point to anchor the ends
-        for (let i = 1; i < currentPoints.length - 1; i++) {
-            const prev = currentPoints[i - 1];
-            const curr = currentPoints[i];
-            const next = currentPoints[i + 1];
-
-            nextPoints[i] = {
-                x: prev.x * 0.15 + curr.x * 0.7 + next.x * 0.15,
-                y: prev.y * 0.15 + curr.y * 0.7 + next.y * 0.15
-            };
-        }
-        currentPoints = nextPoints;
+/**
+ * Prepares a scene for repeated off-screen rendering with the native canvas renderer. The background
+ * loads once and each render() redraws every layer, optionally at a point in the animation.
+ * It does not depend on component state, so it can render history entries and other designs for
+ * export. Call dispose() when done.
+ */
+const createSceneRenderer = async (scene: SceneSnapshot, options: SceneRenderOptions = {}): Promise<SceneRenderer> => {
+    const { scale = 1, includeBackground = true, layerPasses } = options;
+    await ensureFontsReady(scene.layers);
+
+    const img = await loadImage(scene.imageSrc);
+    const width = Math.round(img.naturalWidth * scale);
+    const height = Math.round(img.naturalHeight * scale);
+    if (width > MAX_CANVAS_SIDE || height > MAX_CANVAS_SIDE || width * height > MAX_CANVAS_PIXELS) {
+        throw new Error(`Export size ${width}x${height} exceeds the browser canvas limit`);
     }
-    return currentPoints;
-};
 
-// Helper: Get Bounds of a Path
-const getPathBounds = (points: Point[]) => {
-    if (points.length === 0) return { x: 0, y: 0, width: 0, height: 0, cx: 0, cy: 0 };
-    let minX = Infinity, maxX = -Infinity, minY = Infinity, maxY = -Infinity;
-    points.forEach(p => {
-        if (p.x < minX) minX = p.x;
-        if (p.x > maxX) maxX = p.x;
-        if (p.y < minY) minY = p.y;
-        if (p.y > maxY) maxY = p.y;
-    });
-    return {
-        x: minX,
-        y: minY,
-        width: maxX - minX,
-        height: maxY - minY,
-        cx: (minX + maxX) / 2,
-        cy: (minY + maxY) / 2
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) throw new Error("Could not get canvas context");
+
+    // The scratch canvas must be in the DOM for font-variation-settings to apply
+    const scratch = document.createElement('canvas');
+    scratch.width = width;
+    scratch.height = height;
+    scratch.style.position = 'absolute';
+    scratch.style.visibility = 'hidden';
+    scratch.style.pointerEvents = 'none';
+    const scratchCtx = scratch.getContext('2d');
+    if (!scratchCtx) throw new Error("Could not get canvas context");
+    document.body.appendChild(scratch);
+
+    const layers = scene.layers.map(layer => scaleLayerGeometry(layer, scale));
+
+    const render = (frame?: EffectFrame) => {
+        // Frames also advance keyframed properties
+        drawScene(ctx, scratchCtx, {
+            background: includeBackground ? img : null,
+            backgroundType: scene.backgroundType,
+            backgroundColor: scene.backgroundColor,
+            layers: frame ? resolveLayersAtTime(layers, frame.time) : layers
+        }, { layerPasses, frame });
+        return canvas;
     };
-};
-
-const constructCanvasFont = (layer: TextLayer, fontSizePx: number): string => {
-    const fontFamily = `"${layer.fontFamily}"`;
-    // Canvas font strings handle weight/style, but standard axes support varies.
-    // We construct the basic descriptors here.
-    let weight = layer.isBold ? 700 : 400;
-    if (layer.fontVariations && layer.fontVariations['wght'] !== undefined) {
-        weight = Math.round(layer.fontVariations['wght']);
-    }
-    let stretch = "normal";
-    if (layer.fontVariations && layer.fontVariations['wdth'] !== undefined) {
-        const wVal = layer.fontVariations['wdth'];
-        if (wVal !== 100) stretch = `${Math.round(wVal)}%`;
-    }
-    let style = layer.isItalic ? 'italic' : 'normal';
-    if (layer.fontVariations && layer.fontVariations['slnt'] !== undefined) {
-        const slnt = layer.fontVariations['slnt'];
-        // Use negative slnt for oblique angle because OpenType slnt is usually negative for clockwise slant,
-        // while CSS oblique angle is positive for clockwise slant.
-        if (slnt !== 0) style = `oblique ${-slnt}deg`;
-    }
-    // Canvas 2D font parser can be strict. Remove /1 line-height shorthand.
-    return `${style} normal ${weight} ${stretch} ${fontSizePx}px ${fontFamily}`;
-};
 
-const getFontVariationSettings = (layer: TextLayer): string => {
-    if (!layer.fontVariations || Object.keys(layer.fontVariations).length === 0) {
-        return 'normal';
-    }
-    return Object.entries(layer.fontVariations)
-        .map(([key, val]) => `"${key}" ${val}`)
-        .join(', ');
-};
+    const dispose = () => {
+        if (scratch.parentNode) scratch.parentNode.removeChild(scratch);
+    };
 
-// Helper: Generate Standard Text Layout (Local Coordinates)
-const calculateStandardLayout = (ctx: CanvasRenderingContext2D, layer: TextLayer, fontSizePx: number) => {
-    const text = layer.isUppercase ? layer.textOverlay.toUpperCase() : layer.textOverlay;
-    const lines = text.split('\n');
-    const lineHeight = fontSizePx; // line-height: 1
-    const scaledLetterSpacing = layer.letterSpacing * (fontSizePx / 50);
-    
-    const layout: { char: string, x: number, y: number, r: number }[] = [];
-    
-    // 1. Measure all lines to determine block dimensions
-    const lineMetrics = lines.map(line => {
-        let width = 0;
-        const chars = line.split('');
-        chars.forEach((char, i) => {
-             width += ctx.measureText(char).width;
-             // CSS usually includes trailing spacing in centered block calculations
-             width += scaledLetterSpacing; 
-        });
-        return { line, width, chars };
-    });
-    
-    const totalHeight = lines.length * lineHeight;
-    // Align so that (0,0) is the center of the text block
-    // Using TOP baseline alignment logic for calculations to match CSS box model
-    const startY = -(totalHeight / 2); 
-    const maxLineWidth = Math.max(...lineMetrics.map(m => m.width));
-    
-    lineMetrics.forEach((metric, lineIdx) => {
-        // Calculate X start for this line relative to the BLOCK CENTER
-        let lineX = 0;
-        
-        if (layer.textAlign === 'left') {
-            lineX = -maxLineWidth / 2;
-        } else if (layer.textAlign === 'center') {
-            lineX = -metric.width / 2;
-        } else if (layer.textAlign === 'right') {
-            lineX = maxLineWidth / 2 - metric.width;
-        }
-        
-        const lineY = startY + (lineIdx * lineHeight);
-        
-        let cursorX = lineX;
-        metric.chars.forEach(char => {
-             const w = ctx.measureText(char).width;
-             
-             const boxWidth = w + scaledLetterSpacing;
-             const charCenterX = cursorX + (boxWidth / 2) - (scaledLetterSpacing / 2); // Center of the glyph itself
-             
-             // For Y, we need center of the line height
-             const charCenterY = lineY + (lineHeight / 2);
-
-             layout.push({
-                 char,
-                 x: charCenterX,
-                 y: charCenterY,
-                 r: layer.letterRotation
-             });
-             cursorX += w + scaledLetterSpacing;
-        });
-    });
-    
-    return layout;
+    return { canvas, render, dispose };
 };
 
-// Helper: Calculate Path Character Positions (Absolute Coordinates)
-const calculatePathLayout = (ctx: CanvasRenderingContext2D, layer: TextLayer, fontSizePx: number) => {
-    const scaledLetterSpacing = layer.letterSpacing * (fontSizePx/50);
-    
-    // 1. Get Path Points
-    const smoothedPoints = getSmoothedPoints(layer.pathPoints, layer.pathSmoothing);
-    if (smoothedPoints.length < 2) return [];
-
-    // 2. Calculate Cumulative Distances along path
-    const distances = [0];
-    for (let i = 1; i < smoothedPoints.length; i++) {
-        const dx = smoothedPoints[i].x - smoothedPoints[i-1].x;
-        const dy = smoothedPoints[i].y - smoothedPoints[i-1].y;
-        distances.push(distances[i-1] + Math.sqrt(dx*dx + dy*dy));
-    }
-    const totalPathLen = distances[distances.length - 1];
-
-    // 3. Prepare Text
-    const text = layer.isUppercase ? layer.textOverlay.toUpperCase() : layer.textOverlay;
-    const singleLineText = text.replace(/\n/g, ' ');
-
-    // 4. Measure Total Text Width
-    let totalTextWidth = 0;
-    const charWidths = singleLineText.split('').map(char => {
-        const w = ctx.measureText(char).width;
-        totalTextWidth += w + scaledLetterSpacing;
-        return w;
-    });
-    if (charWidths.length > 0) totalTextWidth -= scaledLetterSpacing;
-
-    // 5. Determine Start Offset based on Align
-    let currentDist = 0;
-    if (layer.textAlign === 'center') currentDist = (totalPathLen - totalTextWidth) / 2;
-    if (layer.textAlign === 'right') currentDist = totalPathLen - totalTextWidth;
-    
-    const layout = [];
-
-    for (let i = 0; i < singleLineText.length; i++) {
-        const char = singleLineText[i];
-        const charW = charWidths[i];
-        const charMidDist = currentDist + (charW / 2);
-
-        if (charMidDist >= 0 && charMidDist <= totalPathLen) {
-            let idx = 0;
-            while (distances[idx + 1] < charMidDist && idx < distances.length - 2) idx++;
-            
-            const p1 = smoothedPoints[idx];
-            const p2 = smoothedPoints[idx+1];
-            const segStart = distances[idx];
-            const segLen = distances[idx+1] - segStart;
-            const t = (charMidDist - segStart) / (segLen || 1); 
-            
-            const xBase = p1.x + (p2.x - p1.x) * t;
-            const yBase = p1.y + (p2.y - p1.y) * t;
-            
-            const angleRad = Math.atan2(p2.y - p1.y, p2.x - p1.x);
-            const finalRotation = (angleRad * 180 / Math.PI) + layer.letterRotation;
-
-            layout.push({
-                char,
-                x: xBase,
-                y: yBase,
-                r: finalRotation
-            });
-        }
-        currentDist += charW + scaledLetterSpacing;
+// One-off render of a scene (a still frame)
+const renderScene = async (scene: SceneSnapshot, options: SceneRenderOptions = {}): Promise<HTMLCanvasElement> => {
+    const renderer = await createSceneRenderer(scene, options);
+    try {
+        return renderer.render();
+    } finally {
+        renderer.dispose();
     }
-    return layout;
 };
 
-// --- Core Canvas Renderer ---
-const drawLayerToCtx = (ctx: CanvasRenderingContext2D, layer: TextLayer, width: number, height: number) => {
-    const fontSizePx = (layer.textSize / 100) * width;
-    
-    // CRITICAL: Apply font variations to the canvas context directly via the canvas element style
-    if (ctx.canvas) {
-        ctx.canvas.style.fontVariationSettings = getFontVariationSettings(layer);
-        ctx.canvas.style.letterSpacing = '0px'; 
-    }
-
-    ctx.font = constructCanvasFont(layer, fontSizePx);
-    ctx.textBaseline = 'middle'; // Center in the glyph box for rotation
-    ctx.textAlign = 'center'; 
-
-    const isPath = layer.pathPoints.length > 0;
-    
-    // 1. Calculate Layout (Chars with positions)
-    const layout = isPath 
-        ? calculatePathLayout(ctx, layer, fontSizePx)
-        : calculateStandardLayout(ctx, layer, fontSizePx);
-    
-    if (!layout || layout.length === 0) return;
-
-    // Helper to draw the set of characters
-    const renderPass = (
-        color: string | CanvasGradient, 
-        offsetX: number, 
-        offsetY: number, 
-        blurPx: number, 
-        opacity: number, 
-        compositeOp: GlobalCompositeOperation, 
-        mode: 'standard' | 'shadow-only' | 'outline-only' | 'fill-only',
-        forceSolid: boolean = false
-    ) => {
-        ctx.save();
-        
-        // Transform for Standard Layout (Rotate/Position Layer)
-        if (!isPath) {
-            const cx = (layer.overlayPosition.x / 100) * width;
-            const cy = (layer.overlayPosition.y / 100) * height;
-            ctx.translate(cx, cy);
-            ctx.rotate(layer.rotation * Math.PI / 180);
-            ctx.scale(layer.flipX ? -1 : 1, layer.flipY ? -1 : 1);
-        }
-
-        ctx.globalAlpha = opacity * layer.opacity;
-        ctx.globalCompositeOperation = compositeOp;
-
-        // --- SHADOW PASS ---
-        if (mode === 'shadow-only') {
-             const angleRad = (layer.shadowAngle * Math.PI) / 180;
-             const dist = (layer.shadowOffset / 100) * fontSizePx;
-             
-             const sX = dist * Math.cos(angleRad);
-             const sY = dist * Math.sin(angleRad);
-
-             // Restore multiplier to 0.5 to match CSS text-shadow visual blur strength
-             const shadowBlurPx = (layer.shadowBlur / 100) * fontSizePx * 0.5;
-
-             // FIX: Use native Canvas shadow properties instead of filter for robust export.
-             // We use the "offscreen casting" technique: draw the text far off-canvas,
-             // and use a large shadow offset to cast the shadow back onto the visible area.
-             // This ensures only the shadow is visible, and blurring is handled natively by the engine.
-             
-             const OFFSCREEN_OFFSET = 100000; 
-
-             ctx.shadowColor = hexToRgba(layer.shadowColor, layer.shadowOpacity ?? 1);
-             ctx.shadowBlur = shadowBlurPx;
-             ctx.shadowOffsetX = OFFSCREEN_OFFSET + sX;
-             ctx.shadowOffsetY = sY;
-             ctx.fillStyle = "#000000"; // Dummy color for the offscreen text (must be opaque to cast shadow)
-
-             layout.forEach(item => {
-                 ctx.save();
-                 // Move text offscreen to the left (relative to its own rotation frame)
-                 ctx.translate(item.x + offsetX - OFFSCREEN_OFFSET, item.y + offsetY);
-                 ctx.rotate(item.r * Math.PI / 180);
-                 // No need to translate sX, sY here as it's handled by shadowOffset relative to the draw origin
-                 ctx.fillText(item.char, 0, 0);
-                 ctx.restore();
-             });
-             
-             ctx.restore();
-             return;
-        }
-
-        // --- STANDARD PASSES ---
-        if (blurPx > 0) ctx.filter = `blur(${blurPx}px)`;
-
-        // Setup Fill Style
-        let fillStyle: string | CanvasGradient = 'transparent';
-        if (layer.specialEffect === 'gradient' && !layer.isHollow && typeof color === 'string') {
-             // ADJUSTMENT: Subtract 90 degrees to align Canvas gradient angle (0=Right) with CSS linear-gradient (0=Up)
-             const angleRad = ((layer.effectAngle - 90) * Math.PI) / 180;
-             const range = fontSizePx * 5; 
-             const x1 = Math.cos(angleRad) * -range;
-             const y1 = Math.sin(angleRad) * -range;
-             const x2 = Math.cos(angleRad) * range;
-             const y2 = Math.sin(angleRad) * range;
-             
-             const grad = ctx.createLinearGradient(x1, y1, x2, y2);
-             grad.addColorStop(0, layer.textColor);
-             grad.addColorStop(1, layer.effectColor);
-             fillStyle = grad;
-        } else {
-             fillStyle = color;
-        }
-
-        layout.forEach(item => {
-            ctx.save();
-            ctx.translate(item.x + offsetX, item.y + offsetY);
-            ctx.rotate(item.r * Math.PI / 180);
-
-            // OUTLINE ONLY PASS
-            if (mode === 'outline-only' || mode === 'standard') {
-                if (layer.hasOutline) {
-                    ctx.strokeStyle = layer.outlineColor;
-                    ctx.lineWidth = layer.outlineWidth; 
-                    ctx.strokeText(item.char, 0, 0);
-                }
-            }
-
-            // FILL/HOLLOW PASS
-            if (mode === 'fill-only' || mode === 'standard') {
-                if (layer.isHollow && !forceSolid) {
-                    ctx.strokeStyle = typeof color === 'string' ? color : layer.textColor;
-                    ctx.lineWidth = Math.max(1, fontSizePx * 0.02); 
-                    ctx.strokeText(item.char, 0, 0);
-                } else {
-                    ctx.fillStyle = fillStyle;
-                    ctx.fillText(item.char, 0, 0);
-                }
-            }
-
-            ctx.restore();
-        });
-
-        ctx.restore();
-    };
-
-    // --- Rendering Pipeline ---
-    // Order: Shadow -> Echo -> Glitch -> Main
-    // This ensures Shadow is absolutely at the bottom.
-
-    // 1. Shadow Pass
-    if (layer.hasShadow && isShadowSupported(layer.fontFamily)) {
-        renderPass('#000000', 0, 0, 0, 1, 'source-over', 'shadow-only');
-    }
-
-    // 2. Echo Effect (Background Trails)
-    if (layer.specialEffect === 'echo') {
-        const echoCount = 5;
-        const angleRad = (layer.effectAngle * Math.PI) / 180;
-        const distanceStep = layer.effectIntensity * (width * 0.0005);
-        for (let i = echoCount; i >= 1; i--) {
-             const dx = Math.cos(angleRad) * distanceStep * i;
-             const dy = Math.sin(angleRad) * distanceStep * i;
-             const alpha = 0.5 * (1 - i/echoCount);
-             // Use 'fill-only' to avoid applying the outline stroke to the echo
-             // Pass forceSolid=true to ensure echo is solid even if main text is hollow
-             renderPass(layer.textColor, dx, dy, 0, alpha, 'source-over', 'fill-only', true);
-        }
-    }
+const canvasToBlob = (canvas: HTMLCanvasElement, mimeType: string, quality?: number) => new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error("Could not encode image")), mimeType, quality);
+});
 
-    // 3. Glitch Effects
-    if (layer.specialEffect === 'glitch') {
-        const offsetBase = (layer.effectIntensity / 100) * (fontSizePx * 0.2);
-        const angleRad = (layer.effectAngle * Math.PI) / 180;
-        
-        const glitchBlend = (!layer.isRainbowGlitch || layer.isRainbowLights) ? 'screen' : 'source-over';
-
-        if (layer.isRainbowGlitch) {
-             const rainbowColors = ['#ff0000', '#ffa500', '#ffff00', '#00ff00', '#00ffff', '#0000ff', '#8f00ff', '#4b0082'];
-             const spreadFactor = 3.0;
-             rainbowColors.forEach((color, i) => {
-                const indexOffset = i - (rainbowColors.length - 1) / 2;
-                const dist = (indexOffset * offsetBase * spreadFactor) / 2;
-                const dx = Math.cos(angleRad) * dist;
-                const dy = Math.sin(angleRad) * dist;
-                // Use 'fill-only' to avoid applying the outline stroke to the glitch layers
-                // Pass forceSolid=true to ensure glitch is solid even if main text is hollow
-                renderPass(color, dx, dy, layer.rainbowBlur, layer.rainbowOpacity, glitchBlend, 'fill-only', true);
-             });
-        } else {
-             const dx = Math.cos(angleRad) * offsetBase;
-             const dy = Math.sin(angleRad) * offsetBase;
-             // Use 'fill-only' to avoid applying the outline stroke to the glitch layers
-             // Pass forceSolid=true to ensure glitch is solid even if main text is hollow
-             renderPass(layer.effectColor, -dx, -dy, 1, 1, glitchBlend, 'fill-only', true);
-             renderPass(layer.effectColor2, dx, dy, 1, 1, glitchBlend, 'fill-only', true);
+// Final renders go to the worker when the layers allow it, keeping the page responsive; the
+// main-thread renderer is the fallback for variable axes and browsers without worker fonts
+const renderSceneImage = async (
+    scene: SceneSnapshot,
+    options: SceneImageOptions,
+    onProgress?: (done: number, total: number) => void
+): Promise<Blob> => {
+    const { mimeType, quality, ...renderOptions } = options;
+    // Fails the export up front when a font is unavailable, rather than rendering a fallback font
+    await ensureFontsReady(scene.layers);
+    if (canRenderInWorker(scene.layers)) {
+        try {
+            return await renderSceneInWorker(scene, options, onProgress);
+        } catch (e) {
+            console.warn("Worker render failed, rendering on the main thread", e);
         }
     }
-
-    // 4. Main Text Pass
-    if (layer.hasOutline) {
-         renderPass(layer.textColor, 0, 0, 0, 1, 'source-over', 'outline-only');
-    }
-    renderPass(layer.textColor, 0, 0, 0, 1, 'source-over', 'fill-only');
-};
-
-// Helper: Get text metrics (Tight Ink Bounds) for Gizmo
-const measureLineMetrics = (ctx: CanvasRenderingContext2D, text: string, letterSpacing: number) => {
-    const chars = text.split('');
-    let currentX = 0;
-    let minX = Infinity;
-    let maxX = -Infinity;
-    
-    if (chars.length === 0) return { inkLeft: 0, inkRight: 0, inkWidth: 0, advanceWidth: 0 };
-
-    chars.forEach((char, i) => {
-        const metrics = ctx.measureText(char);
-        const charInkLeft = currentX - metrics.actualBoundingBoxLeft;
-        const charInkRight = currentX + metrics.actualBoundingBoxRight;
-        
-        if (charInkLeft < minX) minX = charInkLeft;
-        if (charInkRight > maxX) maxX = charInkRight;
-        
-        // Match width calculation to standard layout (include spacing)
-        currentX += metrics.width + letterSpacing;
-    });
-
-    return {
-        inkLeft: minX,
-        inkRight: maxX,
-        inkWidth: maxX - minX,
-        advanceWidth: currentX
-    };
-};
-
-const measureTextLayout = (ctx: CanvasRenderingContext2D, layer: TextLayer, width: number) => {
-    const fontSize = (layer.textSize / 100) * width;
-    ctx.font = constructCanvasFont(layer, fontSize);
-    
-    // Apply variations to context for measurement too!
-    if (ctx.canvas) {
-        ctx.canvas.style.fontVariationSettings = getFontVariationSettings(layer);
-        ctx.canvas.style.letterSpacing = '0px'; 
-    }
-
-    const scaledLetterSpacing = layer.letterSpacing * (fontSize / 50);
-    const rawText = layer.isUppercase ? layer.textOverlay.toUpperCase() : layer.textOverlay;
-    const lines = rawText.split('\n');
-    const lineHeight = fontSize * 1.0; 
-    const totalHeight = lines.length * lineHeight;
-
-    let maxInkWidth = 0;
-
-    lines.forEach(line => {
-        const metrics = measureLineMetrics(ctx, line, scaledLetterSpacing);
-        if (metrics.inkWidth > maxInkWidth) maxInkWidth = metrics.inkWidth;
-    });
-
-    const buffer = fontSize * 0.5; // Generous buffer for gizmo
-    return { width: maxInkWidth + buffer, height: totalHeight + (buffer * 0.5) };
+    return canvasToBlob(await renderScene(scene, renderOptions), mimeType, quality);
 };
 
 const Canvas = forwardRef<CanvasHandle, CanvasProps>(({ imageSrc, design, enableZoom, className, onImageUpload, onPathDrawn, onUpdateDesign, onLayerDoubleClicked }, ref) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
   const textCanvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
-  const bufferCanvasRef = useRef<HTMLCanvasElement | null>(null);
   const scratchCanvasRef = useRef<HTMLCanvasElement | null>(null);
   const bgImageRef = useRef<HTMLImageElement | null>(null);
 
@@ -553,18 +206,6 @@ const Canvas = forwardRef<CanvasHandle, CanvasProps>(({ imageSrc, design, enable
      }
   }, [imgDims]);
 
-  const getBufferCanvas = (width: number, height: number) => {
-      if (!bufferCanvasRef.current) {
-          bufferCanvasRef.current = document.createElement('canvas');
-      }
-      const canvas = bufferCanvasRef.current;
-      if (canvas.width !== width || canvas.height !== height) {
-          canvas.width = width;
-          canvas.height = height;
-      }
-      return canvas;
-  };
-
   const getScratchCanvas = (width: number, height: number) => {
       if (!scratchCanvasRef.current) {
           scratchCanvasRef.current = document.createElement('canvas');
@@ -709,7 +350,7 @@ const Canvas = forwardRef<CanvasHandle, CanvasProps>(({ imageSrc, design, enable
       if (interactionMode === 'DRAW_PATH') {
           if (!coords) return;
           currentPathRef.current.push(coords);
-          renderToContext(textCanvasRef.current?.getContext('2d') || null, imgDims.w, imgDims.h, design.layers, true, true, undefined, undefined, true);
+          renderPreview(true);
           return;
       }
 
@@ -836,219 +477,164 @@ const Canvas = forwardRef<CanvasHandle, CanvasProps>(({ imageSrc, design, enable
       initialLayersRef.current.clear();
   };
 
-  // --- Core Rendering Logic ---
-  const renderToContext = useCallback(async (
-      targetCtx: CanvasRenderingContext2D | null, 
-      width: number, 
-      height: number,
-      layers: TextLayer[],
-      isPreview: boolean = false,
-      shouldClear: boolean = true,
-      overrideBlendMode?: GlobalCompositeOperation,
-      overrideBgImage?: HTMLImageElement,
-      forceUseCanvas: boolean = false
-  ) => {
-      if (!targetCtx) return;
-
-      const buffer = getBufferCanvas(width, height);
-      const bufferCtx = buffer.getContext('2d');
-      if (!bufferCtx) return;
-      
-      // Ensure high quality scaling
-      bufferCtx.imageSmoothingEnabled = true;
-      bufferCtx.imageSmoothingQuality = 'high';
-
-      // 1. Render Background
-      const bgImg = overrideBgImage || bgImageRef.current;
-      if (shouldClear) bufferCtx.clearRect(0, 0, width, height);
-      
-      // NEW: Draw Solid Background Color if type is solid
-      if (design.backgroundType === 'solid') {
-          bufferCtx.fillStyle = design.backgroundColor;
-          bufferCtx.fillRect(0, 0, width, height);
-      }
+  // --- Live Preview ---
+  // The background and the path guide are drawn here and the DOM overlay shows the text. While a
+  // path is being drawn the native renderer draws the text as well.
+  const renderPreview = useCallback((drawText: boolean = false) => {
+      const ctx = textCanvasRef.current?.getContext('2d');
+      if (!ctx || !imgDims) return;
+      const { w: width, h: height } = imgDims;
 
-      if (bgImg) {
-          bufferCtx.drawImage(bgImg, 0, 0, width, height);
-      }
-      
-      // 2. Render Layers
       const scratch = getScratchCanvas(width, height);
       const scratchCtx = scratch.getContext('2d');
-      
-      for (const layer of layers) {
-          if (!layer.visible) continue;
-          if (!scratchCtx) continue;
-
-          scratchCtx.clearRect(0, 0, width, height);
-          scratchCtx.imageSmoothingEnabled = true;
-          scratchCtx.imageSmoothingQuality = 'high';
-          
-          if (isPreview && !forceUseCanvas) {
-              // No-op for visual text (React rendered overlays)
-          } else {
-              // EXPORT MODE or FALLBACK: Use Native Canvas Renderer
-              await document.fonts.ready;
-              
-              const needsDomAttach = true; 
-              let attached = false;
-              if (needsDomAttach && !scratch.isConnected) {
-                  scratch.style.position = 'absolute';
-                  scratch.style.visibility = 'hidden';
-                  scratch.style.pointerEvents = 'none';
-                  document.body.appendChild(scratch);
-                  attached = true;
-              }
-
-              try {
-                  const variationSettings = getFontVariationSettings(layer);
-                  scratch.style.fontVariationSettings = variationSettings;
-                  scratch.style.letterSpacing = '0px';
-
-                  drawLayerToCtx(scratchCtx, layer, width, height);
-              } finally {
-                  if (attached) {
-                      document.body.removeChild(scratch);
-                  }
-              }
-          }
-
-          // Composite Scratch to Buffer
-          bufferCtx.save();
-          bufferCtx.setTransform(1, 0, 0, 1, 0, 0); 
-          
-          // Apply opacity and blend mode here to composite the entire layer as a whole
-          bufferCtx.globalAlpha = layer.opacity; 
-          
-          const gcoMap: Record<string, GlobalCompositeOperation> = {
-              'normal': 'source-over',
-              'multiply': 'multiply',
-              'screen': 'screen',
-              'overlay': 'overlay',
-              'darken': 'darken',
-              'lighten': 'lighten',
-              'color-dodge': 'color-dodge',
-              'color-burn': 'color-burn',
-              'hard-light': 'hard-light',
-              'soft-light': 'soft-light',
-              'difference': 'difference',
-              'exclusion': 'exclusion',
-              'hue': 'hue',
-              'saturation': 'saturation',
-              'color': 'color',
-              'luminosity': 'luminosity'
-          };
-          const effectiveBlendMode = overrideBlendMode || gcoMap[layer.blendMode] || 'source-over';
-          bufferCtx.globalCompositeOperation = effectiveBlendMode;
-          bufferCtx.drawImage(scratch, 0, 0);
-          bufferCtx.restore();
-
-          // 3. Render Interactive Path Line (Pink Line) - Only in Preview
-          const isActive = layer.id === design.activeLayerId;
-          const isDrawing = interactionMode === 'DRAW_PATH' && isActive;
-          const activePointsRaw = isDrawing ? currentPathRef.current : layer.pathPoints;
-          const activePoints = isDrawing ? activePointsRaw : getSmoothedPoints(activePointsRaw, layer.pathSmoothing);
-          const showPathLine = isPreview && isActive && ((isDrawing && activePoints.length > 1) || (layer.isPathMoveMode && activePoints.length > 1));
-
-          if (showPathLine) {
-              bufferCtx.save();
-              bufferCtx.beginPath();
-              bufferCtx.strokeStyle = '#ec4899'; 
-              bufferCtx.lineWidth = Math.max(2, width * 0.003); 
-              bufferCtx.lineCap = 'round';
-              bufferCtx.lineJoin = 'round';
-              if (layer.isPathMoveMode && !isDrawing) {
-                  bufferCtx.setLineDash([15, 15]); 
-                  bufferCtx.globalAlpha = 0.6;
-              }
-              bufferCtx.moveTo(activePoints[0].x, activePoints[0].y);
-              for(const p of activePoints) bufferCtx.lineTo(p.x, p.y);
-              bufferCtx.stroke();
-              bufferCtx.restore();
-          }
+      if (!scratchCtx) return;
+
+      // The scratch canvas must be in the DOM for font-variation-settings to apply
+      const attach = drawText && !scratch.isConnected;
+      if (attach) {
+          scratch.style.position = 'absolute';
+          scratch.style.visibility = 'hidden';
+          scratch.style.pointerEvents = 'none';
+          document.body.appendChild(scratch);
       }
-
-      if (shouldClear) {
-          targetCtx.clearRect(0, 0, width, height);
+      try {
+          drawScene(ctx, scratchCtx, {
+              background: bgImageRef.current,
+              backgroundType: design.backgroundType,
+              backgroundColor: design.backgroundColor,
+              layers: drawText ? design.layers : []
+          });
+      } finally {
+          if (attach) document.body.removeChild(scratch);
       }
-      targetCtx.drawImage(buffer, 0, 0);
 
-  }, [design.layers, interactionMode, design.activeLayerId, design.backgroundColor, design.backgroundType]);
+      // Interactive path line (pink) of the active layer
+      const layer = design.layers.find(l => l.id === design.activeLayerId);
+      if (!layer || !layer.visible) return;
+      const isDrawing = interactionMode === 'DRAW_PATH';
+      const activePoints = isDrawing ? currentPathRef.current : getSmoothedPoints(layer.pathPoints, layer.pathSmoothing);
+      if (activePoints.length < 2 || (!isDrawing && !layer.isPathMoveMode)) return;
+
+      ctx.save();
+      ctx.beginPath();
+      ctx.strokeStyle = '#ec4899'; 
+      ctx.lineWidth = Math.max(2, width * 0.003); 
+      ctx.lineCap = 'round';
+      ctx.lineJoin = 'round';
+      if (!isDrawing) {
+          ctx.setLineDash([15, 15]); 
+          ctx.globalAlpha = 0.6;
+      }
+      ctx.moveTo(activePoints[0].x, activePoints[0].y);
+      for (const p of activePoints) ctx.lineTo(p.x, p.y);
+      ctx.stroke();
+      ctx.restore();
+  }, [imgDims, design.layers, interactionMode, design.activeLayerId, design.backgroundColor, design.backgroundType]);
 
   // Live Preview Renderer
   useEffect(() => {
       if (textCanvasRef.current && imgDims) {
-          const ctx = textCanvasRef.current.getContext('2d');
           textCanvasRef.current.width = imgDims.w;
           textCanvasRef.current.height = imgDims.h;
-          renderToContext(ctx, imgDims.w, imgDims.h, design.layers, true, true);
+          renderPreview();
       }
-  }, [imgDims, design, renderToContext]);
+  }, [imgDims, renderPreview]);
 
   // Font Load Listener: Trigger redraw when fonts become available
   useEffect(() => {
     const handleFontLoad = () => {
         // Force update by triggering render if dimensions exist
-        if (textCanvasRef.current && imgDims) {
-            const ctx = textCanvasRef.current.getContext('2d');
-            renderToContext(ctx, imgDims.w, imgDims.h, design.layers, true, true);
-        }
+        renderPreview();
     };
     
     document.fonts.addEventListener('loadingdone', handleFontLoad);
     return () => {
         document.fonts.removeEventListener('loadingdone', handleFontLoad);
     };
-  }, [imgDims, design, renderToContext]);
+  }, [renderPreview]);
+
+  // Lazy font loading: fetch the faces the layers use; the listener above redraws once they arrive
+  useEffect(() => {
+    preloadFonts(design.layers);
+  }, [design.layers]);
 
   // Export Logic
-  const generateExport = useCallback(async (): Promise<string> => {
+  const generateExport = useCallback(async (options?: ImageExportOptions, onProgress?: (done: number, total: number) => void): Promise<string> => {
     if (!imageSrc) throw new Error("No image to export");
-    await document.fonts.ready;
-    const finalCanvas = document.createElement('canvas');
-    const finalCtx = finalCanvas.getContext('2d');
-    if (!finalCtx) throw new Error("Could not get canvas context");
-    const img = new Image();
-    img.crossOrigin = "anonymous";
-    await new Promise((resolve, reject) => { 
-        img.onload = resolve; 
-        img.onerror = reject;
-        img.src = imageSrc; 
-    });
-    finalCanvas.width = img.naturalWidth;
-    finalCanvas.height = img.naturalHeight;
-    await renderToContext(finalCtx, finalCanvas.width, finalCanvas.height, design.layers, false, true, undefined, img, true);
-    return finalCanvas.toDataURL('image/png');
-  }, [imageSrc, renderToContext, design.layers]);
+    const { format = 'png', quality = 0.92, scale = 1, textOnly = false } = options || {};
+    const { mimeType, hasQuality } = IMAGE_EXPORT_FORMATS[format];
+    return blobToDataUrl(await renderSceneImage({
+        imageSrc,
+        layers: design.layers,
+        backgroundType: design.backgroundType,
+        backgroundColor: design.backgroundColor
+    }, { scale, includeBackground: !textOnly, mimeType, quality: hasQuality ? quality : undefined }, onProgress));
+  }, [imageSrc, design.layers, design.backgroundType, design.backgroundColor]);
 
   // Stamp Logic
-  const stampLayers = useCallback(async (layerIds: string[]): Promise<string> => {
+  const stampLayers = useCallback(async (layerIds: string[], onProgress?: (done: number, total: number) => void): Promise<string> => {
       if (!imageSrc) throw new Error("No image to stamp");
-      await document.fonts.ready;
-      const finalCanvas = document.createElement('canvas');
-      const finalCtx = finalCanvas.getContext('2d');
-      if (!finalCtx) throw new Error("Could not get canvas context");
-      const img = new Image();
-      img.crossOrigin = "anonymous";
-      await new Promise((resolve, reject) => {
-          img.onload = resolve;
-          img.onerror = reject;
-          img.src = imageSrc;
-      });
-      finalCanvas.width = img.naturalWidth;
-      finalCanvas.height = img.naturalHeight;
-      const layersToStamp = design.layers.filter(l => layerIds.includes(l.id));
-      await renderToContext(finalCtx, finalCanvas.width, finalCanvas.height, layersToStamp, false, true, undefined, img, true);
-      return finalCanvas.toDataURL('image/png');
-  }, [imageSrc, renderToContext, design.layers]);
+      return blobToDataUrl(await renderSceneImage({
+          imageSrc,
+          layers: design.layers.filter(l => layerIds.includes(l.id)),
+          backgroundType: design.backgroundType,
+          backgroundColor: design.backgroundColor
+      }, { mimeType: 'image/png' }, onProgress));
+  }, [imageSrc, design.layers, design.backgroundType, design.backgroundColor]);
+
+  // Layered Export Logic: background, each layer on its own transparent raster, and the flattened result
+  const generateLayerRasters = useCallback(async (): Promise<LayerRasters> => {
+      if (!imageSrc) throw new Error("No image to export");
+      const scene = {
+          imageSrc,
+          layers: design.layers,
+          backgroundType: design.backgroundType,
+          backgroundColor: design.backgroundColor
+      };
+      const readPixels = (canvas: HTMLCanvasElement) => {
+          const ctx = canvas.getContext('2d', { willReadFrequently: true });
+          if (!ctx) throw new Error("Could not get canvas context");
+          return ctx.getImageData(0, 0, canvas.width, canvas.height);
+      };
+      const background = readPixels(await renderScene({ ...scene, layers: [] }));
+      const composite = readPixels(await renderScene(scene));
+      const { width, height } = composite;
+
+      // Hidden layers are rasterized too so they can be switched back on in the editor
+      const layerCanvas = document.createElement('canvas');
+      layerCanvas.width = width;
+      layerCanvas.height = height;
+      layerCanvas.style.position = 'absolute';
+      layerCanvas.style.visibility = 'hidden';
+      layerCanvas.style.pointerEvents = 'none';
+      const layerCtx = layerCanvas.getContext('2d', { willReadFrequently: true });
+      if (!layerCtx) throw new Error("Could not get canvas context");
+
+      const layers: LayerRasters['layers'] = [];
+      document.body.appendChild(layerCanvas);
+      try {
+          for (const layer of design.layers) {
+              layerCtx.clearRect(0, 0, width, height);
+              drawLayerToCtx(layerCtx, layer, width, height);
+              layers.push({ layer, imageData: layerCtx.getImageData(0, 0, width, height) });
+          }
+      } finally {
+          document.body.removeChild(layerCanvas);
+      }
 
+      return { width, height, background, layers, composite };
+  }, [imageSrc, design.layers, design.backgroundType, design.backgroundColor]);
 
   useImperativeHandle(ref, () => ({
     exportImage: generateExport,
+    exportLayers: generateLayerRasters,
+    renderScene: renderScene,
+    createSceneRenderer: createSceneRenderer,
+    renderSceneImage: renderSceneImage,
     triggerFileUpload: () => fileInputRef.current?.click(),
     stampLayers: stampLayers,
     resetView: resetView
-  }), [generateExport, stampLayers, resetView]);
+  }), [generateExport, generateLayerRasters, stampLayers, resetView]);
 
   // --- DOM Overlay Renderer ---
   const renderTextLayersOverlay = () => {
@@ -1117,6 +703,7 @@ const Canvas = forwardRef<CanvasHandle, CanvasProps>(({ imageSrc, design, enable
                       fontWeight: fontWeight,
                       fontStyle: fontStyle,
                       fontVariationSettings: variationSettings,
+                      fontFeatureSettings: getFontFeatureSettings(layer),
                       lineHeight: 1.0,
                       letterSpacing: `${layer.letterSpacing * (fontSizePx/50)}px`,
                       fontSynthesis: 'style weight',
@@ -1162,6 +749,30 @@ const Canvas = forwardRef<CanvasHandle, CanvasProps>(({ imageSrc, design, enable
                            }
                       }
 
+                      // Styled runs override the layer font; their colour only shows in the main fill,
+                      // and gradient text keeps one gradient across runs
+                      const showRunColors = mode === 'fill' && !(extraStyle && 'color' in extraStyle) && !(layer.specialEffect === 'gradient' && !layer.isHollow);
+                      const getRunStyle = (style: TextRunStyle | undefined, inFlow: boolean): React.CSSProperties => {
+                          if (!style) return {};
+                          const runStyle: React.CSSProperties = {};
+                          if (style.fontFamily !== undefined) runStyle.fontFamily = `"${style.fontFamily}"`;
+                          if (style.fontWeight !== undefined) {
+                              runStyle.fontWeight = style.fontWeight;
+                              runStyle.fontVariationSettings = getFontVariationSettings(getRunLayer(layer, style));
+                          }
+                          if (style.size !== undefined) runStyle.fontSize = `${fontSizePx * getRunScale(style)}px`;
+                          // Absolutely placed glyphs already have the shift in their layout position
+                          if (inFlow && style.baselineShift) {
+                              runStyle.position = 'relative';
+                              runStyle.top = `${-getBaselineShift(style, fontSizePx)}px`;
+                          }
+                          if (showRunColors && style.color !== undefined) {
+                              if (layer.isHollow) runStyle.WebkitTextStroke = `${Math.max(1, fontSizePx * 0.02)}px ${style.color}`;
+                              else runStyle.color = style.color;
+                          }
+                          return runStyle;
+                      };
+
                       // --- PATH TEXT ---
                       if (layer.pathPoints.length > 0) {
                           const ctx = textCanvasRef.current?.getContext('2d');
@@ -1170,6 +781,7 @@ const Canvas = forwardRef<CanvasHandle, CanvasProps>(({ imageSrc, design, enable
                           ctx.font = constructCanvasFont(layer, fontSizePx);
                           if (ctx.canvas) {
                               ctx.canvas.style.fontVariationSettings = variationSettings;
+                              ctx.canvas.style.fontFeatureSettings = getFontFeatureSettings(layer);
                               ctx.canvas.style.letterSpacing = '0px';
                           }
 
@@ -1186,7 +798,9 @@ const Canvas = forwardRef<CanvasHandle, CanvasProps>(({ imageSrc, design, enable
                                             top: `${item.y}px`,
                                             transform: `translate(-50%, -50%) rotate(${item.r}deg)`,
                                             whiteSpace: 'pre',
-                                            letterSpacing: '0px' // Force reset spacing for path characters
+                                            direction: item.rtl ? 'rtl' : 'ltr',
+                                            letterSpacing: '0px', // Force reset spacing for path characters
+                                            ...getRunStyle(item.style, false)
                                         }}
                                       >
                                           {item.char === ' ' ? '\u00A0' : item.char}
@@ -1200,12 +814,63 @@ const Canvas = forwardRef<CanvasHandle, CanvasProps>(({ imageSrc, design, enable
                       const xPct = layer.overlayPosition.x;
                       const yPct = layer.overlayPosition.y;
 
-                      const textToRender = layer.isUppercase ? layer.textOverlay.toUpperCase() : layer.textOverlay;
-                      const lines = textToRender.split('\n');
+                      const lines = getStyledLines(layer);
+                      const rtl = isRtlLayer(layer);
 
                       const standardTransform = `translate(-50%, -50%) rotate(${layer.rotation}deg) scale(${layer.flipX ? -1 : 1}, ${layer.flipY ? -1 : 1})`;
                       const finalTransform = extraStyle?.transform || standardTransform;
 
+                      // --- VERTICAL TEXT ---
+                      // Glyphs are placed from the canvas layout (like path text) so sideways Latin and
+                      // column order match the export exactly
+                      if (layer.writingMode === 'vertical') {
+                          const ctx = textCanvasRef.current?.getContext('2d');
+                          if (!ctx) return null;
+
+                          ctx.font = constructCanvasFont(layer, fontSizePx);
+                          if (ctx.canvas) {
+                              ctx.canvas.style.fontVariationSettings = variationSettings;
+                              ctx.canvas.style.fontFeatureSettings = getFontFeatureSettings(layer);
+                              ctx.canvas.style.letterSpacing = '0px';
+                          }
+
+                          const columns = measureVerticalColumns(ctx, layer, fontSizePx);
+                          const blockWidth = columns.length * fontSizePx;
+                          const blockHeight = Math.max(...columns.map(c => c.length));
+                          const layout = calculateStandardLayout(ctx, layer, fontSizePx);
+
+                          return (
+                              <div
+                                  style={{
+                                      ...modeStyle,
+                                      left: `${xPct}%`,
+                                      top: `${yPct}%`,
+                                      width: `${blockWidth}px`,
+                                      height: `${blockHeight}px`,
+                                      transform: finalTransform,
+                                      transformOrigin: 'center center',
+                                      letterSpacing: '0px'
+                                  }}
+                              >
+                                  {layout.map((item, i) => (
+                                      <div
+                                        key={i}
+                                        style={{
+                                            position: 'absolute',
+                                            left: `${item.x + blockWidth / 2}px`,
+                                            top: `${item.y + blockHeight / 2}px`,
+                                            transform: `translate(-50%, -50%) rotate(${item.r}deg)`,
+                                            whiteSpace: 'pre',
+                                            ...getRunStyle(item.style, false)
+                                        }}
+                                      >
+                                          {item.char === ' ' ? '\u00A0' : item.char}
+                                      </div>
+                                  ))}
+                              </div>
+                          );
+                      }
+
                       return (
                           <div 
                               style={{
@@ -1221,14 +886,26 @@ const Canvas = forwardRef<CanvasHandle, CanvasProps>(({ imageSrc, design, enable
                                   textAlign: layer.textAlign,
                               }}
                           >
-                              {lines.map((line, i) => (
-                                  <div key={i} style={{ whiteSpace: 'pre', display: 'block' }}>
-                                      {line.split('').map((char, j) => (
+                              {lines.map((line, i) => canShapeWords(layer) ? (
+                                  // Unsplit lines keep kerning and ligatures, matching the canvas renderer; the browser reorders them
+                                  <div key={i} style={{ whiteSpace: 'pre', display: 'block', direction: rtl ? 'rtl' : 'ltr', unicodeBidi: 'isolate' }}>
+                                      {joinStyledClusters(line).map((run, j) => run.style ? (
+                                          <span key={j} style={getRunStyle(run.style, true)}>{run.text}</span>
+                                      ) : (
+                                          <React.Fragment key={j}>{run.text}</React.Fragment>
+                                      ))}
+                                  </div>
+                              ) : (
+                                  // Split lines are already in visual order, so the spans must not be reordered again
+                                  <div key={i} style={{ whiteSpace: 'pre', display: 'block', direction: 'ltr' }}>
+                                      {getLineSegments(line, false, rtl).map((char, j) => (
                                           <span key={j} style={{ 
                                               display: 'inline-block',
-                                              transform: layer.letterRotation !== 0 ? `rotate(${layer.letterRotation}deg)` : 'none'
+                                              direction: char.rtl ? 'rtl' : 'ltr',
+                                              transform: layer.letterRotation !== 0 ? `rotate(${layer.letterRotation}deg)` : 'none',
+                                              ...getRunStyle(char.style, true)
                                           }}>
-                                              {char === ' ' ? '\u00A0' : char}
+                                              {char.text === ' ' ? '\u00A0' : char.text}
                                           </span>
                                       ))}
                                   </div>
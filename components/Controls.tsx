@@ -1,24 +1,36 @@
 import React, { useState, useCallback, useMemo, forwardRef, useImperativeHandle, useRef, useEffect } from 'react';
-import { DesignState, FontFamily, AspectRatio, TextLayer, AppSettings, GenModel, ImageResolution } from '../types';
+import { DesignState, AspectRatio, TextLayer, AppSettings, GenModel, ImageResolution, BrandKit, LayerStyle, CustomFont } from '../types';
 import { 
   Type, Palette, Layers, Download, Sparkles, 
   Bold, Italic, CaseUpper, FlipHorizontal, FlipVertical, 
   RotateCw, Settings, FilePlus, ImagePlus,
   Monitor, Smartphone, AlignCenterHorizontal, PenTool, Trash2, Route,
-  AlignLeft, AlignCenter, AlignRight, Move, Activity,
+  AlignLeft, AlignCenter, AlignRight, PilcrowLeft, PilcrowRight, ArrowLeft, ArrowRight, Move, Activity,
   Maximize, MoveHorizontal, MoveVertical, Undo2, Redo2, ToggleRight, ToggleLeft, Paintbrush,
   Plus, Eye, EyeOff, ChevronUp, ChevronDown, Wand2, BoxSelect, BookType, Link as LinkIcon, Stamp,
-  Sliders, ToggleLeft as ToggleOff, ToggleRight as ToggleOn, Globe, Copy,
-  Image as ImageIcon
+  Sliders, Ligature, ToggleLeft as ToggleOff, ToggleRight as ToggleOn, Globe, Copy,
+  Image as ImageIcon, FolderOpen, Save, History, Film, Table, LayoutTemplate, SwatchBook,
+  ClipboardCopy, ClipboardPaste, Brush
 } from 'lucide-react';
 import SliderControl from './SliderControl';
+import { cloneKeyframes } from '../utils/keyframes';
 import EffectsControls from './EffectsControls';
+import TextRunControls from './TextRunControls';
 import ConfirmationModal from './ConfirmationModal';
 import FontBookModal from './FontBookModal';
+import FontDiagnosticsPanel from './FontDiagnosticsPanel';
+import BrandSwatches from './BrandSwatches';
 import CollapsibleSection from './CollapsibleSection';
 import Tooltip from './Tooltip';
 import { useIsKeyPressed, useKeyboard } from '../hooks/useKeyboard';
-import { FONTS, VARIABLE_FONTS, COLOR_FONTS } from '../constants';
+import { useFontStatus } from '../hooks/useFontStatus';
+import { FONTS, COLOR_FONTS, DEFAULT_ON_FEATURES, NamedInstance } from '../constants';
+import { applyBrandStyle, getAllowedFonts } from '../utils/brandKit';
+import { applyLayerStyle, extractLayerStyle } from '../utils/layerStyles';
+import { getVariableFontConfig } from '../utils/variableFonts';
+import { getFontFeatures, hasVerifiedFeatures } from '../utils/fontFeatures';
+import { isFontFeatureEnabled } from '../utils/typography';
+import { updateRunsForEdit } from '../utils/textRuns';
 
 interface ControlsProps {
   design: DesignState;
@@ -31,7 +43,24 @@ interface ControlsProps {
   onUpload: () => void;
   onUrlImport: () => void;
   onDownload: () => void;
+  onDownloadSvg: () => void;
+  onDownloadPsd: () => void;
+  onOpenPdfExport: () => void;
+  onOpenAnimationExport: () => void;
+  onOpenDataMerge: () => void;
+  onSaveProject: () => void;
+  onSaveTemplate: () => void;
+  onOpenProject: () => void;
+  onOpenRecent: () => void;
   onOpenSettings: () => void;
+  onOpenBrandKit: () => void;
+  onOpenStyleLibrary: () => void;
+  brandKit: BrandKit | null;
+  customFonts: CustomFont[];
+  onUploadFonts: (files: File[]) => void;
+  onDeleteCustomFont: (family: string) => void;
+  showFontDiagnostics: boolean;
+  onCloseFontDiagnostics: () => void;
   onUndo: () => void;
   onRedo: () => void;
   onStamp: (ids: string[]) => void;
@@ -68,7 +97,24 @@ const Controls = forwardRef<ControlsHandle, ControlsProps>(({
   onUpload,
   onUrlImport,
   onDownload,
+  onDownloadSvg,
+  onDownloadPsd,
+  onOpenPdfExport,
+  onOpenAnimationExport,
+  onOpenDataMerge,
+  onSaveProject,
+  onSaveTemplate,
+  onOpenProject,
+  onOpenRecent,
   onOpenSettings,
+  onOpenBrandKit,
+  onOpenStyleLibrary,
+  brandKit,
+  customFonts,
+  onUploadFonts,
+  onDeleteCustomFont,
+  showFontDiagnostics,
+  onCloseFontDiagnostics,
   onUndo,
   onRedo,
   onStamp,
@@ -84,6 +130,9 @@ const Controls = forwardRef<ControlsHandle, ControlsProps>(({
   const [hoveredControl, setHoveredControl] = useState<string | null>(null);
   const [isFontBookOpen, setIsFontBookOpen] = useState(false);
   const [fontBookSearchOverride, setFontBookSearchOverride] = useState<string | undefined>(undefined);
+  const [copiedStyle, setCopiedStyle] = useState<LayerStyle | null>(null);
+  // Text selected in the Text Content box, which styled runs apply to
+  const [textSelection, setTextSelection] = useState<{ layerId: string; start: number; end: number } | null>(null);
   
   const textInputRef = useRef<HTMLTextAreaElement>(null);
 
@@ -92,21 +141,11 @@ const Controls = forwardRef<ControlsHandle, ControlsProps>(({
   const modKey = isMac ? '⌘' : 'Ctrl';
   const altKey = isMac ? '⌥' : 'Alt';
 
-  // Listen for Debug Font Selection from DOM Overlay
-  useEffect(() => {
-    const handleDebugFontSelect = (e: CustomEvent) => {
-        const fontName = e.detail;
-        if (fontName) {
-            setFontBookSearchOverride(fontName);
-            setIsFontBookOpen(true);
-        }
-    };
-
-    window.addEventListener('textrot-open-font' as any, handleDebugFontSelect as any);
-    return () => {
-        window.removeEventListener('textrot-open-font' as any, handleDebugFontSelect as any);
-    };
-  }, []);
+  // Font selected in the diagnostics panel: show it in the font book
+  const openFontInFontBook = (fontName: string) => {
+    setFontBookSearchOverride(fontName);
+    setIsFontBookOpen(true);
+  };
 
   // Panel State for Keyboard Shortcuts
   const [panelState, setPanelState] = useState({
@@ -232,6 +271,27 @@ const Controls = forwardRef<ControlsHandle, ControlsProps>(({
 
   useKeyboard(nudgeShortcuts);
 
+  // --- Style Copy/Paste ---
+  const copyStyle = useCallback(() => {
+      const layer = design.layers.find(l => l.id === design.activeLayerId);
+      if (layer) setCopiedStyle(extractLayerStyle(layer));
+  }, [design.layers, design.activeLayerId]);
+
+  const pasteStyle = useCallback(() => {
+      if (!copiedStyle) return;
+      setDesign(prev => ({
+          ...prev,
+          layers: prev.layers.map(l => prev.selectedLayerIds.includes(l.id) ? applyLayerStyle(l, copiedStyle) : l)
+      }));
+  }, [copiedStyle, setDesign]);
+
+  const styleShortcuts = useMemo(() => [
+      { id: 'copy-style', combo: { code: 'KeyC', ctrl: true, alt: true }, action: copyStyle },
+      { id: 'paste-style', combo: { code: 'KeyV', ctrl: true, alt: true }, action: pasteStyle },
+  ], [copyStyle, pasteStyle]);
+
+  useKeyboard(styleShortcuts);
+
   // Keyboard States
   const isShiftPressed = useIsKeyPressed('Shift');
   const isAltPressed = useIsKeyPressed('Alt');
@@ -271,6 +331,17 @@ const Controls = forwardRef<ControlsHandle, ControlsProps>(({
     }));
   };
 
+  // Styled runs follow the text they cover as it is typed
+  const updateText = (textOverlay: string) => {
+    if (!design.activeLayerId) return;
+    setDesign(prev => ({
+        ...prev,
+        layers: prev.layers.map(l => prev.selectedLayerIds.includes(l.id)
+            ? { ...l, textOverlay, textRuns: updateRunsForEdit(l.textRuns, l.textOverlay, textOverlay) }
+            : l)
+    }));
+  };
+
   const updateFontVariation = (axisTag: string, value: number) => {
     if (!design.activeLayerId) return;
     setDesign(prev => ({
@@ -288,6 +359,32 @@ const Controls = forwardRef<ControlsHandle, ControlsProps>(({
     }));
   };
 
+  // Named instances set every axis at once
+  // Overrides equal to the default are dropped so the layer keeps plain font-feature-settings
+  const toggleFontFeature = (tag: string) => {
+    if (!design.activeLayerId || !activeLayer) return;
+    const enabled = !isFontFeatureEnabled(activeLayer, tag);
+    setDesign(prev => ({
+        ...prev,
+        layers: prev.layers.map(l => {
+            if (!prev.selectedLayerIds.includes(l.id)) return l;
+            const { [tag]: _, ...fontFeatures } = l.fontFeatures || {};
+            if (enabled !== DEFAULT_ON_FEATURES.includes(tag)) fontFeatures[tag] = enabled;
+            return { ...l, fontFeatures };
+        })
+    }));
+  };
+
+  const applyNamedInstance = (instance: NamedInstance) => {
+    if (!design.activeLayerId) return;
+    setDesign(prev => ({
+        ...prev,
+        layers: prev.layers.map(l => prev.selectedLayerIds.includes(l.id)
+            ? { ...l, fontVariations: { ...l.fontVariations, ...instance.coordinates } }
+            : l)
+    }));
+  };
+
   const toggleLayer = (key: keyof TextLayer) => {
     if (!activeLayer) return;
     // We toggle based on the active layer's state, enforcing consistency across selection
@@ -358,6 +455,7 @@ const Controls = forwardRef<ControlsHandle, ControlsProps>(({
         visible: true,
         locked: false,
         textOverlay: 'New Text',
+        textRuns: [],
         fontFamily: 'Inter',
         textColor: '#FFFFFF',
         shadowColor: '#000000',
@@ -365,10 +463,15 @@ const Controls = forwardRef<ControlsHandle, ControlsProps>(({
         letterSpacing: 0,
         letterRotation: 0,
         textAlign: 'center',
+        direction: 'auto',
+        writingMode: 'horizontal',
+        textOrientation: 'mixed',
+        columnDirection: 'rtl',
         overlayPosition: { x: 50, y: 50 },
         blendMode: 'normal',
         opacity: 1,
         fontVariations: {},
+        fontFeatures: {},
         pathPoints: [],
         pathSmoothing: 5,
         isPathInputMode: false,
@@ -397,12 +500,14 @@ const Controls = forwardRef<ControlsHandle, ControlsProps>(({
         effectAngle: 90,
         rotation: 0,
         flipX: false,
-        flipY: false
+        flipY: false,
+        keyframes: {},
+        templateSlot: 'locked'
       };
       
       setDesign(prev => ({
           ...prev,
-          layers: [...prev.layers, newLayer],
+          layers: [...prev.layers, applyBrandStyle(newLayer, brandKit)],
           activeLayerId: newId,
           selectedLayerIds: [newId]
       }));
@@ -423,6 +528,7 @@ const Controls = forwardRef<ControlsHandle, ControlsProps>(({
               overlayPosition: { ...originalLayer.overlayPosition },
               fontVariations: { ...originalLayer.fontVariations },
               pathPoints: originalLayer.pathPoints.map(p => ({ ...p })),
+              keyframes: cloneKeyframes(originalLayer.keyframes),
           };
 
           const index = prev.layers.findIndex(l => l.id === id);
@@ -523,11 +629,15 @@ const Controls = forwardRef<ControlsHandle, ControlsProps>(({
   const isGenerateDisabled = isGenerating || !design.prompt.trim();
   const isEditDisabled = isGenerating || !hasImage || !design.prompt.trim();
 
+  // Catalog fonts' axes and features are read from their files once they load
+  useFontStatus();
+
   // Get Variable Axes for current font
-  const variableConfig = activeLayer ? VARIABLE_FONTS[activeLayer.fontFamily] : undefined;
+  const variableConfig = activeLayer ? getVariableFontConfig(activeLayer.fontFamily) : undefined;
+  const fontFeatures = activeLayer ? getFontFeatures(activeLayer.fontFamily) : [];
   
   // Check if current font is a Color Font
-  const isColorFont = activeLayer ? COLOR_FONTS.includes(activeLayer.fontFamily) : false;
+  const isColorFont = activeLayer ? COLOR_FONTS.some(font => font === activeLayer.fontFamily) : false;
   // Check if specific feature disabling is needed (Honk handles its own shadow)
   const isShadowDisabled = activeLayer ? activeLayer.fontFamily === 'Honk' : false;
 
@@ -541,6 +651,49 @@ const Controls = forwardRef<ControlsHandle, ControlsProps>(({
         </h2>
 
         <div className="flex items-center gap-1">
+            <Tooltip content={`Open Project (${modKey}+O)`} position="bottom">
+                <button 
+                    onClick={onOpenProject}
+                    className="p-2 rounded-[3px] transition-colors text-neutral-500 hover:text-white hover:bg-neutral-800"
+                >
+                    <FolderOpen size={20} />
+                </button>
+            </Tooltip>
+            <Tooltip content={`Save Project (${modKey}+S)`} position="bottom">
+                <button 
+                    onClick={onSaveProject}
+                    className="p-2 rounded-[3px] transition-colors text-neutral-500 hover:text-white hover:bg-neutral-800"
+                >
+                    <Save size={20} />
+                </button>
+            </Tooltip>
+            <Tooltip content="Save as Template" position="bottom">
+                <button 
+                    onClick={onSaveTemplate}
+                    className="p-2 rounded-[3px] transition-colors text-neutral-500 hover:text-white hover:bg-neutral-800"
+                >
+                    <LayoutTemplate size={20} />
+                </button>
+            </Tooltip>
+            <Tooltip content="Recent Projects" position="bottom">
+                <button 
+                    onClick={onOpenRecent}
+                    className="p-2 rounded-[3px] transition-colors text-neutral-500 hover:text-white hover:bg-neutral-800"
+                >
+                    <History size={20} />
+                </button>
+            </Tooltip>
+            <Tooltip content={brandKit ? `Brand Kit: ${brandKit.name}` : 'Brand Kit'} position="bottom">
+                <button 
+                    onClick={onOpenBrandKit}
+                    className={`p-2 rounded-[3px] transition-colors hover:bg-neutral-800 ${brandKit ? 'text-pink-500 hover:text-pink-400' : 'text-neutral-500 hover:text-white'}`}
+                >
+                    <SwatchBook size={20} />
+                </button>
+            </Tooltip>
+
+            <div className="w-px h-5 bg-neutral-800 mx-1"></div>
+
             <Tooltip content={`Undo (${modKey}+Z)`} position="bottom">
                 <button 
                     onClick={onUndo}
@@ -865,6 +1018,11 @@ const Controls = forwardRef<ControlsHandle, ControlsProps>(({
                             </div>
                         )}
                     </div>
+                    {design.backgroundType === 'solid' && brandKit && brandKit.swatches.length > 0 && (
+                        <div className="px-2 pb-2 bg-neutral-950">
+                            <BrandSwatches swatches={brandKit.swatches} value={design.backgroundColor} onSelect={(c) => updateGlobal('backgroundColor', c)} />
+                        </div>
+                    )}
                 </div>
 
                 {/* Stamp Buttons */}
@@ -879,6 +1037,37 @@ const Controls = forwardRef<ControlsHandle, ControlsProps>(({
                         </button>
                     </div>
                 )}
+
+                {/* Style Buttons */}
+                {design.selectedLayerIds.length > 0 && (
+                    <div className="mt-2 flex gap-2 animate-in slide-in-from-top-1 fade-in">
+                        <Tooltip content={`Copy Style (${modKey}+${altKey}+C)`} position="top" className="flex-1">
+                            <button 
+                                onClick={copyStyle}
+                                className="w-full py-2 px-3 bg-neutral-800 hover:bg-neutral-700 text-white rounded-[8px] text-xs font-medium flex items-center justify-center gap-2 border border-neutral-700/50 transition-colors"
+                            >
+                                <ClipboardCopy size={14} /> Copy Style
+                            </button>
+                        </Tooltip>
+                        <Tooltip content={`Paste Style (${modKey}+${altKey}+V)`} position="top" className="flex-1">
+                            <button 
+                                onClick={pasteStyle}
+                                disabled={!copiedStyle}
+                                className="w-full py-2 px-3 bg-neutral-800 hover:bg-neutral-700 disabled:opacity-40 disabled:cursor-not-allowed text-white rounded-[8px] text-xs font-medium flex items-center justify-center gap-2 border border-neutral-700/50 transition-colors"
+                            >
+                                <ClipboardPaste size={14} /> Paste Style
+                            </button>
+                        </Tooltip>
+                        <Tooltip content="Style Library" position="top">
+                            <button 
+                                onClick={onOpenStyleLibrary}
+                                className="h-full py-2 px-3 bg-neutral-800 hover:bg-neutral-700 text-white rounded-[8px] flex items-center justify-center border border-neutral-700/50 transition-colors"
+                            >
+                                <Brush size={14} />
+                            </button>
+                        </Tooltip>
+                    </div>
+                )}
             </div>
         </CollapsibleSection>
 
@@ -903,7 +1092,17 @@ const Controls = forwardRef<ControlsHandle, ControlsProps>(({
                   className="w-full bg-neutral-950 border border-neutral-800 rounded-[3px] p-2 text-sm focus:border-pink-500 outline-none resize-y"
                   rows={2}
                   value={activeLayer.textOverlay}
-                  onChange={(e) => updateLayer('textOverlay', e.target.value)}
+                  onChange={(e) => updateText(e.target.value)}
+                  onSelect={(e) => setTextSelection({ layerId: activeLayer.id, start: e.currentTarget.selectionStart, end: e.currentTarget.selectionEnd })}
+                />
+            )}
+            {design.selectedLayerIds.length <= 1 && textSelection?.layerId === activeLayer.id &&
+              textSelection.end > textSelection.start && textSelection.end <= activeLayer.textOverlay.length && (
+                <TextRunControls
+                  layer={activeLayer}
+                  selection={textSelection}
+                  fonts={[...customFonts.map(f => f.family), ...getAllowedFonts(brandKit)]}
+                  onChange={(runs) => updateLayer('textRuns', runs)}
                 />
             )}
           </CollapsibleSection>
@@ -957,12 +1156,54 @@ const Controls = forwardRef<ControlsHandle, ControlsProps>(({
                   </div>
             </div>
 
+            <div className="flex gap-1 bg-neutral-950 rounded-[3px] p-1 border border-neutral-800 mt-2">
+                <button onClick={() => updateLayer('direction', 'auto')} className={`flex-1 h-8 rounded-[3px] flex items-center justify-center text-[10px] font-bold uppercase tracking-wider ${activeLayer.direction === 'auto' ? 'bg-neutral-800 text-white' : 'text-neutral-400 hover:text-white'}`} title="Direction from the first letter">Auto</button>
+                <button onClick={() => updateLayer('direction', 'ltr')} className={`flex-1 h-8 rounded-[3px] flex items-center justify-center ${activeLayer.direction === 'ltr' ? 'bg-neutral-800 text-white' : 'text-neutral-400 hover:text-white'}`} title="Left to Right"><PilcrowRight size={16} /></button>
+                <button onClick={() => updateLayer('direction', 'rtl')} className={`flex-1 h-8 rounded-[3px] flex items-center justify-center ${activeLayer.direction === 'rtl' ? 'bg-neutral-800 text-white' : 'text-neutral-400 hover:text-white'}`} title="Right to Left"><PilcrowLeft size={16} /></button>
+            </div>
+
+            <div className="flex gap-2 mt-2">
+                  <div className="flex-1 flex gap-1 bg-neutral-950 rounded-[3px] p-1 border border-neutral-800">
+                      <button onClick={() => updateLayer('writingMode', 'horizontal')} className={`flex-1 h-8 rounded-[3px] flex items-center justify-center text-[10px] font-bold uppercase tracking-wider ${activeLayer.writingMode === 'horizontal' ? 'bg-neutral-800 text-white' : 'text-neutral-400 hover:text-white'}`}>Horizontal</button>
+                      <button onClick={() => updateLayer('writingMode', 'vertical')} className={`flex-1 h-8 rounded-[3px] flex items-center justify-center text-[10px] font-bold uppercase tracking-wider ${activeLayer.writingMode === 'vertical' ? 'bg-neutral-800 text-white' : 'text-neutral-400 hover:text-white'}`} title="Stack each line as a column">Vertical</button>
+                  </div>
+                  {activeLayer.writingMode === 'vertical' && (
+                      <div className="flex gap-1 bg-neutral-950 rounded-[3px] p-1 border border-neutral-800">
+                          <button onClick={() => updateLayer('textOrientation', activeLayer.textOrientation === 'upright' ? 'mixed' : 'upright')} className={`px-2 h-8 rounded-[3px] hover:bg-neutral-800 flex items-center justify-center text-[10px] font-bold uppercase tracking-wider ${activeLayer.textOrientation === 'upright' ? 'bg-neutral-800 text-pink-500' : 'text-neutral-400'}`} title="Keep Latin letters and digits upright instead of sideways">Upright</button>
+                          <button onClick={() => updateLayer('columnDirection', activeLayer.columnDirection === 'rtl' ? 'ltr' : 'rtl')} className="w-8 h-8 rounded-[3px] hover:bg-neutral-800 flex items-center justify-center text-neutral-400" title={activeLayer.columnDirection === 'rtl' ? "Columns run right to left" : "Columns run left to right"}>
+                              {activeLayer.columnDirection === 'rtl' ? <ArrowLeft size={16} /> : <ArrowRight size={16} />}
+                          </button>
+                      </div>
+                  )}
+            </div>
+
             {/* Variable Axes Subpanel */}
             {variableConfig && variableConfig.axes.length > 0 && (
                  <div className="mt-2 mb-3 space-y-2 bg-neutral-950 border border-neutral-800 p-2 rounded-[3px] animate-in slide-in-from-top-1 fade-in">
                     <div className="text-[10px] text-neutral-500 font-bold uppercase tracking-wider mb-1 flex items-center gap-1">
                         <Sliders size={10} /> Variable Axes
                     </div>
+                    {variableConfig.instances && variableConfig.instances.length > 0 && (
+                        <div className="flex flex-wrap gap-1 pb-1">
+                            {variableConfig.instances.map(instance => {
+                                const isCurrent = Object.entries(instance.coordinates).every(([tag, value]) =>
+                                    (activeLayer.fontVariations?.[tag] ?? variableConfig.axes.find(a => a.tag === tag)?.defaultValue) === value);
+                                return (
+                                    <button
+                                        key={instance.name}
+                                        onClick={() => applyNamedInstance(instance)}
+                                        className={`px-2 py-1 rounded-[3px] border text-[10px] transition-colors ${
+                                            isCurrent
+                                            ? 'bg-neutral-800 border-pink-500 text-pink-500'
+                                            : 'bg-neutral-900 border-neutral-800 text-neutral-400 hover:text-white'
+                                        }`}
+                                    >
+                                        {instance.name}
+                                    </button>
+                                );
+                            })}
+                        </div>
+                    )}
                     {variableConfig.axes.map(axis => {
                         const currentValue = activeLayer.fontVariations?.[axis.tag] ?? axis.defaultValue;
                         
@@ -1004,6 +1245,37 @@ const Controls = forwardRef<ControlsHandle, ControlsProps>(({
                  </div>
             )}
             
+            {/* OpenType Features Subpanel */}
+            <div className="mt-2 mb-3 space-y-2 bg-neutral-950 border border-neutral-800 p-2 rounded-[3px]">
+                <div className="text-[10px] text-neutral-500 font-bold uppercase tracking-wider mb-1 flex items-center gap-1">
+                    <Ligature size={10} /> OpenType Features
+                </div>
+                {!hasVerifiedFeatures(activeLayer.fontFamily) && (
+                    <p className="text-[10px] text-neutral-600 leading-relaxed">
+                        Unverified: this font's feature tables haven't been read, so some of these may have no effect.
+                    </p>
+                )}
+                <div className="flex flex-wrap gap-1">
+                    {fontFeatures.map(feature => {
+                        const isOn = isFontFeatureEnabled(activeLayer, feature.tag);
+                        return (
+                            <button
+                                key={feature.tag}
+                                onClick={() => toggleFontFeature(feature.tag)}
+                                title={`${feature.name} (${feature.tag})`}
+                                className={`px-2 py-1 rounded-[3px] border text-[10px] font-mono transition-colors ${
+                                    isOn
+                                    ? 'bg-neutral-800 border-pink-500 text-pink-500'
+                                    : 'bg-neutral-900 border-neutral-800 text-neutral-400 hover:text-white'
+                                }`}
+                            >
+                                {feature.tag}
+                            </button>
+                        );
+                    })}
+                </div>
+            </div>
+
             <SliderControl label="Kerning" icon={AlignCenterHorizontal} value={activeLayer.letterSpacing} setValue={(v) => updateLayer('letterSpacing', v)} min="-20" max="100" step="1" suffix="px" defaultValue={0} />
             <SliderControl label="Letter Rotate" icon={RotateCw} value={activeLayer.letterRotation} setValue={(v) => updateLayer('letterRotation', v)} min="-180" max="180" step="1" suffix="°" defaultValue={0} />
             
@@ -1047,6 +1319,7 @@ const Controls = forwardRef<ControlsHandle, ControlsProps>(({
                       />
                       <span className="text-xs font-mono text-neutral-400">{isColorFont ? 'Native' : activeLayer.textColor}</span>
                   </div>
+                  <BrandSwatches swatches={brandKit?.swatches || []} value={activeLayer.textColor} onSelect={(c) => updateLayer('textColor', c)} disabled={isColorFont} />
                   {isColorFont && <div className="text-[9px] text-neutral-600 mt-1 italic">Color Font (Native Colors)</div>}
               </div>
               
@@ -1065,6 +1338,7 @@ const Controls = forwardRef<ControlsHandle, ControlsProps>(({
                       <input type="color" value={activeLayer.shadowColor} onChange={(e) => updateLayer('shadowColor', e.target.value)} className="w-12 h-full rounded-[2px] cursor-pointer bg-transparent border-none" />
                       <span className="text-xs font-mono text-neutral-400">{activeLayer.shadowColor}</span>
                   </div>
+                  <BrandSwatches swatches={brandKit?.swatches || []} value={activeLayer.shadowColor} onSelect={(c) => updateLayer('shadowColor', c)} disabled={!activeLayer.hasShadow || isShadowDisabled} />
                   {isShadowDisabled && <div className="text-[9px] text-neutral-600 mt-1 italic">Handled by Font Axis</div>}
               </div>
             </div>
@@ -1186,6 +1460,7 @@ const Controls = forwardRef<ControlsHandle, ControlsProps>(({
             toggle={(k) => toggleLayer(k as keyof TextLayer)}
             isOpen={panelState.effects}
             onToggle={() => togglePanel('effects')}
+            swatches={brandKit?.swatches || []}
           />
 
           {/* Blending (Shift+8) */}
@@ -1237,9 +1512,36 @@ const Controls = forwardRef<ControlsHandle, ControlsProps>(({
 
       {/* Footer */}
       <div className="p-6 border-t border-neutral-800 bg-neutral-950 shrink-0 z-10">
-        <button onClick={onDownload} className="w-full py-3 bg-neutral-800 hover:bg-neutral-700 text-white rounded-[3px] font-medium flex items-center justify-center gap-2 transition-colors">
-            <Download size={16} /> Save Image
-        </button>
+        <div className="flex gap-2">
+            <button onClick={onDownload} className="flex-1 py-3 bg-neutral-800 hover:bg-neutral-700 text-white rounded-[3px] font-medium flex items-center justify-center gap-2 transition-colors">
+                <Download size={16} /> Save Image
+            </button>
+            <Tooltip content="Export SVG with editable text" position="top">
+                <button onClick={onDownloadSvg} disabled={!hasImage} className="h-full px-4 bg-neutral-800 hover:bg-neutral-700 disabled:opacity-40 disabled:cursor-not-allowed text-white rounded-[3px] font-medium text-xs transition-colors">
+                    SVG
+                </button>
+            </Tooltip>
+            <Tooltip content="Export layered PSD" position="top">
+                <button onClick={onDownloadPsd} disabled={!hasImage} className="h-full px-4 bg-neutral-800 hover:bg-neutral-700 disabled:opacity-40 disabled:cursor-not-allowed text-white rounded-[3px] font-medium text-xs transition-colors">
+                    PSD
+                </button>
+            </Tooltip>
+            <Tooltip content="Export print-ready PDF" position="top">
+                <button onClick={onOpenPdfExport} disabled={!hasImage} className="h-full px-4 bg-neutral-800 hover:bg-neutral-700 disabled:opacity-40 disabled:cursor-not-allowed text-white rounded-[3px] font-medium text-xs transition-colors">
+                    PDF
+                </button>
+            </Tooltip>
+            <Tooltip content="Export animated effects (WebM/GIF)" position="top">
+                <button onClick={onOpenAnimationExport} disabled={!hasImage} className="h-full px-3 bg-neutral-800 hover:bg-neutral-700 disabled:opacity-40 disabled:cursor-not-allowed text-white rounded-[3px] font-medium text-xs transition-colors flex items-center">
+                    <Film size={14} />
+                </button>
+            </Tooltip>
+            <Tooltip content="Data merge: batch export variants from CSV/JSON" position="top">
+                <button onClick={onOpenDataMerge} disabled={!hasImage} className="h-full px-3 bg-neutral-800 hover:bg-neutral-700 disabled:opacity-40 disabled:cursor-not-allowed text-white rounded-[3px] font-medium text-xs transition-colors flex items-center">
+                    <Table size={14} />
+                </button>
+            </Tooltip>
+        </div>
       </div>
 
       <ConfirmationModal 
@@ -1257,8 +1559,18 @@ const Controls = forwardRef<ControlsHandle, ControlsProps>(({
             onSelect={(font) => updateLayer('fontFamily', font)}
             currentFont={activeLayer.fontFamily}
             initialSearchTerm={fontBookSearchOverride}
+            allowedFonts={getAllowedFonts(brandKit)}
+            customFonts={customFonts}
+            onUploadFonts={onUploadFonts}
+            onDeleteCustomFont={onDeleteCustomFont}
         />
       )}
+
+      <FontDiagnosticsPanel
+        isOpen={showFontDiagnostics}
+        onClose={onCloseFontDiagnostics}
+        onOpenFont={openFontInFontBook}
+      />
     </div>
   );
 });
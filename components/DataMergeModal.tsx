@@ -0,0 +1,254 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { X, Table, Upload, Loader2, AlertTriangle } from 'lucide-react';
+import { DataMergeExportOptions, ImageExportFormat, MergeDataset, SceneSnapshot } from '../types';
+import { IMAGE_EXPORT_FORMATS } from '../constants';
+import { SceneRenderOptions } from './Canvas';
+import { ROW_NUMBER_PLACEHOLDER, buildFileNames, findPlaceholders, mergeLayers, parseDataset } from '../utils/dataMerge';
+
+interface DataMergeModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  scene: SceneSnapshot | null;
+  renderScene: (scene: SceneSnapshot, options?: SceneRenderOptions) => Promise<HTMLCanvasElement>;
+  onExport: (dataset: MergeDataset, options: DataMergeExportOptions, onProgress: (row: number, total: number) => void) => Promise<void>;
+}
+
+const PREVIEW_LIMIT = 24;
+const THUMBNAIL_WIDTH = 240;
+const SCALE_OPTIONS = [0.5, 1, 2];
+
+const DataMergeModal: React.FC<DataMergeModalProps> = ({ isOpen, onClose, scene, renderScene, onExport }) => {
+  const [dataset, setDataset] = useState<MergeDataset | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [options, setOptions] = useState<DataMergeExportOptions>({ format: 'png', quality: 0.92, scale: 1, fileNameTemplate: `{{${ROW_NUMBER_PLACEHOLDER}}}` });
+  const [thumbnails, setThumbnails] = useState<string[]>([]);
+  const [progress, setProgress] = useState<{ row: number; total: number } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Grid preview: small renders of the first rows, one at a time so the editor stays responsive
+  useEffect(() => {
+    if (!isOpen || !scene || !dataset) return;
+    let cancelled = false;
+    setThumbnails([]);
+
+    (async () => {
+      const img = new Image();
+      await new Promise((resolve, reject) => {
+        img.onload = resolve;
+        img.onerror = reject;
+        img.src = scene.imageSrc;
+      });
+      const scale = Math.min(1, THUMBNAIL_WIDTH / img.naturalWidth);
+
+      for (let i = 0; i < Math.min(PREVIEW_LIMIT, dataset.rows.length) && !cancelled; i++) {
+        const canvas = await renderScene({ ...scene, layers: mergeLayers(scene.layers, dataset.rows[i], i + 1) }, { scale });
+        const url = canvas.toDataURL('image/jpeg', 0.8);
+        if (!cancelled) setThumbnails(prev => [...prev, url]);
+      }
+    })().catch(e => console.warn("Data merge preview failed", e));
+
+    return () => { cancelled = true; };
+  }, [isOpen, scene, dataset]);
+
+  if (!isOpen) return null;
+
+  const isExporting = progress !== null;
+  const placeholders = scene ? findPlaceholders(scene.layers) : [];
+  const missing = dataset ? placeholders.filter(p => !dataset.columns.includes(p) && p !== ROW_NUMBER_PLACEHOLDER) : [];
+  const fileNames = dataset ? buildFileNames(options.fileNameTemplate, dataset.rows) : [];
+  const format = IMAGE_EXPORT_FORMATS[options.format];
+
+  const handleFile = async (file: File) => {
+    try {
+      const loaded = parseDataset(file.name, await file.text());
+      setDataset(loaded);
+      setLoadError(null);
+      // Name files by the first column until the user picks something else
+      setOptions(prev => prev.fileNameTemplate === `{{${ROW_NUMBER_PLACEHOLDER}}}` && loaded.columns[0]
+        ? { ...prev, fileNameTemplate: `{{${ROW_NUMBER_PLACEHOLDER}}}-{{${loaded.columns[0]}}}` }
+        : prev);
+    } catch (e: any) {
+      setLoadError(e.message || "Could not read the dataset.");
+    }
+  };
+
+  const handleExport = async () => {
+    if (!dataset) return;
+    setProgress({ row: 0, total: dataset.rows.length });
+    try {
+      await onExport(dataset, options, (row, total) => setProgress({ row, total }));
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const optionClass = (active: boolean) =>
+    `flex-1 py-2 text-xs font-medium rounded-[3px] border transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${
+      active ? 'bg-pink-500/10 border-pink-500 text-pink-400' : 'bg-neutral-950 border-neutral-800 text-neutral-400 hover:border-neutral-600'
+    }`;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center">
+      {/* Backdrop */}
+      <div
+        className="absolute inset-0 bg-black/60 backdrop-blur-sm transition-opacity duration-300"
+        onClick={isExporting ? undefined : onClose}
+      />
+
+      {/* Modal Content */}
+      <div className="relative bg-neutral-900 border border-neutral-800 rounded-lg w-full max-w-2xl max-h-[90vh] shadow-2xl overflow-hidden flex flex-col animate-in zoom-in-95 duration-200">
+        <div className="p-6 overflow-y-auto custom-scrollbar">
+            <div className="flex items-center justify-between mb-6">
+                <div className="flex items-center gap-3">
+                    <div className="w-10 h-10 rounded-full bg-neutral-800 flex items-center justify-center text-pink-500 border border-neutral-700">
+                        <Table size={20} />
+                    </div>
+                    <div>
+                        <h3 className="text-lg font-bold text-white">Data Merge</h3>
+                        <p className="text-xs text-neutral-400">One image per row, filling {'{{column}}'} placeholders in layer text</p>
+                    </div>
+                </div>
+                <button onClick={onClose} disabled={isExporting} className="text-neutral-500 hover:text-white transition-colors disabled:opacity-40">
+                    <X size={20} />
+                </button>
+            </div>
+
+            <input
+                type="file"
+                ref={fileInputRef}
+                className="hidden"
+                accept=".csv,.json,text/csv,application/json"
+                onChange={(e) => {
+                    if (e.target.files?.[0]) handleFile(e.target.files[0]);
+                    e.target.value = '';
+                }}
+            />
+
+            <div className="space-y-5">
+                <div>
+                    <label className="block text-[10px] font-bold text-neutral-500 mb-2 uppercase tracking-wider">Dataset</label>
+                    <button
+                        onClick={() => fileInputRef.current?.click()}
+                        disabled={isExporting}
+                        className="w-full py-2.5 px-3 bg-neutral-950 border border-dashed border-neutral-700 hover:border-pink-500 rounded-[3px] text-xs text-neutral-300 flex items-center justify-center gap-2 transition-colors disabled:opacity-40"
+                    >
+                        <Upload size={14} />
+                        {dataset ? `${dataset.name} · ${dataset.rows.length} rows` : 'Load CSV or JSON'}
+                    </button>
+                    {loadError && <p className="text-[10px] text-red-400 mt-1.5">{loadError}</p>}
+                    {dataset && (
+                        <p className="text-[10px] text-neutral-500 mt-1.5">Columns: {dataset.columns.join(', ')}</p>
+                    )}
+                </div>
+
+                <div>
+                    <label className="block text-[10px] font-bold text-neutral-500 mb-2 uppercase tracking-wider">Placeholders</label>
+                    {placeholders.length === 0 ? (
+                        <p className="text-[10px] text-neutral-500">
+                            No layer text contains placeholders yet. Type e.g. {'{{city}}'} into a layer to fill it from the dataset.
+                        </p>
+                    ) : (
+                        <div className="flex flex-wrap gap-1.5">
+                            {placeholders.map(name => (
+                                <span
+                                    key={name}
+                                    className={`px-2 py-0.5 rounded-[3px] border text-[10px] font-mono ${
+                                        missing.includes(name) ? 'border-amber-500/50 text-amber-400' : 'border-neutral-700 text-neutral-300'
+                                    }`}
+                                >
+                                    {`{{${name}}}`}
+                                </span>
+                            ))}
+                        </div>
+                    )}
+                    {missing.length > 0 && (
+                        <p className="text-[10px] text-amber-400 flex items-center gap-1.5 mt-2">
+                            <AlertTriangle size={12} /> No column for {missing.join(', ')}; these stay as typed.
+                        </p>
+                    )}
+                </div>
+
+                {dataset && (
+                    <div>
+                        <label className="block text-[10px] font-bold text-neutral-500 mb-2 uppercase tracking-wider">Preview</label>
+                        <div className="grid grid-cols-3 gap-2">
+                            {dataset.rows.slice(0, PREVIEW_LIMIT).map((_, i) => (
+                                <div key={i} className="bg-neutral-950 border border-neutral-800 rounded-[3px] overflow-hidden">
+                                    <div className="aspect-video flex items-center justify-center">
+                                        {thumbnails[i]
+                                            ? <img src={thumbnails[i]} alt={fileNames[i]} className="max-w-full max-h-full object-contain" />
+                                            : <Loader2 size={14} className="animate-spin text-neutral-600" />}
+                                    </div>
+                                    <p className="text-[10px] text-neutral-400 px-2 py-1 truncate border-t border-neutral-800">{fileNames[i]}.{format.extension}</p>
+                                </div>
+                            ))}
+                        </div>
+                        {dataset.rows.length > PREVIEW_LIMIT && (
+                            <p className="text-[10px] text-neutral-500 mt-1.5">Showing the first {PREVIEW_LIMIT} of {dataset.rows.length} rows.</p>
+                        )}
+                    </div>
+                )}
+
+                <div>
+                    <label className="block text-[10px] font-bold text-neutral-500 mb-2 uppercase tracking-wider">File Names</label>
+                    <input
+                        type="text"
+                        value={options.fileNameTemplate}
+                        onChange={(e) => setOptions(prev => ({ ...prev, fileNameTemplate: e.target.value }))}
+                        disabled={isExporting}
+                        className="w-full bg-neutral-950 border border-neutral-800 rounded-[3px] px-3 py-2 text-xs text-white font-mono focus:outline-none focus:border-pink-500"
+                    />
+                    <p className="text-[10px] text-neutral-500 mt-1.5">
+                        Use {'{{column}}'} placeholders; {`{{${ROW_NUMBER_PLACEHOLDER}}}`} is the row number. Repeated names get a suffix.
+                    </p>
+                </div>
+
+                <div className="flex gap-4">
+                    <div className="flex-1">
+                        <label className="block text-[10px] font-bold text-neutral-500 mb-2 uppercase tracking-wider">Format</label>
+                        <div className="flex gap-2">
+                            {(Object.keys(IMAGE_EXPORT_FORMATS) as ImageExportFormat[]).map(value => (
+                                <button key={value} onClick={() => setOptions(prev => ({ ...prev, format: value }))} disabled={isExporting} className={optionClass(options.format === value)}>
+                                    {IMAGE_EXPORT_FORMATS[value].label}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+                    <div className="flex-1">
+                        <label className="block text-[10px] font-bold text-neutral-500 mb-2 uppercase tracking-wider">Scale</label>
+                        <div className="flex gap-2">
+                            {SCALE_OPTIONS.map(value => (
+                                <button key={value} onClick={() => setOptions(prev => ({ ...prev, scale: value }))} disabled={isExporting} className={optionClass(options.scale === value)}>
+                                    {value}x
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+                </div>
+            </div>
+
+            <div className="flex gap-3 mt-6">
+                <button
+                    onClick={onClose}
+                    disabled={isExporting}
+                    className="flex-1 py-2.5 px-4 bg-neutral-800 hover:bg-neutral-700 text-neutral-300 rounded-[3px] text-xs font-medium transition-colors disabled:opacity-40"
+                >
+                    Cancel
+                </button>
+                <button
+                    onClick={handleExport}
+                    disabled={isExporting || !scene || !dataset}
+                    className="flex-1 py-2.5 px-4 bg-pink-600 hover:bg-pink-500 disabled:bg-neutral-700 text-white rounded-[3px] text-xs font-bold transition-colors flex items-center justify-center gap-2"
+                >
+                    {progress
+                        ? <><Loader2 size={14} className="animate-spin" /> Row {progress.row} of {progress.total}</>
+                        : `Export ${dataset ? dataset.rows.length : ''} Images as ZIP`}
+                </button>
+            </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DataMergeModal;
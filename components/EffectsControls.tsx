@@ -1,8 +1,9 @@
 import React from 'react';
-import { DesignState, TextLayer } from '../types';
+import { BrandSwatch, DesignState, TextLayer } from '../types';
 import { CircleDashed, Square, Ban, Compass, Lightbulb } from 'lucide-react';
 import SliderControl from './SliderControl';
 import CollapsibleSection from './CollapsibleSection';
+import BrandSwatches from './BrandSwatches';
 import { COLOR_FONTS } from '../constants';
 
 interface EffectsControlsProps {
@@ -12,14 +13,15 @@ interface EffectsControlsProps {
   isOpen: boolean;
   onToggle: () => void;
   id?: string;
+  swatches?: BrandSwatch[];
 }
 
-const EffectsControls: React.FC<EffectsControlsProps> = ({ design, update, toggle, isOpen, onToggle, id }) => {
+const EffectsControls: React.FC<EffectsControlsProps> = ({ design, update, toggle, isOpen, onToggle, id, swatches = [] }) => {
   const activeLayer = design.layers.find(l => l.id === design.activeLayerId);
   
   if (!activeLayer) return null;
 
-  const isColorFont = COLOR_FONTS.includes(activeLayer.fontFamily);
+  const isColorFont = COLOR_FONTS.some(font => font === activeLayer.fontFamily);
 
   return (
     <CollapsibleSection 
@@ -244,6 +246,16 @@ const EffectsControls: React.FC<EffectsControlsProps> = ({ design, update, toggl
                             </div>
                         )}
                     </div>
+                    <div className="flex gap-2">
+                        <div className="flex-1">
+                            <BrandSwatches swatches={swatches} value={activeLayer.effectColor} onSelect={(c) => update('effectColor', c)} />
+                        </div>
+                        {activeLayer.specialEffect === 'glitch' && (
+                            <div className="flex-1">
+                                <BrandSwatches swatches={swatches} value={activeLayer.effectColor2} onSelect={(c) => update('effectColor2', c)} />
+                            </div>
+                        )}
+                    </div>
                 </div>
             )}
         </div>
@@ -282,6 +294,7 @@ const EffectsControls: React.FC<EffectsControlsProps> = ({ design, update, toggl
                         />
                         <span className="text-xs font-mono text-neutral-400">{activeLayer.outlineColor}</span>
                     </div>
+                    <BrandSwatches swatches={swatches} value={activeLayer.outlineColor} onSelect={(c) => update('outlineColor', c)} />
                 </div>
             </div>
         )}
@@ -0,0 +1,180 @@
+import React, { useEffect, useState } from 'react';
+import { X, Download, Loader2, AlertTriangle } from 'lucide-react';
+import { ImageExportFormat, ImageExportOptions } from '../types';
+import { IMAGE_EXPORT_FORMATS, MAX_CANVAS_PIXELS, MAX_CANVAS_SIDE } from '../constants';
+import SliderControl from './SliderControl';
+
+interface ExportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  imageSrc: string | null;
+  onExport: (options: ImageExportOptions, onProgress: (done: number, total: number) => void) => Promise<void>;
+}
+
+const SCALE_PRESETS = [0.5, 1, 2, 3, 4];
+
+const ExportModal: React.FC<ExportModalProps> = ({ isOpen, onClose, imageSrc, onExport }) => {
+  const [options, setOptions] = useState<ImageExportOptions>({ format: 'png', quality: 0.92, scale: 1, textOnly: false });
+  const [imageSize, setImageSize] = useState<{ width: number; height: number } | null>(null);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+
+  useEffect(() => {
+    if (!isOpen || !imageSrc) return;
+    const img = new Image();
+    img.onload = () => setImageSize({ width: img.naturalWidth, height: img.naturalHeight });
+    img.src = imageSrc;
+  }, [isOpen, imageSrc]);
+
+  if (!isOpen) return null;
+
+  const format = IMAGE_EXPORT_FORMATS[options.format];
+  const update = (changes: Partial<ImageExportOptions>) => setOptions(prev => ({ ...prev, ...changes }));
+
+  const outputWidth = imageSize ? Math.round(imageSize.width * options.scale) : 0;
+  const outputHeight = imageSize ? Math.round(imageSize.height * options.scale) : 0;
+  const isTooLarge = outputWidth > MAX_CANVAS_SIDE || outputHeight > MAX_CANVAS_SIDE || outputWidth * outputHeight > MAX_CANVAS_PIXELS;
+
+  const handleFormat = (value: ImageExportFormat) => {
+    // JPEG has no alpha channel, so text-only exports fall back to PNG
+    update({ format: value, textOnly: IMAGE_EXPORT_FORMATS[value].hasAlpha ? options.textOnly : false });
+  };
+
+  const isExporting = progress !== null;
+
+  const handleExport = async () => {
+    setProgress({ done: 0, total: 0 });
+    try {
+      await onExport(options, (done, total) => setProgress({ done, total }));
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const optionClass = (active: boolean) =>
+    `flex-1 py-2 text-xs font-medium rounded-[3px] border transition-colors ${
+      active ? 'bg-pink-500/10 border-pink-500 text-pink-400' : 'bg-neutral-950 border-neutral-800 text-neutral-400 hover:border-neutral-600'
+    }`;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center">
+      {/* Backdrop */}
+      <div
+        className="absolute inset-0 bg-black/60 backdrop-blur-sm transition-opacity duration-300"
+        onClick={isExporting ? undefined : onClose}
+      />
+
+      {/* Modal Content */}
+      <div className="relative bg-neutral-900 border border-neutral-800 rounded-lg w-full max-w-md shadow-2xl overflow-hidden animate-in zoom-in-95 duration-200">
+        <div className="p-6">
+            <div className="flex items-center justify-between mb-6">
+                <div className="flex items-center gap-3">
+                    <div className="w-10 h-10 rounded-full bg-neutral-800 flex items-center justify-center text-pink-500 border border-neutral-700">
+                        <Download size={20} />
+                    </div>
+                    <div>
+                        <h3 className="text-lg font-bold text-white">Save Image</h3>
+                        <p className="text-xs text-neutral-400">Format, quality and output size</p>
+                    </div>
+                </div>
+                <button onClick={onClose} disabled={isExporting} className="text-neutral-500 hover:text-white transition-colors disabled:opacity-40">
+                    <X size={20} />
+                </button>
+            </div>
+
+            <div className="space-y-5">
+                <div>
+                    <label className="block text-[10px] font-bold text-neutral-500 mb-2 uppercase tracking-wider">Format</label>
+                    <div className="flex gap-2">
+                        {(Object.keys(IMAGE_EXPORT_FORMATS) as ImageExportFormat[]).map(value => (
+                            <button key={value} onClick={() => handleFormat(value)} disabled={isExporting} className={optionClass(options.format === value)}>
+                                {IMAGE_EXPORT_FORMATS[value].label}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+
+                {format.hasQuality && (
+                    <SliderControl
+                        label="Quality"
+                        value={Math.round(options.quality * 100)}
+                        setValue={(v) => update({ quality: v / 100 })}
+                        min={10}
+                        max={100}
+                        step={1}
+                        suffix="%"
+                        defaultValue={92}
+                    />
+                )}
+
+                <div>
+                    <SliderControl
+                        label="Scale"
+                        value={options.scale}
+                        setValue={(v) => update({ scale: v })}
+                        min={0.5}
+                        max={4}
+                        step={0.25}
+                        suffix="x"
+                        defaultValue={1}
+                    />
+                    <div className="flex gap-1.5 mt-2">
+                        {SCALE_PRESETS.map(value => (
+                            <button
+                                key={value}
+                                onClick={() => update({ scale: value })}
+                                className={`flex-1 py-1 text-[10px] rounded-[3px] border transition-colors ${options.scale === value ? 'border-pink-500 text-pink-400' : 'border-neutral-800 text-neutral-500 hover:border-neutral-600'}`}
+                            >
+                                {value}x
+                            </button>
+                        ))}
+                    </div>
+                    {imageSize && (
+                        <p className={`text-[10px] mt-2 flex items-center gap-1.5 ${isTooLarge ? 'text-amber-400' : 'text-neutral-500'}`}>
+                            {isTooLarge && <AlertTriangle size={12} />}
+                            {outputWidth} × {outputHeight} px{isTooLarge ? ' exceeds what the browser can render' : ' · text is re-rendered at this size'}
+                        </p>
+                    )}
+                </div>
+
+                <div className="flex items-center justify-between">
+                    <div>
+                        <h3 className="text-xs font-medium text-white">Text Layers Only</h3>
+                        <p className="text-[10px] text-neutral-500">
+                            {format.hasAlpha ? 'Transparent background for compositing' : 'Not available for JPEG'}
+                        </p>
+                    </div>
+                    <button
+                        onClick={() => update({ textOnly: !options.textOnly })}
+                        disabled={!format.hasAlpha}
+                        className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors duration-200 focus:outline-none disabled:opacity-40 ${options.textOnly ? 'bg-pink-500' : 'bg-neutral-700'}`}
+                    >
+                        <span className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform duration-200 ${options.textOnly ? 'translate-x-6' : 'translate-x-1'}`} />
+                    </button>
+                </div>
+            </div>
+
+            <div className="flex gap-3 mt-6">
+                <button
+                    onClick={onClose}
+                    disabled={isExporting}
+                    className="flex-1 py-2.5 px-4 bg-neutral-800 hover:bg-neutral-700 text-neutral-300 rounded-[3px] text-xs font-medium transition-colors disabled:opacity-40"
+                >
+                    Cancel
+                </button>
+                <button
+                    onClick={handleExport}
+                    disabled={isExporting || isTooLarge}
+                    className="flex-1 py-2.5 px-4 bg-pink-600 hover:bg-pink-500 disabled:bg-neutral-700 text-white rounded-[3px] text-xs font-bold transition-colors flex items-center justify-center gap-2"
+                >
+                    {progress ? (
+                        <><Loader2 size={14} className="animate-spin" /> {progress.total > 0 ? `Layer ${progress.done} of ${progress.total}` : 'Rendering...'}</>
+                    ) : `Save ${format.label}`}
+                </button>
+            </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExportModal;
@@ -1,20 +1,29 @@
 
 
-import React, { useState, useMemo, useEffect } from 'react';
+import React, { useState, useMemo, useEffect, useRef } from 'react';
 import { createPortal } from 'react-dom';
-import { X, Search, Type, Sliders } from 'lucide-react';
-import { FontFamily } from '../types';
-import { FONTS, FONT_CATEGORIES, getFontCategory, VARIABLE_FONTS } from '../constants';
+import { X, Search, Type, Sliders, Upload, Trash2, Loader2, AlertTriangle } from 'lucide-react';
+import { CustomFont, FontFamily, LayerFontFamily } from '../types';
+import { FONTS, FONT_CATEGORIES, getFontCategory } from '../constants';
+import { CUSTOM_FONT_EXTENSIONS } from '../utils/customFonts';
+import { getVariableFontConfig } from '../utils/variableFonts';
+import { isCatalogFont } from '../utils/fontManifest';
+import { retryFont } from '../services/fontLoader';
+import { useFontStatus } from '../hooks/useFontStatus';
 
 interface FontBookModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onSelect: (font: FontFamily) => void;
-  currentFont: FontFamily;
+  onSelect: (font: LayerFontFamily) => void;
+  currentFont: LayerFontFamily;
   initialSearchTerm?: string;
+  allowedFonts?: FontFamily[]; // Brand kit font set; all fonts when omitted
+  customFonts?: CustomFont[];
+  onUploadFonts?: (files: File[]) => void;
+  onDeleteCustomFont?: (family: string) => void;
 }
 
-const getPreviewConfig = (font: FontFamily, category: string) => {
+const getPreviewConfig = (font: LayerFontFamily, category: string) => {
     switch (font) {
         case 'Libre Barcode 39 Extended': 
             return { text: '1234', size: 'text-4xl', tracking: 'tracking-normal' };
@@ -43,10 +52,20 @@ const FontBookModal: React.FC<FontBookModalProps> = ({
   onClose, 
   onSelect, 
   currentFont,
-  initialSearchTerm
+  initialSearchTerm,
+  allowedFonts = FONTS,
+  customFonts = [],
+  onUploadFonts,
+  onDeleteCustomFont
 }) => {
   const [activeCategory, setActiveCategory] = useState<string>('All');
   const [searchQuery, setSearchQuery] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const getFontStatus = useFontStatus();
+
+  // Uploaded fonts are listed first, one entry per family
+  const customFamilies = useMemo(() => Array.from(new Set(customFonts.map(f => f.family))), [customFonts]);
+  const getCategory = (font: LayerFontFamily) => customFamilies.includes(font) || !isCatalogFont(font) ? FONT_CATEGORIES.CUSTOM : getFontCategory(font);
 
   // Update search query when initialSearchTerm changes or modal opens with a term
   useEffect(() => {
@@ -58,16 +77,18 @@ const FontBookModal: React.FC<FontBookModalProps> = ({
     }
   }, [isOpen, initialSearchTerm]);
 
-  const categories = ['All', ...Object.values(FONT_CATEGORIES)];
+  const categories = ['All', ...Object.values(FONT_CATEGORIES).filter(cat => cat !== FONT_CATEGORIES.CUSTOM || customFamilies.length > 0)];
 
   const filteredFonts = useMemo(() => {
-    return FONTS.filter(font => {
+    return [...customFamilies, ...allowedFonts].filter(font => {
       const matchesSearch = font.toLowerCase().includes(searchQuery.toLowerCase());
-      const category = getFontCategory(font);
+      const category = getCategory(font);
       const matchesCategory = activeCategory === 'All' || category === activeCategory;
       return matchesSearch && matchesCategory;
     });
-  }, [activeCategory, searchQuery]);
+  }, [activeCategory, searchQuery, allowedFonts, customFamilies]);
+
+  const isRestricted = allowedFonts.length < FONTS.length;
 
   if (!isOpen) return null;
 
@@ -90,15 +111,41 @@ const FontBookModal: React.FC<FontBookModalProps> = ({
              </div>
              <div>
                 <h2 className="text-lg font-bold text-white tracking-wide">Type Studio</h2>
-                <p className="text-xs text-neutral-500">Select a typeface for your layer</p>
+                <p className="text-xs text-neutral-500">
+                    {isRestricted ? `Showing the ${allowedFonts.length} fonts of your brand kit` : 'Select a typeface for your layer'}
+                </p>
              </div>
           </div>
-          <button 
-            onClick={onClose}
-            className="p-2 text-neutral-400 hover:text-white hover:bg-neutral-800 rounded-full transition-colors"
-          >
-            <X size={24} />
-          </button>
+          <div className="flex items-center gap-2">
+            {onUploadFonts && (
+              <>
+                <input
+                  type="file"
+                  ref={fileInputRef}
+                  className="hidden"
+                  multiple
+                  accept={CUSTOM_FONT_EXTENSIONS.join(',')}
+                  onChange={(e) => {
+                    if (e.target.files?.length) onUploadFonts(Array.from(e.target.files));
+                    e.target.value = '';
+                  }}
+                />
+                <button
+                  onClick={() => fileInputRef.current?.click()}
+                  className="px-3 py-2 bg-neutral-800 hover:bg-neutral-700 text-neutral-300 hover:text-white rounded-[3px] text-xs font-medium flex items-center gap-2 transition-colors"
+                  title="Upload TTF, OTF, WOFF or WOFF2 files"
+                >
+                  <Upload size={14} /> Upload Fonts
+                </button>
+              </>
+            )}
+            <button 
+              onClick={onClose}
+              className="p-2 text-neutral-400 hover:text-white hover:bg-neutral-800 rounded-full transition-colors"
+            >
+              <X size={24} />
+            </button>
+          </div>
         </div>
 
         {/* Toolbar */}
@@ -147,11 +194,13 @@ const FontBookModal: React.FC<FontBookModalProps> = ({
         <div className="flex-1 overflow-y-auto p-4 md:p-6 custom-scrollbar bg-neutral-900">
             <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
                 {filteredFonts.map(font => {
-                    const varConfig = VARIABLE_FONTS[font];
+                    const varConfig = getVariableFontConfig(font);
                     const extraAxes = varConfig?.axes.filter(a => a.tag !== 'wght') || [];
                     const hasVariable = !!varConfig;
-                    const category = getFontCategory(font);
+                    const category = getCategory(font);
                     const preview = getPreviewConfig(font, category);
+                    const isCustom = category === FONT_CATEGORIES.CUSTOM;
+                    const loadStatus = getFontStatus(font);
 
                     return (
                     <button
@@ -178,6 +227,21 @@ const FontBookModal: React.FC<FontBookModalProps> = ({
                         {/* Footer */}
                         <div className="h-10 border-t border-neutral-800/50 bg-neutral-950/50 flex items-center px-3 w-full shrink-0 gap-2">
                             <span className="text-xs text-neutral-400 font-medium truncate flex-1 text-left">{font}</span>
+
+                            {/* Load Status */}
+                            {loadStatus?.status === 'loading' && (
+                                <Loader2 size={12} className="text-neutral-500 animate-spin shrink-0" aria-label="Loading font" />
+                            )}
+                            {loadStatus?.status === 'failed' && (
+                                <span
+                                    role="button"
+                                    onClick={(e) => { e.stopPropagation(); retryFont(font); }}
+                                    className="flex items-center gap-1 px-1.5 py-0.5 rounded-[3px] border border-red-500/30 bg-red-500/10 text-red-400 hover:bg-red-500/20 text-[9px] font-bold uppercase shrink-0 transition-colors"
+                                    title={`Font failed to load${loadStatus.error ? ` (${loadStatus.error})` : ''}. Click to retry.`}
+                                >
+                                    <AlertTriangle size={10} /> Retry
+                                </span>
+                            )}
                             
                             {/* Variable Font Indicator */}
                             {hasVariable && (
@@ -194,6 +258,17 @@ const FontBookModal: React.FC<FontBookModalProps> = ({
                                 </div>
                             )}
 
+                            {isCustom && onDeleteCustomFont && (
+                                <span
+                                    role="button"
+                                    onClick={(e) => { e.stopPropagation(); onDeleteCustomFont(font); }}
+                                    className="p-1 text-neutral-600 hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity"
+                                    title="Remove uploaded font"
+                                >
+                                    <Trash2 size={12} />
+                                </span>
+                            )}
+
                             {currentFont === font && <div className="w-1.5 h-1.5 rounded-full bg-pink-500 shrink-0" />}
                         </div>
                     </button>
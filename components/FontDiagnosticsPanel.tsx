@@ -0,0 +1,83 @@
+import React from 'react';
+import { X, RotateCw } from 'lucide-react';
+import { FontLoadStatus, FontStatus } from '../types';
+import { FONTS } from '../constants';
+import { retryFont } from '../services/fontLoader';
+import { useFontStatus } from '../hooks/useFontStatus';
+
+interface FontDiagnosticsPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onOpenFont: (family: string) => void;
+}
+
+const STATUS_LABELS: Record<FontLoadStatus, { label: string; className: string; title: string }> = {
+  idle: {
+    label: '-',
+    className: 'text-neutral-600',
+    title: 'Not downloaded yet. Fonts only download when text using them is shown.\nDouble-click to preview it in the font book.'
+  },
+  loading: { label: '...', className: 'text-amber-400', title: 'Downloading' },
+  loaded: { label: 'OK', className: 'text-green-400 font-bold', title: 'Font loaded and ready for Canvas/DOM' },
+  failed: { label: 'FAILED', className: 'text-red-400 font-bold', title: 'Could not be loaded. Click to retry.' }
+};
+
+const describeVariants = (status: FontStatus) =>
+  Object.entries(status.variants).map(([variant, variantStatus]) => `${variant}: ${variantStatus}`).join('\n');
+
+/**
+ * Overlay listing the load state of every catalog font, for diagnosing missing fonts in the
+ * font bundle or on flaky networks. Toggled from Settings > Advanced.
+ */
+const FontDiagnosticsPanel: React.FC<FontDiagnosticsPanelProps> = ({ isOpen, onClose, onOpenFont }) => {
+  const getStatus = useFontStatus();
+
+  if (!isOpen) return null;
+
+  const statuses = [...FONTS].sort().map(getStatus).filter((s): s is FontStatus => s !== null);
+  const loadedCount = statuses.filter(s => s.status === 'loaded').length;
+  const failed = statuses.filter(s => s.status === 'failed');
+
+  return (
+    <div className="fixed bottom-5 left-5 z-[9999] w-80 h-[400px] flex flex-col bg-black/95 border border-neutral-800 rounded-lg shadow-2xl font-mono text-[11px] text-white">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-neutral-800 font-bold tracking-wide shrink-0">
+        <span>FONT DIAGNOSTICS</span>
+        <button onClick={onClose} className="text-neutral-500 hover:text-white transition-colors" title="Close Diagnostics">
+          <X size={14} />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto custom-scrollbar px-3 py-2">
+        {statuses.map(status => {
+          const label = STATUS_LABELS[status.status];
+          const variants = describeVariants(status);
+          return (
+            <div
+              key={status.family}
+              onDoubleClick={() => onOpenFont(status.family)}
+              onClick={() => { if (status.status === 'failed') retryFont(status.family); }}
+              title={[status.error ? `${label.title}\n${status.error}` : label.title, variants].filter(Boolean).join('\n\n')}
+              className="flex justify-between px-1 py-0.5 rounded-[2px] cursor-pointer select-none hover:bg-white/10"
+            >
+              <span className="truncate">{status.family}</span>
+              <span className={label.className}>{label.label}</span>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex items-center gap-3 px-4 py-2.5 border-t border-neutral-800 shrink-0">
+        <button
+          onClick={() => failed.forEach(status => retryFont(status.family))}
+          disabled={failed.length === 0}
+          className="flex-1 py-1.5 bg-neutral-800 hover:bg-neutral-700 disabled:opacity-40 disabled:cursor-not-allowed border border-neutral-700 rounded-[3px] text-[10px] font-bold uppercase flex items-center justify-center gap-2 transition-colors"
+        >
+          <RotateCw size={10} /> Retry Failed ({failed.length})
+        </button>
+        <span className="text-[10px] text-neutral-500 font-bold min-w-[48px] text-right">{loadedCount}/{statuses.length}</span>
+      </div>
+    </div>
+  );
+};
+
+export default FontDiagnosticsPanel;
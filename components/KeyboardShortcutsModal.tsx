@@ -84,6 +84,8 @@ const KeyboardShortcutsModal: React.FC<KeyboardShortcutsModalProps> = ({ isOpen,
                 <ShortcutRow keys={[altKey, 'N']} label="New Blank Canvas" />
                 <ShortcutRow keys={[altKey, 'U']} label="Upload Image" />
                 <ShortcutRow keys={[altKey, 'L']} label="Load from URL" />
+                <ShortcutRow keys={[modKey, 'S']} label="Save Project" />
+                <ShortcutRow keys={[modKey, 'O']} label="Open Project" />
             </div>
 
             {/* Layer Controls */}
@@ -101,6 +103,10 @@ const KeyboardShortcutsModal: React.FC<KeyboardShortcutsModalProps> = ({ isOpen,
                 />
                 <ShortcutRow keys={['Shift', 'Arrows']} label="Large Nudge" />
                 <ShortcutRow keys={[altKey, 'Arrows']} label="Precision Nudge" />
+
+                <h4 className="text-xs font-bold text-pink-500 uppercase tracking-wider mb-3 mt-6">Layer Styles</h4>
+                <ShortcutRow keys={[modKey, altKey, 'C']} label="Copy Style" />
+                <ShortcutRow keys={[modKey, altKey, 'V']} label="Paste Style" />
             </div>
 
             {/* Panels */}
@@ -117,6 +123,7 @@ const KeyboardShortcutsModal: React.FC<KeyboardShortcutsModalProps> = ({ isOpen,
                     <ShortcutRow keys={['Shift', '6']} label="Path Tools" />
                     <ShortcutRow keys={['Shift', '7']} label="Effects Panel" />
                     <ShortcutRow keys={['Shift', '8']} label="Blending Panel" />
+                    <ShortcutRow keys={[altKey, 'T']} label="Timeline" />
                 </div>
             </div>
 
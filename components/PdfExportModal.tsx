@@ -0,0 +1,153 @@
+import React, { useState } from 'react';
+import { X, FileText, Loader2 } from 'lucide-react';
+import { PdfExportOptions, PdfPageSize } from '../services/pdfExport';
+
+export type PdfPageSource = 'current' | 'history';
+
+interface PdfExportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  historyCount: number;
+  onExport: (options: PdfExportOptions, source: PdfPageSource, onProgress: (page: number, total: number) => void) => Promise<void>;
+}
+
+const DPI_OPTIONS = [150, 300, 600];
+
+const PAGE_SIZE_OPTIONS: { value: PdfPageSize; label: string }[] = [
+  { value: 'fit', label: 'Fit to Image' },
+  { value: 'a4', label: 'A4' },
+  { value: 'a3', label: 'A3' },
+  { value: 'letter', label: 'US Letter' },
+  { value: 'tabloid', label: 'Tabloid (11×17)' }
+];
+
+const PdfExportModal: React.FC<PdfExportModalProps> = ({ isOpen, onClose, historyCount, onExport }) => {
+  const [dpi, setDpi] = useState(300);
+  const [pageSize, setPageSize] = useState<PdfPageSize>('fit');
+  const [source, setSource] = useState<PdfPageSource>('current');
+  const [progress, setProgress] = useState<{ page: number; total: number } | null>(null);
+
+  if (!isOpen) return null;
+
+  const isExporting = progress !== null;
+
+  const handleExport = async () => {
+    setProgress({ page: 0, total: source === 'history' ? historyCount : 1 });
+    try {
+      await onExport({ dpi, pageSize }, source, (page, total) => setProgress({ page, total }));
+      onClose();
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const optionClass = (active: boolean) =>
+    `flex-1 py-2 text-xs font-medium rounded-[3px] border transition-colors ${
+      active ? 'bg-pink-500/10 border-pink-500 text-pink-400' : 'bg-neutral-950 border-neutral-800 text-neutral-400 hover:border-neutral-600'
+    }`;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center">
+      {/* Backdrop */}
+      <div
+        className="absolute inset-0 bg-black/60 backdrop-blur-sm transition-opacity duration-300"
+        onClick={isExporting ? undefined : onClose}
+      />
+
+      {/* Modal Content */}
+      <div className="relative bg-neutral-900 border border-neutral-800 rounded-lg w-full max-w-md shadow-2xl overflow-hidden animate-in zoom-in-95 duration-200">
+        <div className="p-6">
+            <div className="flex items-center justify-between mb-6">
+                <div className="flex items-center gap-3">
+                    <div className="w-10 h-10 rounded-full bg-neutral-800 flex items-center justify-center text-pink-500 border border-neutral-700">
+                        <FileText size={20} />
+                    </div>
+                    <div>
+                        <h3 className="text-lg font-bold text-white">Export PDF</h3>
+                        <p className="text-xs text-neutral-400">Print-ready pages at a fixed resolution</p>
+                    </div>
+                </div>
+                <button onClick={onClose} disabled={isExporting} className="text-neutral-500 hover:text-white transition-colors disabled:opacity-40">
+                    <X size={20} />
+                </button>
+            </div>
+
+            <div className="space-y-5">
+                <div>
+                    <label className="block text-[10px] font-bold text-neutral-500 mb-2 uppercase tracking-wider">Resolution</label>
+                    <div className="flex gap-2">
+                        {DPI_OPTIONS.map(value => (
+                            <button key={value} onClick={() => setDpi(value)} disabled={isExporting} className={optionClass(dpi === value)}>
+                                {value} DPI
+                            </button>
+                        ))}
+                    </div>
+                </div>
+
+                <div>
+                    <label className="block text-[10px] font-bold text-neutral-500 mb-2 uppercase tracking-wider">Page Size</label>
+                    <select
+                        value={pageSize}
+                        onChange={(e) => setPageSize(e.target.value as PdfPageSize)}
+                        disabled={isExporting}
+                        className="w-full bg-neutral-950 border border-neutral-800 rounded-[3px] px-3 py-2 text-sm text-white focus:outline-none focus:border-pink-500 transition-colors"
+                    >
+                        {PAGE_SIZE_OPTIONS.map(opt => <option key={opt.value} value={opt.value}>{opt.label}</option>)}
+                    </select>
+                    <p className="text-[10px] text-neutral-500 mt-1.5">
+                        {pageSize === 'fit'
+                            ? 'Each page matches its image size at the chosen DPI.'
+                            : 'Images are centered on the page and oriented to match.'}
+                    </p>
+                </div>
+
+                <div>
+                    <label className="block text-[10px] font-bold text-neutral-500 mb-2 uppercase tracking-wider">Pages</label>
+                    <div className="flex gap-2">
+                        <button onClick={() => setSource('current')} disabled={isExporting} className={optionClass(source === 'current')}>
+                            Current Design
+                        </button>
+                        <button
+                            onClick={() => setSource('history')}
+                            disabled={isExporting || historyCount < 2}
+                            className={`${optionClass(source === 'history')} disabled:opacity-40 disabled:cursor-not-allowed`}
+                        >
+                            All History ({historyCount})
+                        </button>
+                    </div>
+                </div>
+
+                <p className="text-[10px] text-neutral-500 leading-relaxed">
+                    Text stays as selectable vector outlines when its font file can be embedded. Other text, color fonts
+                    and effects are rasterized at the chosen DPI with an invisible text layer for search.
+                </p>
+            </div>
+
+            <div className="flex gap-3 mt-6">
+                <button
+                    onClick={onClose}
+                    disabled={isExporting}
+                    className="flex-1 py-2.5 px-4 bg-neutral-800 hover:bg-neutral-700 text-neutral-300 rounded-[3px] text-xs font-medium transition-colors disabled:opacity-40"
+                >
+                    Cancel
+                </button>
+                <button
+                    onClick={handleExport}
+                    disabled={isExporting}
+                    className="flex-1 py-2.5 px-4 bg-pink-600 hover:bg-pink-500 disabled:bg-neutral-700 text-white rounded-[3px] text-xs font-bold transition-colors flex items-center justify-center gap-2"
+                >
+                    {isExporting ? (
+                        <>
+                            <Loader2 size={14} className="animate-spin" />
+                            {progress.total > 1 ? `Page ${progress.page} of ${progress.total}` : 'Exporting...'}
+                        </>
+                    ) : 'Export PDF'}
+                </button>
+            </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PdfExportModal;
@@ -0,0 +1,142 @@
+import React from 'react';
+import { X, History, Trash2, RotateCcw, Image as ImageIcon } from 'lucide-react';
+import { RecentProjectSummary } from '../types';
+
+interface RecentProjectsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  sessions: RecentProjectSummary[];
+  isStartup: boolean;
+  currentSessionId?: string;
+  onRestore: (id: string) => void;
+  onDelete: (id: string) => void;
+}
+
+const formatTimestamp = (time: number) => {
+    const date = new Date(time);
+    const isToday = date.toDateString() === new Date().toDateString();
+    return isToday ? `Today, ${date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}` : date.toLocaleString();
+};
+
+const Thumbnail = ({ src, className = '' }: { src: string | null, className?: string }) => (
+    <div className={`bg-neutral-950 border border-neutral-800 rounded-[3px] overflow-hidden flex items-center justify-center ${className}`}>
+        {src ? (
+            <img src={src} alt="" className="w-full h-full object-cover" />
+        ) : (
+            <ImageIcon size={20} className="text-neutral-700" />
+        )}
+    </div>
+);
+
+const RecentProjectsModal: React.FC<RecentProjectsModalProps> = ({
+  isOpen,
+  onClose,
+  sessions,
+  isStartup,
+  currentSessionId,
+  onRestore,
+  onDelete
+}) => {
+  if (!isOpen) return null;
+
+  const [latest, ...others] = sessions;
+  const listed = isStartup ? others : sessions;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center">
+      {/* Backdrop */}
+      <div
+        className="absolute inset-0 bg-black/60 backdrop-blur-sm transition-opacity duration-300"
+        onClick={onClose}
+      />
+
+      {/* Modal Content */}
+      <div className="relative bg-neutral-900 border border-neutral-800 rounded-lg w-full max-w-lg shadow-2xl overflow-hidden animate-in zoom-in-95 duration-200">
+        <div className="p-6">
+            <div className="flex items-center justify-between mb-6">
+                <div className="flex items-center gap-3">
+                    <div className="w-10 h-10 rounded-full bg-neutral-800 flex items-center justify-center text-pink-500 border border-neutral-700">
+                        <History size={20} />
+                    </div>
+                    <div>
+                        <h3 className="text-lg font-bold text-white">{isStartup ? 'Restore Previous Session?' : 'Recent Projects'}</h3>
+                        <p className="text-xs text-neutral-400">
+                            {isStartup ? 'Your last session was autosaved before it closed' : 'Autosaved sessions stored in this browser'}
+                        </p>
+                    </div>
+                </div>
+                <button onClick={onClose} className="text-neutral-500 hover:text-white transition-colors">
+                    <X size={20} />
+                </button>
+            </div>
+
+            {/* Most recent session (startup prompt) */}
+            {isStartup && latest && (
+                <div className="flex gap-4 p-3 bg-neutral-950 border border-neutral-800 rounded-[3px] mb-4">
+                    <Thumbnail src={latest.thumbnail} className="w-28 h-20 shrink-0" />
+                    <div className="flex-1 flex flex-col justify-between min-w-0">
+                        <div>
+                            <div className="text-sm text-white truncate">{latest.name}</div>
+                            <div className="text-[10px] text-neutral-500">{formatTimestamp(latest.updatedAt)}</div>
+                        </div>
+                        <div className="flex gap-2">
+                            <button
+                                onClick={() => onRestore(latest.id)}
+                                className="flex-1 py-1.5 px-3 bg-pink-600 hover:bg-pink-500 text-white rounded-[3px] text-xs font-bold transition-colors flex items-center justify-center gap-1.5"
+                            >
+                                <RotateCcw size={12} /> Restore
+                            </button>
+                            <button
+                                onClick={onClose}
+                                className="flex-1 py-1.5 px-3 bg-neutral-800 hover:bg-neutral-700 text-neutral-300 rounded-[3px] text-xs font-medium transition-colors"
+                            >
+                                Start Fresh
+                            </button>
+                        </div>
+                    </div>
+                </div>
+            )}
+
+            {listed.length > 0 && (
+                <>
+                    {isStartup && <div className="text-[10px] font-bold text-neutral-500 mb-2 uppercase tracking-wider">Other Recent Projects</div>}
+                    <div className="grid grid-cols-3 gap-3 max-h-72 overflow-y-auto custom-scrollbar">
+                        {listed.map(session => (
+                            <div key={session.id} className="group relative">
+                                <button
+                                    onClick={() => onRestore(session.id)}
+                                    disabled={session.id === currentSessionId}
+                                    className="w-full text-left disabled:cursor-default"
+                                >
+                                    <Thumbnail
+                                        src={session.thumbnail}
+                                        className={`w-full aspect-[4/3] transition-colors ${session.id === currentSessionId ? 'border-pink-500' : 'group-hover:border-neutral-600'}`}
+                                    />
+                                    <div className="mt-1 text-[11px] text-neutral-300 truncate">{session.name}</div>
+                                    <div className="text-[9px] text-neutral-600">{formatTimestamp(session.updatedAt)}</div>
+                                </button>
+                                {session.id !== currentSessionId && (
+                                    <button
+                                        onClick={() => onDelete(session.id)}
+                                        className="absolute top-1 right-1 p-1 rounded-[3px] bg-black/70 text-neutral-400 hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity"
+                                        title="Remove from recent projects"
+                                    >
+                                        <Trash2 size={12} />
+                                    </button>
+                                )}
+                            </div>
+                        ))}
+                    </div>
+                </>
+            )}
+
+            {sessions.length === 0 && (
+                <div className="py-8 text-center text-neutral-600 text-xs italic">No autosaved sessions yet.</div>
+            )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RecentProjectsModal;
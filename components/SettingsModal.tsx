@@ -1,12 +1,17 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { X, MousePointer2, Settings, Cloud, Key, Check, Loader2, Terminal, MessageSquareQuote, Star, ChevronDown, Wrench, Type } from 'lucide-react';
-import { AppSettings } from '../types';
+import { X, MousePointer2, Settings, Cloud, Key, Check, Loader2, Terminal, MessageSquareQuote, Star, ChevronDown, Wrench, Type, Layers, Download, Upload, Trash2, Plus } from 'lucide-react';
+import { AppSettings, SettingsProfile } from '../types';
+import { downloadBlob } from '../utils/download';
+import { getFriendlyError } from '../utils/errorHandler';
+import { applyProfile, createProfile, parseProfiles, serializeProfiles } from '../services/settingsStore';
 
 interface SettingsModalProps {
   isOpen: boolean;
   onClose: () => void;
   settings: AppSettings;
   onSettingsChange: (newSettings: AppSettings) => void;
+  profiles: SettingsProfile[];
+  onProfilesChange: (profiles: SettingsProfile[]) => void;
 }
 
 const QUALITY_PRESETS = [
@@ -22,9 +27,11 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
   isOpen, 
   onClose, 
   settings, 
-  onSettingsChange 
+  onSettingsChange,
+  profiles,
+  onProfilesChange
 }) => {
-  const [activeTab, setActiveTab] = useState<'general' | 'services' | 'advanced'>('general');
+  const [activeTab, setActiveTab] = useState<'general' | 'services' | 'profiles' | 'advanced'>('general');
   
   // Validation State
   const [isValidating, setIsValidating] = useState(false);
@@ -39,6 +46,11 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
   const [isInputFocused, setIsInputFocused] = useState(false);
   const inputRef = useRef<HTMLInputElement>(null);
 
+  // Profile State
+  const [newProfileName, setNewProfileName] = useState('');
+  const [profileMsg, setProfileMsg] = useState<{ type: 'success' | 'error', text: string } | null>(null);
+  const profileInputRef = useRef<HTMLInputElement>(null);
+
   useEffect(() => {
     if (isInputFocused && inputRef.current) {
         inputRef.current.focus();
@@ -120,6 +132,48 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
     }
   };
 
+  const toggleRememberApiKey = () => {
+      onSettingsChange({ ...settings, rememberApiKey: !settings.rememberApiKey });
+  };
+
+  // --- Profiles ---
+  const isProfileActive = (profile: SettingsProfile) =>
+      JSON.stringify(applyProfile(settings, profile)) === JSON.stringify(settings);
+
+  const handleApplyProfile = (profile: SettingsProfile) => {
+      onSettingsChange(applyProfile(settings, profile));
+      setProfileMsg({ type: 'success', text: `Applied "${profile.name}"` });
+  };
+
+  const handleSaveProfile = () => {
+      if (!newProfileName.trim()) return;
+      const profile = createProfile(newProfileName, settings);
+      // Saving under an existing custom name overwrites it
+      onProfilesChange([...profiles.filter(p => p.builtIn || p.name !== profile.name), profile]);
+      setNewProfileName('');
+      setProfileMsg({ type: 'success', text: `Saved "${profile.name}"` });
+  };
+
+  const handleDeleteProfile = (id: string) => {
+      onProfilesChange(profiles.filter(p => p.id !== id));
+      setProfileMsg(null);
+  };
+
+  const handleExportProfiles = (toExport: SettingsProfile[], filename: string) => {
+      downloadBlob(new Blob([serializeProfiles(toExport)], { type: 'application/json' }), filename);
+  };
+
+  const handleImportProfiles = async (file: File) => {
+      try {
+          const imported = parseProfiles(await file.text());
+          const importedNames = new Set(imported.map(p => p.name));
+          onProfilesChange([...profiles.filter(p => p.builtIn || !importedNames.has(p.name)), ...imported]);
+          setProfileMsg({ type: 'success', text: `Imported ${imported.length} profile${imported.length === 1 ? '' : 's'}` });
+      } catch (error: any) {
+          setProfileMsg({ type: 'error', text: getFriendlyError(error).message });
+      }
+  };
+
   const getMaskedKey = (key: string) => {
       if (!key) return '';
       if (key.length <= 8) return '••••••••';
@@ -170,6 +224,16 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
             >
                 <Cloud size={14} /> AI Services
             </button>
+            <button
+                onClick={() => setActiveTab('profiles')}
+                className={`flex-1 py-3 text-xs font-medium flex items-center justify-center gap-2 transition-colors ${
+                    activeTab === 'profiles' 
+                    ? 'text-white bg-neutral-800 border-b-2 border-pink-500' 
+                    : 'text-neutral-500 hover:text-neutral-300 hover:bg-neutral-800/50'
+                }`}
+            >
+                <Layers size={14} /> Profiles
+            </button>
             <button
                 onClick={() => setActiveTab('advanced')}
                 className={`flex-1 py-3 text-xs font-medium flex items-center justify-center gap-2 transition-colors ${
@@ -337,9 +401,114 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
                             Leave blank to use the default system key. Providing your own key allows for personal quota usage.
                         </p>
                     )}
+
+                    <div className="flex items-center justify-between pt-2">
+                        <div>
+                            <h3 className="text-xs font-medium text-white">Remember Key</h3>
+                            <p className="text-[10px] text-neutral-500">{settings.rememberApiKey ? 'Stored on this device' : 'Forgotten when this tab closes'}</p>
+                        </div>
+                        <button 
+                            onClick={toggleRememberApiKey}
+                            className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors duration-200 focus:outline-none ${settings.rememberApiKey ? 'bg-pink-500' : 'bg-neutral-700'}`}
+                        >
+                            <span className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform duration-200 ${settings.rememberApiKey ? 'translate-x-6' : 'translate-x-1'}`} />
+                        </button>
+                    </div>
                 </div>
             </div>
           )}
+
+          {activeTab === 'profiles' && (
+            <div className="space-y-4 animate-in slide-in-from-right-2 fade-in duration-200">
+                <p className="text-[10px] text-neutral-500 leading-relaxed">
+                    Profiles store the model, resolution, quality and system prompts. API keys are never included.
+                </p>
+
+                <div className="space-y-1">
+                    {profiles.map(profile => {
+                        const isActive = isProfileActive(profile);
+                        return (
+                            <div key={profile.id} className={`group flex items-center gap-2 p-2 rounded-[3px] border transition-colors ${isActive ? 'border-pink-500/50 bg-pink-500/5' : 'border-neutral-800 bg-neutral-950 hover:border-neutral-700'}`}>
+                                <button onClick={() => handleApplyProfile(profile)} className="flex-1 text-left min-w-0">
+                                    <div className="text-xs text-white truncate flex items-center gap-1.5">
+                                        {profile.name}
+                                        {profile.builtIn && <span className="text-[8px] text-neutral-500 border border-neutral-700 px-1 rounded">BUILT-IN</span>}
+                                    </div>
+                                    <div className="text-[9px] text-neutral-500 truncate">
+                                        {profile.settings.imageModel === 'gemini-2.5-flash-image' ? 'Flash' : 'Pro'} · {profile.settings.imageResolution}{profile.settings.quality ? ` · ${profile.settings.quality}` : ''}
+                                    </div>
+                                </button>
+                                {isActive && <Check size={14} className="text-pink-500 shrink-0" />}
+                                <button
+                                    onClick={() => handleExportProfiles([profile], `${profile.name.replace(/[^\w-]+/g, '-').toLowerCase()}.json`)}
+                                    className="p-1 text-neutral-600 hover:text-white transition-colors opacity-0 group-hover:opacity-100"
+                                    title="Export profile"
+                                >
+                                    <Download size={12} />
+                                </button>
+                                {!profile.builtIn && (
+                                    <button
+                                        onClick={() => handleDeleteProfile(profile.id)}
+                                        className="p-1 text-neutral-600 hover:text-red-400 transition-colors opacity-0 group-hover:opacity-100"
+                                        title="Delete profile"
+                                    >
+                                        <Trash2 size={12} />
+                                    </button>
+                                )}
+                            </div>
+                        );
+                    })}
+                </div>
+
+                <div className="flex gap-2">
+                    <input
+                        type="text"
+                        value={newProfileName}
+                        onChange={(e) => setNewProfileName(e.target.value)}
+                        onKeyDown={(e) => e.key === 'Enter' && handleSaveProfile()}
+                        placeholder="Save current settings as..."
+                        className="flex-1 bg-neutral-950 border border-neutral-800 rounded-[3px] p-2 text-xs text-white focus:outline-none focus:border-pink-500 transition-colors placeholder:text-neutral-700"
+                    />
+                    <button
+                        onClick={handleSaveProfile}
+                        disabled={!newProfileName.trim()}
+                        className="px-3 rounded-[3px] bg-neutral-800 border border-neutral-700 text-neutral-300 hover:bg-neutral-700 hover:text-white disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+                    >
+                        <Plus size={14} />
+                    </button>
+                </div>
+
+                <div className="flex gap-2">
+                    <button
+                        onClick={() => profileInputRef.current?.click()}
+                        className="flex-1 py-1.5 rounded-[3px] text-[10px] font-bold uppercase tracking-wide border bg-neutral-800 border-neutral-700 text-neutral-300 hover:bg-neutral-700 hover:text-white transition-colors flex items-center justify-center gap-1.5"
+                    >
+                        <Upload size={12} /> Import
+                    </button>
+                    <button
+                        onClick={() => handleExportProfiles(profiles.filter(p => !p.builtIn), 'textrot-profiles.json')}
+                        disabled={!profiles.some(p => !p.builtIn)}
+                        className="flex-1 py-1.5 rounded-[3px] text-[10px] font-bold uppercase tracking-wide border bg-neutral-800 border-neutral-700 text-neutral-300 hover:bg-neutral-700 hover:text-white disabled:opacity-40 disabled:cursor-not-allowed transition-colors flex items-center justify-center gap-1.5"
+                    >
+                        <Download size={12} /> Export Mine
+                    </button>
+                    <input
+                        type="file"
+                        ref={profileInputRef}
+                        className="hidden"
+                        accept="application/json,.json"
+                        onChange={(e) => {
+                            if (e.target.files?.[0]) handleImportProfiles(e.target.files[0]);
+                            e.target.value = '';
+                        }}
+                    />
+                </div>
+
+                {profileMsg && (
+                    <p className={`text-[10px] break-words leading-tight ${profileMsg.type === 'error' ? 'text-red-500' : 'text-green-500'}`}>{profileMsg.text}</p>
+                )}
+            </div>
+          )}
           
           {activeTab === 'advanced' && (
              <div className="space-y-6 animate-in slide-in-from-right-2 fade-in duration-200">
@@ -351,7 +520,7 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
                         </div>
                         <div>
                             <h3 className="text-sm font-medium text-white">Font Diagnostics</h3>
-                            <p className="text-xs text-neutral-500">Show Google Fonts loading status overlay</p>
+                            <p className="text-xs text-neutral-500">Show font loading status overlay</p>
                         </div>
                     </div>
                     
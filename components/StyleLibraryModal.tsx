@@ -0,0 +1,130 @@
+import React, { useEffect, useState } from 'react';
+import { X, Brush, Plus, Trash2 } from 'lucide-react';
+import { StylePreset, TextLayer } from '../types';
+import { renderStyleThumbnail } from '../utils/layerStyles';
+
+interface StyleLibraryModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  presets: StylePreset[];
+  activeLayer: TextLayer | null;
+  selectedCount: number;
+  onSavePreset: (name: string) => void;
+  onApplyPreset: (preset: StylePreset) => void;
+  onDeletePreset: (id: string) => void;
+}
+
+const StyleLibraryModal: React.FC<StyleLibraryModalProps> = ({
+  isOpen,
+  onClose,
+  presets,
+  activeLayer,
+  selectedCount,
+  onSavePreset,
+  onApplyPreset,
+  onDeletePreset
+}) => {
+  const [name, setName] = useState('');
+
+  useEffect(() => {
+    if (isOpen) setName('');
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const handleSave = () => {
+    onSavePreset(name);
+    setName('');
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center">
+      {/* Backdrop */}
+      <div
+        className="absolute inset-0 bg-black/60 backdrop-blur-sm transition-opacity duration-300"
+        onClick={onClose}
+      />
+
+      {/* Modal Content */}
+      <div className="relative bg-neutral-900 border border-neutral-800 rounded-lg w-full max-w-2xl max-h-[90vh] shadow-2xl overflow-hidden flex flex-col animate-in zoom-in-95 duration-200">
+        <div className="p-6 overflow-y-auto custom-scrollbar">
+            <div className="flex items-center justify-between mb-6">
+                <div className="flex items-center gap-3">
+                    <div className="w-10 h-10 rounded-full bg-neutral-800 flex items-center justify-center text-pink-500 border border-neutral-700">
+                        <Brush size={20} />
+                    </div>
+                    <div>
+                        <h3 className="text-lg font-bold text-white">Style Library</h3>
+                        <p className="text-xs text-neutral-400">
+                            {selectedCount > 1 ? `Click a style to apply it to ${selectedCount} selected layers` : 'Click a style to apply it to the selected layer'}
+                        </p>
+                    </div>
+                </div>
+                <button onClick={onClose} className="text-neutral-500 hover:text-white transition-colors">
+                    <X size={20} />
+                </button>
+            </div>
+
+            <div className="space-y-5">
+                <div>
+                    <label className="block text-[10px] font-bold text-neutral-500 mb-2 uppercase tracking-wider">Save Active Layer Style</label>
+                    <div className="flex gap-2">
+                        <input
+                            type="text"
+                            value={name}
+                            onChange={(e) => setName(e.target.value)}
+                            onKeyDown={(e) => { if (e.key === 'Enter' && activeLayer && name.trim()) handleSave(); }}
+                            placeholder="e.g. Neon Glitch Headline"
+                            disabled={!activeLayer}
+                            className="flex-1 bg-neutral-950 border border-neutral-800 rounded-[3px] px-3 py-2 text-xs text-white focus:outline-none focus:border-pink-500 disabled:opacity-40"
+                        />
+                        <button
+                            onClick={handleSave}
+                            disabled={!activeLayer || !name.trim()}
+                            className="px-4 bg-pink-600 hover:bg-pink-500 disabled:bg-neutral-700 text-white rounded-[3px] text-xs font-bold flex items-center gap-2 transition-colors"
+                        >
+                            <Plus size={14} /> Save
+                        </button>
+                    </div>
+                </div>
+
+                <div>
+                    <label className="block text-[10px] font-bold text-neutral-500 mb-2 uppercase tracking-wider">Styles</label>
+                    {presets.length === 0 ? (
+                        <p className="text-[10px] text-neutral-500">No saved styles yet. Style a layer, then save it here to reuse the look.</p>
+                    ) : (
+                        <div className="grid grid-cols-3 gap-2">
+                            {presets.map(preset => (
+                                <div key={preset.id} className="group relative bg-neutral-950 border border-neutral-800 hover:border-pink-500 rounded-[3px] overflow-hidden transition-colors">
+                                    <button
+                                        onClick={() => onApplyPreset(preset)}
+                                        disabled={selectedCount === 0}
+                                        className="block w-full text-left disabled:cursor-not-allowed"
+                                    >
+                                        <img
+                                            src={preset.thumbnail || renderStyleThumbnail(preset.style)}
+                                            alt={preset.name}
+                                            className="w-full aspect-video object-cover"
+                                        />
+                                        <p className="text-[10px] text-neutral-400 px-2 py-1 truncate border-t border-neutral-800">{preset.name}</p>
+                                    </button>
+                                    <button
+                                        onClick={() => onDeletePreset(preset.id)}
+                                        className="absolute top-1 right-1 p-1 rounded-[3px] bg-neutral-900/80 text-neutral-400 hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity"
+                                        title="Delete Style"
+                                    >
+                                        <Trash2 size={12} />
+                                    </button>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </div>
+            </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StyleLibraryModal;
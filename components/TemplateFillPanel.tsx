@@ -0,0 +1,131 @@
+import React from 'react';
+import { Download, LayoutTemplate, Lock, PenTool, RefreshCw, Loader2 } from 'lucide-react';
+import { BrandSwatch, DesignState, TextLayer } from '../types';
+import { getEditableSlots } from '../utils/templates';
+import Tooltip from './Tooltip';
+import BrandSwatches from './BrandSwatches';
+
+interface TemplateFillPanelProps {
+  design: DesignState;
+  hasImage: boolean;
+  isGenerating: boolean;
+  onUpdateSlot: (layerId: string, changes: Partial<Pick<TextLayer, 'textOverlay' | 'textColor'>>) => void;
+  onPromptChange: (prompt: string) => void;
+  onRegenerate: () => void;
+  onDownload: () => void;
+  onEditTemplate: () => void;
+  swatches: BrandSwatch[];
+}
+
+/**
+ * Simplified editor for template users: only the template's editable slots, the background prompt
+ * slot and export. Everything else in the design is locked.
+ */
+const TemplateFillPanel: React.FC<TemplateFillPanelProps> = ({
+  design,
+  hasImage,
+  isGenerating,
+  onUpdateSlot,
+  onPromptChange,
+  onRegenerate,
+  onDownload,
+  onEditTemplate,
+  swatches
+}) => {
+  const slots = [...getEditableSlots(design.layers)].reverse();
+  const template = design.template;
+
+  return (
+    <div className="h-full flex flex-col bg-neutral-900 border-l border-neutral-800 overflow-hidden">
+      {/* Header */}
+      <div className="p-6 border-b border-neutral-800 flex items-center justify-between bg-neutral-900 shrink-0 z-10">
+        <div className="flex items-center gap-3 min-w-0">
+          <LayoutTemplate size={20} className="text-pink-500 shrink-0" />
+          <div className="min-w-0">
+            <h2 className="text-sm font-bold text-white truncate">{template?.name || 'Template'}</h2>
+            <p className="text-[10px] text-neutral-500">Fill in the highlighted fields</p>
+          </div>
+        </div>
+        <Tooltip content="Edit the full design" position="bottom">
+          <button
+            onClick={onEditTemplate}
+            className="p-2 rounded-[3px] transition-colors text-neutral-500 hover:text-white hover:bg-neutral-800"
+          >
+            <PenTool size={18} />
+          </button>
+        </Tooltip>
+      </div>
+
+      <div className="flex-1 overflow-y-auto custom-scrollbar p-6 space-y-6">
+        {template?.backgroundSlot === 'prompt' && (
+          <div>
+            <label className="block text-[10px] font-bold text-neutral-500 mb-2 uppercase tracking-wider">Background Prompt</label>
+            <textarea
+              value={design.prompt}
+              onChange={(e) => onPromptChange(e.target.value)}
+              rows={3}
+              className="w-full bg-neutral-950 border border-neutral-800 rounded-[3px] px-3 py-2 text-xs text-white focus:outline-none focus:border-pink-500 resize-none"
+            />
+            <button
+              onClick={onRegenerate}
+              disabled={isGenerating || !design.prompt.trim()}
+              className="w-full mt-2 py-2 bg-neutral-800 hover:bg-neutral-700 disabled:opacity-40 disabled:cursor-not-allowed text-white rounded-[3px] text-xs font-medium flex items-center justify-center gap-2 transition-colors"
+            >
+              {isGenerating ? <Loader2 size={14} className="animate-spin" /> : <RefreshCw size={14} />}
+              Regenerate Background
+            </button>
+          </div>
+        )}
+
+        {slots.map(layer => (
+          <div key={layer.id}>
+            <label className="block text-[10px] font-bold text-neutral-500 mb-2 uppercase tracking-wider">{layer.name}</label>
+            <div className="flex gap-2">
+              <textarea
+                value={layer.textOverlay}
+                onChange={(e) => onUpdateSlot(layer.id, { textOverlay: e.target.value })}
+                rows={Math.min(4, layer.textOverlay.split('\n').length)}
+                className="flex-1 bg-neutral-950 border border-neutral-800 rounded-[3px] px-3 py-2 text-xs text-white focus:outline-none focus:border-pink-500 resize-none"
+              />
+              {layer.templateSlot === 'text-color' && (
+                <div className="relative">
+                  <input
+                    type="color"
+                    value={layer.textColor}
+                    onChange={(e) => onUpdateSlot(layer.id, { textColor: e.target.value })}
+                    className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
+                  />
+                  <div className="w-9 h-full min-h-[34px] rounded-[3px] border border-neutral-700 hover:border-neutral-500 bg-neutral-800 flex items-center justify-center transition-colors">
+                    <div className="w-5 h-5 rounded-[2px] shadow-sm" style={{ backgroundColor: layer.textColor }} />
+                  </div>
+                </div>
+              )}
+            </div>
+            {layer.templateSlot === 'text-color' && (
+              <BrandSwatches swatches={swatches} value={layer.textColor} onSelect={(c) => onUpdateSlot(layer.id, { textColor: c })} />
+            )}
+          </div>
+        ))}
+
+        {slots.length === 0 && template?.backgroundSlot !== 'prompt' && (
+          <p className="text-xs text-neutral-500 flex items-center gap-2">
+            <Lock size={12} /> This template has no editable fields.
+          </p>
+        )}
+      </div>
+
+      {/* Footer */}
+      <div className="p-6 border-t border-neutral-800 bg-neutral-950 shrink-0 z-10">
+        <button
+          onClick={onDownload}
+          disabled={!hasImage}
+          className="w-full py-3 bg-neutral-800 hover:bg-neutral-700 disabled:opacity-40 disabled:cursor-not-allowed text-white rounded-[3px] font-medium flex items-center justify-center gap-2 transition-colors"
+        >
+          <Download size={16} /> Save Image
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default TemplateFillPanel;
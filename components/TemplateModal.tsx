@@ -0,0 +1,157 @@
+import React, { useEffect, useState } from 'react';
+import { X, LayoutTemplate, Lock, Type, Palette } from 'lucide-react';
+import { DesignState, TemplateInfo, TemplateSlotAccess } from '../types';
+import { TEMPLATE_SLOT_ACCESS } from '../utils/templates';
+
+interface TemplateModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  design: DesignState;
+  onSave: (template: TemplateInfo, slots: Record<string, TemplateSlotAccess>, prompt: string) => void;
+}
+
+const SLOT_ICONS: Record<TemplateSlotAccess, React.ReactNode> = {
+  'locked': <Lock size={12} />,
+  'text': <Type size={12} />,
+  'text-color': <Palette size={12} />
+};
+
+const TemplateModal: React.FC<TemplateModalProps> = ({ isOpen, onClose, design, onSave }) => {
+  const [template, setTemplate] = useState<TemplateInfo>({ name: '', backgroundSlot: 'fixed' });
+  const [slots, setSlots] = useState<Record<string, TemplateSlotAccess>>({});
+  const [prompt, setPrompt] = useState('');
+
+  // Start from the design's current template setup each time the dialog opens
+  useEffect(() => {
+    if (!isOpen) return;
+    setTemplate(design.template || { name: '', backgroundSlot: 'fixed' });
+    setSlots(Object.fromEntries(design.layers.map(l => [l.id, l.templateSlot])));
+    setPrompt(design.prompt);
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const editableCount = Object.values(slots).filter(access => access !== 'locked').length;
+  const canSave = template.name.trim() !== '' && (editableCount > 0 || template.backgroundSlot === 'prompt')
+    && (template.backgroundSlot === 'fixed' || prompt.trim() !== '');
+
+  const optionClass = (active: boolean) =>
+    `flex-1 py-2 text-xs font-medium rounded-[3px] border transition-colors ${
+      active ? 'bg-pink-500/10 border-pink-500 text-pink-400' : 'bg-neutral-950 border-neutral-800 text-neutral-400 hover:border-neutral-600'
+    }`;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center">
+      {/* Backdrop */}
+      <div
+        className="absolute inset-0 bg-black/60 backdrop-blur-sm transition-opacity duration-300"
+        onClick={onClose}
+      />
+
+      {/* Modal Content */}
+      <div className="relative bg-neutral-900 border border-neutral-800 rounded-lg w-full max-w-lg max-h-[90vh] shadow-2xl overflow-hidden flex flex-col animate-in zoom-in-95 duration-200">
+        <div className="p-6 overflow-y-auto custom-scrollbar">
+            <div className="flex items-center justify-between mb-6">
+                <div className="flex items-center gap-3">
+                    <div className="w-10 h-10 rounded-full bg-neutral-800 flex items-center justify-center text-pink-500 border border-neutral-700">
+                        <LayoutTemplate size={20} />
+                    </div>
+                    <div>
+                        <h3 className="text-lg font-bold text-white">Save as Template</h3>
+                        <p className="text-xs text-neutral-400">Choose what template users can change</p>
+                    </div>
+                </div>
+                <button onClick={onClose} className="text-neutral-500 hover:text-white transition-colors">
+                    <X size={20} />
+                </button>
+            </div>
+
+            <div className="space-y-5">
+                <div>
+                    <label className="block text-[10px] font-bold text-neutral-500 mb-2 uppercase tracking-wider">Template Name</label>
+                    <input
+                        type="text"
+                        value={template.name}
+                        onChange={(e) => setTemplate(prev => ({ ...prev, name: e.target.value }))}
+                        placeholder="e.g. Event Poster"
+                        className="w-full bg-neutral-950 border border-neutral-800 rounded-[3px] px-3 py-2 text-xs text-white focus:outline-none focus:border-pink-500"
+                    />
+                </div>
+
+                <div>
+                    <label className="block text-[10px] font-bold text-neutral-500 mb-2 uppercase tracking-wider">Background</label>
+                    <div className="flex gap-2">
+                        <button onClick={() => setTemplate(prev => ({ ...prev, backgroundSlot: 'fixed' }))} className={optionClass(template.backgroundSlot === 'fixed')}>
+                            Fixed Image
+                        </button>
+                        <button onClick={() => setTemplate(prev => ({ ...prev, backgroundSlot: 'prompt' }))} className={optionClass(template.backgroundSlot === 'prompt')}>
+                            Prompt Slot
+                        </button>
+                    </div>
+                    {template.backgroundSlot === 'prompt' && (
+                        <>
+                            <textarea
+                                value={prompt}
+                                onChange={(e) => setPrompt(e.target.value)}
+                                rows={3}
+                                placeholder="Starting prompt users can adjust and regenerate"
+                                className="w-full mt-2 bg-neutral-950 border border-neutral-800 rounded-[3px] px-3 py-2 text-xs text-white focus:outline-none focus:border-pink-500 resize-none"
+                            />
+                            <p className="text-[10px] text-neutral-500 mt-1">Users can edit the prompt and regenerate the background with their own API key.</p>
+                        </>
+                    )}
+                </div>
+
+                <div>
+                    <label className="block text-[10px] font-bold text-neutral-500 mb-2 uppercase tracking-wider">Layer Slots</label>
+                    <div className="space-y-1.5">
+                        {[...design.layers].reverse().map(layer => (
+                            <div key={layer.id} className="flex items-center gap-3 bg-neutral-950 border border-neutral-800 rounded-[3px] px-3 py-2">
+                                <div className="flex-1 min-w-0">
+                                    <p className="text-xs text-white truncate">{layer.name}</p>
+                                    <p className="text-[10px] text-neutral-500 truncate">{layer.textOverlay}</p>
+                                </div>
+                                <div className="flex gap-1">
+                                    {(Object.keys(TEMPLATE_SLOT_ACCESS) as TemplateSlotAccess[]).map(access => (
+                                        <button
+                                            key={access}
+                                            onClick={() => setSlots(prev => ({ ...prev, [layer.id]: access }))}
+                                            title={TEMPLATE_SLOT_ACCESS[access].description}
+                                            className={`px-2 py-1 text-[10px] rounded-[3px] border flex items-center gap-1 transition-colors ${
+                                                slots[layer.id] === access
+                                                    ? 'bg-pink-500/10 border-pink-500 text-pink-400'
+                                                    : 'border-neutral-800 text-neutral-500 hover:border-neutral-600'
+                                            }`}
+                                        >
+                                            {SLOT_ICONS[access]} {TEMPLATE_SLOT_ACCESS[access].label}
+                                        </button>
+                                    ))}
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            </div>
+
+            <div className="flex gap-3 mt-6">
+                <button
+                    onClick={onClose}
+                    className="flex-1 py-2.5 px-4 bg-neutral-800 hover:bg-neutral-700 text-neutral-300 rounded-[3px] text-xs font-medium transition-colors"
+                >
+                    Cancel
+                </button>
+                <button
+                    onClick={() => onSave({ ...template, name: template.name.trim() }, slots, prompt)}
+                    disabled={!canSave}
+                    className="flex-1 py-2.5 px-4 bg-pink-600 hover:bg-pink-500 disabled:bg-neutral-700 text-white rounded-[3px] text-xs font-bold transition-colors"
+                >
+                    Save Template
+                </button>
+            </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TemplateModal;
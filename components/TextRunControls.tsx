@@ -0,0 +1,74 @@
+import React from 'react';
+import { LayerFontFamily, TextLayer, TextRun, TextRunStyle } from '../types';
+import { Baseline, Eraser, Maximize } from 'lucide-react';
+import SliderControl from './SliderControl';
+import { applyRunStyle, clearRunStyles, getRunAt } from '../utils/textRuns';
+
+const WEIGHTS = [100, 200, 300, 400, 500, 600, 700, 800, 900];
+
+interface TextRunControlsProps {
+  layer: TextLayer;
+  selection: { start: number; end: number };
+  fonts: LayerFontFamily[];
+  onChange: (runs: TextRun[]) => void;
+}
+
+// Styles the text selected in the Text Content box as a run of its own
+const TextRunControls: React.FC<TextRunControlsProps> = ({ layer, selection, fonts, onChange }) => {
+  const { start, end } = selection;
+  // The controls show the style where the selection starts
+  const style = getRunAt(layer.textRuns, start)?.style || {};
+  const apply = (changes: TextRunStyle) => onChange(applyRunStyle(layer.textRuns, start, end, changes));
+  const hasRuns = layer.textRuns.some(run => run.start < end && run.end > start);
+
+  return (
+    <div className="mt-2 p-2 bg-neutral-950 border border-neutral-800 rounded-[3px] space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="text-[10px] text-neutral-500 uppercase tracking-wider">Selection ({end - start} chars)</span>
+        <button
+          onClick={() => onChange(clearRunStyles(layer.textRuns, start, end))}
+          disabled={!hasRuns}
+          className="flex items-center gap-1 text-[10px] text-neutral-400 hover:text-white disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+          title="Remove the styles of the selected text"
+        >
+          <Eraser size={12} /> Clear
+        </button>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <div className="flex items-center gap-2 bg-neutral-900 border border-neutral-800 rounded-[3px] p-1 h-8 flex-shrink-0">
+          <input
+            type="color"
+            value={style.color ?? layer.textColor}
+            onChange={(e) => apply({ color: e.target.value })}
+            className="w-8 h-full rounded-[2px] cursor-pointer bg-transparent border-none"
+            title="Color"
+          />
+        </div>
+        <select
+          value={style.fontFamily ?? ''}
+          onChange={(e) => apply({ fontFamily: e.target.value || undefined })}
+          className="flex-1 min-w-0 bg-neutral-900 border border-neutral-800 rounded-[3px] py-1.5 px-2 text-xs text-white focus:outline-none focus:border-pink-500 transition-colors appearance-none cursor-pointer"
+          title="Font"
+        >
+          <option value="">Layer font</option>
+          {fonts.map(font => <option key={font} value={font}>{font}</option>)}
+        </select>
+        <select
+          value={style.fontWeight ?? ''}
+          onChange={(e) => apply({ fontWeight: e.target.value ? Number(e.target.value) : undefined })}
+          className="w-20 bg-neutral-900 border border-neutral-800 rounded-[3px] py-1.5 px-2 text-xs text-white focus:outline-none focus:border-pink-500 transition-colors appearance-none cursor-pointer"
+          title="Weight"
+        >
+          <option value="">Weight</option>
+          {WEIGHTS.map(weight => <option key={weight} value={weight}>{weight}</option>)}
+        </select>
+      </div>
+
+      <SliderControl label="Size" icon={Maximize} value={style.size ?? 100} setValue={(v) => apply({ size: v === 100 ? undefined : v })} min="25" max="300" step="1" suffix="%" defaultValue={100} />
+      <SliderControl label="Baseline Shift" icon={Baseline} value={style.baselineShift ?? 0} setValue={(v) => apply({ baselineShift: v === 0 ? undefined : v })} min="-100" max="100" step="1" suffix="%" defaultValue={0} />
+    </div>
+  );
+};
+
+export default TextRunControls;
@@ -0,0 +1,232 @@
+import React, { useRef, useState } from 'react';
+import { Play, Pause, SkipBack, X, Diamond, Trash2, Plus, Clock } from 'lucide-react';
+import { EasingCurve, Keyframe, TextLayer } from '../types';
+import { EASING_CURVES, getAnimatableProperties, getPropertyLabel, getPropertyValue, upsertKeyframe } from '../utils/keyframes';
+import Tooltip from './Tooltip';
+
+interface TimelinePanelProps {
+  layer: TextLayer | null; // Active layer as shown at the playhead
+  duration: number;
+  onDurationChange: (duration: number) => void;
+  time: number;
+  onTimeChange: (time: number) => void;
+  isPlaying: boolean;
+  onTogglePlay: () => void;
+  onUpdateKeyframes: (layerId: string, keyframes: Record<string, Keyframe[]>) => void;
+  onClose: () => void;
+}
+
+const LABEL_WIDTH = 'w-36';
+const TICK_STEP = 0.5;
+
+const formatTime = (seconds: number) => `${seconds.toFixed(2)}s`;
+
+const TimelinePanel: React.FC<TimelinePanelProps> = ({
+  layer,
+  duration,
+  onDurationChange,
+  time,
+  onTimeChange,
+  isPlaying,
+  onTogglePlay,
+  onUpdateKeyframes,
+  onClose
+}) => {
+  const [selected, setSelected] = useState<{ key: string; time: number } | null>(null);
+  const trackAreaRef = useRef<HTMLDivElement>(null);
+
+  const tracks = layer ? Object.keys(layer.keyframes).filter(key => layer.keyframes[key].length > 0) : [];
+  const available = layer ? getAnimatableProperties(layer).filter(p => !tracks.includes(p.key)) : [];
+  const selectedKeyframe = layer && selected
+    ? layer.keyframes[selected.key]?.find(k => Math.abs(k.time - selected.time) < 1e-3) || null
+    : null;
+
+  const seekFromPointer = (clientX: number) => {
+    const rect = trackAreaRef.current?.getBoundingClientRect();
+    if (!rect) return;
+    const ratio = Math.max(0, Math.min(1, (clientX - rect.left) / rect.width));
+    onTimeChange(Math.round(ratio * duration * 100) / 100);
+  };
+
+  const handleScrubStart = (e: React.MouseEvent) => {
+    seekFromPointer(e.clientX);
+    const handleMove = (ev: MouseEvent) => seekFromPointer(ev.clientX);
+    const handleUp = () => {
+      window.removeEventListener('mousemove', handleMove);
+      window.removeEventListener('mouseup', handleUp);
+    };
+    window.addEventListener('mousemove', handleMove);
+    window.addEventListener('mouseup', handleUp);
+  };
+
+  const updateTrack = (key: string, track: Keyframe[]) => {
+    if (!layer) return;
+    const keyframes = { ...layer.keyframes, [key]: track };
+    if (track.length === 0) delete keyframes[key];
+    onUpdateKeyframes(layer.id, keyframes);
+  };
+
+  // Keys the property's current on-screen value at the playhead
+  const addKeyframe = (key: string) => {
+    if (!layer) return;
+    updateTrack(key, upsertKeyframe(layer.keyframes[key], time, getPropertyValue(layer, key)));
+    setSelected({ key, time });
+  };
+
+  const updateSelected = (changes: Partial<Pick<Keyframe, 'value' | 'easing'>>) => {
+    if (!layer || !selected || !selectedKeyframe) return;
+    const track = layer.keyframes[selected.key].map(k => k === selectedKeyframe ? { ...k, ...changes } : k);
+    updateTrack(selected.key, track);
+  };
+
+  const deleteSelected = () => {
+    if (!layer || !selected || !selectedKeyframe) return;
+    updateTrack(selected.key, layer.keyframes[selected.key].filter(k => k !== selectedKeyframe));
+    setSelected(null);
+  };
+
+  const ticks = Array.from({ length: Math.floor(duration / TICK_STEP) + 1 }, (_, i) => i * TICK_STEP);
+  const toPercent = (t: number) => `${(Math.min(t, duration) / duration) * 100}%`;
+
+  return (
+    <div className="h-56 shrink-0 bg-neutral-900 border-t border-neutral-800 flex flex-col select-none">
+      {/* Toolbar */}
+      <div className="flex items-center gap-3 px-4 py-2 border-b border-neutral-800">
+        <Clock size={14} className="text-pink-500" />
+        <span className="text-xs font-bold text-white">Timeline</span>
+        <div className="flex items-center gap-1 ml-2">
+          <button onClick={() => onTimeChange(0)} className="p-1.5 rounded-[3px] text-neutral-400 hover:text-white hover:bg-neutral-800 transition-colors">
+            <SkipBack size={14} />
+          </button>
+          <button onClick={onTogglePlay} className="p-1.5 rounded-[3px] text-neutral-400 hover:text-white hover:bg-neutral-800 transition-colors">
+            {isPlaying ? <Pause size={14} /> : <Play size={14} />}
+          </button>
+        </div>
+        <span className="text-[11px] font-mono text-pink-400 w-14">{formatTime(time)}</span>
+
+        <label className="text-[10px] text-neutral-500 flex items-center gap-1.5 ml-2">
+          Duration
+          <input
+            type="number"
+            min={0.5}
+            max={30}
+            step={0.5}
+            value={duration}
+            onChange={(e) => {
+              const value = parseFloat(e.target.value);
+              if (value >= 0.5 && value <= 30) onDurationChange(value);
+            }}
+            className="w-14 bg-neutral-950 border border-neutral-800 rounded-[3px] px-1.5 py-0.5 text-[11px] text-white focus:outline-none focus:border-pink-500"
+          />
+          s
+        </label>
+
+        {selectedKeyframe && selected && layer && (
+          <div className="flex items-center gap-2 ml-auto pl-3 border-l border-neutral-800">
+            <span className="text-[10px] text-neutral-400 truncate max-w-[120px]">
+              {getPropertyLabel(layer, selected.key)} @ {formatTime(selectedKeyframe.time)}
+            </span>
+            <input
+              type="number"
+              step="any"
+              value={Number(selectedKeyframe.value.toFixed(3))}
+              onChange={(e) => {
+                const value = parseFloat(e.target.value);
+                if (!isNaN(value)) updateSelected({ value });
+              }}
+              className="w-16 bg-neutral-950 border border-neutral-800 rounded-[3px] px-1.5 py-0.5 text-[11px] text-white focus:outline-none focus:border-pink-500"
+            />
+            <select
+              value={selectedKeyframe.easing}
+              onChange={(e) => updateSelected({ easing: e.target.value as EasingCurve })}
+              className="bg-neutral-950 border border-neutral-800 rounded-[3px] px-1.5 py-0.5 text-[11px] text-white focus:outline-none focus:border-pink-500"
+            >
+              {(Object.keys(EASING_CURVES) as EasingCurve[]).map(curve => (
+                <option key={curve} value={curve}>{EASING_CURVES[curve].label}</option>
+              ))}
+            </select>
+            <Tooltip content="Delete keyframe" position="top">
+              <button onClick={deleteSelected} className="p-1 text-neutral-500 hover:text-red-400 transition-colors">
+                <Trash2 size={12} />
+              </button>
+            </Tooltip>
+          </div>
+        )}
+
+        <button onClick={onClose} className={`text-neutral-500 hover:text-white transition-colors ${selectedKeyframe ? '' : 'ml-auto'}`}>
+          <X size={16} />
+        </button>
+      </div>
+
+      {/* Tracks */}
+      <div className="flex-1 overflow-y-auto custom-scrollbar">
+        {/* Ruler */}
+        <div className="flex sticky top-0 z-10 bg-neutral-900">
+          <div className={`${LABEL_WIDTH} shrink-0 px-4 py-1 text-[10px] text-neutral-500 truncate`}>
+            {layer ? layer.name : 'No layer selected'}
+          </div>
+          <div ref={trackAreaRef} className="relative flex-1 h-6 mr-4 cursor-ew-resize border-b border-neutral-800" onMouseDown={handleScrubStart}>
+            {ticks.map(t => (
+              <div key={t} className="absolute top-0 h-full border-l border-neutral-800" style={{ left: toPercent(t) }}>
+                {t % 1 === 0 && <span className="absolute top-0.5 left-1 text-[9px] text-neutral-600">{t}s</span>}
+              </div>
+            ))}
+            <div className="absolute top-0 bottom-0 w-px bg-pink-500 pointer-events-none" style={{ left: toPercent(time) }} />
+          </div>
+        </div>
+
+        {layer && tracks.map(key => (
+          <div key={key} className="flex items-center group hover:bg-neutral-800/40">
+            <div className={`${LABEL_WIDTH} shrink-0 px-4 py-1.5 flex items-center justify-between gap-2`}>
+              <span className="text-[11px] text-neutral-300 truncate">{getPropertyLabel(layer, key)}</span>
+              <Tooltip content="Keyframe at playhead" position="right">
+                <button onClick={() => addKeyframe(key)} className="text-neutral-500 hover:text-pink-400 transition-colors">
+                  <Diamond size={11} />
+                </button>
+              </Tooltip>
+            </div>
+            <div className="relative flex-1 h-7 mr-4 border-b border-neutral-800/60" onMouseDown={handleScrubStart}>
+              <div className="absolute top-0 bottom-0 w-px bg-pink-500/40 pointer-events-none" style={{ left: toPercent(time) }} />
+              {layer.keyframes[key].map(k => {
+                const isSelected = selected?.key === key && Math.abs(selected.time - k.time) < 1e-3;
+                return (
+                  <button
+                    key={k.time}
+                    onMouseDown={(e) => e.stopPropagation()}
+                    onClick={() => { setSelected({ key, time: k.time }); onTimeChange(k.time); }}
+                    className={`absolute top-1/2 -translate-y-1/2 -translate-x-1/2 w-2.5 h-2.5 rotate-45 border transition-colors ${
+                      isSelected ? 'bg-pink-500 border-pink-300' : 'bg-neutral-300 border-neutral-500 hover:bg-pink-400'
+                    }`}
+                    style={{ left: toPercent(k.time) }}
+                    title={`${formatTime(k.time)}: ${Number(k.value.toFixed(3))}`}
+                  />
+                );
+              })}
+            </div>
+          </div>
+        ))}
+
+        {layer && available.length > 0 && (
+          <div className="flex items-center px-4 py-2">
+            <Plus size={12} className="text-neutral-500 mr-2" />
+            <select
+              value=""
+              onChange={(e) => { if (e.target.value) addKeyframe(e.target.value); }}
+              className="bg-neutral-950 border border-neutral-800 rounded-[3px] px-2 py-1 text-[11px] text-neutral-300 focus:outline-none focus:border-pink-500"
+            >
+              <option value="">Animate property...</option>
+              {available.map(p => <option key={p.key} value={p.key}>{p.label}</option>)}
+            </select>
+            {tracks.length === 0 && (
+              <span className="text-[10px] text-neutral-600 ml-3">
+                Add a property, move the playhead, then change it on the canvas or in the panel to record keyframes.
+              </span>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TimelinePanel;
@@ -1,6 +1,6 @@
 
 
-import { FontFamily } from './types';
+import { FontFamily, ImageExportFormat } from './types';
 
 export const FONT_CATEGORIES = {
   SANS: 'Sans Serif',
@@ -21,7 +21,8 @@ export const FONT_CATEGORIES = {
   RETRO_SIGNAGE: '80s / Signage',
   TECH_FUTURE: 'Tech / Future',
   SHADED: 'Shaded',
-  NOT_TEXT: 'Not Text / Symbols'
+  NOT_TEXT: 'Not Text / Symbols',
+  CUSTOM: 'Uploaded'
 };
 
 // Fonts that support COLRv1 or other built-in color palettes.
@@ -49,6 +50,194 @@ export const FONTS: FontFamily[] = [
   'Tilt Warp', 'Tourney', 'Turret Road', 'Unbounded', 'UnifrakturMaguntia', 'VT323', 'Vast Shadow', 'Wallpoet', 'Workbench', 'Zen Dots'
 ];
 
+// Google Fonts css2 axis spec for each catalog family ('' requests the default face). The offline
+// font bundle is built from these (npm run fonts:fetch); without a bundle they are fetched online.
+export const FONT_SOURCES: Record<string, string> = {
+  'Abril Fatface': '',
+  'Akronim': '',
+  'Alfa Slab One': '',
+  'Amatic SC': 'wght@400;700',
+  'Anton': '',
+  'Audiowide': '',
+  'Bangers': '',
+  'Bebas Neue': '',
+  'Bodoni Moda': 'ital,opsz,wght@0,6..96,400..900;1,6..96,400..900',
+  'Bruno Ace SC': '',
+  'Bungee': '',
+  'Bungee Shade': '',
+  'Butcherman': '',
+  'Cinzel': 'wght@400;700',
+  'Cormorant Garamond': 'ital,wght@0,400;0,600;1,400',
+  'Creepster': '',
+  'Crimson Text': 'ital,wght@0,400;0,600;0,700;1,400',
+  'Dancing Script': 'wght@400;700',
+  'Diplomata': '',
+  'DM Serif Display': 'ital@0;1',
+  'DotGothic16': '',
+  'Doto': 'wght,ROND@100..900,0..100',
+  'Eater': '',
+  'Eduardo Tunni': '',
+  'Ewert': '',
+  'Exo 2': 'ital,wght@0,100..900;1,100..900',
+  'Fascinate Inline': '',
+  'Faster One': '',
+  'Finger Paint': '',
+  'Fira Code': 'wght@300;400;600',
+  'Foldit': 'wght@100..900',
+  'Fraunces': 'ital,opsz,wght,SOFT,WONK@0,9..144,100..900,0..100,0..1;1,9..144,100..900,0..100,0..1',
+  'Frijole': '',
+  'Geostar': '',
+  'Gloria Hallelujah': '',
+  'Gluten': 'slnt,wght@-10..10,100..900',
+  'Great Vibes': '',
+  'Grenze Gotisch': '',
+  'Handjet': 'wght,ELGR,ELSH@100..900,1..2,0..16',
+  'Honk': 'MORF,SHLN@0..45,0..100',
+  'Inter': 'wght@100..900',
+  'Italiana': '',
+  'Jacquard 12': '',
+  'Jacques Francois Shadow': '',
+  'Jersey 10': '',
+  'Josefin Sans': 'ital,wght@0,100..700;1,100..700',
+  'Kablammo': '',
+  'Kalnia Glaze': 'wdth,wght@100..125,100..700',
+  'Krona One': '',
+  'Lato': 'ital,wght@0,400;0,700;1,400',
+  'League Gothic': '',
+  'Libre Barcode 39 Extended': '',
+  'Libre Baskerville': 'ital,wght@0,400;0,700;1,400',
+  'Linefont': 'wdth,wght@50..200,100..900',
+  'Lobster': '',
+  'Londrina Shadow': '',
+  'Lora': 'ital,wght@0,400..700;1,400..700',
+  'Major Mono Display': '',
+  'Megrim': '',
+  'Merriweather': 'ital,wght@0,300;0,400;0,700;0,900;1,400',
+  'Metal Mania': '',
+  'Michroma': '',
+  'Micro 5': '',
+  'Monoton': '',
+  'Montserrat': 'wght@400;900',
+  'Nabla': 'EDPT,EHLT@0..200,0..24',
+  'Nosifer': '',
+  'Noto Color Emoji': '',
+  'Noto Emoji': 'wght@300..700',
+  'Noto Music': '',
+  'Noto Sans': 'ital,wght@0,100..900;1,100..900',
+  'Noto Sans Symbols': 'wght@100..900',
+  'Noto Sans Symbols 2': '',
+  'Oi': '',
+  'Open Sans': 'ital,wght@0,300..800;1,300..800',
+  'Orbitron': 'wght@400..900',
+  'Oswald': 'wght@200;400;700',
+  'Oxanium': 'wght@200..800',
+  'Pacifico': '',
+  'Permanent Marker': '',
+  'Piedra': '',
+  'Pixelify Sans': '',
+  'Plaster': '',
+  'Playfair Display': 'ital,wght@0,400;1,900',
+  'Poiret One': '',
+  'Poppins': 'ital,wght@0,300;0,400;0,600;0,800;1,400',
+  'Press Start 2P': '',
+  'PT Sans': 'ital,wght@0,400;0,700;1,400',
+  'PT Serif': 'ital,wght@0,400;0,700;1,400',
+  'Quantico': 'ital,wght@0,400;0,700;1,400',
+  'Raleway': 'ital,wght@0,100..900;1,100..900',
+  'Rampart One': '',
+  'Ribeye Marrow': '',
+  'Righteous': '',
+  'Roboto': 'ital,wght@0,300;0,400;0,700;1,400',
+  'Rock 3D': '',
+  'Rock Salt': '',
+  'Rubik': 'ital,wght@0,300..900;1,300..900',
+  'Rubik 80s Fade': '',
+  'Rubik Beastly': '',
+  'Rubik Broken Fax': '',
+  'Rubik Bubbles': '',
+  'Rubik Burned': '',
+  'Rubik Dirt': '',
+  'Rubik Distressed': '',
+  'Rubik Doodle Shadow': '',
+  'Rubik Doodle Triangles': '',
+  'Rubik Gemstones': '',
+  'Rubik Glitch': '',
+  'Rubik Glitch Pop': '',
+  'Rubik Iso': '',
+  'Rubik Lines': '',
+  'Rubik Maps': '',
+  'Rubik Marker Hatch': '',
+  'Rubik Maze': '',
+  'Rubik Microbe': '',
+  'Rubik Mono One': '',
+  'Rubik Moonrocks': '',
+  'Rubik Pixels': '',
+  'Rubik Puddles': '',
+  'Rubik Scribble': '',
+  'Rubik Spray Paint': '',
+  'Rubik Storm': '',
+  'Rubik Vinyl': '',
+  'Rubik Wet Paint': '',
+  'Rye': '',
+  'Sancreek': '',
+  'Shadows Into Light': '',
+  'Share Tech Mono': '',
+  'Shojumaru': '',
+  'Silkscreen': '',
+  'Sixtyfour': '',
+  'Slackey': '',
+  'Smokum': '',
+  'Sonsie One': '',
+  'Sora': 'wght@100..800',
+  'Source Sans 3': 'ital,wght@0,200..900;1,200..900',
+  'Space Grotesk': 'wght@300..700',
+  'Space Grotesque': 'wght@300..700',
+  'Space Mono': 'ital,wght@0,400;1,700',
+  'Special Elite': '',
+  'Syne': 'wght@400..800',
+  'Tilt Warp': 'XROT,YROT@-45..45,-45..45',
+  'Tourney': 'ital,wdth,wght@0,50..125,100..900;1,50..125,100..900',
+  'Turret Road': 'wght@200;300;400;500;700;800',
+  'Unbounded': 'wght@200..900',
+  'UnifrakturMaguntia': '',
+  'Vast Shadow': '',
+  'VT323': '',
+  'Wallpoet': '',
+  'Workbench': '',
+  'Zen Dots': ''
+};
+
+// Layer blend modes mapped to canvas composite operations.
+// The keys double as CSS/SVG mix-blend-mode values (except 'normal' which is 'source-over' on canvas).
+export const BLEND_MODE_COMPOSITE_OPS: Record<string, GlobalCompositeOperation> = {
+  'normal': 'source-over',
+  'multiply': 'multiply',
+  'screen': 'screen',
+  'overlay': 'overlay',
+  'darken': 'darken',
+  'lighten': 'lighten',
+  'color-dodge': 'color-dodge',
+  'color-burn': 'color-burn',
+  'hard-light': 'hard-light',
+  'soft-light': 'soft-light',
+  'difference': 'difference',
+  'exclusion': 'exclusion',
+  'hue': 'hue',
+  'saturation': 'saturation',
+  'color': 'color',
+  'luminosity': 'luminosity'
+};
+
+export const IMAGE_EXPORT_FORMATS: Record<ImageExportFormat, { label: string; mimeType: string; extension: string; hasQuality: boolean; hasAlpha: boolean }> = {
+  png: { label: 'PNG', mimeType: 'image/png', extension: 'png', hasQuality: false, hasAlpha: true },
+  jpeg: { label: 'JPEG', mimeType: 'image/jpeg', extension: 'jpg', hasQuality: true, hasAlpha: false },
+  webp: { label: 'WebP', mimeType: 'image/webp', extension: 'webp', hasQuality: true, hasAlpha: true }
+};
+
+// Browsers refuse to allocate canvases beyond roughly this many pixels (Chrome/Firefox; Safari is lower)
+export const MAX_CANVAS_PIXELS = 268_000_000;
+export const MAX_CANVAS_SIDE = 16384;
+
 // Variable Font Axis Definition
 export interface FontAxis {
   tag: string;       // e.g. 'wght', 'wdth', 'WONK'
@@ -60,201 +249,37 @@ export interface FontAxis {
   inputType?: 'slider' | 'toggle'; // New: Control the UI presentation
 }
 
-export interface VariableFontConfig {
-  axes: FontAxis[];
+// An OpenType feature a layer can switch on or off
+export interface FontFeature {
+  tag: string;   // e.g. 'liga', 'ss01'
+  name: string;  // Stylistic sets use the font's own name for them when it has one
 }
 
-// Registry of known variable capabilities for fonts in our library
-// Note: This matches the Google Fonts variable axes ranges where applicable.
-export const VARIABLE_FONTS: Partial<Record<FontFamily, VariableFontConfig>> = {
-  'Bodoni Moda': {
-    axes: [
-      { tag: 'wght', name: 'Weight', min: 400, max: 900, defaultValue: 400, step: 1 },
-      // Italic is usually a toggle, but Bodoni Moda variable axes includes 'opsz' in some versions, 
-      // though Google Fonts mainly exposes wght and ital.
-    ]
-  },
-  'Doto': {
-    axes: [
-      { tag: 'wght', name: 'Weight', min: 100, max: 900, defaultValue: 400, step: 1 },
-      { tag: 'ROND', name: 'Roundness', min: 0, max: 100, defaultValue: 0, step: 1 }
-    ]
-  },
-  'Fraunces': {
-    axes: [
-      { tag: 'wght', name: 'Weight', min: 100, max: 900, defaultValue: 400, step: 10 },
-      { tag: 'opsz', name: 'Optical Size', min: 9, max: 144, defaultValue: 12, step: 0.1 },
-      { tag: 'SOFT', name: 'Softness', min: 0, max: 100, defaultValue: 0, step: 1 },
-      // Change WONK to a toggle with step 1 (0 or 1)
-      { tag: 'WONK', name: 'Wonkiness', min: 0, max: 1, defaultValue: 0, step: 1, inputType: 'toggle' }
-    ]
-  },
-  'Foldit': {
-    axes: [
-      { tag: 'wght', name: 'Weight', min: 100, max: 900, defaultValue: 400, step: 1 }
-    ]
-  },
-  'Gluten': {
-    axes: [
-      { tag: 'wght', name: 'Weight', min: 100, max: 900, defaultValue: 400, step: 1 },
-      { tag: 'slnt', name: 'Slant', min: -13, max: 13, defaultValue: 0, step: 1 }
-    ]
-  },
-  'Handjet': {
-    axes: [
-      { tag: 'wght', name: 'Weight', min: 100, max: 900, defaultValue: 400, step: 1 },
-      { tag: 'ELGR', name: 'Grid Size', min: 1, max: 2, defaultValue: 1, step: 0.1 },
-      { tag: 'ELSH', name: 'Element Shape', min: 0, max: 16, defaultValue: 0, step: 0.1 }
-    ]
-  },
-  'Exo 2': {
-    axes: [
-      { tag: 'wght', name: 'Weight', min: 100, max: 900, defaultValue: 400, step: 1 }
-    ]
-  },
-  'Space Grotesk': {
-    axes: [
-      { tag: 'wght', name: 'Weight', min: 300, max: 700, defaultValue: 400, step: 1 }
-    ]
-  },
-  'Inter': {
-    axes: [
-      { tag: 'wght', name: 'Weight', min: 100, max: 900, defaultValue: 400, step: 10 },
-      // slnt is -10 to 0 on Inter variable, but our static import might only snap to specific weights.
-      // We expose it for robustness.
-    ]
-  },
-  'Josefin Sans': {
-    axes: [
-      { tag: 'wght', name: 'Weight', min: 100, max: 700, defaultValue: 400, step: 1 }
-    ]
-  },
-  'Lora': {
-    axes: [
-      { tag: 'wght', name: 'Weight', min: 400, max: 700, defaultValue: 400, step: 1 }
-    ]
-  },
-  'Merriweather': {
-    axes: [
-       { tag: 'wght', name: 'Weight', min: 300, max: 900, defaultValue: 400, step: 1 }
-    ]
-  },
-  'Montserrat': {
-    axes: [
-      { tag: 'wght', name: 'Weight', min: 100, max: 900, defaultValue: 400, step: 10 }
-    ]
-  },
-  'Noto Sans': {
-    axes: [
-      { tag: 'wght', name: 'Weight', min: 100, max: 900, defaultValue: 400, step: 1 },
-      { tag: 'wdth', name: 'Width', min: 62.5, max: 100, defaultValue: 100, step: 0.1 }
-    ]
-  },
-  'Open Sans': {
-    axes: [
-      { tag: 'wght', name: 'Weight', min: 300, max: 800, defaultValue: 400, step: 1 },
-      { tag: 'wdth', name: 'Width', min: 75, max: 100, defaultValue: 100, step: 0.1 }
-    ]
-  },
-  'Oswald': {
-    axes: [
-      { tag: 'wght', name: 'Weight', min: 200, max: 700, defaultValue: 400, step: 1 }
-    ]
-  },
-  'Playfair Display': {
-    axes: [
-      { tag: 'wght', name: 'Weight', min: 400, max: 900, defaultValue: 400, step: 1 }
-    ]
-  },
-  'Raleway': {
-    axes: [
-      { tag: 'wght', name: 'Weight', min: 100, max: 900, defaultValue: 400, step: 1 }
-    ]
-  },
-  'Roboto': {
-    axes: [
-      { tag: 'wght', name: 'Weight', min: 100, max: 900, defaultValue: 400, step: 10 },
-      { tag: 'wdth', name: 'Width', min: 75, max: 100, defaultValue: 100, step: 0.1 }
-    ]
-  },
-  'Rubik': {
-    axes: [
-        { tag: 'wght', name: 'Weight', min: 300, max: 900, defaultValue: 400, step: 10 }
-    ]
-  },
-  'Sora': {
-    axes: [
-      { tag: 'wght', name: 'Weight', min: 100, max: 800, defaultValue: 400, step: 1 }
-    ]
-  },
-  'Source Sans 3': {
-    axes: [
-      { tag: 'wght', name: 'Weight', min: 200, max: 900, defaultValue: 400, step: 1 }
-    ]
-  },
-  'Space Grotesque': {
-    axes: [
-      { tag: 'wght', name: 'Weight', min: 300, max: 700, defaultValue: 400, step: 1 }
-    ]
-  },
-  'Tourney': {
-    axes: [
-      { tag: 'wght', name: 'Weight', min: 100, max: 900, defaultValue: 400, step: 1 },
-      { tag: 'wdth', name: 'Width', min: 50, max: 125, defaultValue: 100, step: 0.1 }
-    ]
-  },
-  'Unbounded': {
-     axes: [
-       { tag: 'wght', name: 'Weight', min: 200, max: 900, defaultValue: 400, step: 1 }
-     ]
-  },
-  'Fira Code': {
-    axes: [
-       { tag: 'wght', name: 'Weight', min: 300, max: 700, defaultValue: 400, step: 1 }
-     ]
-  },
-  'Nabla': {
-    axes: [
-        { tag: 'EDPT', name: 'Depth', min: 0, max: 200, defaultValue: 100, step: 1 },
-        { tag: 'EHLT', name: 'Highlight', min: 0, max: 24, defaultValue: 12, step: 1 }
-    ]
-  },
-  'Kalnia Glaze': {
-    axes: [
-        { tag: 'wght', name: 'Weight', min: 100, max: 700, defaultValue: 400, step: 1 },
-        { tag: 'wdth', name: 'Width', min: 100, max: 125, defaultValue: 100, step: 0.1 }
-    ]
-  },
-  'Honk': {
-    axes: [
-        { tag: 'MORF', name: 'Morph', min: 0, max: 45, defaultValue: 0, step: 0.1 },
-        { tag: 'SHLN', name: 'Shadow Length', min: 0, max: 100, defaultValue: 0, step: 1 }
-    ]
-  },
-  'Tilt Warp': {
-    axes: [
-      { tag: 'XROT', name: 'X Rotation', min: -45, max: 45, defaultValue: 0, step: 1 },
-      { tag: 'YROT', name: 'Y Rotation', min: -45, max: 45, defaultValue: 0, step: 1 }
-    ]
-  },
-  'Linefont': {
-    axes: [
-      { tag: 'wght', name: 'Weight', min: 100, max: 900, defaultValue: 400, step: 1 },
-      { tag: 'wdth', name: 'Width', min: 50, max: 200, defaultValue: 100, step: 1 }
-    ]
-  },
-  'Noto Emoji': {
-    axes: [
-      { tag: 'wght', name: 'Weight', min: 300, max: 700, defaultValue: 400, step: 1 }
-    ]
-  },
-  'Noto Sans Symbols': {
-    axes: [
-      { tag: 'wght', name: 'Weight', min: 100, max: 900, defaultValue: 400, step: 1 }
-    ]
-  }
-};
+// Features offered per layer; fonts whose GSUB/GPOS tables can't be read offer all of them, unverified
+export const OPENTYPE_FEATURES: FontFeature[] = [
+  { tag: 'liga', name: 'Ligatures' },
+  { tag: 'kern', name: 'Kerning' },
+  { tag: 'dlig', name: 'Discretionary Ligatures' },
+  { tag: 'smcp', name: 'Small Caps' },
+  { tag: 'tnum', name: 'Tabular Figures' },
+  { tag: 'onum', name: 'Oldstyle Figures' },
+  { tag: 'frac', name: 'Fractions' },
+  ...Array.from({ length: 20 }, (_, i) => ({ tag: `ss${String(i + 1).padStart(2, '0')}`, name: `Stylistic Set ${i + 1}` }))
+];
 
+// Features browsers apply unless a layer turns them off
+export const DEFAULT_ON_FEATURES = ['liga', 'kern'];
+
+// A named point in the design space, e.g. 'Bold Condensed'
+export interface NamedInstance {
+  name: string;
+  coordinates: Record<string, number>; // Axis tag -> value
+}
+
+export interface VariableFontConfig {
+  axes: FontAxis[];
+  instances?: NamedInstance[];
+}
 
 // Helper to map fonts to categories
 export const getFontCategory = (font: FontFamily): string => {
@@ -0,0 +1,10 @@
+import { useEffect, useState } from 'react';
+import { FontStatus } from '../types';
+import { getFontStatus, subscribeFontStatus } from '../services/fontLoader';
+
+// Re-renders the component whenever font load state changes; returns the status lookup
+export const useFontStatus = (): ((family: string) => FontStatus | null) => {
+  const [, setVersion] = useState(0);
+  useEffect(() => subscribeFontStatus(() => setVersion(v => v + 1)), []);
+  return getFontStatus;
+};
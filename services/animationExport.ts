@@ -0,0 +1,96 @@
+import { TextLayer } from '../types';
+import { SceneRenderer } from '../components/Canvas';
+import { createGifEncoder } from '../utils/gifEncoder';
+import { hasKeyframes } from '../utils/keyframes';
+
+export type AnimationFormat = 'webm' | 'gif';
+
+export interface AnimationExportOptions {
+  format: AnimationFormat;
+  duration: number; // Seconds
+  fps: number;
+  loop: boolean; // GIF only: repeat forever instead of playing once
+  scale: number;
+}
+
+const WEBM_MIME_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+const WEBM_BITRATE = 8_000_000;
+
+const getWebmMimeType = () =>
+  typeof MediaRecorder === 'undefined' ? null : WEBM_MIME_TYPES.find(t => MediaRecorder.isTypeSupported(t)) || null;
+
+export const isWebmSupported = () => getWebmMimeType() !== null;
+
+// Layers with keyframes or effects that change over time; everything else renders identically in every frame
+export const hasAnimatedEffects = (layers: TextLayer[]) =>
+  layers.some(l => l.visible && (l.specialEffect === 'glitch' || l.specialEffect === 'echo' || hasKeyframes([l])));
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, Math.max(0, ms)));
+
+/**
+ * Records the animation in real time with MediaRecorder. Frames are pushed manually so a slow
+ * render delays the recording rather than dropping frames.
+ */
+const recordWebm = async (renderer: SceneRenderer, options: AnimationExportOptions, onProgress?: (frame: number, total: number) => void): Promise<Blob> => {
+  const mimeType = getWebmMimeType();
+  if (!mimeType) throw new Error("WebM recording is not supported in this browser");
+
+  const totalFrames = Math.max(1, Math.round(options.duration * options.fps));
+  const frameMs = 1000 / options.fps;
+
+  renderer.render({ time: 0, duration: options.duration });
+  const stream = renderer.canvas.captureStream(0);
+  const track = stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack;
+  const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: WEBM_BITRATE });
+
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => { if (e.data.size > 0) chunks.push(e.data); };
+  const stopped = new Promise<void>(resolve => { recorder.onstop = () => resolve(); });
+
+  recorder.start();
+  const start = performance.now();
+  try {
+    for (let i = 0; i < totalFrames; i++) {
+      renderer.render({ time: i / options.fps, duration: options.duration });
+      track.requestFrame();
+      onProgress?.(i + 1, totalFrames);
+      await wait(start + (i + 1) * frameMs - performance.now());
+    }
+  } finally {
+    recorder.stop();
+    await stopped;
+    stream.getTracks().forEach(t => t.stop());
+  }
+
+  return new Blob(chunks, { type: 'video/webm' });
+};
+
+const encodeGif = async (renderer: SceneRenderer, options: AnimationExportOptions, onProgress?: (frame: number, total: number) => void): Promise<Blob> => {
+  const { width, height } = renderer.canvas;
+  const ctx = renderer.canvas.getContext('2d');
+  if (!ctx) throw new Error("Could not get canvas context");
+
+  const totalFrames = Math.max(1, Math.round(options.duration * options.fps));
+  const encoder = createGifEncoder(width, height, options.loop);
+
+  for (let i = 0; i < totalFrames; i++) {
+    renderer.render({ time: i / options.fps, duration: options.duration });
+    encoder.addFrame(ctx.getImageData(0, 0, width, height), 1000 / options.fps);
+    onProgress?.(i + 1, totalFrames);
+    // Quantizing is synchronous; yield so progress can paint
+    await wait(0);
+  }
+
+  return encoder.finish();
+};
+
+/**
+ * Renders the animated effects frame by frame and encodes them as WebM or GIF.
+ */
+export const exportAnimation = (
+  renderer: SceneRenderer,
+  options: AnimationExportOptions,
+  onProgress?: (frame: number, total: number) => void
+): Promise<Blob> => options.format === 'webm'
+  ? recordWebm(renderer, options, onProgress)
+  : encodeGif(renderer, options, onProgress);
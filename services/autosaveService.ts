@@ -0,0 +1,111 @@
+import { AutosavedSession, ImageHistoryItem, RecentProjectSummary } from '../types';
+import { idbDelete, idbGet, idbGetAll, idbPut, STORES } from '../utils/idb';
+
+// Only the most recent sessions are kept to bound IndexedDB usage (each one embeds full-size images)
+const MAX_RECENT_SESSIONS = 6;
+const THUMBNAIL_SIZE = 240;
+
+// History entries frequently share the same background, so images are stored once
+// and referenced by index to avoid writing the same data URL twenty times.
+interface StoredSession extends Omit<AutosavedSession, 'imageSrc' | 'imageHistory'> {
+  images: string[];
+  imageIndex: number;
+  imageHistory: (Omit<ImageHistoryItem, 'src'> & { srcIndex: number })[];
+}
+
+const packSession = (session: AutosavedSession): StoredSession => {
+  const images: string[] = [];
+  const indexOf = (src: string | null) => {
+    if (!src) return -1;
+    let idx = images.indexOf(src);
+    if (idx === -1) {
+      idx = images.length;
+      images.push(src);
+    }
+    return idx;
+  };
+
+  const { imageSrc, imageHistory, ...rest } = session;
+  return {
+    ...rest,
+    images,
+    imageIndex: indexOf(imageSrc),
+    imageHistory: imageHistory.map(({ src, ...item }) => ({ ...item, srcIndex: indexOf(src) }))
+  };
+};
+
+const unpackSession = (stored: StoredSession): AutosavedSession => {
+  const { images, imageIndex, imageHistory, ...rest } = stored;
+  return {
+    ...rest,
+    imageSrc: imageIndex >= 0 ? images[imageIndex] : null,
+    imageHistory: imageHistory.map(({ srcIndex, ...item }) => ({ ...item, src: srcIndex >= 0 ? images[srcIndex] : '' }))
+  };
+};
+
+/**
+ * Derives a human readable name for the recent-projects list.
+ */
+export const getSessionName = (session: Pick<AutosavedSession, 'design'>): string => {
+  const { prompt, layers } = session.design;
+  const source = prompt.trim() || layers.map(l => l.textOverlay.trim()).find(Boolean) || 'Untitled';
+  const singleLine = source.replace(/\s+/g, ' ');
+  return singleLine.length > 40 ? `${singleLine.slice(0, 40)}…` : singleLine;
+};
+
+/**
+ * Downscales a rendered image into a small JPEG suitable for the recent-projects list.
+ */
+export const createThumbnail = (dataUrl: string, maxSize: number = THUMBNAIL_SIZE): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => {
+      const scale = Math.min(1, maxSize / Math.max(img.naturalWidth, img.naturalHeight));
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.max(1, Math.round(img.naturalWidth * scale));
+      canvas.height = Math.max(1, Math.round(img.naturalHeight * scale));
+      const ctx = canvas.getContext('2d');
+      if (!ctx) {
+        reject(new Error("Could not get canvas context"));
+        return;
+      }
+      ctx.imageSmoothingQuality = 'high';
+      ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+      resolve(canvas.toDataURL('image/jpeg', 0.8));
+    };
+    img.onerror = reject;
+    img.src = dataUrl;
+  });
+
+export const listRecentSessions = async (): Promise<RecentProjectSummary[]> => {
+  const recents = await idbGetAll<RecentProjectSummary>(STORES.RECENTS);
+  return recents.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const loadSession = async (id: string): Promise<AutosavedSession | null> => {
+  const stored = await idbGet<StoredSession>(STORES.SESSIONS, id);
+  return stored ? unpackSession(stored) : null;
+};
+
+export const deleteSession = async (id: string): Promise<void> => {
+  await idbDelete(STORES.SESSIONS, id);
+  await idbDelete(STORES.RECENTS, id);
+};
+
+export const saveSession = async (session: AutosavedSession): Promise<void> => {
+  const summary: RecentProjectSummary = {
+    id: session.id,
+    name: session.name,
+    updatedAt: session.updatedAt,
+    thumbnail: session.thumbnail
+  };
+
+  await idbPut(STORES.SESSIONS, session.id, packSession(session));
+  await idbPut(STORES.RECENTS, session.id, summary);
+
+  // Prune the oldest sessions beyond the limit
+  const recents = await listRecentSessions();
+  for (const stale of recents.slice(MAX_RECENT_SESSIONS)) {
+    await deleteSession(stale.id);
+  }
+};
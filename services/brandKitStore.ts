@@ -0,0 +1,79 @@
+import { BrandKit, BrandKitFile } from '../types';
+import { FONTS } from '../constants';
+import { BRAND_STYLE_KEYS, createBrandKit } from '../utils/brandKit';
+import { createLayer } from '../utils/defaults';
+
+const BRAND_KIT_KEY = 'textrot-brand-kit';
+
+export const BRAND_KIT_FILE_FORMAT = 'textrot-brand-kit';
+export const BRAND_KIT_FILE_VERSION = 1;
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+/**
+ * Keeps only well-formed entries, so a kit from storage or a teammate's file can't break the editor.
+ * Style values must have the same type as the layer defaults; colors must be #rrggbb.
+ */
+const sanitizeBrandKit = (raw: any): BrandKit => {
+  const kit = createBrandKit(typeof raw.name === 'string' && raw.name.trim() ? raw.name.trim() : undefined);
+
+  if (Array.isArray(raw.swatches)) {
+    kit.swatches = raw.swatches
+      .filter((s: any) => s && typeof s.color === 'string' && HEX_COLOR.test(s.color))
+      .map((s: any) => ({ name: typeof s.name === 'string' ? s.name : s.color, color: s.color.toLowerCase() }));
+  }
+  if (Array.isArray(raw.fonts)) kit.fonts = FONTS.filter(font => raw.fonts.includes(font));
+
+  const defaults = createLayer('brand-kit');
+  const style = raw.layerStyle && typeof raw.layerStyle === 'object' ? raw.layerStyle : {};
+  BRAND_STYLE_KEYS.forEach(key => {
+    const value = style[key];
+    if (typeof value !== typeof defaults[key]) return;
+    if (key === 'fontFamily' && !FONTS.includes(value)) return;
+    if (key.endsWith('Color') && !HEX_COLOR.test(value)) return;
+    (kit.layerStyle as Record<string, unknown>)[key] = value;
+  });
+  return kit;
+};
+
+export const loadBrandKit = (): BrandKit | null => {
+  try {
+    const raw = localStorage.getItem(BRAND_KIT_KEY);
+    const stored = raw ? JSON.parse(raw) : null;
+    return stored && typeof stored === 'object' ? sanitizeBrandKit(stored) : null;
+  } catch (e) {
+    console.warn(`Could not read ${BRAND_KIT_KEY}`, e);
+    return null;
+  }
+};
+
+export const saveBrandKit = (kit: BrandKit | null) => {
+  try {
+    if (kit === null) localStorage.removeItem(BRAND_KIT_KEY);
+    else localStorage.setItem(BRAND_KIT_KEY, JSON.stringify(kit));
+  } catch (e) {
+    console.warn(`Could not write ${BRAND_KIT_KEY}`, e);
+  }
+};
+
+export const serializeBrandKit = (kit: BrandKit): string => {
+  const file: BrandKitFile = { format: BRAND_KIT_FILE_FORMAT, version: BRAND_KIT_FILE_VERSION, kit };
+  return JSON.stringify(file, null, 2);
+};
+
+export const parseBrandKit = (json: string): BrandKit => {
+  let raw: any;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    throw new Error("Invalid brand kit: The file is not valid JSON.");
+  }
+
+  if (raw?.format !== BRAND_KIT_FILE_FORMAT || !raw.kit || typeof raw.kit !== 'object') {
+    throw new Error("Invalid brand kit: This is not a textrot brand kit file.");
+  }
+  if (typeof raw.version === 'number' && raw.version > BRAND_KIT_FILE_VERSION) {
+    throw new Error("Invalid brand kit: This file was exported by a newer version of textrot studio.");
+  }
+  return sanitizeBrandKit(raw.kit);
+};
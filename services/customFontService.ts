@@ -0,0 +1,76 @@
+import { CustomFont } from '../types';
+import { idbDelete, idbGetAll, idbPut, STORES } from '../utils/idb';
+import { registerFontBinary, unregisterFontBinaries } from '../utils/fontBinaries';
+import { encodeFontData, isSfntReadable } from '../utils/customFonts';
+import { discoverVariableAxes, forgetVariableAxes } from '../utils/variableFonts';
+import { discoverFontFeatures, forgetFontFeatures } from '../utils/fontFeatures';
+
+/**
+ * Makes uploaded fonts usable everywhere a built-in font is: the page (document.fonts), vector
+ * exports (fontBinaries) and the render worker, which receives the installed files per job.
+ */
+
+const installed = new Map<string, { font: CustomFont; face: FontFace }>();
+
+export const installCustomFont = async (font: CustomFont) => {
+  uninstallCustomFont(font.id);
+  const face = new FontFace(font.family, font.data, {
+    weight: String(font.weight),
+    style: font.italic ? 'italic' : 'normal'
+  });
+  // Added before loading so document.fonts fires loadingdone and the canvas redraws
+  document.fonts.add(face);
+  try {
+    await face.load();
+  } catch (e) {
+    document.fonts.delete(face);
+    throw new Error(`"${font.fileName}" could not be loaded as a font.`);
+  }
+  installed.set(font.id, { font, face });
+  if (isSfntReadable(font.format)) {
+    registerFontBinary(font.family, font.data, font.weight, font.italic);
+    await discoverVariableAxes(font.family);
+    await discoverFontFeatures(font.family);
+  }
+};
+
+export const uninstallCustomFont = (id: string) => {
+  const entry = installed.get(id);
+  if (!entry) return;
+  document.fonts.delete(entry.face);
+  installed.delete(id);
+
+  // The binary registry is per family, so re-register the family's remaining faces
+  unregisterFontBinaries(entry.font.family);
+  forgetVariableAxes(entry.font.family);
+  forgetFontFeatures(entry.font.family);
+  installed.forEach(({ font }) => {
+    if (font.family === entry.font.family && isSfntReadable(font.format)) {
+      registerFontBinary(font.family, font.data, font.weight, font.italic);
+    }
+  });
+  if (getInstalledFonts([entry.font.family]).length > 0) {
+    discoverVariableAxes(entry.font.family).catch(e => console.warn("Could not read variable axes", e));
+    discoverFontFeatures(entry.font.family).catch(e => console.warn("Could not read OpenType features", e));
+  }
+};
+
+export const getInstalledFonts = (families?: string[]): CustomFont[] =>
+  Array.from(installed.values())
+    .map(({ font }) => font)
+    .filter(font => !families || families.includes(font.family));
+
+export const isCustomFontFamily = (family: string) =>
+  Array.from(installed.values()).some(({ font }) => font.family === family);
+
+// @font-face rules with inline data, for exports that can't reference the page's fonts (SVG)
+export const getCustomFontFaceCss = (family: string): string =>
+  getInstalledFonts([family]).map(font =>
+    `@font-face { font-family: '${font.family}'; src: url(data:font/${font.format === 'woff' || font.format === 'woff2' ? font.format : 'ttf'};base64,${encodeFontData(font.data)}); font-weight: ${font.weight}; font-style: ${font.italic ? 'italic' : 'normal'}; }`
+  ).join('\n');
+
+export const loadStoredFonts = (): Promise<CustomFont[]> => idbGetAll<CustomFont>(STORES.FONTS);
+
+export const storeFont = (font: CustomFont) => idbPut(STORES.FONTS, font.id, font);
+
+export const deleteStoredFont = (id: string) => idbDelete(STORES.FONTS, id);
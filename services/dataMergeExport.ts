@@ -0,0 +1,34 @@
+import { DataMergeExportOptions, MergeDataset, SceneSnapshot } from '../types';
+import { IMAGE_EXPORT_FORMATS } from '../constants';
+import { SceneImageOptions } from '../components/Canvas';
+import { buildFileNames, mergeLayers } from '../utils/dataMerge';
+import { createZipWriter } from '../utils/zipWriter';
+
+/**
+ * Renders one image per dataset row, with the row's values filled into the layer placeholders,
+ * and bundles them into a ZIP named by the file name template.
+ */
+export const exportDataMerge = async (
+  scene: SceneSnapshot,
+  dataset: MergeDataset,
+  options: DataMergeExportOptions,
+  renderImage: (scene: SceneSnapshot, options: SceneImageOptions) => Promise<Blob>,
+  onProgress?: (row: number, total: number) => void
+): Promise<Blob> => {
+  const { mimeType, hasQuality } = IMAGE_EXPORT_FORMATS[options.format];
+  const names = buildFileNames(options.fileNameTemplate, dataset.rows);
+  const zip = createZipWriter();
+
+  for (let i = 0; i < dataset.rows.length; i++) {
+    const blob = await renderImage(
+      { ...scene, layers: mergeLayers(scene.layers, dataset.rows[i], i + 1) },
+      { scale: options.scale, mimeType, quality: hasQuality ? options.quality : undefined }
+    );
+    // Browsers without an encoder for the requested type fall back to PNG
+    const format = Object.values(IMAGE_EXPORT_FORMATS).find(f => f.mimeType === blob.type) || IMAGE_EXPORT_FORMATS.png;
+    zip.addFile(`${names[i]}.${format.extension}`, new Uint8Array(await blob.arrayBuffer()));
+    onProgress?.(i + 1, dataset.rows.length);
+  }
+
+  return zip.toBlob();
+};
@@ -0,0 +1,272 @@
+import { FontFaceSource, FontLoadStatus, FontStatus, TextLayer } from '../types';
+import { FONT_SOURCES } from '../constants';
+import { createFontFace, getFontFaceCss, getGoogleFontsUrl, getLayerFontRequest, isCatalogFont, parseFontFaceCss, parseFontManifest } from '../utils/fontManifest';
+import { getFontDescriptors } from '../utils/typography';
+import { getFontLayers } from '../utils/textRuns';
+import { registerFontBinary } from '../utils/fontBinaries';
+import { discoverVariableAxes } from '../utils/variableFonts';
+import { discoverFontFeatures } from '../utils/fontFeatures';
+import { getCustomFontFaceCss, isCustomFontFamily } from './customFontService';
+
+/**
+ * Font manager for the built-in catalog. Faces come from the self-hosted bundle
+ * (fonts/manifest.json, built with `npm run fonts:fetch`) so the app works offline; when no bundle
+ * is deployed they are fetched from Google Fonts instead. Faces are registered with document.fonts
+ * up front but files only download for the families and characters in use.
+ *
+ * Load state is tracked per family and per weight/style/width that layers request (other
+ * variable axes are served by the same face). The font book and diagnostics panel subscribe to
+ * it, failed families can be retried, and exports wait only for the fonts their visible layers use.
+ *
+ * The bundle holds whole TTF files, which are also registered as font binaries once a family is
+ * used so its variable axes and OpenType features can be read and PDFs can embed its outlines.
+ */
+
+const MANIFEST_URL = 'fonts/manifest.json';
+// Families per Google Fonts request when falling back to the online catalog
+const GOOGLE_BATCH_SIZE = 20;
+// Exports retry a failing font before giving up, waiting longer after each attempt
+const MAX_LOAD_ATTEMPTS = 3;
+const RETRY_DELAY_MS = 1000;
+// document.fonts events that change a face's status, including loads the page starts itself
+const FONT_SET_EVENTS = ['loading', 'loadingdone', 'loadingerror'] as const;
+
+let bundle: Promise<Map<string, FontFaceSource[]> | null> | null = null;
+const sources = new Map<string, Promise<FontFaceSource[]>>();
+const registered = new Map<string, Promise<FontFace[]>>();
+const binaries = new Map<string, Promise<void>>();
+const faces = new Map<string, FontFace[]>();
+const variants = new Map<string, Record<string, FontLoadStatus>>();
+const errors = new Map<string, string>();
+const listeners = new Set<() => void>();
+
+const notify = () => listeners.forEach(listener => listener());
+
+const errorMessage = (e: unknown) => e instanceof Error ? e.message : String(e);
+
+// Uploaded fonts take precedence over catalog families of the same name
+const usesCatalog = (family: string) => isCatalogFont(family) && !isCustomFontFamily(family);
+
+const groupByFamily = (faceSources: FontFaceSource[]) => {
+  const byFamily = new Map<string, FontFaceSource[]>();
+  faceSources.forEach(face => byFamily.set(face.family, [...(byFamily.get(face.family) || []), face]));
+  return byFamily;
+};
+
+// Resolves to null when the app is deployed without a bundle
+const loadBundle = async (): Promise<Map<string, FontFaceSource[]> | null> => {
+  const url = new URL(MANIFEST_URL, document.baseURI);
+  try {
+    const res = await fetch(url);
+    // Dev servers answer unknown paths with index.html
+    if (!res.ok || !res.headers.get('content-type')?.includes('json')) return null;
+    const manifest = parseFontManifest(await res.json());
+    return groupByFamily(manifest.faces.map(face => ({ ...face, src: new URL(face.src, url).href })));
+  } catch (e) {
+    console.warn("Could not read the font bundle, using Google Fonts", e);
+    return null;
+  }
+};
+
+const fetchGoogleFaces = async (families: string[]) => {
+  const res = await fetch(getGoogleFontsUrl(families));
+  if (!res.ok) throw new Error(`Font stylesheet request failed (${res.status})`);
+  return groupByFamily(parseFontFaceCss(await res.text()));
+};
+
+/**
+ * Returns the @font-face sources of the given catalog families (other families are ignored).
+ * Each family is looked up once; a family that can't be fetched has no faces.
+ */
+export const getFontFaces = async (families: string[]): Promise<FontFaceSource[]> => {
+  const catalogFamilies = Array.from(new Set(families)).filter(usesCatalog);
+  if (!bundle) bundle = loadBundle();
+  const bundled = await bundle;
+
+  const missing = catalogFamilies.filter(f => !sources.has(f));
+  for (let i = 0; i < missing.length; i += GOOGLE_BATCH_SIZE) {
+    const batch = missing.slice(i, i + GOOGLE_BATCH_SIZE);
+    const byFamily = bundled ? Promise.resolve(bundled) : fetchGoogleFaces(batch).catch(e => {
+      console.warn("Font catalog request failed", batch, e);
+      batch.forEach(family => errors.set(family, errorMessage(e)));
+      return new Map<string, FontFaceSource[]>();
+    });
+    batch.forEach(family => sources.set(family, byFamily.then(map => map.get(family) || [])));
+  }
+
+  return (await Promise.all(catalogFamilies.map(f => sources.get(f)!))).flat();
+};
+
+// Adds the family's faces to document.fonts once; nothing downloads until a face is used
+const registerFontFamily = (family: string): Promise<FontFace[]> => {
+  if (!registered.has(family)) {
+    registered.set(family, getFontFaces([family]).then(async faceSources => {
+      const familyFaces = faceSources.map(createFontFace);
+      familyFaces.forEach(face => document.fonts.add(face));
+      faces.set(family, familyFaces);
+      if (familyFaces.length === 0) {
+        if (!errors.has(family)) errors.set(family, (await bundle) ? "Not in the font bundle" : "No font files found");
+        notify();
+      }
+      return familyFaces;
+    }));
+  }
+  return registered.get(family)!;
+};
+
+// Forgets everything about a family so the next use looks it up and downloads it again
+const resetFontFamily = async (family: string) => {
+  const familyFaces = await registered.get(family);
+  familyFaces?.forEach(face => document.fonts.delete(face));
+  registered.delete(family);
+  sources.delete(family);
+  faces.delete(family);
+  variants.delete(family);
+  errors.delete(family);
+  binaries.delete(family);
+};
+
+// Registers the whole catalog so font pickers and previews can use any family
+export const registerFontCatalog = async () => {
+  const families = Object.keys(FONT_SOURCES).filter(usesCatalog);
+  // Looking the families up together batches the Google Fonts requests
+  await getFontFaces(families);
+  await Promise.all(families.map(registerFontFamily));
+};
+
+// Variable faces ("100 900") are registered at the weight nearest regular
+const getFaceWeight = (face: FontFaceSource) => {
+  const [min, max = min] = (face.weight || '400').split(/\s+/).map(Number);
+  return isNaN(min) ? 400 : Math.min(max, Math.max(min, 400));
+};
+
+/**
+ * Downloads the family's font files and registers them as binaries, then reads its variable axes
+ * and OpenType features. unicode-range faces (the Google Fonts fallback) are subsets that only
+ * cover part of the font, so they are skipped and the family keeps its unparsed defaults.
+ */
+export const loadFontBinaries = (family: string): Promise<void> => {
+  if (!usesCatalog(family)) return Promise.resolve();
+  if (!binaries.has(family)) {
+    binaries.set(family, getFontFaces([family]).then(async faceSources => {
+      const files = faceSources.filter(face => !face.unicodeRange);
+      if (files.length === 0) return;
+      await Promise.all(files.map(async face => {
+        const res = await fetch(face.src);
+        if (!res.ok) throw new Error(`Font file request failed (${res.status})`);
+        registerFontBinary(family, await res.arrayBuffer(), getFaceWeight(face), face.style === 'italic');
+      }));
+      await Promise.all([discoverVariableAxes(family), discoverFontFeatures(family)]);
+      notify();
+    }).catch(e => console.warn(`Could not read the font files of ${family}`, e)));
+  }
+  return binaries.get(family)!;
+};
+
+const getVariantKey = (layer: TextLayer) => {
+  const { weight, style, stretch } = getFontDescriptors(layer);
+  return `${weight} ${style} ${stretch}`;
+};
+
+const setVariantStatus = (family: string, key: string, status: FontLoadStatus) => {
+  const familyVariants = variants.get(family) || {};
+  if (familyVariants[key] === status) return;
+  variants.set(family, { ...familyVariants, [key]: status });
+  notify();
+};
+
+// Loads what one layer draws; resolves to false when the family's files could not be loaded
+const loadLayerFont = async (layer: TextLayer): Promise<boolean> => {
+  const family = layer.fontFamily;
+  const key = getVariantKey(layer);
+  const familyFaces = await registerFontFamily(family);
+  if (familyFaces.length === 0) {
+    setVariantStatus(family, key, 'failed');
+    return false;
+  }
+
+  // A loaded variant may still fetch subsets for new characters, which needn't show as loading
+  if (variants.get(family)?.[key] !== 'loaded') setVariantStatus(family, key, 'loading');
+  const { font, text } = getLayerFontRequest(layer);
+  try {
+    await document.fonts.load(font, text);
+    setVariantStatus(family, key, 'loaded');
+    loadFontBinaries(family);
+    return true;
+  } catch (e) {
+    errors.set(family, errorMessage(e));
+    setVariantStatus(family, key, 'failed');
+    return false;
+  }
+};
+
+// Styled runs in another font or weight count as layers of their own
+const getCatalogLayers = (layers: TextLayer[]) =>
+  layers.filter(l => l.visible).flatMap(getFontLayers).filter(l => usesCatalog(l.fontFamily));
+
+// Starts loading the fonts the visible layers use; failures only show in the font status
+export const preloadFonts = async (layers: TextLayer[]) => {
+  await Promise.all(getCatalogLayers(layers).map(loadLayerFont));
+};
+
+/**
+ * Resolves once every face the visible layers draw is loaded, so renders never fall back to
+ * another font. Fonts only hidden layers use don't hold up the export. Failing fonts are retried
+ * a few times before it rejects.
+ */
+export const ensureFontsReady = async (layers: TextLayer[]) => {
+  const catalogLayers = getCatalogLayers(layers);
+  for (let attempt = 1; ; attempt++) {
+    const loaded = await Promise.all(catalogLayers.map(loadLayerFont));
+    const failed = Array.from(new Set(catalogLayers.filter((_, i) => !loaded[i]).map(l => l.fontFamily)));
+    if (failed.length === 0) return;
+    if (attempt === MAX_LOAD_ATTEMPTS) {
+      throw new Error(`Could not load font ${failed.map(f => `"${f}"`).join(', ')}`);
+    }
+    await new Promise(resolve => setTimeout(resolve, RETRY_DELAY_MS * attempt));
+    await Promise.all(failed.map(resetFontFamily));
+  }
+};
+
+// Looks the family up and downloads it again, e.g. after the network came back
+export const retryFont = async (family: string) => {
+  if (!usesCatalog(family)) return;
+  await resetFontFamily(family);
+  notify();
+  await registerFontFamily(family);
+  await document.fonts.load(`16px "${family}"`).catch(e => {
+    errors.set(family, errorMessage(e));
+    notify();
+  });
+};
+
+// Null for families the catalog doesn't serve, e.g. uploaded fonts
+export const getFontStatus = (family: string): FontStatus | null => {
+  if (!usesCatalog(family)) return null;
+  const familyVariants = variants.get(family) || {};
+  const faceStatuses = (faces.get(family) || []).map(face => face.status);
+  const variantStatuses = Object.values(familyVariants);
+
+  let status: FontLoadStatus = 'idle';
+  if (errors.has(family) || faceStatuses.includes('error') || variantStatuses.includes('failed')) status = 'failed';
+  else if (faceStatuses.includes('loading') || variantStatuses.includes('loading')) status = 'loading';
+  else if (faceStatuses.includes('loaded')) status = 'loaded';
+
+  return { family, status, variants: familyVariants, error: errors.get(family) };
+};
+
+// Calls the listener whenever a font's status may have changed; returns the unsubscribe function
+export const subscribeFontStatus = (listener: () => void) => {
+  listeners.add(listener);
+  if (listeners.size === 1) FONT_SET_EVENTS.forEach(type => document.fonts.addEventListener(type, notify));
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0) FONT_SET_EVENTS.forEach(type => document.fonts.removeEventListener(type, notify));
+  };
+};
+
+// @font-face rules for exports that reference fonts rather than rasterizing them (SVG)
+export const getFontCss = async (families: string[]): Promise<string> => [
+  ...(await getFontFaces(families)).map(getFontFaceCss),
+  ...families.filter(isCustomFontFamily).map(getCustomFontFaceCss)
+].join('\n');
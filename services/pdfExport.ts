@@ -0,0 +1,274 @@
+import { SceneSnapshot, TextLayer } from '../types';
+import { COLOR_FONTS } from '../constants';
+import { SceneRenderOptions } from '../components/Canvas';
+import { containsRtl } from '../utils/bidi';
+import { hexToRgb } from '../utils/color';
+import { getFontBinary } from '../utils/fontBinaries';
+import { readVariationConfig } from '../utils/variableFonts';
+import { SfntFont } from '../utils/sfnt';
+import { calculatePathLayout, calculateStandardLayout, GlyphPlacement, splitGraphemes } from '../utils/textLayout';
+import { constructCanvasFont } from '../utils/typography';
+import { createPdf, pdfNum } from './pdfWriter';
+import { ensureFontsReady, loadFontBinaries } from './fontLoader';
+
+export type PdfPageSize = 'fit' | 'a4' | 'a3' | 'letter' | 'tabloid';
+
+export interface PdfExportOptions {
+  dpi: number;
+  pageSize: PdfPageSize;
+}
+
+// Portrait sizes in points (1/72 inch)
+const PAGE_SIZES: Record<Exclude<PdfPageSize, 'fit'>, [number, number]> = {
+  a4: [595.28, 841.89],
+  a3: [841.89, 1190.55],
+  letter: [612, 792],
+  tabloid: [792, 1224]
+};
+
+const MAX_RASTER_SCALE = 4;
+
+type Matrix = [number, number, number, number, number, number];
+
+// Affine multiply in canvas order: the result applies `m` first, then `base`
+const multiply = (base: Matrix, m: Matrix): Matrix => [
+  base[0] * m[0] + base[2] * m[1],
+  base[1] * m[0] + base[3] * m[1],
+  base[0] * m[2] + base[2] * m[3],
+  base[1] * m[2] + base[3] * m[3],
+  base[0] * m[4] + base[2] * m[5] + base[4],
+  base[1] * m[4] + base[3] * m[5] + base[5]
+];
+
+const translate = (x: number, y: number): Matrix => [1, 0, 0, 1, x, y];
+const rotate = (deg: number): Matrix => {
+  const r = (deg * Math.PI) / 180;
+  return [Math.cos(r), Math.sin(r), -Math.sin(r), Math.cos(r), 0, 0];
+};
+const scale = (x: number, y: number): Matrix => [x, 0, 0, y, 0, 0];
+
+const rgb = (hex: string) => {
+  const { r, g, b } = hexToRgb(hex);
+  return `${pdfNum(r / 255)} ${pdfNum(g / 255)} ${pdfNum(b / 255)}`;
+};
+
+const loadImageSize = (src: string) => new Promise<{ width: number; height: number }>((resolve, reject) => {
+  const img = new Image();
+  img.onload = () => resolve({ width: img.naturalWidth, height: img.naturalHeight });
+  img.onerror = reject;
+  img.src = src;
+});
+
+const canvasToJpeg = (canvas: HTMLCanvasElement) => new Promise<Uint8Array>((resolve, reject) => {
+  canvas.toBlob(async (blob) => {
+    if (!blob) return reject(new Error("Could not encode page image"));
+    resolve(new Uint8Array(await blob.arrayBuffer()));
+  }, 'image/jpeg', 0.92);
+});
+
+const getLayerWeight = (layer: TextLayer) =>
+  layer.fontVariations?.['wght'] !== undefined ? Math.round(layer.fontVariations['wght']) : (layer.isBold ? 700 : 400);
+
+/**
+ * A layer can be emitted as vector glyphs when its font file is registered and nothing about it
+ * depends on canvas-only rendering (variable axes, colour glyphs, gradients). Shadows and other
+ * effects stay rasterized underneath the vector text.
+ */
+const getVectorFont = async (layer: TextLayer): Promise<SfntFont | null> => {
+  if (COLOR_FONTS.some(font => font === layer.fontFamily) || layer.specialEffect === 'gradient') return null;
+
+  const font = await getFontBinary(layer.fontFamily, getLayerWeight(layer), layer.isItalic);
+  if (!font) return null;
+
+  const axes = Object.keys(layer.fontVariations || {});
+  if (axes.length > 0 && (font.isVariable || axes.some(a => a !== 'wght'))) return null;
+  // Embedded variable fonts draw their default instance, which has to be the weight the layer uses
+  const defaultWeight = font.isVariable ? readVariationConfig(font)?.axes.find(a => a.tag === 'wght')?.defaultValue : undefined;
+  if (defaultWeight !== undefined && defaultWeight !== getLayerWeight(layer)) return null;
+  // OpenType features substitute glyphs, which one-glyph-per-code-point output can't do
+  if (Object.keys(layer.fontFeatures || {}).length > 0) return null;
+  // Styled runs draw in other fonts and sizes than the one embedded for the layer
+  if (layer.textRuns.length > 0) return null;
+
+  // Glyphs are mapped one code point at a time, so clusters that need shaping (combining marks,
+  // emoji sequences) stay rasterized
+  const text = layer.isUppercase ? layer.textOverlay.toUpperCase() : layer.textOverlay;
+  if (splitGraphemes(text).some(cluster => Array.from(cluster).length > 1)) return null;
+  // The same goes for right-to-left text (Arabic joining forms, mirrored brackets)
+  if (containsRtl(text)) return null;
+  const missing = Array.from(text).some(ch => !/\s/.test(ch) && font.glyphForCodePoint(ch.codePointAt(0)!) === 0);
+  return missing ? null : font;
+};
+
+// Glyph centres from the canvas layout, each with its full transform in image pixels
+const getGlyphTransforms = (ctx: CanvasRenderingContext2D, layer: TextLayer, width: number, height: number) => {
+  const fontSizePx = (layer.textSize / 100) * width;
+  ctx.font = constructCanvasFont(layer, fontSizePx);
+
+  const isPath = layer.pathPoints.length > 0;
+  const layout: GlyphPlacement[] = isPath
+    ? calculatePathLayout(ctx, layer, fontSizePx)
+    : calculateStandardLayout(ctx, layer, fontSizePx, false);
+
+  const base: Matrix = isPath
+    ? [1, 0, 0, 1, 0, 0]
+    : multiply(
+        multiply(translate((layer.overlayPosition.x / 100) * width, (layer.overlayPosition.y / 100) * height), rotate(layer.rotation)),
+        scale(layer.flipX ? -1 : 1, layer.flipY ? -1 : 1)
+      );
+
+  return {
+    fontSizePx,
+    glyphs: layout.map(item => ({
+      char: item.char,
+      matrix: multiply(multiply(base, translate(item.x, item.y)), rotate(item.r))
+    }))
+  };
+};
+
+interface FontUsage {
+  name: string;
+  font: SfntFont;
+  glyphs: Map<number, string>;
+}
+
+/**
+ * Builds a multi-page PDF. Each page is the scene rasterized at the requested DPI with vector
+ * text drawn on top where the layer's font can be embedded; other layers get an invisible,
+ * searchable text overlay.
+ */
+export const exportPdf = async (
+  scenes: SceneSnapshot[],
+  options: PdfExportOptions,
+  renderScene: (scene: SceneSnapshot, options?: SceneRenderOptions) => Promise<HTMLCanvasElement>,
+  onProgress?: (page: number, total: number) => void
+): Promise<Blob> => {
+  const layers = scenes.flatMap(scene => scene.layers);
+  await ensureFontsReady(layers);
+  // Catalog font files are read in the background as fonts load; vector text needs them now
+  await Promise.all(Array.from(new Set(layers.map(l => l.fontFamily))).map(loadFontBinaries));
+
+  const pdf = createPdf();
+  const fonts = new Map<SfntFont, FontUsage>();
+  const pages: { width: number; height: number; content: string[]; images: Record<string, number>; fonts: Set<SfntFont>; gstates: Record<string, number>; helvetica: boolean }[] = [];
+  const measureCtx = document.createElement('canvas').getContext('2d');
+  if (!measureCtx) throw new Error("Could not get canvas context");
+
+  for (let p = 0; p < scenes.length; p++) {
+    const scene = scenes[p];
+    onProgress?.(p + 1, scenes.length);
+
+    const { width, height } = await loadImageSize(scene.imageSrc);
+
+    // Page geometry in points; `fit` sizes the page to the image at the chosen DPI
+    let pageW = (width / options.dpi) * 72;
+    let pageH = (height / options.dpi) * 72;
+    if (options.pageSize !== 'fit') {
+      const [short, long] = PAGE_SIZES[options.pageSize];
+      [pageW, pageH] = width > height ? [long, short] : [short, long];
+    }
+    const ptPerPx = Math.min(pageW / width, pageH / height);
+    const drawW = width * ptPerPx;
+    const drawH = height * ptPerPx;
+    const offX = (pageW - drawW) / 2;
+    const offY = (pageH - drawH) / 2;
+    const rasterScale = Math.max(0.25, Math.min(MAX_RASTER_SCALE, (drawW / 72) * options.dpi / width));
+
+    const vectorFonts = new Map<string, SfntFont>();
+    for (const layer of scene.layers) {
+      if (!layer.visible || !layer.textOverlay) continue;
+      const font = await getVectorFont(layer);
+      if (font) vectorFonts.set(layer.id, font);
+    }
+
+    const raster = await renderScene(scene, {
+      scale: rasterScale,
+      layerPasses: (layer) => vectorFonts.has(layer.id) ? 'effects' : 'all'
+    });
+    const imageRef = await pdf.addJpeg(await canvasToJpeg(raster), raster.width, raster.height);
+
+    const page = { width: pageW, height: pageH, content: [] as string[], images: { Im0: imageRef }, fonts: new Set<SfntFont>(), gstates: {} as Record<string, number>, helvetica: false };
+    page.content.push(`q ${pdfNum(drawW)} 0 0 ${pdfNum(drawH)} ${pdfNum(offX)} ${pdfNum(offY)} cm /Im0 Do Q`);
+
+    // Map image pixels (y down) to page points (y up)
+    page.content.push(`q ${pdfNum(ptPerPx)} 0 0 ${pdfNum(-ptPerPx)} ${pdfNum(offX)} ${pdfNum(offY + drawH)} cm`);
+
+    scene.layers.forEach((layer, layerIndex) => {
+      if (!layer.visible || !layer.textOverlay) return;
+      const { fontSizePx, glyphs } = getGlyphTransforms(measureCtx, layer, width, height);
+      const font = vectorFonts.get(layer.id);
+
+      if (!font) {
+        // Rasterized layer: invisible Helvetica text so the page stays searchable
+        page.helvetica = true;
+        page.content.push('BT 3 Tr');
+        glyphs.forEach(({ char, matrix }) => {
+          const code = char.charCodeAt(0);
+          if (code > 255) return;
+          const m = multiply(matrix, [1, 0, 0, -1, -fontSizePx * 0.28, fontSizePx * 0.35]);
+          page.content.push(`/Helv ${pdfNum(fontSizePx)} Tf ${m.map(pdfNum).join(' ')} Tm <${code.toString(16).padStart(2, '0')}> Tj`);
+        });
+        page.content.push('ET');
+        return;
+      }
+
+      let usage = fonts.get(font);
+      if (!usage) {
+        usage = { name: `F${fonts.size}`, font, glyphs: new Map() };
+        fonts.set(font, usage);
+      }
+      page.fonts.add(font);
+
+      // Canvas exports apply layer opacity in the draw pass and again when compositing
+      const gsName = `GS${layerIndex}`;
+      page.gstates[gsName] = pdf.addExtGState(layer.opacity * layer.opacity, layer.blendMode);
+
+      // textBaseline 'middle' sits halfway between the ascender and descender
+      const baselineOffset = fontSizePx * (font.ascender + font.descender) / (2 * (font.ascender - font.descender));
+      const runs = glyphs
+        .filter(g => !/\s/.test(g.char))
+        .map(({ char, matrix }) => {
+          const gid = font.glyphForCodePoint(char.codePointAt(0)!);
+          usage!.glyphs.set(gid, char);
+          const advance = (font.advanceWidth(gid) / font.unitsPerEm) * fontSizePx;
+          const m = multiply(matrix, [1, 0, 0, -1, -advance / 2, baselineOffset]);
+          return `${m.map(pdfNum).join(' ')} Tm <${gid.toString(16).padStart(4, '0')}> Tj`;
+        });
+
+      const showText = (mode: number) => `BT /${usage!.name} ${pdfNum(fontSizePx)} Tf ${mode} Tr\n${runs.join('\n')}\nET`;
+
+      page.content.push(`q /${gsName} gs`);
+      if (layer.hasOutline) {
+        page.content.push(`${rgb(layer.outlineColor)} RG ${pdfNum(layer.outlineWidth)} w`, showText(1));
+      }
+      if (layer.isHollow) {
+        page.content.push(`${rgb(layer.textColor)} RG ${pdfNum(Math.max(1, fontSizePx * 0.02))} w`, showText(1));
+      } else {
+        page.content.push(`${rgb(layer.textColor)} rg`, showText(0));
+      }
+      page.content.push('Q');
+    });
+
+    page.content.push('Q');
+    pages.push(page);
+  }
+
+  // Fonts are written once all pages are laid out so each embeds every glyph it needs
+  const fontRefs = new Map<SfntFont, number>();
+  for (const usage of fonts.values()) {
+    fontRefs.set(usage.font, await pdf.addFont(usage.font, usage.glyphs));
+  }
+
+  for (const page of pages) {
+    const fontResources: Record<string, number> = {};
+    page.fonts.forEach(font => { fontResources[fonts.get(font)!.name] = fontRefs.get(font)!; });
+    if (page.helvetica) fontResources['Helv'] = pdf.addHelvetica();
+    await pdf.addPage(page.width, page.height, page.content.join('\n'), {
+      images: page.images,
+      fonts: fontResources,
+      extGStates: page.gstates
+    });
+  }
+
+  return pdf.toBlob();
+};
@@ -0,0 +1,220 @@
+import { SfntFont } from '../utils/sfnt';
+
+/**
+ * Minimal PDF 1.7 writer: pages with content streams, JPEG images, embedded TrueType/OpenType
+ * fonts (Identity-H, addressed by glyph id) and graphics states for opacity and blend modes.
+ */
+
+export interface PdfResources {
+  images?: Record<string, number>;
+  fonts?: Record<string, number>;
+  extGStates?: Record<string, number>;
+}
+
+// Layer blend modes to PDF /BM names
+export const PDF_BLEND_MODES: Record<string, string> = {
+  'normal': 'Normal',
+  'multiply': 'Multiply',
+  'screen': 'Screen',
+  'overlay': 'Overlay',
+  'darken': 'Darken',
+  'lighten': 'Lighten',
+  'color-dodge': 'ColorDodge',
+  'color-burn': 'ColorBurn',
+  'hard-light': 'HardLight',
+  'soft-light': 'SoftLight',
+  'difference': 'Difference',
+  'exclusion': 'Exclusion',
+  'hue': 'Hue',
+  'saturation': 'Saturation',
+  'color': 'Color',
+  'luminosity': 'Luminosity'
+};
+
+const encoder = new TextEncoder();
+
+const deflate = async (data: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([data]).stream().pipeThrough(new CompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+const concat = (parts: Uint8Array[]) => {
+  const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  parts.forEach(p => { out.set(p, offset); offset += p.length; });
+  return out;
+};
+
+// Numbers in content streams: fixed precision, no exponent notation
+export const pdfNum = (value: number) => {
+  const rounded = Math.round(value * 1000) / 1000;
+  return Object.is(rounded, -0) ? '0' : String(rounded);
+};
+
+// Literal string with escapes for PDF syntax characters
+export const pdfString = (value: string) => `(${value.replace(/[\\()]/g, m => `\\${m}`).replace(/[^\x20-\x7e]/g, '')})`;
+
+const pdfName = (value: string) => `/${value.replace(/[^A-Za-z0-9_.-]/g, '')}`;
+
+const hex4 = (value: number) => value.toString(16).padStart(4, '0').toUpperCase();
+
+const utf16Hex = (text: string) => Array.from({ length: text.length }, (_, i) => hex4(text.charCodeAt(i))).join('');
+
+const buildToUnicode = (glyphs: Map<number, string>) => {
+  const entries = Array.from(glyphs.entries()).sort((a, b) => a[0] - b[0]);
+  const blocks: string[] = [];
+  for (let i = 0; i < entries.length; i += 100) {
+    const chunk = entries.slice(i, i + 100);
+    blocks.push(`${chunk.length} beginbfchar\n${chunk.map(([gid, text]) => `<${hex4(gid)}> <${utf16Hex(text)}>`).join('\n')}\nendbfchar`);
+  }
+  return [
+    '/CIDInit /ProcSet findresource begin',
+    '12 dict begin',
+    'begincmap',
+    '/CIDSystemInfo << /Registry (Adobe) /Ordering (UCS) /Supplement 0 >> def',
+    '/CMapName /Adobe-Identity-UCS def',
+    '/CMapType 2 def',
+    '1 begincodespacerange',
+    '<0000> <FFFF>',
+    'endcodespacerange',
+    ...blocks,
+    'endcmap',
+    'CMapName currentdict /CMap defineresource pop',
+    'end',
+    'end'
+  ].join('\n');
+};
+
+export const createPdf = () => {
+  const objects: Uint8Array[] = [];
+  const pageRefs: number[] = [];
+
+  const reserve = () => {
+    objects.push(new Uint8Array());
+    return objects.length;
+  };
+
+  const setObject = (ref: number, body: string | Uint8Array) => {
+    objects[ref - 1] = typeof body === 'string' ? encoder.encode(body) : body;
+  };
+
+  const addObject = (body: string | Uint8Array) => {
+    const ref = reserve();
+    setObject(ref, body);
+    return ref;
+  };
+
+  const addStream = async (dict: string, data: Uint8Array, compress: boolean = true) => {
+    const payload = compress ? await deflate(data) : data;
+    const filter = compress ? ' /Filter /FlateDecode' : '';
+    return addObject(concat([
+      encoder.encode(`<< ${dict}${filter} /Length ${payload.length} >>\nstream\n`),
+      payload,
+      encoder.encode('\nendstream')
+    ]));
+  };
+
+  const pagesRef = reserve();
+  let helveticaRef: number | null = null;
+
+  return {
+    addJpeg: (bytes: Uint8Array, width: number, height: number) =>
+      addStream(`/Type /XObject /Subtype /Image /Width ${width} /Height ${height} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode`, bytes, false),
+
+    addExtGState: (opacity: number, blendMode: string) =>
+      addObject(`<< /Type /ExtGState /ca ${pdfNum(opacity)} /CA ${pdfNum(opacity)} /BM /${PDF_BLEND_MODES[blendMode] || 'Normal'} >>`),
+
+    // Standard font used for invisible, searchable text over rasterized layers
+    addHelvetica: () => {
+      if (!helveticaRef) helveticaRef = addObject('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+      return helveticaRef;
+    },
+
+    /**
+     * Embeds the whole font file. Text using it must be encoded as 2-byte glyph ids;
+     * `glyphs` maps each used glyph id to its text for copy/paste and search.
+     */
+    addFont: async (font: SfntFont, glyphs: Map<number, string>) => {
+      const scale = 1000 / font.unitsPerEm;
+      const baseFont = pdfName(font.postScriptName || 'EmbeddedFont');
+      const head = font.tables.get('head')!;
+      const view = new DataView(font.bytes.buffer, font.bytes.byteOffset, font.bytes.byteLength);
+      const bbox = [36, 38, 40, 42].map(o => Math.round(view.getInt16(head.offset + o) * scale));
+
+      const fontFile = font.isCff
+        ? await addStream('/Subtype /OpenType', font.bytes)
+        : await addStream(`/Length1 ${font.bytes.length}`, font.bytes);
+
+      const descriptor = addObject(
+        `<< /Type /FontDescriptor /FontName ${baseFont} /Flags 32 /FontBBox [${bbox.join(' ')}] /ItalicAngle 0 ` +
+        `/Ascent ${Math.round(font.ascender * scale)} /Descent ${Math.round(font.descender * scale)} /CapHeight ${Math.round(font.ascender * scale)} /StemV 80 ` +
+        `${font.isCff ? '/FontFile3' : '/FontFile2'} ${fontFile} 0 R >>`
+      );
+
+      const widths = Array.from(glyphs.keys()).sort((a, b) => a - b)
+        .map(gid => `${gid} [${Math.round(font.advanceWidth(gid) * scale)}]`).join(' ');
+
+      const cidFont = addObject(
+        `<< /Type /Font /Subtype ${font.isCff ? '/CIDFontType0' : '/CIDFontType2'} /BaseFont ${baseFont} ` +
+        `/CIDSystemInfo << /Registry (Adobe) /Ordering (Identity) /Supplement 0 >> /FontDescriptor ${descriptor} 0 R ` +
+        `/DW 1000 /W [${widths}]${font.isCff ? '' : ' /CIDToGIDMap /Identity'} >>`
+      );
+
+      const toUnicode = await addStream('', encoder.encode(buildToUnicode(glyphs)));
+
+      return addObject(
+        `<< /Type /Font /Subtype /Type0 /BaseFont ${baseFont} /Encoding /Identity-H ` +
+        `/DescendantFonts [${cidFont} 0 R] /ToUnicode ${toUnicode} 0 R >>`
+      );
+    },
+
+    addPage: async (widthPt: number, heightPt: number, content: string, resources: PdfResources) => {
+      const dict = (entries: Record<string, number> | undefined) =>
+        entries ? Object.entries(entries).map(([name, ref]) => `/${name} ${ref} 0 R`).join(' ') : '';
+
+      const contentRef = await addStream('', encoder.encode(content));
+      const pageRef = addObject(
+        `<< /Type /Page /Parent ${pagesRef} 0 R /MediaBox [0 0 ${pdfNum(widthPt)} ${pdfNum(heightPt)}] ` +
+        `/Resources << /ProcSet [/PDF /Text /ImageC] /XObject << ${dict(resources.images)} >> /Font << ${dict(resources.fonts)} >> /ExtGState << ${dict(resources.extGStates)} >> >> ` +
+        `/Contents ${contentRef} 0 R >>`
+      );
+      pageRefs.push(pageRef);
+      return pageRef;
+    },
+
+    toBlob: (title: string = 'textrot studio export') => {
+      setObject(pagesRef, `<< /Type /Pages /Kids [${pageRefs.map(r => `${r} 0 R`).join(' ')}] /Count ${pageRefs.length} >>`);
+      const catalog = addObject(`<< /Type /Catalog /Pages ${pagesRef} 0 R >>`);
+      const date = new Date().toISOString().replace(/[-:T]/g, '').slice(0, 14);
+      const info = addObject(`<< /Title ${pdfString(title)} /Producer (textrot studio) /CreationDate (D:${date}Z) >>`);
+
+      const parts: Uint8Array[] = [encoder.encode('%PDF-1.7\n%\xe2\xe3\xcf\xd3\n')];
+      let offset = parts[0].length;
+      const offsets: number[] = [];
+
+      objects.forEach((body, i) => {
+        offsets.push(offset);
+        const chunk = concat([encoder.encode(`${i + 1} 0 obj\n`), body, encoder.encode('\nendobj\n')]);
+        parts.push(chunk);
+        offset += chunk.length;
+      });
+
+      const xref = [
+        'xref',
+        `0 ${objects.length + 1}`,
+        '0000000000 65535 f ',
+        ...offsets.map(o => `${String(o).padStart(10, '0')} 00000 n `),
+        'trailer',
+        `<< /Size ${objects.length + 1} /Root ${catalog} 0 R /Info ${info} 0 R >>`,
+        'startxref',
+        String(offset),
+        '%%EOF'
+      ].join('\n');
+      parts.push(encoder.encode(xref + '\n'));
+
+      return new Blob(parts, { type: 'application/pdf' });
+    }
+  };
+};
+
+export type PdfDocument = ReturnType<typeof createPdf>;
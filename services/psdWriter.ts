@@ -0,0 +1,249 @@
+/**
+ * Minimal Photoshop (PSD version 1) writer: 8-bit RGB document with one raster layer per entry,
+ * PackBits compressed channels and a flattened composite for readers that ignore layers.
+ */
+
+export interface PsdLayer {
+  name: string;
+  opacity: number; // 0..1
+  visible: boolean;
+  blendMode: string;
+  imageData: ImageData;
+}
+
+export interface PsdDocument {
+  width: number;
+  height: number;
+  layers: PsdLayer[]; // Bottom-most first
+  composite: ImageData;
+}
+
+// Layer blend modes to Photoshop blend mode keys
+const PSD_BLEND_KEYS: Record<string, string> = {
+  'normal': 'norm',
+  'multiply': 'mul ',
+  'screen': 'scrn',
+  'overlay': 'over',
+  'darken': 'dark',
+  'lighten': 'lite',
+  'color-dodge': 'div ',
+  'color-burn': 'idiv',
+  'hard-light': 'hLit',
+  'soft-light': 'sLit',
+  'difference': 'diff',
+  'exclusion': 'smud',
+  'hue': 'hue ',
+  'saturation': 'sat ',
+  'color': 'colr',
+  'luminosity': 'lum '
+};
+
+// PSD channel ids: -1 is transparency, 0..2 are RGB
+const LAYER_CHANNELS = [-1, 0, 1, 2];
+const RGBA_OFFSETS: Record<number, number> = { [-1]: 3, 0: 0, 1: 1, 2: 2 };
+
+interface Bounds {
+  top: number;
+  left: number;
+  bottom: number;
+  right: number;
+}
+
+// Big-endian byte writer that grows as needed
+const createWriter = (initialSize: number = 1024) => {
+  let buffer = new Uint8Array(initialSize);
+  let view = new DataView(buffer.buffer);
+  let offset = 0;
+
+  const ensure = (size: number) => {
+    if (offset + size <= buffer.length) return;
+    let next = buffer.length * 2;
+    while (next < offset + size) next *= 2;
+    const grown = new Uint8Array(next);
+    grown.set(buffer);
+    buffer = grown;
+    view = new DataView(buffer.buffer);
+  };
+
+  return {
+    u8: (v: number) => { ensure(1); view.setUint8(offset, v); offset += 1; },
+    u16: (v: number) => { ensure(2); view.setUint16(offset, v); offset += 2; },
+    i16: (v: number) => { ensure(2); view.setInt16(offset, v); offset += 2; },
+    u32: (v: number) => { ensure(4); view.setUint32(offset, v); offset += 4; },
+    i32: (v: number) => { ensure(4); view.setInt32(offset, v); offset += 4; },
+    bytes: (data: Uint8Array) => { ensure(data.length); buffer.set(data, offset); offset += data.length; },
+    ascii: (text: string) => { for (let i = 0; i < text.length; i++) { ensure(1); view.setUint8(offset++, text.charCodeAt(i) & 0x7f); } },
+    pad: (multiple: number) => { while (offset % multiple !== 0) { ensure(1); view.setUint8(offset++, 0); } },
+    get length() { return offset; },
+    toBytes: () => buffer.slice(0, offset)
+  };
+};
+
+type Writer = ReturnType<typeof createWriter>;
+
+// PackBits run-length encoding of a single scanline
+const packBits = (row: Uint8Array): Uint8Array => {
+  const out: number[] = [];
+  let i = 0;
+  while (i < row.length) {
+    let run = 1;
+    while (i + run < row.length && run < 128 && row[i + run] === row[i]) run++;
+
+    if (run >= 3) {
+      out.push(257 - run, row[i]);
+      i += run;
+      continue;
+    }
+
+    // Literal span until the next run of 3+ identical bytes
+    const start = i;
+    while (i < row.length && i - start < 128) {
+      if (i + 2 < row.length && row[i] === row[i + 1] && row[i] === row[i + 2]) break;
+      i++;
+    }
+    out.push(i - start - 1);
+    for (let j = start; j < i; j++) out.push(row[j]);
+  }
+  return Uint8Array.from(out);
+};
+
+// Encodes one channel of an RGBA buffer within bounds as [row byte counts, packed rows]
+const encodeChannel = (imageData: ImageData, bounds: Bounds, rgbaOffset: number) => {
+  const width = bounds.right - bounds.left;
+  const rows: Uint8Array[] = [];
+  const row = new Uint8Array(width);
+
+  for (let y = bounds.top; y < bounds.bottom; y++) {
+    let idx = (y * imageData.width + bounds.left) * 4 + rgbaOffset;
+    for (let x = 0; x < width; x++, idx += 4) row[x] = imageData.data[idx];
+    rows.push(packBits(row));
+  }
+  return rows;
+};
+
+// Crops a layer to its visible pixels so sparse text layers stay small
+const getOpaqueBounds = (imageData: ImageData): Bounds => {
+  const { width, height, data } = imageData;
+  let top = height, left = width, bottom = 0, right = 0;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (data[(y * width + x) * 4 + 3] === 0) continue;
+      if (y < top) top = y;
+      if (y >= bottom) bottom = y + 1;
+      if (x < left) left = x;
+      if (x >= right) right = x + 1;
+    }
+  }
+  return bottom > top ? { top, left, bottom, right } : { top: 0, left: 0, bottom: 0, right: 0 };
+};
+
+const writePascalName = (w: Writer, name: string) => {
+  // Legacy names are MacRoman; anything outside ASCII is replaced and the real name goes in 'luni'
+  const ascii = name.replace(/[^\x20-\x7e]/g, '_').slice(0, 255);
+  const start = w.length;
+  w.u8(ascii.length);
+  w.ascii(ascii);
+  while ((w.length - start) % 4 !== 0) w.u8(0);
+};
+
+const writeUnicodeName = (w: Writer, name: string) => {
+  const data = createWriter();
+  data.u32(name.length);
+  for (let i = 0; i < name.length; i++) data.u16(name.charCodeAt(i));
+  data.pad(4);
+
+  w.ascii('8BIM');
+  w.ascii('luni');
+  w.u32(data.length);
+  w.bytes(data.toBytes());
+};
+
+const writeLayerInfo = (doc: PsdDocument): Uint8Array => {
+  const records = createWriter();
+  const channelData = createWriter(1024 * 1024);
+
+  records.i16(doc.layers.length);
+
+  doc.layers.forEach(layer => {
+    const bounds = getOpaqueBounds(layer.imageData);
+    const channels = LAYER_CHANNELS.map(id => encodeChannel(layer.imageData, bounds, RGBA_OFFSETS[id]));
+
+    records.i32(bounds.top);
+    records.i32(bounds.left);
+    records.i32(bounds.bottom);
+    records.i32(bounds.right);
+    records.u16(LAYER_CHANNELS.length);
+
+    LAYER_CHANNELS.forEach((id, c) => {
+      const rows = channels[c];
+      // Compression flag + row byte counts + packed rows
+      const length = 2 + rows.length * 2 + rows.reduce((sum, r) => sum + r.length, 0);
+      records.i16(id);
+      records.u32(length);
+
+      channelData.u16(1);
+      rows.forEach(r => channelData.u16(r.length));
+      rows.forEach(r => channelData.bytes(r));
+    });
+
+    records.ascii('8BIM');
+    records.ascii(PSD_BLEND_KEYS[layer.blendMode] || 'norm');
+    records.u8(Math.round(Math.max(0, Math.min(1, layer.opacity)) * 255));
+    records.u8(0); // Clipping: base
+    records.u8(layer.visible ? 0 : 2); // Bit 1 hides the layer
+    records.u8(0); // Filler
+
+    const extra = createWriter();
+    extra.u32(0); // No layer mask
+    extra.u32(0); // No blending ranges
+    writePascalName(extra, layer.name);
+    writeUnicodeName(extra, layer.name);
+
+    records.u32(extra.length);
+    records.bytes(extra.toBytes());
+  });
+
+  const info = createWriter(records.length + channelData.length + 8);
+  info.bytes(records.toBytes());
+  info.bytes(channelData.toBytes());
+  info.pad(2);
+  return info.toBytes();
+};
+
+/**
+ * Serializes a layered document to PSD bytes.
+ */
+export const writePsd = (doc: PsdDocument): Blob => {
+  const w = createWriter(1024 * 1024);
+
+  // File Header
+  w.ascii('8BPS');
+  w.u16(1);
+  w.bytes(new Uint8Array(6));
+  w.u16(3); // Composite channels: RGB
+  w.u32(doc.height);
+  w.u32(doc.width);
+  w.u16(8); // Bits per channel
+  w.u16(3); // Color mode: RGB
+
+  // Color Mode Data & Image Resources (unused)
+  w.u32(0);
+  w.u32(0);
+
+  // Layer and Mask Information
+  const layerInfo = writeLayerInfo(doc);
+  w.u32(4 + layerInfo.length + 4);
+  w.u32(layerInfo.length);
+  w.bytes(layerInfo);
+  w.u32(0); // No global layer mask
+
+  // Composite Image Data
+  const fullBounds: Bounds = { top: 0, left: 0, bottom: doc.height, right: doc.width };
+  const composite = [0, 1, 2].map(c => encodeChannel(doc.composite, fullBounds, c));
+  w.u16(1);
+  composite.forEach(rows => rows.forEach(r => w.u16(r.length)));
+  composite.forEach(rows => rows.forEach(r => w.bytes(r)));
+
+  return new Blob([w.toBytes()], { type: 'image/vnd.adobe.photoshop' });
+};
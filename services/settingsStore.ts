@@ -0,0 +1,124 @@
+import { AppSettings, SettingsProfile, SettingsProfileFile } from '../types';
+import { BUILT_IN_PROFILES, DEFAULT_SETTINGS } from '../utils/defaults';
+import { applySettingsSnapshot, getSettingsSnapshot } from '../utils/projectFile';
+
+const SETTINGS_KEY = 'textrot-settings';
+const API_KEY_KEY = 'textrot-api-key';
+const PROFILES_KEY = 'textrot-settings-profiles';
+
+export const PROFILE_FILE_FORMAT = 'textrot-settings-profiles';
+export const PROFILE_FILE_VERSION = 1;
+
+// Storage can throw in private browsing or when quota is exhausted; settings then just live in memory
+const readJson = (storage: Storage, key: string): any => {
+  try {
+    const raw = storage.getItem(key);
+    return raw ? JSON.parse(raw) : null;
+  } catch (e) {
+    console.warn(`Could not read ${key}`, e);
+    return null;
+  }
+};
+
+const writeItem = (storage: Storage, key: string, value: string | null) => {
+  try {
+    if (value === null) storage.removeItem(key);
+    else storage.setItem(key, value);
+  } catch (e) {
+    console.warn(`Could not write ${key}`, e);
+  }
+};
+
+/**
+ * Restores settings saved by a previous visit. The API key is read from localStorage only when
+ * the user opted to remember it, otherwise from sessionStorage so it survives reloads but not the tab.
+ */
+export const loadSettings = (): AppSettings => {
+  const stored = readJson(localStorage, SETTINGS_KEY) || {};
+  let settings = applySettingsSnapshot(DEFAULT_SETTINGS, stored);
+
+  if (typeof stored.enableZoom === 'boolean') settings.enableZoom = stored.enableZoom;
+  if (typeof stored.showFontDebug === 'boolean') settings.showFontDebug = stored.showFontDebug;
+  if (typeof stored.rememberApiKey === 'boolean') settings.rememberApiKey = stored.rememberApiKey;
+
+  const keyStorage = settings.rememberApiKey ? localStorage : sessionStorage;
+  const apiKey = readJson(keyStorage, API_KEY_KEY);
+  if (typeof apiKey === 'string') settings = { ...settings, googleApiKey: apiKey };
+
+  return settings;
+};
+
+export const saveSettings = (settings: AppSettings) => {
+  const { googleApiKey, ...rest } = settings;
+  writeItem(localStorage, SETTINGS_KEY, JSON.stringify(rest));
+
+  const key = googleApiKey ? JSON.stringify(googleApiKey) : null;
+  writeItem(settings.rememberApiKey ? localStorage : sessionStorage, API_KEY_KEY, key);
+  // Never leave a copy in the other store after the preference changes
+  writeItem(settings.rememberApiKey ? sessionStorage : localStorage, API_KEY_KEY, null);
+};
+
+/**
+ * Returns the built-in profiles followed by the user's saved ones.
+ */
+export const loadProfiles = (): SettingsProfile[] => {
+  const stored = readJson(localStorage, PROFILES_KEY);
+  const custom: SettingsProfile[] = Array.isArray(stored)
+    ? stored
+        .filter((p: any) => p && typeof p.name === 'string')
+        .map((p: any) => ({
+          id: typeof p.id === 'string' ? p.id : crypto.randomUUID(),
+          name: p.name,
+          settings: getSettingsSnapshot(applySettingsSnapshot(DEFAULT_SETTINGS, p.settings || {}))
+        }))
+    : [];
+  return [...BUILT_IN_PROFILES, ...custom];
+};
+
+export const saveProfiles = (profiles: SettingsProfile[]) => {
+  writeItem(localStorage, PROFILES_KEY, JSON.stringify(profiles.filter(p => !p.builtIn)));
+};
+
+export const createProfile = (name: string, settings: AppSettings): SettingsProfile => ({
+  id: crypto.randomUUID(),
+  name: name.trim() || 'Untitled Profile',
+  settings: getSettingsSnapshot(settings)
+});
+
+export const applyProfile = (settings: AppSettings, profile: SettingsProfile): AppSettings =>
+  applySettingsSnapshot(settings, profile.settings);
+
+// Exported profiles never carry an API key, only the generation settings snapshot
+export const serializeProfiles = (profiles: SettingsProfile[]): string => {
+  const file: SettingsProfileFile = {
+    format: PROFILE_FILE_FORMAT,
+    version: PROFILE_FILE_VERSION,
+    profiles: profiles.map(({ name, settings }) => ({ name, settings }))
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+export const parseProfiles = (json: string): SettingsProfile[] => {
+  let raw: any;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    throw new Error("Invalid settings profile: The file is not valid JSON.");
+  }
+
+  if (!raw || typeof raw !== 'object') throw new Error("Invalid settings profile: No profiles were found in the file.");
+
+  // A single exported profile object is accepted as well as a full profile file
+  const entries = raw?.format === PROFILE_FILE_FORMAT ? raw.profiles : [raw];
+  if (!Array.isArray(entries)) throw new Error("Invalid settings profile: No profiles were found in the file.");
+  if (typeof raw.version === 'number' && raw.version > PROFILE_FILE_VERSION) {
+    throw new Error("Invalid settings profile: This file was exported by a newer version of textrot studio.");
+  }
+
+  const profiles = entries
+    .filter((p: any) => p && typeof p.name === 'string' && p.settings && typeof p.settings === 'object')
+    .map((p: any) => createProfile(p.name, applySettingsSnapshot(DEFAULT_SETTINGS, p.settings)));
+
+  if (profiles.length === 0) throw new Error("Invalid settings profile: No profiles were found in the file.");
+  return profiles;
+};
@@ -0,0 +1,43 @@
+import { LayerStyle, StylePreset } from '../types';
+import { extractLayerStyle } from '../utils/layerStyles';
+import { normalizeLayer } from '../utils/projectFile';
+
+const STYLE_PRESETS_KEY = 'textrot-style-presets';
+
+/**
+ * Restores the style library. Styles are passed through normalizeLayer so presets saved before
+ * TextLayer gained a property still apply cleanly.
+ */
+export const loadStylePresets = (): StylePreset[] => {
+  try {
+    const raw = localStorage.getItem(STYLE_PRESETS_KEY);
+    const stored = raw ? JSON.parse(raw) : null;
+    if (!Array.isArray(stored)) return [];
+    return stored
+      .filter((p: any) => p && typeof p.name === 'string' && p.style && typeof p.style === 'object')
+      .map((p: any) => ({
+        id: typeof p.id === 'string' ? p.id : crypto.randomUUID(),
+        name: p.name,
+        style: extractLayerStyle(normalizeLayer(p.style)),
+        thumbnail: typeof p.thumbnail === 'string' ? p.thumbnail : ''
+      }));
+  } catch (e) {
+    console.warn(`Could not read ${STYLE_PRESETS_KEY}`, e);
+    return [];
+  }
+};
+
+export const saveStylePresets = (presets: StylePreset[]) => {
+  try {
+    localStorage.setItem(STYLE_PRESETS_KEY, JSON.stringify(presets));
+  } catch (e) {
+    console.warn(`Could not write ${STYLE_PRESETS_KEY}`, e);
+  }
+};
+
+export const createStylePreset = (name: string, style: LayerStyle, thumbnail: string): StylePreset => ({
+  id: crypto.randomUUID(),
+  name: name.trim() || 'Untitled Style',
+  style,
+  thumbnail
+});
@@ -0,0 +1,372 @@
+import { DesignState, TextLayer, TextRunStyle } from '../types';
+import { BLEND_MODE_COMPOSITE_OPS } from '../constants';
+import { getPathBounds, getSmoothedPoints } from '../utils/geometry';
+import { canShapeWords, getBaselineShift, getColumnStartY, getColumnX, getStyledLines, isRtlLayer, joinStyledClusters, measureStandardLines, measureVerticalColumns, StyledCluster } from '../utils/textLayout';
+import { getRunLayer, getRunScale } from '../utils/textRuns';
+import { constructCanvasFont, getFontFeatureSettings, getFontVariationSettings, isShadowSupported } from '../utils/typography';
+import { ensureFontsReady, getFontCss } from './fontLoader';
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+const XLINK_NS = 'http://www.w3.org/1999/xlink';
+const RAINBOW_COLORS = ['#ff0000', '#ffa500', '#ffff00', '#00ff00', '#00ffff', '#0000ff', '#8f00ff', '#4b0082'];
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+// Keeps the markup readable without losing sub-pixel precision
+const num = (value: number) => Number(value.toFixed(2));
+
+const attrs = (values: Record<string, string | number | undefined | null>) =>
+  Object.entries(values)
+    .filter(([, v]) => v !== undefined && v !== null && v !== '')
+    .map(([k, v]) => `${k}="${typeof v === 'number' ? num(v) : escapeXml(v)}"`)
+    .join(' ');
+
+/**
+ * Maps a layer blend mode to a CSS mix-blend-mode through the same table the canvas renderer uses.
+ */
+const toMixBlendMode = (blendMode: string) => {
+  const op = BLEND_MODE_COMPOSITE_OPS[blendMode] || 'source-over';
+  return op === 'source-over' ? 'normal' : op;
+};
+
+const getFontAttributes = (layer: TextLayer, fontSizePx: number) => {
+  const variations = layer.fontVariations || {};
+  let fontStyle = layer.isItalic ? 'italic' : 'normal';
+  if (variations['slnt'] !== undefined && variations['slnt'] !== 0) {
+    fontStyle = `oblique ${-variations['slnt']}deg`;
+  }
+
+  // The canvas shapes whole words, kerning included, only in straight horizontal text without
+  // letter spacing or rotation; paths, vertical columns and spaced text advance glyph by glyph
+  const kerns = canShapeWords(layer) && layer.pathPoints.length === 0 && layer.writingMode !== 'vertical';
+  const style = kerns ? [] : [`font-kerning: none`];
+  const variationSettings = getFontVariationSettings(layer);
+  if (variationSettings !== 'normal') style.push(`font-variation-settings: ${variationSettings}`);
+  const featureSettings = getFontFeatureSettings(layer);
+  if (featureSettings !== 'normal') style.push(`font-feature-settings: ${featureSettings}`);
+
+  return {
+    'font-family': `'${layer.fontFamily}'`,
+    'font-size': fontSizePx,
+    'font-weight': variations['wght'] !== undefined ? Math.round(variations['wght']) : (layer.isBold ? 700 : 400),
+    'font-style': fontStyle,
+    'font-stretch': variations['wdth'] !== undefined && variations['wdth'] !== 100 ? `${Math.round(variations['wdth'])}%` : undefined,
+    'letter-spacing': layer.letterSpacing * (fontSizePx / 50),
+    'rotate': layer.letterRotation !== 0 ? layer.letterRotation : undefined,
+    'dominant-baseline': 'central',
+    'style': style.join('; ')
+  };
+};
+
+// Overrides of a styled run relative to the layer's <text>. Run colours go through custom
+// properties that only the main pass defines, so the <use> clones of effect passes keep their own paint.
+const getRunAttributes = (layer: TextLayer, style: TextRunStyle, fontSizePx: number, colorIndex: number | undefined) => {
+  const runLayer = getRunLayer(layer, style);
+  const runFont = getFontAttributes(runLayer, fontSizePx * getRunScale(style));
+  const css: string[] = [];
+  const variationSettings = getFontVariationSettings(runLayer);
+  if (style.fontWeight !== undefined && variationSettings !== 'normal') css.push(`font-variation-settings: ${variationSettings}`);
+  if (colorIndex !== undefined) css.push(`fill: var(--run-fill-${colorIndex})`, `stroke: var(--run-stroke-${colorIndex})`);
+  return attrs({
+    'font-family': style.fontFamily !== undefined ? runFont['font-family'] : undefined,
+    'font-size': style.size !== undefined ? runFont['font-size'] : undefined,
+    'font-weight': style.fontWeight !== undefined ? runFont['font-weight'] : undefined,
+    'baseline-shift': style.baselineShift ? getBaselineShift(style, fontSizePx) : undefined,
+    style: css.join('; ')
+  });
+};
+
+// Text in logical order with a <tspan> per styled run; run colours are collected in runColors
+const buildRunSpans = (clusters: StyledCluster[], layer: TextLayer, fontSizePx: number, runColors: string[]) => {
+  return joinStyledClusters(clusters).map(({ text, style }) => {
+    if (!style) return escapeXml(text);
+    if (style.color !== undefined) runColors.push(style.color);
+    const colorIndex = style.color !== undefined ? runColors.length - 1 : undefined;
+    return `<tspan ${getRunAttributes(layer, style, fontSizePx, colorIndex)}>${escapeXml(text)}</tspan>`;
+  }).join('');
+};
+
+// Accumulates markup while layers are emitted
+interface SvgDocument {
+  width: number;
+  height: number;
+  defs: string[];
+  body: string[];
+  fonts: Set<string>;
+  idCounts: Map<string, number>;
+  measureCtx: CanvasRenderingContext2D;
+}
+
+const createSvgDocument = (width: number, height: number): SvgDocument => {
+  const measureCtx = document.createElement('canvas').getContext('2d');
+  if (!measureCtx) throw new Error("Could not get canvas context");
+  return { width, height, defs: [], body: [], fonts: new Set(), idCounts: new Map(), measureCtx };
+};
+
+// Layer names become element ids so vector tools show them in their layer panels
+const uniqueId = (svg: SvgDocument, base: string) => {
+  const slug = base.trim().replace(/[^\w-]+/g, '-').replace(/^[^A-Za-z_]+/, '') || 'layer';
+  const count = svg.idCounts.get(slug) || 0;
+  svg.idCounts.set(slug, count + 1);
+  return count === 0 ? slug : `${slug}-${count + 1}`;
+};
+
+const addBackground = (svg: SvgDocument, design: DesignState, imageSrc: string) => {
+  if (design.backgroundType === 'solid') {
+    svg.body.push(`<rect ${attrs({ id: 'background-color', width: svg.width, height: svg.height, fill: design.backgroundColor })}/>`);
+  }
+  svg.body.push(`<image ${attrs({ id: 'background', width: svg.width, height: svg.height, preserveAspectRatio: 'none', 'xlink:href': imageSrc })}/>`);
+};
+
+// Emits the <text> element for a layer; effect passes reference it with <use>
+const buildText = (svg: SvgDocument, layer: TextLayer, id: string, fontSizePx: number): { markup: string; center: { x: number; y: number }; runColors: string[] } => {
+  const styledLines = getStyledLines(layer);
+  const runColors: string[] = [];
+  const fontAttrs = getFontAttributes(layer, fontSizePx);
+  const isPath = layer.pathPoints.length > 0;
+  // The viewer reorders bidi text itself; in RTL text-anchor start/end swap sides
+  const rtl = isRtlLayer(layer);
+  const directionAttrs = rtl ? { direction: 'rtl', 'unicode-bidi': 'embed' } : {};
+
+  if (isPath) {
+    const points = getSmoothedPoints(layer.pathPoints, layer.pathSmoothing);
+    const pathId = `${id}-path`;
+    const d = points.map((p, i) => `${i === 0 ? 'M' : 'L'}${num(p.x)} ${num(p.y)}`).join(' ');
+    svg.defs.push(`<path ${attrs({ id: pathId, d })}/>`);
+
+    const anchor = layer.textAlign === 'center' ? 'middle' : (layer.textAlign === 'right') !== rtl ? 'end' : 'start';
+    const offset = layer.textAlign === 'center' ? '50%' : layer.textAlign === 'right' ? '100%' : '0%';
+    const bounds = getPathBounds(points);
+    const singleLine = styledLines.flatMap((line, i) => i === 0 ? line : [{ text: ' ' }, ...line]);
+    return {
+      markup: `<text ${attrs({ id: `${id}-text`, ...fontAttrs, ...directionAttrs })}><textPath ${attrs({ 'xlink:href': `#${pathId}`, startOffset: offset, 'text-anchor': anchor })}>${buildRunSpans(singleLine, layer, fontSizePx, runColors)}</textPath></text>`,
+      center: { x: bounds.cx, y: bounds.cy },
+      runColors
+    };
+  }
+
+  // Line placement mirrors calculateStandardLayout: the block is centred on the layer origin
+  const ctx = svg.measureCtx;
+  ctx.font = constructCanvasFont(layer, fontSizePx);
+
+  // Vertical columns are placed the same way; the viewer turns and stacks the glyphs itself
+  if (layer.writingMode === 'vertical') {
+    const columns = measureVerticalColumns(ctx, layer, fontSizePx);
+    const maxLength = Math.max(...columns.map(c => c.length));
+    const spans = columns.map((column, i) => {
+      const x = getColumnX(layer, i, columns.length, fontSizePx);
+      const y = getColumnStartY(layer, column.length, maxLength);
+      const glyphs = column.glyphs.map(g => ({ text: g.char, style: g.style }));
+      return `<tspan ${attrs({ x, y })}>${buildRunSpans(glyphs, layer, fontSizePx, runColors)}</tspan>`;
+    });
+    const style = `${fontAttrs.style}; writing-mode: vertical-rl; text-orientation: ${layer.textOrientation}`;
+    return {
+      markup: `<text ${attrs({ id: `${id}-text`, 'xml:space': 'preserve', ...fontAttrs, style })}>${spans.join('')}</text>`,
+      center: { x: 0, y: 0 },
+      runColors
+    };
+  }
+
+  // Lines with runs of other sizes are placed by their baseline, where the runs line up
+  const hasRuns = layer.textRuns.length > 0;
+  const lines = measureStandardLines(ctx, layer, fontSizePx);
+  const maxLineWidth = Math.max(...lines.map(l => l.width));
+  let lineY = -lines.reduce((sum, l) => sum + l.ascent + l.descent, 0) / 2;
+
+  const spans = lines.map(({ width, ascent, descent }, i) => {
+    let x = -width / 2;
+    if (layer.textAlign === 'left') x = -maxLineWidth / 2;
+    if (layer.textAlign === 'right') x = maxLineWidth / 2 - width;
+    const y = hasRuns ? lineY + ascent : lineY + (ascent + descent) / 2;
+    lineY += ascent + descent;
+    return `<tspan ${attrs({ x, y, 'text-anchor': rtl ? 'end' : undefined })}>${buildRunSpans(styledLines[i], layer, fontSizePx, runColors)}</tspan>`;
+  });
+
+  return {
+    markup: `<text ${attrs({ id: `${id}-text`, 'xml:space': 'preserve', ...fontAttrs, 'dominant-baseline': hasRuns ? 'alphabetic' : fontAttrs['dominant-baseline'], ...directionAttrs })}>${spans.join('')}</text>`,
+    center: { x: 0, y: 0 },
+    runColors
+  };
+};
+
+const addBlurFilter = (svg: SvgDocument, id: string, blurPx: number) => {
+  svg.defs.push(`<filter ${attrs({ id, x: '-50%', y: '-50%', width: '200%', height: '200%' })}><feGaussianBlur stdDeviation="${num(blurPx)}"/></filter>`);
+  return `url(#${id})`;
+};
+
+const addLayer = (svg: SvgDocument, layer: TextLayer) => {
+  if (!layer.visible || !layer.textOverlay) return;
+
+  const { width, height } = svg;
+  const fontSizePx = (layer.textSize / 100) * width;
+  const isPath = layer.pathPoints.length > 0;
+  const id = uniqueId(svg, layer.name || 'layer');
+  const textId = `#${id}-text`;
+  svg.fonts.add(layer.fontFamily);
+  layer.textRuns.forEach(run => { if (run.style.fontFamily) svg.fonts.add(run.style.fontFamily); });
+
+  const { markup, center, runColors } = buildText(svg, layer, id, fontSizePx);
+  const passes: string[] = [];
+
+  // 1. Shadow: a shadow-only filter over a clone of the text, matching the canvas "offscreen casting" pass
+  if (layer.hasShadow && isShadowSupported(layer.fontFamily)) {
+    const angleRad = (layer.shadowAngle * Math.PI) / 180;
+    const dist = (layer.shadowOffset / 100) * fontSizePx;
+    let sX = dist * Math.cos(angleRad);
+    let sY = dist * Math.sin(angleRad);
+
+    // Canvas shadow offsets ignore the layer transform, so undo rotation/flip for the local frame
+    if (!isPath) {
+      const r = (-layer.rotation * Math.PI) / 180;
+      const rx = sX * Math.cos(r) - sY * Math.sin(r);
+      const ry = sX * Math.sin(r) + sY * Math.cos(r);
+      sX = layer.flipX ? -rx : rx;
+      sY = layer.flipY ? -ry : ry;
+    }
+
+    const filterId = `${id}-shadow`;
+    // Canvas shadowBlur is roughly twice the Gaussian standard deviation
+    const blur = (layer.shadowBlur / 100) * fontSizePx * 0.5 / 2;
+    svg.defs.push(
+      `<filter ${attrs({ id: filterId, x: '-50%', y: '-50%', width: '200%', height: '200%' })}>` +
+      `<feGaussianBlur in="SourceAlpha" stdDeviation="${num(blur)}"/>` +
+      `<feOffset ${attrs({ dx: sX, dy: sY, result: 'offsetBlur' })}/>` +
+      `<feFlood ${attrs({ 'flood-color': layer.shadowColor, 'flood-opacity': layer.shadowOpacity ?? 1 })}/>` +
+      `<feComposite in2="offsetBlur" operator="in"/>` +
+      `</filter>`
+    );
+    passes.push(`<use ${attrs({ 'xlink:href': textId, fill: '#000000', stroke: 'none', filter: `url(#${filterId})` })}/>`);
+  }
+
+  // 2. Echo trails
+  if (layer.specialEffect === 'echo') {
+    const echoCount = 5;
+    const angleRad = (layer.effectAngle * Math.PI) / 180;
+    const distanceStep = layer.effectIntensity * (width * 0.0005);
+    for (let i = echoCount; i >= 1; i--) {
+      const dx = Math.cos(angleRad) * distanceStep * i;
+      const dy = Math.sin(angleRad) * distanceStep * i;
+      passes.push(`<use ${attrs({ 'xlink:href': textId, fill: layer.textColor, stroke: 'none', opacity: 0.5 * (1 - i / echoCount), transform: `translate(${num(dx)} ${num(dy)})` })}/>`);
+    }
+  }
+
+  // 3. Glitch channels
+  if (layer.specialEffect === 'glitch') {
+    const offsetBase = (layer.effectIntensity / 100) * (fontSizePx * 0.2);
+    const angleRad = (layer.effectAngle * Math.PI) / 180;
+    const blend = (!layer.isRainbowGlitch || layer.isRainbowLights) ? 'screen' : 'normal';
+    const style = blend === 'normal' ? undefined : `mix-blend-mode: ${blend}`;
+
+    if (layer.isRainbowGlitch) {
+      const filter = layer.rainbowBlur > 0 ? addBlurFilter(svg, `${id}-glitch-blur`, layer.rainbowBlur) : undefined;
+      RAINBOW_COLORS.forEach((color, i) => {
+        const dist = ((i - (RAINBOW_COLORS.length - 1) / 2) * offsetBase * 3.0) / 2;
+        const dx = Math.cos(angleRad) * dist;
+        const dy = Math.sin(angleRad) * dist;
+        passes.push(`<use ${attrs({ 'xlink:href': textId, fill: color, stroke: 'none', opacity: layer.rainbowOpacity, filter, style, transform: `translate(${num(dx)} ${num(dy)})` })}/>`);
+      });
+    } else {
+      const filter = addBlurFilter(svg, `${id}-glitch-blur`, 1);
+      const dx = Math.cos(angleRad) * offsetBase;
+      const dy = Math.sin(angleRad) * offsetBase;
+      passes.push(`<use ${attrs({ 'xlink:href': textId, fill: layer.effectColor, stroke: 'none', filter, style, transform: `translate(${num(-dx)} ${num(-dy)})` })}/>`);
+      passes.push(`<use ${attrs({ 'xlink:href': textId, fill: layer.effectColor2, stroke: 'none', filter, style, transform: `translate(${num(dx)} ${num(dy)})` })}/>`);
+    }
+  }
+
+  // 4. Main text. Paint lives on a wrapper so the <use> clones above can set their own fill.
+  let fill = layer.textColor;
+  if (layer.specialEffect === 'gradient' && !layer.isHollow) {
+    const gradientId = `${id}-gradient`;
+    const angleRad = ((layer.effectAngle - 90) * Math.PI) / 180;
+    const range = fontSizePx * 5;
+    svg.defs.push(
+      `<linearGradient ${attrs({
+        id: gradientId,
+        gradientUnits: 'userSpaceOnUse',
+        x1: center.x - Math.cos(angleRad) * range,
+        y1: center.y - Math.sin(angleRad) * range,
+        x2: center.x + Math.cos(angleRad) * range,
+        y2: center.y + Math.sin(angleRad) * range
+      })}><stop offset="0" stop-color="${escapeXml(layer.textColor)}"/><stop offset="1" stop-color="${escapeXml(layer.effectColor)}"/></linearGradient>`
+    );
+    fill = `url(#${gradientId})`;
+  }
+
+  if (layer.isHollow) {
+    if (layer.hasOutline) {
+      passes.push(`<use ${attrs({ 'xlink:href': textId, fill: 'none', stroke: layer.outlineColor, 'stroke-width': layer.outlineWidth })}/>`);
+    }
+    passes.push(`<g ${attrs({
+      fill: 'none',
+      stroke: layer.textColor,
+      'stroke-width': Math.max(1, fontSizePx * 0.02),
+      style: runColors.map((color, i) => `--run-stroke-${i}: ${color}`).join('; ')
+    })}>${markup}</g>`);
+  } else {
+    // Gradient text keeps one gradient across runs, as on the canvas
+    passes.push(`<g ${attrs({
+      fill,
+      stroke: layer.hasOutline ? layer.outlineColor : undefined,
+      'stroke-width': layer.hasOutline ? layer.outlineWidth : undefined,
+      'paint-order': layer.hasOutline ? 'stroke' : undefined,
+      style: fill === layer.textColor ? runColors.map((color, i) => `--run-fill-${i}: ${color}`).join('; ') : undefined
+    })}>${markup}</g>`);
+  }
+
+  const transform = isPath ? undefined : [
+    `translate(${num((layer.overlayPosition.x / 100) * width)} ${num((layer.overlayPosition.y / 100) * height)})`,
+    `rotate(${num(layer.rotation)})`,
+    `scale(${layer.flipX ? -1 : 1} ${layer.flipY ? -1 : 1})`
+  ].join(' ');
+
+  const blendMode = toMixBlendMode(layer.blendMode);
+  svg.body.push(
+    `<g ${attrs({
+      id,
+      opacity: layer.opacity < 1 ? layer.opacity : undefined,
+      style: blendMode !== 'normal' ? `mix-blend-mode: ${blendMode}` : undefined
+    })}>` +
+    (transform ? `<g transform="${transform}">${passes.join('')}</g>` : passes.join('')) +
+    `</g>`
+  );
+};
+
+// Catalog fonts reference their files; uploaded fonts have no URL, so they are inlined
+const serializeSvg = (svg: SvgDocument, fontCss: string) => [
+  `<?xml version="1.0" encoding="UTF-8"?>`,
+  `<svg xmlns="${SVG_NS}" xmlns:xlink="${XLINK_NS}" ${attrs({ width: svg.width, height: svg.height, viewBox: `0 0 ${svg.width} ${svg.height}` })}>`,
+  `<defs>`,
+  fontCss ? `<style>\n${escapeXml(fontCss)}\n</style>` : '',
+  ...svg.defs,
+  `</defs>`,
+  ...svg.body,
+  `</svg>`
+].filter(Boolean).join('\n');
+
+/**
+ * Builds an SVG of the current design with the background as an embedded <image> and each
+ * visible layer as live <text> (or <textPath> for path layers) that stays editable in vector tools.
+ */
+export const exportSvg = async (design: DesignState, imageSrc: string | null): Promise<string> => {
+  if (!imageSrc) throw new Error("No image to export");
+  await ensureFontsReady(design.layers);
+
+  const img = new Image();
+  await new Promise((resolve, reject) => {
+    img.onload = resolve;
+    img.onerror = reject;
+    img.src = imageSrc;
+  });
+
+  const svg = createSvgDocument(img.naturalWidth, img.naturalHeight);
+  addBackground(svg, design, imageSrc);
+  design.layers.forEach(layer => addLayer(svg, layer));
+  return serializeSvg(svg, await getFontCss(Array.from(svg.fonts)));
+};
@@ -0,0 +1,82 @@
+import { RenderWorkerRequest, RenderWorkerResponse, SceneSnapshot, TextLayer } from '../types';
+import { MAX_CANVAS_PIXELS, MAX_CANVAS_SIDE } from '../constants';
+import { scaleLayerGeometry } from '../utils/layerRenderer';
+import { getFontLayers } from '../utils/textRuns';
+import { getInstalledFonts } from './customFontService';
+import { getFontFaces } from './fontLoader';
+
+export interface WorkerRenderOptions {
+  scale?: number;
+  includeBackground?: boolean;
+  mimeType: string;
+  quality?: number;
+}
+
+// OffscreenCanvas has no style for font-variation-settings or font-feature-settings, so only axes the
+// font string carries render there and layers with feature overrides stay on the main thread
+const WORKER_AXES = ['wght', 'wdth', 'slnt'];
+
+export const canRenderInWorker = (layers: TextLayer[]) =>
+  typeof Worker !== 'undefined' &&
+  typeof OffscreenCanvas !== 'undefined' &&
+  layers.every(l => !l.visible || (
+    Object.keys(l.fontVariations || {}).every(tag => WORKER_AXES.includes(tag)) &&
+    Object.keys(l.fontFeatures || {}).length === 0
+  ));
+
+/**
+ * Renders a scene in a dedicated worker and encodes it there. Progress is reported per layer.
+ * Rejects if the worker can't render it (e.g. no fonts in worker scope); callers fall back to
+ * the main-thread renderer.
+ */
+export const renderSceneInWorker = async (
+  scene: SceneSnapshot,
+  options: WorkerRenderOptions,
+  onProgress?: (done: number, total: number) => void
+): Promise<Blob> => {
+  const { scale = 1, includeBackground = true, mimeType, quality } = options;
+
+  const res = await fetch(scene.imageSrc);
+  const background = await createImageBitmap(await res.blob());
+  const width = Math.round(background.width * scale);
+  const height = Math.round(background.height * scale);
+  if (width > MAX_CANVAS_SIDE || height > MAX_CANVAS_SIDE || width * height > MAX_CANVAS_PIXELS) {
+    background.close();
+    throw new Error(`Export size ${width}x${height} exceeds the browser canvas limit`);
+  }
+
+  const layers = scene.layers.map(layer => scaleLayerGeometry(layer, scale));
+  const families = Array.from(new Set(layers.filter(l => l.visible).flatMap(getFontLayers).map(l => l.fontFamily)));
+  const request: RenderWorkerRequest = {
+    background,
+    width,
+    height,
+    layers,
+    backgroundType: scene.backgroundType,
+    backgroundColor: scene.backgroundColor,
+    includeBackground,
+    fontFaces: await getFontFaces(families),
+    customFonts: getInstalledFonts(families),
+    mimeType,
+    quality
+  };
+
+  const worker = new Worker(new URL('../workers/render.worker.ts', import.meta.url), { type: 'module' });
+  return new Promise<Blob>((resolve, reject) => {
+    worker.onmessage = (e: MessageEvent<RenderWorkerResponse>) => {
+      const message = e.data;
+      if (message.type === 'progress') {
+        onProgress?.(message.done, message.total);
+        return;
+      }
+      worker.terminate();
+      if (message.type === 'done') resolve(message.blob);
+      else reject(new Error(message.message));
+    };
+    worker.onerror = (e) => {
+      worker.terminate();
+      reject(new Error(e.message || "Render worker failed"));
+    };
+    worker.postMessage(request, [background]);
+  });
+};
@@ -7,28 +7,75 @@ export type GenModel = 'gemini-2.5-flash-image' | 'gemini-3-pro-image-preview';
 
 export type ImageResolution = '1K' | '2K' | '4K';
 
+export type ImageExportFormat = 'png' | 'jpeg' | 'webp';
+
 export interface Point {
   x: number;
   y: number;
 }
 
+export type EasingCurve = 'linear' | 'ease-in' | 'ease-out' | 'ease-in-out' | 'hold';
+
+export interface Keyframe {
+  time: number; // Seconds from the start of the timeline
+  value: number;
+  easing: EasingCurve; // Curve into the next keyframe
+}
+
+// 'auto' takes the direction of the first strong character (Hebrew/Arabic vs. Latin etc.)
+export type TextDirection = 'auto' | 'ltr' | 'rtl';
+
+// Vertical text stacks each line as a column; 'upright' also keeps Latin letters and digits upright
+export type WritingMode = 'horizontal' | 'vertical';
+export type TextOrientation = 'mixed' | 'upright';
+
+// Overrides for a styled run of text; unset fields use the layer's own values
+export interface TextRunStyle {
+  color?: string;
+  fontFamily?: LayerFontFamily;
+  fontWeight?: number;
+  size?: number;          // Percent of the layer's text size
+  baselineShift?: number; // Percent of the layer's text size, positive raises the text
+}
+
+// A styled range of textOverlay in UTF-16 offsets, end exclusive. Runs never overlap.
+export interface TextRun {
+  start: number;
+  end: number;
+  style: TextRunStyle;
+}
+
+export type TemplateSlotAccess = 'locked' | 'text' | 'text-color';
+
+export interface TemplateInfo {
+  name: string;
+  // 'prompt' lets template users regenerate the background from the design prompt
+  backgroundSlot: 'fixed' | 'prompt';
+}
+
 export interface TextLayer {
   id: string;
   name: string;
   visible: boolean;
   locked: boolean;
   textOverlay: string;
-  fontFamily: FontFamily;
+  textRuns: TextRun[];
+  fontFamily: LayerFontFamily;
   textColor: string;
   shadowColor: string;
   textSize: number;
   letterSpacing: number;
   letterRotation: number;
   textAlign: 'left' | 'center' | 'right';
+  direction: TextDirection;
+  writingMode: WritingMode;
+  textOrientation: TextOrientation;
+  columnDirection: 'ltr' | 'rtl'; // Order of vertical columns; Japanese reads right to left
   overlayPosition: { x: number; y: number };
   blendMode: string;
   opacity: number;
   fontVariations: Record<string, number>;
+  fontFeatures: Record<string, boolean>; // OpenType feature overrides by tag; unset tags keep the default
   pathPoints: Point[];
   pathSmoothing: number;
   isPathInputMode: boolean;
@@ -58,6 +105,10 @@ export interface TextLayer {
   rotation: number;
   flipX: boolean;
   flipY: boolean;
+  // Keyframe tracks keyed by property path, e.g. 'rotation', 'overlayPosition.x', 'fontVariations.wght'
+  keyframes: Record<string, Keyframe[]>;
+  // What template users may change on this layer (see DesignState.template)
+  templateSlot: TemplateSlotAccess;
 }
 
 export interface DesignState {
@@ -69,6 +120,8 @@ export interface DesignState {
   selectedLayerIds: string[];
   backgroundType: 'image' | 'solid';
   backgroundColor: string;
+  animationDuration: number; // Timeline length in seconds
+  template: TemplateInfo | null; // Set when the design is saved as a template
 }
 
 export interface AppSettings {
@@ -80,6 +133,116 @@ export interface AppSettings {
   generationSystemPrompt: string;
   editingSystemPrompt: string;
   showFontDebug: boolean;
+  // When false the API key only lives in sessionStorage and is forgotten when the tab closes
+  rememberApiKey: boolean;
+}
+
+// Generation settings captured in a project file. The API key and UI preferences are never saved.
+export type ProjectSettingsSnapshot = Pick<AppSettings, 'imageModel' | 'imageResolution' | 'quality' | 'generationSystemPrompt' | 'editingSystemPrompt'>;
+
+export interface ProjectFile {
+  format: 'textrot-project';
+  version: number;
+  savedAt: string;
+  design: DesignState;
+  imageSrc: string | null;
+  settings: ProjectSettingsSnapshot;
+  groundingMetadata?: any;
+  fonts: EmbeddedFont[]; // Uploaded fonts the design uses
+}
+
+export type CustomFontFormat = 'truetype' | 'opentype' | 'woff' | 'woff2';
+
+// A font file uploaded by the user. Stored in IndexedDB and embedded in project files.
+export interface CustomFont {
+  id: string;
+  family: CustomFontFamily;
+  fileName: string;
+  format: CustomFontFormat;
+  weight: number;
+  italic: boolean;
+  data: ArrayBuffer;
+}
+
+// CustomFont as written into a project file, with the font data base64-encoded
+export interface EmbeddedFont extends Omit<CustomFont, 'data'> {
+  data: string;
+}
+
+// One @font-face of a catalog font. In the bundle manifest src is a path relative to the
+// manifest; once resolved by the font loader it is an absolute URL.
+export interface FontFaceSource {
+  family: string;
+  src: string;
+  weight?: string; // e.g. '400' or '100 900' for variable faces
+  style?: string;
+  stretch?: string;
+  unicodeRange?: string;
+}
+
+// fonts/manifest.json of the self-hosted font bundle
+export interface FontManifest {
+  version: number;
+  faces: FontFaceSource[];
+}
+
+// Load state of a catalog font as tracked by the font loader (services/fontLoader.ts)
+export type FontLoadStatus = 'idle' | 'loading' | 'loaded' | 'failed';
+
+export interface FontStatus {
+  family: string;
+  status: FontLoadStatus;
+  variants: Record<string, FontLoadStatus>; // Per weight/style/width layers requested, e.g. '700 italic normal'
+  error?: string;
+}
+
+export interface SettingsProfile {
+  id: string;
+  name: string;
+  builtIn?: boolean;
+  settings: ProjectSettingsSnapshot;
+}
+
+export interface SettingsProfileFile {
+  format: 'textrot-settings-profiles';
+  version: number;
+  profiles: Omit<SettingsProfile, 'id' | 'builtIn'>[];
+}
+
+// The look of a layer: everything except its text, name, placement, path and animation
+export type LayerStyle = Omit<TextLayer,
+  'id' | 'name' | 'visible' | 'locked' | 'textOverlay' | 'textRuns' | 'overlayPosition' |
+  'pathPoints' | 'pathSmoothing' | 'isPathInputMode' | 'isPathMoveMode' | 'keyframes' | 'templateSlot'>;
+
+export interface StylePreset {
+  id: string;
+  name: string;
+  style: LayerStyle;
+  thumbnail: string; // Data URL of a sample rendered with the style
+}
+
+export interface BrandSwatch {
+  name: string;
+  color: string; // #rrggbb
+}
+
+// Layer properties a brand kit can prescribe for new layers
+export type BrandLayerStyle = Partial<Pick<TextLayer,
+  'fontFamily' | 'textColor' | 'textSize' | 'letterSpacing' | 'isBold' | 'isItalic' | 'isUppercase' |
+  'hasShadow' | 'shadowColor' | 'shadowBlur' | 'shadowOffset' | 'shadowAngle' | 'shadowOpacity' |
+  'hasOutline' | 'outlineWidth' | 'outlineColor'>>;
+
+export interface BrandKit {
+  name: string;
+  swatches: BrandSwatch[];
+  fonts: FontFamily[]; // Empty allows every font
+  layerStyle: BrandLayerStyle; // Applied to new layers
+}
+
+export interface BrandKitFile {
+  format: 'textrot-brand-kit';
+  version: number;
+  kit: BrandKit;
 }
 
 export interface ImageHistoryItem {
@@ -92,6 +255,76 @@ export interface ImageHistoryItem {
   groundingMetadata?: any;
 }
 
+// Everything needed to render a design independently of the editor state (e.g. a history entry)
+// Layer drawing runs on both the page and OffscreenCanvas in the render worker
+export type RenderContext2D = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+export interface SceneSnapshot {
+  imageSrc: string;
+  layers: TextLayer[];
+  backgroundType: 'image' | 'solid';
+  backgroundColor: string;
+}
+
+// One dataset row for data merge, keyed by column name
+export type DataRow = Record<string, string>;
+
+export interface MergeDataset {
+  name: string; // Source file name
+  columns: string[];
+  rows: DataRow[];
+}
+
+export interface DataMergeExportOptions {
+  format: ImageExportFormat;
+  quality: number;
+  scale: number;
+  fileNameTemplate: string; // e.g. "poster-{{city}}"; the extension is added per format
+}
+
+// Messages to and from the render worker (workers/render.worker.ts)
+export interface RenderWorkerRequest {
+  background: ImageBitmap;
+  width: number;
+  height: number;
+  layers: TextLayer[]; // Already scaled to the output size
+  backgroundType: 'image' | 'solid';
+  backgroundColor: string;
+  includeBackground: boolean;
+  fontFaces: FontFaceSource[]; // Catalog faces for the families in use
+  customFonts: CustomFont[]; // Uploaded fonts in use, registered from their data
+  mimeType: string;
+  quality?: number;
+}
+
+export type RenderWorkerResponse =
+  | { type: 'progress'; done: number; total: number }
+  | { type: 'done'; blob: Blob }
+  | { type: 'error'; message: string };
+
+export interface ImageExportOptions {
+  format: ImageExportFormat;
+  quality: number; // 0..1, ignored for PNG
+  scale: number; // Output size relative to the background image; text is re-rendered, not upscaled
+  textOnly: boolean; // Omit the background and export text layers on transparency
+}
+
+export interface RecentProjectSummary {
+  id: string;
+  name: string;
+  updatedAt: number;
+  thumbnail: string | null;
+}
+
+export interface AutosavedSession extends RecentProjectSummary {
+  design: DesignState;
+  imageSrc: string | null;
+  imageHistory: ImageHistoryItem[];
+  historyIndex: number;
+  groundingMetadata?: any;
+}
+
+// Built-in catalog families
 export type FontFamily = 
   | 'Abril Fatface' 
   | 'Akronim'
@@ -245,3 +478,9 @@ export type FontFamily =
   | 'Wallpoet'
   | 'Workbench'
   | 'Zen Dots';
+
+// Family name of a font uploaded at runtime, whatever name its file declares (see CustomFont)
+export type CustomFontFamily = string;
+
+// Where uploaded fonts are allowed alongside the catalog: layers and styled runs
+export type LayerFontFamily = FontFamily | CustomFontFamily;
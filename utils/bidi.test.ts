@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { getBidiRuns, getVisualClusters, resolveDirection } from './bidi';
+
+const ALEF = '\u05D0';
+const BET = '\u05D1';
+const BEH = '\u0628';
+const ZWJ = '\u200D';
+
+describe('resolveDirection', () => {
+  it('follows the first strong character', () => {
+    expect(resolveDirection(`12 ${ALEF}b`)).toBe('rtl');
+    expect(resolveDirection(`b ${ALEF}`)).toBe('ltr');
+    expect(resolveDirection('123')).toBe('ltr');
+    expect(resolveDirection('abc', 'rtl')).toBe('rtl');
+  });
+});
+
+describe('getBidiRuns', () => {
+  it('keeps neutrals between runs in the base direction', () => {
+    expect(getBidiRuns(['a', 'b', ' ', ALEF, BET], false)).toEqual([
+      { text: 'ab ', rtl: false, start: 0 },
+      { text: ALEF + BET, rtl: true, start: 3 }
+    ]);
+  });
+
+  it('reads numbers left to right inside right-to-left text', () => {
+    expect(getBidiRuns([ALEF, ' ', '1', '.', '5'], true)).toEqual([
+      { text: '1.5', rtl: false, start: 2 },
+      { text: `${ALEF} `, rtl: true, start: 0 }
+    ]);
+  });
+
+  it('splits mixed text into runs in visual order', () => {
+    expect(getBidiRuns(['a', 'b', ' ', ALEF, BET, ' ', 'c', 'd'], false)).toEqual([
+      { text: 'ab ', rtl: false, start: 0 },
+      { text: ALEF + BET, rtl: true, start: 3 },
+      { text: ' cd', rtl: false, start: 5 }
+    ]);
+    expect(getBidiRuns([ALEF, ' ', 'a', 'b', ' ', BET], true)).toEqual([
+      { text: ` ${BET}`, rtl: true, start: 4 },
+      { text: 'ab', rtl: false, start: 2 },
+      { text: `${ALEF} `, rtl: true, start: 0 }
+    ]);
+  });
+
+  it('breaks runs where the group changes', () => {
+    const bold = {};
+    expect(getBidiRuns(['a', 'b', 'c'], false, [undefined, bold, bold]).map(r => r.text)).toEqual(['a', 'bc']);
+  });
+});
+
+describe('getVisualClusters', () => {
+  it('reverses right-to-left clusters and keeps Arabic letters joined', () => {
+    expect(getVisualClusters([BEH, BEH], true)).toEqual([
+      { text: ZWJ + BEH, rtl: true, start: 1 },
+      { text: BEH + ZWJ, rtl: true, start: 0 }
+    ]);
+  });
+
+  it('draws brackets in right-to-left text right-to-left so the shaper mirrors them', () => {
+    expect(getVisualClusters([ALEF, '(', BET, ')'], true)).toEqual([
+      { text: ')', rtl: true, start: 3 },
+      { text: BET, rtl: true, start: 2 },
+      { text: '(', rtl: true, start: 1 },
+      { text: ALEF, rtl: true, start: 0 }
+    ]);
+    // Brackets around Latin text inside RTL text read left-to-right with it
+    expect(getVisualClusters([ALEF, ' ', 'a', '(', 'b', ')', 'c'], true).map(c => [c.text, c.rtl])).toEqual([
+      ['a', false], ['(', false], ['b', false], [')', false], ['c', false], [' ', true], [ALEF, true]
+    ]);
+  });
+
+  it('leaves left-to-right clusters alone', () => {
+    expect(getVisualClusters(['a', 'b'], false).map(c => c.text)).toEqual(['a', 'b']);
+  });
+});
@@ -0,0 +1,143 @@
+import { TextDirection } from '../types';
+
+/**
+ * A compact take on the Unicode Bidirectional Algorithm for single-line text, enough for Arabic,
+ * Hebrew and Latin mixed with numbers and punctuation. Explicit embedding controls are ignored.
+ * Works on grapheme clusters (classified by their first code point) so marks stay with their base.
+ */
+
+// One piece of a line in visual (left-to-right) order
+export interface BidiRun {
+  text: string;
+  rtl: boolean;
+  start: number; // Index of the run's first cluster in the line
+}
+
+const RTL_CHAR = /[\p{Script=Hebrew}\p{Script=Arabic}\p{Script=Syriac}\p{Script=Thaana}\p{Script=Nko}]/u;
+const LTR_CHAR = /[\p{L}\p{M}]/u;
+const NUMBER_CHAR = /\p{Nd}/u;
+const NUMBER_SEPARATOR = /^[.,:\/]$/;
+const WHITESPACE = /^\s+$/;
+
+type BidiClass = 'L' | 'R' | 'N' | 'W'; // strong LTR, strong RTL, number, neutral
+
+const classify = (cluster: string): BidiClass => {
+  if (NUMBER_CHAR.test(cluster[0])) return 'N';
+  if (RTL_CHAR.test(cluster[0])) return 'R';
+  return LTR_CHAR.test(cluster[0]) ? 'L' : 'W';
+};
+
+// 'auto' follows the first strong character, falling back to LTR
+export const resolveDirection = (text: string, direction: TextDirection = 'auto'): 'ltr' | 'rtl' => {
+  if (direction !== 'auto') return direction;
+  for (const char of text) {
+    if (RTL_CHAR.test(char)) return 'rtl';
+    if (LTR_CHAR.test(char)) return 'ltr';
+  }
+  return 'ltr';
+};
+
+export const containsRtl = (text: string) => RTL_CHAR.test(text);
+
+// Embedding level of each cluster: even levels read left-to-right, odd levels right-to-left
+const resolveLevels = (clusters: string[], rtlBase: boolean): number[] => {
+  const base: 'L' | 'R' = rtlBase ? 'R' : 'L';
+
+  const initial = clusters.map(classify);
+  // A single separator between digits belongs to the number, e.g. 1.5 or 12:30
+  initial.forEach((cls, i) => {
+    if (cls === 'W' && NUMBER_SEPARATOR.test(clusters[i]) && initial[i - 1] === 'N' && initial[i + 1] === 'N') initial[i] = 'N';
+  });
+
+  // Numbers after LTR text are part of it; after RTL text they stay numbers inside the RTL run
+  let lastStrong = base;
+  const classes = initial.map(cls => {
+    if (cls === 'L' || cls === 'R') lastStrong = cls;
+    return cls === 'N' && lastStrong === 'L' ? 'L' : cls;
+  });
+
+  // Neutrals between two runs of the same direction join them; otherwise they follow the base.
+  // Numbers count as RTL here.
+  const resolved = classes.map(c => c === 'N' ? 'R' : c);
+  for (let i = 0; i < resolved.length; i++) {
+    if (resolved[i] !== 'W') continue;
+    let end = i;
+    while (end < resolved.length && resolved[end] === 'W') end++;
+    const before = i > 0 ? resolved[i - 1] : base;
+    const after = end < resolved.length ? resolved[end] : base;
+    resolved.fill(before === after ? before : base, i, end);
+    i = end - 1;
+  }
+
+  // Digits always read left-to-right, so inside RTL text they sit a level above it
+  const levels = classes.map((cls, i) => {
+    if (cls === 'N') return 2;
+    if (resolved[i] === 'R') return 1;
+    return rtlBase ? 2 : 0;
+  });
+
+  // Trailing whitespace goes back to the paragraph direction
+  for (let i = clusters.length - 1; i >= 0 && WHITESPACE.test(clusters[i]); i--) levels[i] = rtlBase ? 1 : 0;
+  return levels;
+};
+
+// Reverses every stretch at or above each level, from the highest level down to the lowest odd one
+const reorder = <T>(items: T[], levels: number[]): T[] => {
+  const result = items.map((item, i) => ({ item, level: levels[i] }));
+  const max = Math.max(0, ...levels);
+  const minOdd = Math.min(...levels.map(l => l % 2 === 1 ? l : l + 1), max + 1);
+  for (let level = max; level >= minOdd; level--) {
+    for (let i = 0; i < result.length; i++) {
+      if (result[i].level < level) continue;
+      let end = i;
+      while (end < result.length && result[end].level >= level) end++;
+      result.splice(i, end - i, ...result.slice(i, end).reverse());
+      i = end;
+    }
+  }
+  return result.map(r => r.item);
+};
+
+/**
+ * Splits a line into runs of one direction in visual order. Each run's text stays in logical
+ * order, ready for a shaper that lays it out in the run's direction. Runs also break wherever
+ * `groups` changes, e.g. between differently styled text.
+ */
+export const getBidiRuns = (clusters: string[], rtlBase: boolean, groups?: unknown[]): BidiRun[] => {
+  const levels = resolveLevels(clusters, rtlBase);
+  const runs: { text: string; level: number; start: number }[] = [];
+  clusters.forEach((cluster, i) => {
+    const last = runs[runs.length - 1];
+    if (last && last.level === levels[i] && groups?.[i] === groups?.[last.start]) last.text += cluster;
+    else runs.push({ text: cluster, level: levels[i], start: i });
+  });
+  return reorder(runs, runs.map(r => r.level)).map(r => ({ text: r.text, rtl: r.level % 2 === 1, start: r.start }));
+};
+
+// Arabic letters that only connect to the letter before them (alef, dal, reh, waw and relatives)
+const RIGHT_JOINING = /[\u0622-\u0625\u0627\u0629\u062F-\u0632\u0648\u0671-\u0673\u0675-\u0677\u0688-\u0699\u06C0\u06C3-\u06CB\u06CD\u06CF\u06D2\u06D3\u06D5\u06EE\u06EF\u0759-\u075B\u076B\u076C\u0771\u0773\u0774\u0778\u0779\u08AA-\u08AC\u08AE\u08B1\u08B2\u08B9]/;
+// Letters that connect on both sides
+const DUAL_JOINING = /[\u0620\u0626\u0628\u062A-\u062E\u0633-\u063F\u0641-\u0647\u0649\u064A\u066E\u066F\u0678-\u0687\u069A-\u06BF\u06C1\u06C2\u06CC\u06CE\u06D0\u06D1\u06FA-\u06FC\u06FF\u0750-\u0758\u075C-\u076A\u076D-\u0770\u0772\u0775-\u0777\u077A-\u077F\u08A0-\u08A9\u08AF\u08B0\u08B3-\u08B8\u08BA-\u08C8]/;
+const TATWEEL = '\u0640';
+const ZWJ = '\u200D';
+
+const joinsForward = (cluster?: string) => !!cluster && (DUAL_JOINING.test(cluster[0]) || cluster[0] === TATWEEL);
+const joinsBackward = (cluster?: string) => !!cluster && (DUAL_JOINING.test(cluster[0]) || RIGHT_JOINING.test(cluster[0]) || cluster[0] === TATWEEL);
+
+/**
+ * Clusters of a line in visual order for drawing one at a time. Arabic letters carry zero-width
+ * joiners so each keeps the joined form it has inside its word; brackets in RTL runs are mirrored
+ * by the shaper when drawn right-to-left.
+ */
+export const getVisualClusters = (clusters: string[], rtlBase: boolean): BidiRun[] => {
+  const levels = resolveLevels(clusters, rtlBase);
+  const items = clusters.map((cluster, i) => {
+    const rtl = levels[i] % 2 === 1;
+    if (!rtl) return { text: cluster, rtl, start: i };
+    const joinPrev = joinsBackward(cluster) && joinsForward(clusters[i - 1]);
+    const joinNext = joinsForward(cluster) && joinsBackward(clusters[i + 1]);
+    const text = (joinPrev ? ZWJ : '') + cluster + (joinNext ? ZWJ : '');
+    return { text, rtl, start: i };
+  });
+  return reorder(items, levels);
+};
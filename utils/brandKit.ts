@@ -0,0 +1,28 @@
+import { BrandKit, BrandLayerStyle, FontFamily, TextLayer } from '../types';
+import { FONTS } from '../constants';
+
+// Layer properties a kit may prescribe, matching BrandLayerStyle
+export const BRAND_STYLE_KEYS: (keyof BrandLayerStyle)[] = [
+  'fontFamily', 'textColor', 'textSize', 'letterSpacing', 'isBold', 'isItalic', 'isUppercase',
+  'hasShadow', 'shadowColor', 'shadowBlur', 'shadowOffset', 'shadowAngle', 'shadowOpacity',
+  'hasOutline', 'outlineWidth', 'outlineColor'
+];
+
+export const createBrandKit = (name = 'Brand Kit'): BrandKit => ({ name, swatches: [], fonts: [], layerStyle: {} });
+
+export const captureBrandStyle = (layer: TextLayer): BrandLayerStyle => {
+  const style: BrandLayerStyle = {};
+  BRAND_STYLE_KEYS.forEach(key => { (style as Record<string, unknown>)[key] = layer[key]; });
+  return style;
+};
+
+// A kit that restricts fonts never hands out a font outside its set
+export const applyBrandStyle = (layer: TextLayer, kit: BrandKit | null): TextLayer => {
+  if (!kit) return layer;
+  const styled = { ...layer, ...kit.layerStyle };
+  if (kit.fonts.length > 0 && !kit.fonts.some(font => font === styled.fontFamily)) styled.fontFamily = kit.fonts[0];
+  return styled;
+};
+
+export const getAllowedFonts = (kit: BrandKit | null): FontFamily[] =>
+  kit && kit.fonts.length > 0 ? kit.fonts : FONTS;
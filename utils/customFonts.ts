@@ -0,0 +1,99 @@
+import { CustomFont, CustomFontFormat, EmbeddedFont } from '../types';
+import { parseSfnt } from './sfnt';
+
+/**
+ * Uploaded font files: format detection, metadata and the base64 form used in project files.
+ * Nothing here touches the DOM so the CLI can register embedded fonts too.
+ */
+
+export const CUSTOM_FONT_EXTENSIONS = ['.ttf', '.otf', '.woff', '.woff2'];
+
+const FORMATS: CustomFontFormat[] = ['truetype', 'opentype', 'woff', 'woff2'];
+
+// Read from the file signature, since extensions are often wrong
+export const detectFontFormat = (data: ArrayBuffer): CustomFontFormat | null => {
+  if (data.byteLength < 4) return null;
+  const view = new DataView(data);
+  const tag = String.fromCharCode(view.getUint8(0), view.getUint8(1), view.getUint8(2), view.getUint8(3));
+  if (tag === 'wOF2') return 'woff2';
+  if (tag === 'wOFF') return 'woff';
+  if (tag === 'OTTO') return 'opentype';
+  if (tag === 'true' || view.getUint32(0) === 0x00010000) return 'truetype';
+  return null;
+};
+
+// Binary formats that fontBinaries can parse for vector exports
+export const isSfntReadable = (format: CustomFontFormat) => format !== 'woff2';
+
+/**
+ * Builds a CustomFont from an uploaded file. Family, weight and style come from the font's own
+ * name and OS/2 tables where readable (not WOFF2), otherwise from the file name.
+ */
+export const createCustomFont = async (fileName: string, data: ArrayBuffer): Promise<CustomFont> => {
+  const format = detectFontFormat(data);
+  if (!format) throw new Error(`"${fileName}" is not a TTF, OTF, WOFF or WOFF2 font.`);
+
+  const baseName = fileName.replace(/\.[^.]+$/, '');
+  let family = baseName.replace(/[-_](regular|bold|italic|light|medium|black|thin)+$/i, '').replace(/[-_]+/g, ' ').trim();
+  let weight = /bold/i.test(baseName) ? 700 : 400;
+  let italic = /italic|oblique/i.test(baseName);
+
+  if (isSfntReadable(format)) {
+    try {
+      const parsed = await parseSfnt(data);
+      family = parsed.familyName || family;
+      weight = parsed.weightClass || weight;
+      italic = parsed.isItalic;
+    } catch (e) {
+      console.warn(`Could not read font metadata from ${fileName}`, e);
+    }
+  }
+
+  return { id: crypto.randomUUID(), family: family || 'Custom Font', fileName, format, weight, italic, data };
+};
+
+const BASE64_CHUNK = 0x8000;
+
+export const encodeFontData = (data: ArrayBuffer): string => {
+  const bytes = new Uint8Array(data);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += BASE64_CHUNK) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + BASE64_CHUNK));
+  }
+  return btoa(binary);
+};
+
+export const decodeFontData = (base64: string): ArrayBuffer => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes.buffer;
+};
+
+export const embedFonts = (fonts: CustomFont[]): EmbeddedFont[] =>
+  fonts.map(({ data, ...font }) => ({ ...font, data: encodeFontData(data) }));
+
+// Embedded fonts from an untrusted file; malformed entries are dropped
+export const extractEmbeddedFonts = (raw: any): CustomFont[] => {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .filter((f: any) => f && typeof f.family === 'string' && f.family.trim() && typeof f.data === 'string')
+    .flatMap((f: any): CustomFont[] => {
+      try {
+        const data = decodeFontData(f.data);
+        const format = detectFontFormat(data);
+        if (!format) return [];
+        return [{
+          id: typeof f.id === 'string' ? f.id : crypto.randomUUID(),
+          family: f.family.trim(),
+          fileName: typeof f.fileName === 'string' ? f.fileName : f.family,
+          format: FORMATS.includes(f.format) ? f.format : format,
+          weight: typeof f.weight === 'number' ? f.weight : 400,
+          italic: !!f.italic,
+          data
+        }];
+      } catch {
+        return [];
+      }
+    });
+};
@@ -0,0 +1,157 @@
+import { DataRow, MergeDataset, TextLayer } from '../types';
+import { shiftRuns } from './textRuns';
+
+/**
+ * Data merge: layer text may contain {{column}} placeholders that are filled from one row of a
+ * CSV or JSON dataset per rendered variant.
+ */
+
+const PLACEHOLDER = /\{\{\s*([^{}]+?)\s*\}\}/g;
+
+// Built-in placeholder for the 1-based row number, unless the dataset has its own column of that name
+export const ROW_NUMBER_PLACEHOLDER = 'row';
+
+const INVALID_FILE_NAME_CHARS = /[\\/:*?"<>|\x00-\x1f]/g;
+
+// RFC 4180: quoted fields may contain commas, newlines and doubled quotes
+export const parseCsv = (text: string): string[][] => {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  const input = text.replace(/^﻿/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (inQuotes) throw new Error('Invalid CSV: a quoted field is never closed.');
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  // Blank lines carry no data
+  return records.filter(r => r.some(value => value.trim() !== ''));
+};
+
+const datasetFromCsv = (name: string, text: string): MergeDataset => {
+  const [header, ...records] = parseCsv(text);
+  if (!header) throw new Error('Invalid CSV: the file is empty.');
+  const columns = header.map(c => c.trim());
+  const rows = records.map(record => {
+    const row: DataRow = {};
+    columns.forEach((column, i) => { row[column] = record[i] ?? ''; });
+    return row;
+  });
+  return { name, columns, rows };
+};
+
+const datasetFromJson = (name: string, text: string): MergeDataset => {
+  let raw: any;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error('Invalid JSON: the file is not valid JSON.');
+  }
+  if (!Array.isArray(raw) || raw.some(item => !item || typeof item !== 'object' || Array.isArray(item))) {
+    throw new Error('Invalid JSON: expected an array of objects, one per row.');
+  }
+
+  const columns: string[] = [];
+  raw.forEach(item => Object.keys(item).forEach(key => { if (!columns.includes(key)) columns.push(key); }));
+  const rows = raw.map(item => {
+    const row: DataRow = {};
+    columns.forEach(column => {
+      const value = item[column];
+      row[column] = value === undefined || value === null ? '' : typeof value === 'object' ? JSON.stringify(value) : String(value);
+    });
+    return row;
+  });
+  return { name, columns, rows };
+};
+
+export const parseDataset = (name: string, text: string): MergeDataset => {
+  const dataset = /\.json$/i.test(name) || /^\s*\[/.test(text) ? datasetFromJson(name, text) : datasetFromCsv(name, text);
+  if (dataset.rows.length === 0) throw new Error('The dataset has no rows.');
+  return dataset;
+};
+
+// Placeholder names used across the layers, in order of first appearance
+export const findPlaceholders = (layers: TextLayer[]): string[] => {
+  const names: string[] = [];
+  layers.forEach(layer => {
+    for (const [, name] of layer.textOverlay.matchAll(PLACEHOLDER)) {
+      if (!names.includes(name)) names.push(name);
+    }
+  });
+  return names;
+};
+
+// Unknown placeholders are left as typed so they stay visible in the output
+export const fillTemplate = (template: string, row: DataRow, rowNumber: number) =>
+  template.replace(PLACEHOLDER, (match, name: string) => {
+    if (name in row) return row[name];
+    if (name === ROW_NUMBER_PLACEHOLDER) return String(rowNumber);
+    return match;
+  });
+
+export const mergeLayers = (layers: TextLayer[], row: DataRow, rowNumber: number): TextLayer[] =>
+  layers.map(layer => {
+    const textOverlay = fillTemplate(layer.textOverlay, row, rowNumber);
+    if (textOverlay === layer.textOverlay) return layer;
+
+    // Each filled placeholder takes the style of the run it was typed in; later ones first so
+    // earlier offsets stay valid
+    let textRuns = layer.textRuns;
+    const fills = Array.from(layer.textOverlay.matchAll(PLACEHOLDER), match => ({
+      at: match.index!,
+      removed: match[0].length,
+      inserted: fillTemplate(match[0], row, rowNumber).length
+    }));
+    fills.reverse().forEach(({ at, removed, inserted }) => { textRuns = shiftRuns(textRuns, at, removed, inserted); });
+    return { ...layer, textOverlay, textRuns };
+  });
+
+/**
+ * Builds a file name per row from the template, without extension. Names are made safe for ZIP
+ * archives and every file system, and repeats get a numeric suffix.
+ */
+export const buildFileNames = (template: string, rows: DataRow[]): string[] => {
+  const used = new Set<string>();
+  return rows.map((row, i) => {
+    const base = fillTemplate(template, row, i + 1)
+      .replace(PLACEHOLDER, '')
+      .replace(INVALID_FILE_NAME_CHARS, '-')
+      .replace(/\s+/g, ' ')
+      .trim()
+      .replace(/^\.+/, '') || `row-${i + 1}`;
+
+    let name = base;
+    for (let n = 2; used.has(name.toLowerCase()); n++) name = `${base}-${n}`;
+    used.add(name.toLowerCase());
+    return name;
+  });
+};
@@ -1,4 +1,4 @@
-import { DesignState, AppSettings, TextLayer } from '../types';
+import { DesignState, AppSettings, TextLayer, SettingsProfile } from '../types';
 
 export const INITIAL_LAYER_ID = 'layer-1';
 
@@ -9,6 +9,7 @@ export const createLayer = (id: string, text: string = 'EDIT ME'): TextLayer =>
   visible: true,
   locked: false,
   textOverlay: text,
+  textRuns: [],
   fontFamily: 'Inter',
   textColor: '#FFFFFF',
   shadowColor: '#000000',
@@ -16,12 +17,17 @@ export const createLayer = (id: string, text: string = 'EDIT ME'): TextLayer =>
   letterSpacing: 0,
   letterRotation: 0,
   textAlign: 'center',
+  direction: 'auto',
+  writingMode: 'horizontal',
+  textOrientation: 'mixed',
+  columnDirection: 'rtl',
   overlayPosition: { x: 50, y: 50 },
   blendMode: 'normal',
   opacity: 1,
   
   // Font Variations (Variable Fonts)
   fontVariations: {},
+  fontFeatures: {},
 
   pathPoints: [],
   pathSmoothing: 5,
@@ -56,7 +62,9 @@ export const createLayer = (id: string, text: string = 'EDIT ME'): TextLayer =>
   
   rotation: 360,
   flipX: false,
-  flipY: false
+  flipY: false,
+  keyframes: {},
+  templateSlot: 'locked'
 });
 
 // Initial State
@@ -68,7 +76,9 @@ export const DEFAULT_DESIGN: DesignState = {
   activeLayerId: INITIAL_LAYER_ID,
   selectedLayerIds: [INITIAL_LAYER_ID],
   backgroundType: 'image', // Default to image mode until Blank is clicked
-  backgroundColor: '#ffffff'
+  backgroundColor: '#ffffff',
+  animationDuration: 3,
+  template: null
 };
 
 export const DEFAULT_SETTINGS: AppSettings = {
@@ -79,5 +89,33 @@ export const DEFAULT_SETTINGS: AppSettings = {
   quality: 'Photorealistic, 8k, highly detailed',
   generationSystemPrompt: 'Cinematic lighting, negative space for text overlay, polished design aesthetic.',
   editingSystemPrompt: 'Maintain photorealism.',
-  showFontDebug: false
+  showFontDebug: false,
+  rememberApiKey: false
 };
+
+export const BUILT_IN_PROFILES: SettingsProfile[] = [
+  {
+    id: 'builtin-photoreal-4k',
+    name: 'Photoreal 4K',
+    builtIn: true,
+    settings: {
+      imageModel: 'gemini-3-pro-image-preview',
+      imageResolution: '4K',
+      quality: 'Photorealistic, 8k, highly detailed',
+      generationSystemPrompt: 'Cinematic lighting, negative space for text overlay, polished design aesthetic.',
+      editingSystemPrompt: 'Maintain photorealism.'
+    }
+  },
+  {
+    id: 'builtin-draft-1k',
+    name: 'Draft 1K',
+    builtIn: true,
+    settings: {
+      imageModel: 'gemini-2.5-flash-image',
+      imageResolution: '1K',
+      quality: 'High quality',
+      generationSystemPrompt: 'Negative space for text overlay.',
+      editingSystemPrompt: 'Keep the composition intact.'
+    }
+  }
+];
@@ -0,0 +1,68 @@
+import { hexToRgb } from './color';
+
+/**
+ * Time-driven variants of the glitch, echo and rainbow effects. Motions are periodic over the
+ * animation length so the last frame flows back into the first when the export loops.
+ */
+
+export interface EffectFrame {
+  time: number; // Seconds since the start of the animation
+  duration: number; // Total loop length in seconds
+}
+
+// How often the glitch offsets jump to a new position (per second)
+const GLITCH_RATE = 12;
+const ECHO_PERIOD = 2;
+const RAINBOW_PERIOD = 1.5;
+
+// Position within a motion of the given period, snapped to a whole number of cycles per loop
+const loopPhase = (frame: EffectFrame, period: number) => {
+  const cycles = Math.max(1, Math.round(frame.duration / period));
+  return ((frame.time / frame.duration) * cycles) % 1;
+};
+
+// Deterministic noise in [0, 1) so the same frame always renders the same way
+const noise = (n: number) => {
+  const x = Math.sin(n * 12.9898) * 43758.5453;
+  return x - Math.floor(x);
+};
+
+/**
+ * Glitch offset multiplier and angle nudge (degrees): a constant tremor with occasional large jumps.
+ */
+export const getGlitchJitter = (frame: EffectFrame) => {
+  const step = Math.floor(frame.time * GLITCH_RATE);
+  const isSpike = noise(step * 7.31) > 0.8;
+  const amount = noise(step + 0.5);
+  return {
+    offset: isSpike ? 1.5 + amount * 1.5 : 0.6 + amount * 0.6,
+    angle: (noise(step * 3.17) - 0.5) * (isSpike ? 60 : 12)
+  };
+};
+
+/**
+ * Echo trail length multiplier and angle sway (degrees).
+ */
+export const getEchoDrift = (frame: EffectFrame) => {
+  const phase = loopPhase(frame, ECHO_PERIOD) * Math.PI * 2;
+  return {
+    distance: 1 + Math.sin(phase) * 0.6,
+    angle: Math.sin(phase * 2) * 15
+  };
+};
+
+/**
+ * Rotates the rainbow palette by the frame's phase, blending neighbours for smooth cycling.
+ */
+export const cycleColors = (colors: string[], frame: EffectFrame): string[] => {
+  const shift = loopPhase(frame, RAINBOW_PERIOD) * colors.length;
+  const base = Math.floor(shift);
+  const t = shift - base;
+
+  return colors.map((_, i) => {
+    const a = hexToRgb(colors[(i + base) % colors.length]);
+    const b = hexToRgb(colors[(i + base + 1) % colors.length]);
+    const mix = (x: number, y: number) => Math.round(x + (y - x) * t);
+    return `rgb(${mix(a.r, b.r)}, ${mix(a.g, b.g)}, ${mix(a.b, b.b)})`;
+  });
+};
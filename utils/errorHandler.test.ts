@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { getFriendlyError } from './errorHandler';
+
+describe('getFriendlyError', () => {
+  it('maps our own prefixed errors before the API heuristics', () => {
+    expect(getFriendlyError(new Error('Invalid project file: failed to fetch the embedded image.'))).toEqual({
+      title: 'Could Not Open Project',
+      message: 'failed to fetch the embedded image.'
+    });
+    expect(getFriendlyError(new Error('Session unavailable: Internal storage was cleared.')).title).toBe('Could Not Restore Session');
+  });
+
+  it('maps settings profile errors', () => {
+    expect(getFriendlyError(new Error('Invalid settings profile: No profiles were found in the file.'))).toEqual({
+      title: 'Could Not Import Profiles',
+      message: 'No profiles were found in the file.'
+    });
+  });
+
+  it('still recognises network failures', () => {
+    expect(getFriendlyError(new Error('Failed to fetch')).title).toBe('Network Error');
+  });
+});
@@ -6,7 +6,17 @@ export const getFriendlyError = (error: any): { title: string; message: string }
     let message = 'Something went wrong. Please try again later.';
     const errorMsg = error?.message || JSON.stringify(error) || '';
 
-    if (errorMsg.includes('429') || errorMsg.includes('quota') || errorMsg.includes('RESOURCE_EXHAUSTED')) {
+    // Our own prefixed errors come first so words in their details don't match the API checks below
+    if (errorMsg.startsWith('Invalid project file: ')) {
+        title = 'Could Not Open Project';
+        message = errorMsg.replace('Invalid project file: ', '');
+    } else if (errorMsg.startsWith('Session unavailable: ')) {
+        title = 'Could Not Restore Session';
+        message = errorMsg.replace('Session unavailable: ', '');
+    } else if (errorMsg.startsWith('Invalid settings profile: ')) {
+        title = 'Could Not Import Profiles';
+        message = errorMsg.replace('Invalid settings profile: ', '');
+    } else if (errorMsg.includes('429') || errorMsg.includes('quota') || errorMsg.includes('RESOURCE_EXHAUSTED')) {
         title = 'Quota Limit Reached';
         message = 'You have exceeded the request limit for the API. Please wait a moment before trying again, or add your own API Key in Settings for higher limits.';
     } else if (errorMsg.includes('API_KEY') || errorMsg.includes('403') || errorMsg.includes('PERMISSION_DENIED')) {
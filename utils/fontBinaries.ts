@@ -0,0 +1,46 @@
+import { SfntFont, parseSfnt } from './sfnt';
+
+/**
+ * Registry of raw font files whose outlines can be embedded in exports (e.g. PDF).
+ * Uploaded fonts and the TTF files of the self-hosted catalog bundle are registered;
+ * files that can't be parsed (e.g. WOFF2) simply aren't eligible for vector output.
+ */
+
+interface RegisteredFont {
+  weight: number;
+  italic: boolean;
+  data: ArrayBuffer;
+  parsed?: Promise<SfntFont>;
+}
+
+const registry = new Map<string, RegisteredFont[]>();
+
+export const registerFontBinary = (family: string, data: ArrayBuffer, weight: number = 400, italic: boolean = false) => {
+  const entries = (registry.get(family) || []).filter(f => f.weight !== weight || f.italic !== italic);
+  entries.push({ weight, italic, data });
+  registry.set(family, entries);
+};
+
+export const unregisterFontBinaries = (family: string) => {
+  registry.delete(family);
+};
+
+/**
+ * Returns the parsed font closest to the requested weight and style, or null when the family
+ * has no registered binary or it cannot be parsed.
+ */
+export const getFontBinary = async (family: string, weight: number, italic: boolean): Promise<SfntFont | null> => {
+  const entries = registry.get(family);
+  if (!entries || entries.length === 0) return null;
+
+  const candidates = entries.some(e => e.italic === italic) ? entries.filter(e => e.italic === italic) : entries;
+  const best = candidates.reduce((a, b) => Math.abs(b.weight - weight) < Math.abs(a.weight - weight) ? b : a);
+
+  if (!best.parsed) best.parsed = parseSfnt(best.data);
+  try {
+    return await best.parsed;
+  } catch (e) {
+    console.warn(`Could not parse font binary for ${family}`, e);
+    return null;
+  }
+};
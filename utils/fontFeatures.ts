@@ -0,0 +1,78 @@
+import { FontFeature, OPENTYPE_FEATURES } from '../constants';
+import { SfntFont } from './sfnt';
+import { getFontBinary } from './fontBinaries';
+
+/**
+ * OpenType features read from font binaries (the GSUB and GPOS feature lists, plus stylistic set
+ * names from their feature params). Only features the font implements are offered for it; fonts
+ * without a readable binary offer the whole OPENTYPE_FEATURES list, marked as unverified.
+ */
+
+const discovered = new Map<string, FontFeature[]>();
+
+const tagAt = (bytes: Uint8Array, offset: number) =>
+  String.fromCharCode(bytes[offset], bytes[offset + 1], bytes[offset + 2], bytes[offset + 3]);
+
+// Feature tags of a GSUB or GPOS table with the absolute offset of each feature table
+const readFeatureList = (font: SfntFont, view: DataView, tableTag: 'GSUB' | 'GPOS'): Map<string, number> => {
+  const features = new Map<string, number>();
+  const table = font.tables.get(tableTag);
+  if (!table) return features;
+
+  const listOffset = table.offset + view.getUint16(table.offset + 6);
+  const count = view.getUint16(listOffset);
+  for (let i = 0; i < count; i++) {
+    const record = listOffset + 2 + i * 6;
+    features.set(tagAt(font.bytes, record), listOffset + view.getUint16(record + 4));
+  }
+  return features;
+};
+
+// Stylistic set params hold a name ID for the set, e.g. 'Single-storey a'
+const readStylisticSetName = (font: SfntFont, view: DataView, featureOffset: number) => {
+  const paramsOffset = view.getUint16(featureOffset);
+  if (paramsOffset === 0) return '';
+  return font.getName(view.getUint16(featureOffset + paramsOffset + 2));
+};
+
+/**
+ * Returns the offered features a parsed font implements, in OPENTYPE_FEATURES order.
+ */
+export const readFontFeatures = (font: SfntFont): FontFeature[] => {
+  const view = new DataView(font.bytes.buffer, font.bytes.byteOffset, font.bytes.byteLength);
+  const gsub = readFeatureList(font, view, 'GSUB');
+  const gpos = readFeatureList(font, view, 'GPOS');
+
+  return OPENTYPE_FEATURES
+    .filter(feature => gsub.has(feature.tag) || gpos.has(feature.tag))
+    .map(feature => {
+      const offset = gsub.get(feature.tag);
+      if (!feature.tag.startsWith('ss') || offset === undefined) return feature;
+      return { ...feature, name: readStylisticSetName(font, view, offset) || feature.name };
+    });
+};
+
+/**
+ * Reads the features from the family's registered binary, if any. Call after registering or
+ * replacing a font binary.
+ */
+export const discoverFontFeatures = async (family: string): Promise<FontFeature[] | null> => {
+  const font = await getFontBinary(family, 400, false);
+  if (!font) {
+    discovered.delete(family);
+    return null;
+  }
+  const features = readFontFeatures(font);
+  discovered.set(family, features);
+  return features;
+};
+
+export const forgetFontFeatures = (family: string) => {
+  discovered.delete(family);
+};
+
+export const getFontFeatures = (family: string): FontFeature[] =>
+  discovered.get(family) || OPENTYPE_FEATURES;
+
+// Whether the family's features were read from its binary rather than assumed
+export const hasVerifiedFeatures = (family: string) => discovered.has(family);
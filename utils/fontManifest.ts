@@ -0,0 +1,116 @@
+import { FontFaceSource, FontFamily, FontManifest, TextLayer } from '../types';
+import { FONT_SOURCES } from '../constants';
+import { constructCanvasFont } from './typography';
+import { getFontLayers } from './textRuns';
+
+/**
+ * Catalog font sources shared by the page, the render worker and the bundle script: the
+ * self-hosted bundle manifest, Google Fonts stylesheets as the online fallback, and the
+ * @font-face descriptors both turn into.
+ */
+
+export const FONT_MANIFEST_VERSION = 1;
+
+export const isCatalogFont = (family: string): family is FontFamily => family in FONT_SOURCES;
+
+// css2 request for several catalog families at once; a family's faces are split back out by name
+export const getGoogleFontsUrl = (families: string[]) => {
+  const params = families.map(family => {
+    const spec = FONT_SOURCES[family];
+    return `family=${family.replace(/ /g, '+')}${spec ? `:${spec}` : ''}`;
+  });
+  return `https://fonts.googleapis.com/css2?${params.join('&')}&display=swap`;
+};
+
+export interface FontSourceAxis {
+  tag: string;
+  min: number;
+  max: number;
+}
+
+// Axis ranges a family is requested and bundled with, read from its css2 spec (e.g.
+// 'ital,wght@0,100..900;1,100..900'). Axes pinned to single values can't be varied and are left out.
+export const getFontSourceAxes = (family: string): FontSourceAxis[] => {
+  const [tags, tuples] = (FONT_SOURCES[family] || '').split('@');
+  if (!tuples) return [];
+  const values = tuples.split(';')[0].split(',');
+  return tags.split(',').flatMap((tag, i) => {
+    const [min, max] = (values[i] || '').split('..').map(Number);
+    return max === undefined || isNaN(min) || isNaN(max) ? [] : [{ tag, min, max }];
+  });
+};
+
+const FONT_FACE_RULE = /@font-face\s*{([^}]*)}/g;
+
+const getDescriptor = (block: string, name: string) =>
+  block.match(new RegExp(`${name}\\s*:\\s*([^;]+);`))?.[1].trim();
+
+// Reads the @font-face rules of a stylesheet; src keeps the first url() of each rule
+export const parseFontFaceCss = (css: string): FontFaceSource[] => {
+  const faces: FontFaceSource[] = [];
+  for (const [, block] of css.matchAll(FONT_FACE_RULE)) {
+    const family = getDescriptor(block, 'font-family')?.replace(/['"]/g, '');
+    const src = getDescriptor(block, 'src')?.match(/url\(\s*['"]?([^'")]+)['"]?\s*\)/)?.[1];
+    if (!family || !src) continue;
+    faces.push({
+      family,
+      src,
+      weight: getDescriptor(block, 'font-weight'),
+      style: getDescriptor(block, 'font-style'),
+      stretch: getDescriptor(block, 'font-stretch'),
+      unicodeRange: getDescriptor(block, 'unicode-range')
+    });
+  }
+  return faces;
+};
+
+export const parseFontManifest = (data: unknown): FontManifest => {
+  const manifest = data as FontManifest;
+  if (!manifest || typeof manifest !== 'object' || !Array.isArray(manifest.faces)) {
+    throw new Error("Invalid font manifest: missing faces");
+  }
+  if (manifest.version > FONT_MANIFEST_VERSION) {
+    throw new Error(`Invalid font manifest: version ${manifest.version} is newer than this app supports`);
+  }
+  const invalid = manifest.faces.find(face => typeof face?.family !== 'string' || typeof face?.src !== 'string');
+  if (invalid) throw new Error("Invalid font manifest: every face needs a family and src");
+  return manifest;
+};
+
+// The file downloads only when the face is loaded, either explicitly or by text that uses it
+export const createFontFace = (face: FontFaceSource) =>
+  new FontFace(face.family, `url(${JSON.stringify(face.src)})`, {
+    weight: face.weight,
+    style: face.style,
+    stretch: face.stretch,
+    unicodeRange: face.unicodeRange
+  });
+
+export const getFontFaceCss = (face: FontFaceSource) =>
+  `@font-face { ${[
+    `font-family: '${face.family}'`,
+    `src: url('${face.src}')`,
+    face.weight && `font-weight: ${face.weight}`,
+    face.style && `font-style: ${face.style}`,
+    face.stretch && `font-stretch: ${face.stretch}`,
+    face.unicodeRange && `unicode-range: ${face.unicodeRange}`
+  ].filter(Boolean).join('; ')}; }`;
+
+// What a layer asks the font set for: its face descriptors and the characters it draws
+export const getLayerFontRequest = (layer: TextLayer) => ({
+  font: constructCanvasFont(layer, 16),
+  text: (layer.isUppercase ? layer.textOverlay.toUpperCase() : layer.textOverlay) || ' '
+});
+
+/**
+ * Loads the faces (and unicode-range subsets) each visible layer draws and returns the families
+ * whose files failed to load. Text no face covers is not a failure; it renders in a fallback font
+ * on the page as well.
+ */
+export const loadLayerFonts = async (fonts: FontFaceSet, layers: TextLayer[]): Promise<string[]> => {
+  const failed = await Promise.all(layers.filter(l => l.visible).flatMap(getFontLayers).map(layer => {
+    const { font, text } = getLayerFontRequest(layer);
+    return fonts.load(font, text).then(() => null, () => layer.fontFamily);
+  }));
+  return Array.from(new Set(failed.filter((family): family is string => family !== null)));
+};
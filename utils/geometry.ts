@@ -0,0 +1,46 @@
+import { Point } from '../types';
+
+// Helper: Iterative Weighted Moving Average for Smoothing
+export const getSmoothedPoints = (points: Point[], iterations: number): Point[] => {
+    if (points.length < 3 || iterations <= 0) return points;
+    
+    let currentPoints = [...points];
+    
+    // Apply smoothing iterations
+    for (let k = 0; k < iterations; k++) {
+        const nextPoints = [...currentPoints];
+        // Skip first and last point to anchor the ends
+        for (let i = 1; i < currentPoints.length - 1; i++) {
+            const prev = currentPoints[i - 1];
+            const curr = currentPoints[i];
+            const next = currentPoints[i + 1];
+
+            nextPoints[i] = {
+                x: prev.x * 0.15 + curr.x * 0.7 + next.x * 0.15,
+                y: prev.y * 0.15 + curr.y * 0.7 + next.y * 0.15
+            };
+        }
+        currentPoints = nextPoints;
+    }
+    return currentPoints;
+};
+
+// Helper: Get Bounds of a Path
+export const getPathBounds = (points: Point[]) => {
+    if (points.length === 0) return { x: 0, y: 0, width: 0, height: 0, cx: 0, cy: 0 };
+    let minX = Infinity, maxX = -Infinity, minY = Infinity, maxY = -Infinity;
+    points.forEach(p => {
+        if (p.x < minX) minX = p.x;
+        if (p.x > maxX) maxX = p.x;
+        if (p.y < minY) minY = p.y;
+        if (p.y > maxY) maxY = p.y;
+    });
+    return {
+        x: minX,
+        y: minY,
+        width: maxX - minX,
+        height: maxY - minY,
+        cx: (minX + maxX) / 2,
+        cy: (minY + maxY) / 2
+    };
+};
@@ -0,0 +1,219 @@
+/**
+ * Minimal animated GIF (89a) encoder. Each frame gets its own 256-colour palette from a
+ * median-cut quantizer and is LZW compressed.
+ */
+
+const MAX_COLORS = 256;
+const MAX_CODE = 4095;
+
+// Growable byte buffer
+const createByteWriter = () => {
+  let buffer = new Uint8Array(64 * 1024);
+  let length = 0;
+
+  const ensure = (size: number) => {
+    if (length + size <= buffer.length) return;
+    let next = buffer.length * 2;
+    while (next < length + size) next *= 2;
+    const grown = new Uint8Array(next);
+    grown.set(buffer.subarray(0, length));
+    buffer = grown;
+  };
+
+  return {
+    byte: (v: number) => { ensure(1); buffer[length++] = v & 0xff; },
+    u16: (v: number) => { ensure(2); buffer[length++] = v & 0xff; buffer[length++] = (v >> 8) & 0xff; },
+    bytes: (data: ArrayLike<number>) => { ensure(data.length); buffer.set(data, length); length += data.length; },
+    ascii: (text: string) => { ensure(text.length); for (let i = 0; i < text.length; i++) buffer[length++] = text.charCodeAt(i); },
+    toBytes: () => buffer.slice(0, length)
+  };
+};
+
+type ByteWriter = ReturnType<typeof createByteWriter>;
+
+// 15-bit colour key (5 bits per channel)
+const colorKey = (r: number, g: number, b: number) => ((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3);
+
+/**
+ * Median cut over a 5-bit-per-channel histogram. Returns the palette and the palette index of
+ * every pixel.
+ */
+const quantize = (data: Uint8ClampedArray) => {
+  const histogram = new Uint32Array(32768);
+  for (let i = 0; i < data.length; i += 4) histogram[colorKey(data[i], data[i + 1], data[i + 2])]++;
+
+  const keys: number[] = [];
+  for (let k = 0; k < histogram.length; k++) if (histogram[k] > 0) keys.push(k);
+
+  const channel = (key: number, c: number) => (key >> (10 - c * 5)) & 31;
+  const boxes: number[][] = [keys];
+
+  while (boxes.length < MAX_COLORS) {
+    // Split the most populated box that still spans more than one colour
+    let target = -1;
+    let targetCount = 0;
+    boxes.forEach((box, i) => {
+      if (box.length < 2) return;
+      const count = box.reduce((sum, k) => sum + histogram[k], 0);
+      if (count > targetCount) { target = i; targetCount = count; }
+    });
+    if (target < 0) break;
+
+    const box = boxes[target];
+    const ranges = [0, 1, 2].map(c => {
+      let min = 31, max = 0;
+      box.forEach(k => { const v = channel(k, c); if (v < min) min = v; if (v > max) max = v; });
+      return max - min;
+    });
+    const axis = ranges.indexOf(Math.max(...ranges));
+    box.sort((a, b) => channel(a, axis) - channel(b, axis));
+
+    let half = targetCount / 2;
+    let split = 1;
+    for (let i = 0; i < box.length - 1; i++) {
+      half -= histogram[box[i]];
+      if (half <= 0) { split = i + 1; break; }
+    }
+    boxes.splice(target, 1, box.slice(0, split), box.slice(split));
+  }
+
+  const palette = new Uint8Array(MAX_COLORS * 3);
+  const lookup = new Uint8Array(32768);
+  boxes.forEach((box, i) => {
+    let r = 0, g = 0, b = 0, count = 0;
+    box.forEach(k => {
+      const n = histogram[k];
+      r += channel(k, 0) * n; g += channel(k, 1) * n; b += channel(k, 2) * n;
+      count += n;
+      lookup[k] = i;
+    });
+    // Expand 5-bit averages back to 8 bits
+    palette[i * 3] = Math.round((r / count) * 255 / 31);
+    palette[i * 3 + 1] = Math.round((g / count) * 255 / 31);
+    palette[i * 3 + 2] = Math.round((b / count) * 255 / 31);
+  });
+
+  const indices = new Uint8Array(data.length / 4);
+  for (let i = 0, p = 0; i < data.length; i += 4, p++) indices[p] = lookup[colorKey(data[i], data[i + 1], data[i + 2])];
+
+  return { palette, indices };
+};
+
+// Variable-width LZW as specified for GIF image data, written in 255-byte sub-blocks
+const writeLzw = (w: ByteWriter, indices: Uint8Array, minCodeSize: number) => {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+
+  const block: number[] = [];
+  let bitBuffer = 0;
+  let bitCount = 0;
+
+  const flushBlock = () => {
+    if (block.length === 0) return;
+    w.byte(block.length);
+    w.bytes(block);
+    block.length = 0;
+  };
+
+  let codeSize = minCodeSize + 1;
+  const emit = (code: number) => {
+    bitBuffer |= code << bitCount;
+    bitCount += codeSize;
+    while (bitCount >= 8) {
+      block.push(bitBuffer & 0xff);
+      bitBuffer >>= 8;
+      bitCount -= 8;
+      if (block.length === 255) flushBlock();
+    }
+  };
+
+  let dictionary = new Map<number, number>();
+  let nextCode = endCode + 1;
+
+  w.byte(minCodeSize);
+  emit(clearCode);
+
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const k = indices[i];
+    const key = (prefix << 8) | k;
+    const existing = dictionary.get(key);
+    if (existing !== undefined) {
+      prefix = existing;
+      continue;
+    }
+
+    emit(prefix);
+    if (nextCode <= MAX_CODE) {
+      dictionary.set(key, nextCode++);
+      // Widen once the last emitted code size can no longer address the next code
+      if (nextCode > (1 << codeSize) && codeSize < 12) codeSize++;
+    } else {
+      emit(clearCode);
+      dictionary = new Map();
+      nextCode = endCode + 1;
+      codeSize = minCodeSize + 1;
+    }
+    prefix = k;
+  }
+
+  emit(prefix);
+  emit(endCode);
+  if (bitCount > 0) {
+    block.push(bitBuffer & 0xff);
+    if (block.length === 255) flushBlock();
+  }
+  flushBlock();
+  w.byte(0); // Block terminator
+};
+
+/**
+ * Creates an encoder for frames of the given size. `loop` repeats the animation forever;
+ * otherwise it plays once.
+ */
+export const createGifEncoder = (width: number, height: number, loop: boolean) => {
+  const w = createByteWriter();
+
+  w.ascii('GIF89a');
+  w.u16(width);
+  w.u16(height);
+  w.byte(0); // No global colour table
+  w.byte(0); // Background colour index
+  w.byte(0); // Pixel aspect ratio
+
+  if (loop) {
+    // NETSCAPE2.0 application extension with loop count 0 (infinite)
+    w.bytes([0x21, 0xff, 0x0b]);
+    w.ascii('NETSCAPE2.0');
+    w.bytes([0x03, 0x01]);
+    w.u16(0);
+    w.byte(0);
+  }
+
+  return {
+    addFrame: (imageData: ImageData, delayMs: number) => {
+      const { palette, indices } = quantize(imageData.data);
+
+      // Graphic control extension: no transparency, frame delay in hundredths of a second
+      w.bytes([0x21, 0xf9, 0x04, 0x00]);
+      w.u16(Math.max(2, Math.round(delayMs / 10)));
+      w.bytes([0x00, 0x00]);
+
+      // Image descriptor with a 256-entry local colour table
+      w.byte(0x2c);
+      w.u16(0);
+      w.u16(0);
+      w.u16(width);
+      w.u16(height);
+      w.byte(0x80 | 7);
+      w.bytes(palette);
+
+      writeLzw(w, indices, 8);
+    },
+
+    finish: (): Blob => {
+      w.byte(0x3b);
+      return new Blob([w.toBytes()], { type: 'image/gif' });
+    }
+  };
+};
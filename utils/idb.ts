@@ -0,0 +1,71 @@
+/**
+ * Minimal promise wrappers around IndexedDB. Every store uses out-of-line keys
+ * so records can be plain objects without an embedded key path.
+ */
+
+const DB_NAME = 'textrot-studio';
+const DB_VERSION = 2;
+
+export const STORES = {
+  SESSIONS: 'sessions',
+  RECENTS: 'recents',
+  FONTS: 'fonts'
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const isIndexedDbAvailable = () => typeof indexedDB !== 'undefined';
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (!isIndexedDbAvailable()) {
+      reject(new Error('IndexedDB is not available in this browser.'));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      Object.values(STORES).forEach(name => {
+        if (!db.objectStoreNames.contains(name)) db.createObjectStore(name);
+      });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+
+  return dbPromise;
+};
+
+export const idbGet = async <T>(store: StoreName, key: string): Promise<T | undefined> => {
+  const db = await openDatabase();
+  return requestToPromise(db.transaction(store, 'readonly').objectStore(store).get(key));
+};
+
+export const idbGetAll = async <T>(store: StoreName): Promise<T[]> => {
+  const db = await openDatabase();
+  return requestToPromise(db.transaction(store, 'readonly').objectStore(store).getAll());
+};
+
+export const idbPut = async <T>(store: StoreName, key: string, value: T): Promise<void> => {
+  const db = await openDatabase();
+  await requestToPromise(db.transaction(store, 'readwrite').objectStore(store).put(value, key));
+};
+
+export const idbDelete = async (store: StoreName, key: string): Promise<void> => {
+  const db = await openDatabase();
+  await requestToPromise(db.transaction(store, 'readwrite').objectStore(store).delete(key));
+};
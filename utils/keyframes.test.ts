@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { EasingCurve, Keyframe, TextLayer } from '../types';
+import { createLayer } from './defaults';
+import { interpolateTrack, resolveLayersAtTime, upsertKeyframe } from './keyframes';
+
+const track = (easing: EasingCurve, ...points: [number, number][]): Keyframe[] =>
+  points.map(([time, value]) => ({ time, value, easing }));
+
+const animated = (keyframes: Record<string, Keyframe[]>): TextLayer => ({ ...createLayer('a', 'AB'), keyframes });
+
+describe('interpolateTrack', () => {
+  it('interpolates linearly between keyframes', () => {
+    const linear = track('linear', [0, 0], [2, 100], [4, 50]);
+    expect(interpolateTrack(linear, 1)).toBe(50);
+    expect(interpolateTrack(linear, 2)).toBe(100);
+    expect(interpolateTrack(linear, 3)).toBe(75);
+  });
+
+  it('shapes the segment with the easing of the keyframe it starts from', () => {
+    expect(interpolateTrack(track('ease-in', [0, 0], [1, 100]), 0.5)).toBe(12.5);
+    expect(interpolateTrack(track('ease-out', [0, 0], [1, 100]), 0.5)).toBe(87.5);
+    expect(interpolateTrack(track('ease-in-out', [0, 0], [1, 100]), 0.25)).toBe(6.25);
+    expect(interpolateTrack([{ time: 0, value: 0, easing: 'linear' }, { time: 1, value: 100, easing: 'ease-in' }], 0.5)).toBe(50);
+  });
+
+  it('holds the first and last values outside the track', () => {
+    const linear = track('linear', [1, 10], [2, 20]);
+    expect(interpolateTrack(linear, 0)).toBe(10);
+    expect(interpolateTrack(linear, -5)).toBe(10);
+    expect(interpolateTrack(linear, 3)).toBe(20);
+    expect(interpolateTrack(track('linear', [1, 42]), 10)).toBe(42);
+  });
+
+  it('steps to the next value at its keyframe when holding', () => {
+    const hold = track('hold', [0, 0], [1, 100], [2, 50]);
+    expect(interpolateTrack(hold, 0.99)).toBe(0);
+    expect(interpolateTrack(hold, 1)).toBe(100);
+    expect(interpolateTrack(hold, 1.5)).toBe(100);
+    expect(interpolateTrack(hold, 2)).toBe(50);
+  });
+});
+
+describe('resolveLayersAtTime', () => {
+  it('sets every animated property, including nested and axis paths', () => {
+    const layer = animated({
+      'rotation': track('linear', [0, 0], [1, 90]),
+      'overlayPosition.x': track('linear', [0, 20], [1, 40]),
+      'fontVariations.wght': track('linear', [0, 100], [1, 900])
+    });
+    const [resolved] = resolveLayersAtTime([layer], 0.5);
+    expect(resolved.rotation).toBe(45);
+    expect(resolved.overlayPosition).toEqual({ x: 30, y: layer.overlayPosition.y });
+    expect(resolved.fontVariations.wght).toBe(500);
+    // Tracks stay on the layer so it can be resolved again
+    expect(resolved.keyframes).toBe(layer.keyframes);
+  });
+
+  it('leaves properties without keyframes at their own values', () => {
+    const layer = { ...animated({ 'opacity': [] }), opacity: 0.7 };
+    expect(resolveLayersAtTime([layer], 5)[0]).toEqual(layer);
+  });
+});
+
+describe('upsertKeyframe', () => {
+  it('keeps the track sorted and replaces a keyframe at the same time', () => {
+    let keys = upsertKeyframe([], 2, 20, 'linear');
+    keys = upsertKeyframe(keys, 1, 10);
+    keys = upsertKeyframe(keys, 2, 25);
+    expect(keys).toEqual([
+      { time: 1, value: 10, easing: 'ease-in-out' },
+      { time: 2, value: 25, easing: 'linear' }
+    ]);
+  });
+});
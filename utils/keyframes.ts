@@ -0,0 +1,141 @@
+import { EasingCurve, Keyframe, TextLayer } from '../types';
+import { getVariableFontConfig } from './variableFonts';
+
+/**
+ * Keyframe animation of numeric TextLayer properties. Tracks live on the layer keyed by property
+ * path; the layer's own value is only used while a property has no track.
+ */
+
+export interface AnimatableProperty {
+  key: string;
+  label: string;
+  step: number;
+}
+
+const FIXED_PROPERTIES = [
+  { key: 'overlayPosition.x', label: 'Position X', step: 0.1 },
+  { key: 'overlayPosition.y', label: 'Position Y', step: 0.1 },
+  { key: 'rotation', label: 'Rotation', step: 1 },
+  { key: 'textSize', label: 'Size', step: 0.1 },
+  { key: 'opacity', label: 'Opacity', step: 0.01 },
+  { key: 'letterSpacing', label: 'Spacing', step: 0.1 },
+  { key: 'effectIntensity', label: 'Effect Intensity', step: 1 }
+] as const satisfies readonly AnimatableProperty[];
+
+export const ANIMATABLE_PROPERTIES: AnimatableProperty[] = [...FIXED_PROPERTIES];
+
+// The fixed properties that are plain numeric fields of the layer, as opposed to nested paths
+type AnimatableLayerKey = Extract<typeof FIXED_PROPERTIES[number]['key'], keyof TextLayer>;
+
+const isAnimatableLayerKey = (key: string): key is AnimatableLayerKey =>
+  !key.includes('.') && FIXED_PROPERTIES.some(p => p.key === key);
+
+const AXIS_PREFIX = 'fontVariations.';
+
+export const EASING_CURVES: Record<EasingCurve, { label: string; fn: (t: number) => number }> = {
+  'linear': { label: 'Linear', fn: (t) => t },
+  'ease-in': { label: 'Ease In', fn: (t) => t * t * t },
+  'ease-out': { label: 'Ease Out', fn: (t) => 1 - Math.pow(1 - t, 3) },
+  'ease-in-out': { label: 'Ease In-Out', fn: (t) => t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2 },
+  'hold': { label: 'Hold', fn: () => 0 }
+};
+
+// Properties the layer can animate: the fixed set plus the variable axes of its font
+export const getAnimatableProperties = (layer: TextLayer): AnimatableProperty[] => [
+  ...ANIMATABLE_PROPERTIES,
+  ...(getVariableFontConfig(layer.fontFamily)?.axes || [])
+    .filter(axis => axis.inputType !== 'toggle')
+    .map(axis => ({ key: `${AXIS_PREFIX}${axis.tag}`, label: axis.name, step: axis.step }))
+];
+
+export const getPropertyLabel = (layer: TextLayer, key: string) =>
+  getAnimatableProperties(layer).find(p => p.key === key)?.label || key;
+
+export const getPropertyValue = (layer: TextLayer, key: string): number => {
+  if (key.startsWith(AXIS_PREFIX)) {
+    const tag = key.slice(AXIS_PREFIX.length);
+    const axis = getVariableFontConfig(layer.fontFamily)?.axes.find(a => a.tag === tag);
+    return layer.fontVariations[tag] ?? axis?.defaultValue ?? 0;
+  }
+  if (key === 'overlayPosition.x') return layer.overlayPosition.x;
+  if (key === 'overlayPosition.y') return layer.overlayPosition.y;
+  return isAnimatableLayerKey(key) ? layer[key] : 0;
+};
+
+export const setPropertyValue = (layer: TextLayer, key: string, value: number): TextLayer => {
+  if (key.startsWith(AXIS_PREFIX)) {
+    return { ...layer, fontVariations: { ...layer.fontVariations, [key.slice(AXIS_PREFIX.length)]: value } };
+  }
+  if (key === 'overlayPosition.x') return { ...layer, overlayPosition: { ...layer.overlayPosition, x: value } };
+  if (key === 'overlayPosition.y') return { ...layer, overlayPosition: { ...layer.overlayPosition, y: value } };
+  return { ...layer, [key]: value };
+};
+
+export const cloneKeyframes = (tracks: Record<string, Keyframe[]>): Record<string, Keyframe[]> => {
+  const copy: Record<string, Keyframe[]> = {};
+  for (const key in tracks) copy[key] = tracks[key].map(k => ({ ...k }));
+  return copy;
+};
+
+export const hasKeyframes = (layers: TextLayer[]) =>
+  layers.some(l => Object.values(l.keyframes || {}).some(track => track.length > 0));
+
+export const interpolateTrack = (track: Keyframe[], time: number): number => {
+  if (track.length === 1 || time <= track[0].time) return track[0].value;
+  const last = track[track.length - 1];
+  if (time >= last.time) return last.value;
+
+  const i = track.findIndex((k, idx) => idx < track.length - 1 && time >= k.time && time < track[idx + 1].time);
+  const from = track[i];
+  const to = track[i + 1];
+  const t = (time - from.time) / (to.time - from.time);
+  return from.value + (to.value - from.value) * EASING_CURVES[from.easing].fn(t);
+};
+
+/**
+ * Evaluates every track at the given time. The returned layer keeps its tracks so it can be
+ * resolved again (e.g. per video frame).
+ */
+export const resolveLayerAtTime = (layer: TextLayer, time: number): TextLayer => {
+  let resolved = layer;
+  for (const key in layer.keyframes) {
+    const track = layer.keyframes[key];
+    if (track.length > 0) resolved = setPropertyValue(resolved, key, interpolateTrack(track, time));
+  }
+  return resolved;
+};
+
+export const resolveLayersAtTime = (layers: TextLayer[], time: number) =>
+  layers.map(layer => resolveLayerAtTime(layer, time));
+
+// Adds or replaces the keyframe at `time`, keeping the track sorted
+export const upsertKeyframe = (track: Keyframe[] = [], time: number, value: number, easing?: EasingCurve): Keyframe[] => {
+  const existing = track.find(k => Math.abs(k.time - time) < 1e-3);
+  const next = track.filter(k => k !== existing);
+  next.push({ time, value, easing: easing || existing?.easing || 'ease-in-out' });
+  return next.sort((a, b) => a.time - b.time);
+};
+
+/**
+ * Reconciles edits made against the layers shown at `time` with the stored layers: a changed value on
+ * an animated property becomes a keyframe at `time` and the stored base value is kept, so scrubbing
+ * away and back shows the edit only where it was keyed.
+ */
+export const recordKeyframeEdits = (base: TextLayer[], edited: TextLayer[], time: number): TextLayer[] =>
+  edited.map(layer => {
+    const original = base.find(l => l.id === layer.id);
+    if (!original) return layer;
+    const shown = resolveLayerAtTime(original, time);
+
+    let result = layer;
+    const keyframes = { ...layer.keyframes };
+    for (const key in keyframes) {
+      if (keyframes[key].length === 0) continue;
+      const value = getPropertyValue(layer, key);
+      if (Math.abs(value - getPropertyValue(shown, key)) > 1e-9) {
+        keyframes[key] = upsertKeyframe(keyframes[key], time, value);
+      }
+      result = setPropertyValue(result, key, getPropertyValue(original, key));
+    }
+    return { ...result, keyframes };
+  });
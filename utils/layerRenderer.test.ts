@@ -0,0 +1,126 @@
+import { describe, expect, it } from 'vitest';
+import { RenderContext2D, TextLayer } from '../types';
+import { createLayer } from './defaults';
+import { compositeLayers, drawScene } from './layerRenderer';
+
+interface DrawCall {
+  name: string;
+  args: unknown[];
+  alpha: number;
+  composite: string;
+}
+
+// A 2D context that records its drawing calls along with the alpha and blend mode they use.
+// Glyphs are half an em wide, as in the layout tests.
+const createRecordingContext = (width = 1000, height = 500) => {
+  const calls: DrawCall[] = [];
+  const saved: { globalAlpha: number; globalCompositeOperation: string }[] = [];
+  const record = (name: string) => (...args: unknown[]) => {
+    calls.push({ name, args, alpha: ctx.globalAlpha, composite: ctx.globalCompositeOperation });
+  };
+  const ctx = {
+    canvas: { width, height },
+    font: '',
+    fillStyle: '',
+    globalAlpha: 1,
+    globalCompositeOperation: 'source-over',
+    save: () => saved.push({ globalAlpha: ctx.globalAlpha, globalCompositeOperation: ctx.globalCompositeOperation }),
+    restore: () => Object.assign(ctx, saved.pop()),
+    measureText: (text: string) => {
+      const size = parseFloat(ctx.font.split(' ').find(part => part.endsWith('px')) || '10');
+      const width = Array.from(text).length * size * 0.5;
+      return { width, actualBoundingBoxLeft: 0, actualBoundingBoxRight: width, fontBoundingBoxAscent: size * 0.8, fontBoundingBoxDescent: size * 0.2 } as TextMetrics;
+    },
+    createLinearGradient: () => ({ addColorStop: () => {} }),
+    clearRect: record('clearRect'),
+    fillRect: record('fillRect'),
+    drawImage: record('drawImage'),
+    fillText: record('fillText'),
+    strokeText: record('strokeText'),
+    translate: () => {},
+    rotate: () => {},
+    scale: () => {}
+  };
+  return { ctx: ctx as unknown as RenderContext2D, calls };
+};
+
+const makeLayer = (id: string, text: string, changes: Partial<TextLayer> = {}): TextLayer => ({
+  ...createLayer(id, text),
+  letterSpacing: 0,
+  letterRotation: 0,
+  isUppercase: false,
+  ...changes
+});
+
+const drawnText = (calls: DrawCall[]) => calls.filter(c => c.name === 'fillText').map(c => c.args[0]);
+
+describe('drawScene', () => {
+  const background = {} as CanvasImageSource;
+
+  it('fills solid backgrounds before stretching the image over them', () => {
+    const { ctx, calls } = createRecordingContext();
+    const { ctx: scratch } = createRecordingContext();
+    drawScene(ctx, scratch, { background, backgroundType: 'solid', backgroundColor: '#ff0000', layers: [] });
+    expect(calls.map(c => [c.name, ...c.args])).toEqual([
+      ['clearRect', 0, 0, 1000, 500],
+      ['fillRect', 0, 0, 1000, 500],
+      ['drawImage', background, 0, 0, 1000, 500]
+    ]);
+    expect(ctx.fillStyle).toBe('#ff0000');
+  });
+
+  it('draws text only on transparency without a background', () => {
+    const { ctx, calls } = createRecordingContext();
+    const { ctx: scratch, calls: scratchCalls } = createRecordingContext();
+    drawScene(ctx, scratch, { background: null, backgroundType: 'image', backgroundColor: '#000000', layers: [makeLayer('a', 'AB')] });
+    expect(calls.map(c => c.name)).toEqual(['clearRect', 'drawImage']);
+    expect(calls[1].args[0]).toBe(scratch.canvas);
+    expect(drawnText(scratchCalls)).toContain('AB');
+  });
+});
+
+describe('compositeLayers', () => {
+  it('composites each visible layer with its opacity and blend mode', () => {
+    const { ctx, calls } = createRecordingContext();
+    const { ctx: scratch, calls: scratchCalls } = createRecordingContext();
+    const layers = [
+      makeLayer('a', 'AB', { opacity: 0.5, blendMode: 'multiply' }),
+      makeLayer('b', 'CD', { visible: false }),
+      makeLayer('c', 'EF')
+    ];
+    compositeLayers(ctx, scratch, layers);
+
+    expect(calls.map(c => [c.name, c.alpha, c.composite])).toEqual([
+      ['drawImage', 0.5, 'multiply'],
+      ['drawImage', 1, 'source-over']
+    ]);
+    expect(drawnText(scratchCalls)).not.toContain('CD');
+    // The target's state is restored after each layer
+    expect([ctx.globalAlpha, ctx.globalCompositeOperation]).toEqual([1, 'source-over']);
+  });
+
+  it('clears the scratch canvas before every layer', () => {
+    const { ctx } = createRecordingContext();
+    const { ctx: scratch, calls: scratchCalls } = createRecordingContext();
+    compositeLayers(ctx, scratch, [makeLayer('a', 'AB'), makeLayer('b', 'CD')]);
+    const clears = scratchCalls.flatMap((c, i) => c.name === 'clearRect' ? [i] : []);
+    const firstText = scratchCalls.findIndex(c => c.name === 'fillText' && c.args[0] === 'AB');
+    const secondText = scratchCalls.findIndex(c => c.name === 'fillText' && c.args[0] === 'CD');
+    expect(clears).toHaveLength(2);
+    expect(clears[0]).toBeLessThan(firstText);
+    expect(clears[1]).toBeGreaterThan(firstText);
+    expect(clears[1]).toBeLessThan(secondText);
+  });
+
+  it('skips layers whose passes are none and reports progress for every layer', () => {
+    const { ctx, calls } = createRecordingContext();
+    const { ctx: scratch } = createRecordingContext();
+    const progress: number[][] = [];
+    compositeLayers(ctx, scratch, [makeLayer('a', 'AB'), makeLayer('b', 'CD')], {
+      layerPasses: layer => layer.id === 'a' ? 'none' : 'all',
+      onLayerDrawn: (index, total) => progress.push([index, total])
+    });
+    expect(calls.filter(c => c.name === 'drawImage')).toHaveLength(1);
+    expect(progress).toEqual([[1, 2], [2, 2]]);
+  });
+});
@@ -0,0 +1,318 @@
+import { RenderContext2D, TextLayer, TextRunStyle } from '../types';
+import { BLEND_MODE_COMPOSITE_OPS } from '../constants';
+import { hexToRgba } from './color';
+import { EffectFrame, getGlitchJitter, getEchoDrift, cycleColors } from './effectAnimation';
+import { calculateStandardLayout, calculatePathLayout, GlyphPlacement, getRunFont } from './textLayout';
+import { constructCanvasFont, getFontFeatureSettings, getFontVariationSettings, isShadowSupported } from './typography';
+import { getRunLayer } from './textRuns';
+
+/**
+ * Native canvas renderer for text layers. Pure functions of a TextLayer, a 2D context and the output
+ * size: nothing here touches React, the document or component state, so the editor, main-thread
+ * exports, the render worker and headless tools all draw with the same code. Any context with the
+ * CanvasRenderingContext2D API works (HTMLCanvasElement, OffscreenCanvas or a Node canvas).
+ */
+
+export { calculateStandardLayout, calculatePathLayout, measureTextLayout } from './textLayout';
+export type { GlyphPlacement } from './textLayout';
+export { constructCanvasFont, getFontVariationSettings } from './typography';
+
+export type LayerPasses = 'all' | 'effects' | 'none';
+
+// 'effects' draws everything except the main text pass (used when the main text is emitted as vector glyphs).
+// Passing a frame renders the animated variant of the glitch, echo and rainbow effects.
+export const drawLayerToCtx = (ctx: RenderContext2D, layer: TextLayer, width: number, height: number, passes: 'all' | 'effects' = 'all', frame?: EffectFrame) => {
+    const fontSizePx = (layer.textSize / 100) * width;
+    
+    // CRITICAL: Apply font variations and OpenType features to the canvas context directly via the canvas element style.
+    // OffscreenCanvas has no style; there only the axes carried by the font string apply.
+    if (ctx.canvas && 'style' in ctx.canvas) {
+        ctx.canvas.style.fontVariationSettings = getFontVariationSettings(layer);
+        ctx.canvas.style.fontFeatureSettings = getFontFeatureSettings(layer);
+        ctx.canvas.style.letterSpacing = '0px'; 
+    }
+
+    ctx.font = constructCanvasFont(layer, fontSizePx);
+    ctx.textBaseline = 'middle'; // Center in the glyph box for rotation
+    ctx.textAlign = 'center'; 
+
+    const isPath = layer.pathPoints.length > 0;
+    
+    // 1. Calculate Layout (Chars with positions)
+    const layout = isPath 
+        ? calculatePathLayout(ctx, layer, fontSizePx)
+        : calculateStandardLayout(ctx, layer, fontSizePx);
+    
+    if (!layout || layout.length === 0) return;
+
+    // Glyphs in styled runs switch to the run's font inside their own save/restore. A run's weight
+    // also replaces the layer's wght axis, which only reaches the canvas through its element style.
+    const layerVariations = getFontVariationSettings(layer);
+    let canvasVariations = layerVariations;
+    const runFonts = new Map<TextRunStyle, { font: string; variations: string }>();
+    const applyRunFont = (item: GlyphPlacement) => {
+        if (item.style && !runFonts.has(item.style)) {
+            runFonts.set(item.style, { font: getRunFont(layer, item.style, fontSizePx), variations: getFontVariationSettings(getRunLayer(layer, item.style)) });
+        }
+        const run = item.style ? runFonts.get(item.style)! : null;
+        if (run) ctx.font = run.font;
+        const variations = run ? run.variations : layerVariations;
+        if (variations !== canvasVariations && ctx.canvas && 'style' in ctx.canvas) {
+            ctx.canvas.style.fontVariationSettings = canvasVariations = variations;
+        }
+    };
+
+    // Helper to draw the set of characters
+    const renderPass = (
+        color: string | CanvasGradient, 
+        offsetX: number, 
+        offsetY: number, 
+        blurPx: number, 
+        opacity: number, 
+        compositeOp: GlobalCompositeOperation, 
+        mode: 'standard' | 'shadow-only' | 'outline-only' | 'fill-only',
+        forceSolid: boolean = false,
+        useRunColors: boolean = false // Only the main text takes the colours of styled runs
+    ) => {
+        ctx.save();
+        
+        // Transform for Standard Layout (Rotate/Position Layer)
+        if (!isPath) {
+            const cx = (layer.overlayPosition.x / 100) * width;
+            const cy = (layer.overlayPosition.y / 100) * height;
+            ctx.translate(cx, cy);
+            ctx.rotate(layer.rotation * Math.PI / 180);
+            ctx.scale(layer.flipX ? -1 : 1, layer.flipY ? -1 : 1);
+        }
+
+        ctx.globalAlpha = opacity * layer.opacity;
+        ctx.globalCompositeOperation = compositeOp;
+
+        // --- SHADOW PASS ---
+        if (mode === 'shadow-only') {
+             const angleRad = (layer.shadowAngle * Math.PI) / 180;
+             const dist = (layer.shadowOffset / 100) * fontSizePx;
+             
+             const sX = dist * Math.cos(angleRad);
+             const sY = dist * Math.sin(angleRad);
+
+             // Restore multiplier to 0.5 to match CSS text-shadow visual blur strength
+             const shadowBlurPx = (layer.shadowBlur / 100) * fontSizePx * 0.5;
+
+             // FIX: Use native Canvas shadow properties instead of filter for robust export.
+             // We use the "offscreen casting" technique: draw the text far off-canvas,
+             // and use a large shadow offset to cast the shadow back onto the visible area.
+             // This ensures only the shadow is visible, and blurring is handled natively by the engine.
+             
+             const OFFSCREEN_OFFSET = 100000; 
+
+             ctx.shadowColor = hexToRgba(layer.shadowColor, layer.shadowOpacity ?? 1);
+             ctx.shadowBlur = shadowBlurPx;
+             ctx.shadowOffsetX = OFFSCREEN_OFFSET + sX;
+             ctx.shadowOffsetY = sY;
+             ctx.fillStyle = "#000000"; // Dummy color for the offscreen text (must be opaque to cast shadow)
+
+             layout.forEach(item => {
+                 ctx.save();
+                 // Move text offscreen to the left (relative to its own rotation frame)
+                 ctx.translate(item.x + offsetX - OFFSCREEN_OFFSET, item.y + offsetY);
+                 ctx.rotate(item.r * Math.PI / 180);
+                 ctx.direction = item.rtl ? 'rtl' : 'ltr';
+                 applyRunFont(item);
+                 // No need to translate sX, sY here as it's handled by shadowOffset relative to the draw origin
+                 ctx.fillText(item.char, 0, 0);
+                 ctx.restore();
+             });
+             
+             ctx.restore();
+             return;
+        }
+
+        // --- STANDARD PASSES ---
+        if (blurPx > 0) ctx.filter = `blur(${blurPx}px)`;
+
+        // Setup Fill Style
+        let fillStyle: string | CanvasGradient = 'transparent';
+        if (layer.specialEffect === 'gradient' && !layer.isHollow && typeof color === 'string') {
+             // ADJUSTMENT: Subtract 90 degrees to align Canvas gradient angle (0=Right) with CSS linear-gradient (0=Up)
+             const angleRad = ((layer.effectAngle - 90) * Math.PI) / 180;
+             const range = fontSizePx * 5; 
+             const x1 = Math.cos(angleRad) * -range;
+             const y1 = Math.sin(angleRad) * -range;
+             const x2 = Math.cos(angleRad) * range;
+             const y2 = Math.sin(angleRad) * range;
+             
+             const grad = ctx.createLinearGradient(x1, y1, x2, y2);
+             grad.addColorStop(0, layer.textColor);
+             grad.addColorStop(1, layer.effectColor);
+             fillStyle = grad;
+        } else {
+             fillStyle = color;
+        }
+
+        layout.forEach(item => {
+            ctx.save();
+            ctx.translate(item.x + offsetX, item.y + offsetY);
+            ctx.rotate(item.r * Math.PI / 180);
+            ctx.direction = item.rtl ? 'rtl' : 'ltr';
+            applyRunFont(item);
+            const runColor = useRunColors ? item.style?.color : undefined;
+
+            // OUTLINE ONLY PASS
+            if (mode === 'outline-only' || mode === 'standard') {
+                if (layer.hasOutline) {
+                    ctx.strokeStyle = layer.outlineColor;
+                    ctx.lineWidth = layer.outlineWidth; 
+                    ctx.strokeText(item.char, 0, 0);
+                }
+            }
+
+            // FILL/HOLLOW PASS
+            if (mode === 'fill-only' || mode === 'standard') {
+                if (layer.isHollow && !forceSolid) {
+                    ctx.strokeStyle = runColor ?? (typeof color === 'string' ? color : layer.textColor);
+                    ctx.lineWidth = Math.max(1, fontSizePx * 0.02); 
+                    ctx.strokeText(item.char, 0, 0);
+                } else {
+                    // Gradient text keeps one gradient across runs
+                    ctx.fillStyle = runColor && typeof fillStyle === 'string' ? runColor : fillStyle;
+                    ctx.fillText(item.char, 0, 0);
+                }
+            }
+
+            ctx.restore();
+        });
+
+        ctx.restore();
+    };
+
+    // --- Rendering Pipeline ---
+    // Order: Shadow -> Echo -> Glitch -> Main
+    // This ensures Shadow is absolutely at the bottom.
+
+    // 1. Shadow Pass
+    if (layer.hasShadow && isShadowSupported(layer.fontFamily)) {
+        renderPass('#000000', 0, 0, 0, 1, 'source-over', 'shadow-only');
+    }
+
+    // 2. Echo Effect (Background Trails)
+    if (layer.specialEffect === 'echo') {
+        const echoCount = 5;
+        const drift = frame ? getEchoDrift(frame) : { distance: 1, angle: 0 };
+        const angleRad = ((layer.effectAngle + drift.angle) * Math.PI) / 180;
+        const distanceStep = layer.effectIntensity * (width * 0.0005) * drift.distance;
+        for (let i = echoCount; i >= 1; i--) {
+             const dx = Math.cos(angleRad) * distanceStep * i;
+             const dy = Math.sin(angleRad) * distanceStep * i;
+             const alpha = 0.5 * (1 - i/echoCount);
+             // Use 'fill-only' to avoid applying the outline stroke to the echo
+             // Pass forceSolid=true to ensure echo is solid even if main text is hollow
+             renderPass(layer.textColor, dx, dy, 0, alpha, 'source-over', 'fill-only', true);
+        }
+    }
+
+    // 3. Glitch Effects
+    if (layer.specialEffect === 'glitch') {
+        const jitter = frame ? getGlitchJitter(frame) : { offset: 1, angle: 0 };
+        const offsetBase = (layer.effectIntensity / 100) * (fontSizePx * 0.2) * jitter.offset;
+        const angleRad = ((layer.effectAngle + jitter.angle) * Math.PI) / 180;
+        
+        const glitchBlend = (!layer.isRainbowGlitch || layer.isRainbowLights) ? 'screen' : 'source-over';
+
+        if (layer.isRainbowGlitch) {
+             const spectrum = ['#ff0000', '#ffa500', '#ffff00', '#00ff00', '#00ffff', '#0000ff', '#8f00ff', '#4b0082'];
+             const rainbowColors = frame ? cycleColors(spectrum, frame) : spectrum;
+             const spreadFactor = 3.0;
+             rainbowColors.forEach((color, i) => {
+                const indexOffset = i - (rainbowColors.length - 1) / 2;
+                const dist = (indexOffset * offsetBase * spreadFactor) / 2;
+                const dx = Math.cos(angleRad) * dist;
+                const dy = Math.sin(angleRad) * dist;
+                // Use 'fill-only' to avoid applying the outline stroke to the glitch layers
+                // Pass forceSolid=true to ensure glitch is solid even if main text is hollow
+                renderPass(color, dx, dy, layer.rainbowBlur, layer.rainbowOpacity, glitchBlend, 'fill-only', true);
+             });
+        } else {
+             const dx = Math.cos(angleRad) * offsetBase;
+             const dy = Math.sin(angleRad) * offsetBase;
+             // Use 'fill-only' to avoid applying the outline stroke to the glitch layers
+             // Pass forceSolid=true to ensure glitch is solid even if main text is hollow
+             renderPass(layer.effectColor, -dx, -dy, 1, 1, glitchBlend, 'fill-only', true);
+             renderPass(layer.effectColor2, dx, dy, 1, 1, glitchBlend, 'fill-only', true);
+        }
+    }
+
+    // 4. Main Text Pass
+    if (passes === 'effects') return;
+    if (layer.hasOutline) {
+         renderPass(layer.textColor, 0, 0, 0, 1, 'source-over', 'outline-only');
+    }
+    renderPass(layer.textColor, 0, 0, 0, 1, 'source-over', 'fill-only', false, true);
+};
+
+// Scales a layer's absolute pixel values so it renders identically on a larger canvas.
+// Everything else (size, position, shadows, effects) is already relative to the canvas width.
+export const scaleLayerGeometry = (layer: TextLayer, scale: number): TextLayer => scale === 1 ? layer : {
+    ...layer,
+    pathPoints: layer.pathPoints.map(p => ({ x: p.x * scale, y: p.y * scale })),
+    outlineWidth: layer.outlineWidth * scale,
+    rainbowBlur: layer.rainbowBlur * scale
+};
+
+export interface CompositeOptions {
+  // Per-layer choice of which passes to draw; layers default to 'all'
+  layerPasses?: (layer: TextLayer) => LayerPasses;
+  frame?: EffectFrame;
+  onLayerDrawn?: (index: number, total: number) => void;
+}
+
+/**
+ * Draws each visible layer onto `scratchCtx` and composites it onto `ctx` with the layer's opacity
+ * and blend mode. Both contexts must be the same size.
+ */
+export const compositeLayers = (ctx: RenderContext2D, scratchCtx: RenderContext2D, layers: TextLayer[], options: CompositeOptions = {}) => {
+    const { layerPasses, frame, onLayerDrawn } = options;
+    const { width, height } = ctx.canvas;
+
+    layers.forEach((layer, index) => {
+        const passes = layer.visible ? (layerPasses ? layerPasses(layer) : 'all') : 'none';
+        if (passes !== 'none') {
+            scratchCtx.clearRect(0, 0, width, height);
+            scratchCtx.imageSmoothingEnabled = true;
+            scratchCtx.imageSmoothingQuality = 'high';
+            drawLayerToCtx(scratchCtx, layer, width, height, passes, frame);
+
+            ctx.save();
+            ctx.globalAlpha = layer.opacity;
+            ctx.globalCompositeOperation = BLEND_MODE_COMPOSITE_OPS[layer.blendMode] || 'source-over';
+            ctx.drawImage(scratchCtx.canvas, 0, 0);
+            ctx.restore();
+        }
+        onLayerDrawn?.(index + 1, layers.length);
+    });
+};
+
+export interface SceneLayers {
+  background: CanvasImageSource | null; // null renders text only on transparency
+  backgroundType: 'image' | 'solid';
+  backgroundColor: string;
+  layers: TextLayer[]; // Already scaled to the context size
+}
+
+// Full scene: background (stretched to the context) then every layer
+export const drawScene = (ctx: RenderContext2D, scratchCtx: RenderContext2D, scene: SceneLayers, options: CompositeOptions = {}) => {
+    const { width, height } = ctx.canvas;
+    ctx.clearRect(0, 0, width, height);
+    ctx.imageSmoothingEnabled = true;
+    ctx.imageSmoothingQuality = 'high';
+
+    if (scene.background) {
+        if (scene.backgroundType === 'solid') {
+            ctx.fillStyle = scene.backgroundColor;
+            ctx.fillRect(0, 0, width, height);
+        }
+        ctx.drawImage(scene.background, 0, 0, width, height);
+    }
+
+    compositeLayers(ctx, scratchCtx, scene.layers, options);
+};
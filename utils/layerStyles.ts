@@ -0,0 +1,46 @@
+import { LayerStyle, TextLayer } from '../types';
+import { createLayer } from './defaults';
+import { drawLayerToCtx } from './layerRenderer';
+
+// Fields that belong to a layer's content or placement rather than its look
+const NON_STYLE_KEYS: (keyof TextLayer)[] = [
+  'id', 'name', 'visible', 'locked', 'textOverlay', 'textRuns', 'overlayPosition',
+  'pathPoints', 'pathSmoothing', 'isPathInputMode', 'isPathMoveMode', 'keyframes', 'templateSlot'
+];
+
+const THUMBNAIL_WIDTH = 240;
+const THUMBNAIL_HEIGHT = 135;
+const THUMBNAIL_TEXT = 'Aa';
+const THUMBNAIL_TEXT_SIZE = 30;
+
+export const extractLayerStyle = (layer: TextLayer): LayerStyle => {
+  const style: Record<string, unknown> = { ...layer, fontVariations: { ...layer.fontVariations }, fontFeatures: { ...layer.fontFeatures } };
+  NON_STYLE_KEYS.forEach(key => { delete style[key]; });
+  return style as LayerStyle;
+};
+
+export const applyLayerStyle = (layer: TextLayer, style: LayerStyle): TextLayer => ({
+  ...layer,
+  ...extractLayerStyle({ ...layer, ...style }),
+  fontVariations: { ...style.fontVariations },
+  fontFeatures: { ...style.fontFeatures }
+});
+
+/**
+ * Renders a sample of the style for the preset library. Text size is fixed so every thumbnail
+ * reads at the same scale; all other properties come from the style.
+ */
+export const renderStyleThumbnail = (style: LayerStyle): string => {
+  const canvas = document.createElement('canvas');
+  canvas.width = THUMBNAIL_WIDTH;
+  canvas.height = THUMBNAIL_HEIGHT;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return '';
+
+  ctx.fillStyle = '#171717';
+  ctx.fillRect(0, 0, THUMBNAIL_WIDTH, THUMBNAIL_HEIGHT);
+  const sample = applyLayerStyle(createLayer('style-thumbnail', THUMBNAIL_TEXT), { ...style, textSize: THUMBNAIL_TEXT_SIZE, rotation: 0 });
+  ctx.globalAlpha = sample.opacity;
+  drawLayerToCtx(ctx, sample, THUMBNAIL_WIDTH, THUMBNAIL_HEIGHT);
+  return canvas.toDataURL('image/png');
+};
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { migrateProject, PROJECT_FILE_FORMAT, PROJECT_FILE_VERSION } from './projectFile';
+import { createLayer } from './defaults';
+
+const project = (changes: Record<string, unknown> = {}) => ({
+  format: PROJECT_FILE_FORMAT,
+  version: 1,
+  savedAt: '2025-01-01T00:00:00.000Z',
+  design: { layers: [createLayer('a', 'Hi')] },
+  imageSrc: null,
+  settings: {},
+  ...changes
+});
+
+describe('migrateProject', () => {
+  it('upgrades version 1 files to the current version', () => {
+    const migrated = migrateProject(project());
+    expect(migrated.version).toBe(PROJECT_FILE_VERSION);
+    expect(migrated.fonts).toEqual([]);
+    expect(migrated.design.layers.map(l => l.textOverlay)).toEqual(['Hi']);
+  });
+
+  it('rejects files without the project format', () => {
+    expect(() => migrateProject({ layers: [] })).toThrow('Invalid project file: unrecognised format.');
+    expect(() => migrateProject(project({ format: 'something-else' }))).toThrow('unrecognised format');
+  });
+
+  it('rejects missing, unknown and newer versions', () => {
+    expect(() => migrateProject(project({ version: undefined }))).toThrow('missing or unknown version');
+    expect(() => migrateProject(project({ version: 0 }))).toThrow('missing or unknown version');
+    expect(() => migrateProject(project({ version: '1' }))).toThrow('missing or unknown version');
+    expect(() => migrateProject(project({ version: PROJECT_FILE_VERSION + 1 }))).toThrow('saved by a newer version');
+  });
+});
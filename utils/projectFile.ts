@@ -0,0 +1,155 @@
+import { AppSettings, CustomFont, DesignState, ProjectFile, ProjectSettingsSnapshot, TextLayer } from '../types';
+import { createLayer, DEFAULT_DESIGN } from './defaults';
+import { embedFonts } from './customFonts';
+import { getFontLayers, sanitizeRuns } from './textRuns';
+
+export const PROJECT_FILE_EXTENSION = '.textrot';
+export const PROJECT_FILE_FORMAT = 'textrot-project';
+
+// Bump this whenever the saved shape changes and add a matching entry to MIGRATIONS.
+export const PROJECT_FILE_VERSION = 2;
+
+// Each migration upgrades a raw project from version N to N + 1.
+// New TextLayer fields do not need a migration: normalizeLayer backfills them from createLayer().
+const MIGRATIONS: Record<number, (project: any) => any> = {
+  // 1 -> 2: Uploaded fonts are embedded alongside the design
+  1: (project) => ({ ...project, fonts: [] })
+};
+
+/**
+ * Fills any missing fields on a saved layer with current defaults so older files keep working
+ * as TextLayer gains properties. Interaction modes are always reset.
+ */
+export const normalizeLayer = (raw: any): TextLayer => {
+  const base = createLayer(raw?.id || crypto.randomUUID());
+  return {
+    ...base,
+    ...raw,
+    overlayPosition: { ...base.overlayPosition, ...(raw?.overlayPosition || {}) },
+    fontVariations: { ...(raw?.fontVariations || {}) },
+    fontFeatures: { ...(raw?.fontFeatures || {}) },
+    textRuns: sanitizeRuns(raw?.textRuns, String(raw?.textOverlay ?? base.textOverlay).length),
+    keyframes: { ...(raw?.keyframes || {}) },
+    pathPoints: Array.isArray(raw?.pathPoints) ? raw.pathPoints.map((p: any) => ({ x: Number(p.x) || 0, y: Number(p.y) || 0 })) : [],
+    isPathInputMode: false,
+    isPathMoveMode: false
+  };
+};
+
+export const normalizeDesign = (raw: any): DesignState => {
+  const layers: TextLayer[] = Array.isArray(raw?.layers) ? raw.layers.map(normalizeLayer) : [];
+  const layerIds = layers.map(l => l.id);
+
+  const activeLayerId = layerIds.includes(raw?.activeLayerId) ? raw.activeLayerId : (layerIds[layerIds.length - 1] ?? null);
+  const selected = Array.isArray(raw?.selectedLayerIds) ? raw.selectedLayerIds.filter((id: string) => layerIds.includes(id)) : [];
+
+  return {
+    ...DEFAULT_DESIGN,
+    ...raw,
+    layers,
+    activeLayerId,
+    selectedLayerIds: selected.length > 0 ? selected : (activeLayerId ? [activeLayerId] : []),
+    template: raw?.template && typeof raw.template === 'object'
+      ? { name: String(raw.template.name || 'Untitled Template'), backgroundSlot: raw.template.backgroundSlot === 'prompt' ? 'prompt' : 'fixed' }
+      : null
+  };
+};
+
+/**
+ * Upgrades a parsed project object of any known version to the current schema.
+ */
+export const migrateProject = (raw: any): ProjectFile => {
+  if (!raw || typeof raw !== 'object') {
+    throw new Error('Invalid project file: expected a JSON object.');
+  }
+
+  if (raw.format !== PROJECT_FILE_FORMAT) {
+    throw new Error('Invalid project file: unrecognised format.');
+  }
+  // Version 1 is the first project file format
+  if (!Number.isInteger(raw.version) || raw.version < 1) {
+    throw new Error('Invalid project file: missing or unknown version.');
+  }
+
+  let project = raw;
+  let version: number = raw.version;
+
+  if (version > PROJECT_FILE_VERSION) {
+    throw new Error(`Invalid project file: version ${version} was saved by a newer version of textrot studio.`);
+  }
+
+  while (version < PROJECT_FILE_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) throw new Error(`Invalid project file: no migration from version ${version}.`);
+    project = migrate(project);
+    version++;
+  }
+
+  return {
+    format: PROJECT_FILE_FORMAT,
+    version: PROJECT_FILE_VERSION,
+    savedAt: project.savedAt,
+    design: normalizeDesign(project.design),
+    imageSrc: typeof project.imageSrc === 'string' ? project.imageSrc : null,
+    settings: project.settings || {},
+    groundingMetadata: project.groundingMetadata ?? null,
+    fonts: Array.isArray(project.fonts) ? project.fonts : []
+  };
+};
+
+export const getSettingsSnapshot = (settings: AppSettings): ProjectSettingsSnapshot => ({
+  imageModel: settings.imageModel,
+  imageResolution: settings.imageResolution,
+  quality: settings.quality,
+  generationSystemPrompt: settings.generationSystemPrompt,
+  editingSystemPrompt: settings.editingSystemPrompt
+});
+
+// Merges a saved snapshot over the current settings, ignoring anything malformed
+export const applySettingsSnapshot = (settings: AppSettings, snapshot: Partial<ProjectSettingsSnapshot>): AppSettings => {
+  const next = { ...settings };
+  if (snapshot.imageModel === 'gemini-2.5-flash-image' || snapshot.imageModel === 'gemini-3-pro-image-preview') {
+    next.imageModel = snapshot.imageModel;
+  }
+  if (snapshot.imageResolution === '1K' || snapshot.imageResolution === '2K' || snapshot.imageResolution === '4K') {
+    next.imageResolution = snapshot.imageResolution;
+  }
+  if (typeof snapshot.quality === 'string') next.quality = snapshot.quality;
+  if (typeof snapshot.generationSystemPrompt === 'string') next.generationSystemPrompt = snapshot.generationSystemPrompt;
+  if (typeof snapshot.editingSystemPrompt === 'string') next.editingSystemPrompt = snapshot.editingSystemPrompt;
+  return next;
+};
+
+export const serializeProject = (
+  design: DesignState,
+  imageSrc: string | null,
+  settings: AppSettings,
+  groundingMetadata?: any,
+  fonts: CustomFont[] = []
+): string => {
+  const project: ProjectFile = {
+    format: PROJECT_FILE_FORMAT,
+    version: PROJECT_FILE_VERSION,
+    savedAt: new Date().toISOString(),
+    design: {
+      ...design,
+      layers: design.layers.map(l => ({ ...l, isPathInputMode: false, isPathMoveMode: false }))
+    },
+    imageSrc,
+    settings: getSettingsSnapshot(settings),
+    groundingMetadata: groundingMetadata ?? null,
+    // Only the uploaded fonts the layers actually use
+    fonts: embedFonts(fonts.filter(f => design.layers.flatMap(getFontLayers).some(l => l.fontFamily === f.family)))
+  };
+  return JSON.stringify(project);
+};
+
+export const parseProject = (json: string): ProjectFile => {
+  let raw: any;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    throw new Error('Invalid project file: the file is not valid JSON.');
+  }
+  return migrateProject(raw);
+};
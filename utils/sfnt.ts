@@ -0,0 +1,216 @@
+/**
+ * Minimal OpenType/TrueType (sfnt) reader. WOFF files are unpacked to plain sfnt so the
+ * result can be embedded in other formats. WOFF2 needs Brotli and is not supported.
+ */
+
+export interface SfntTable {
+  offset: number;
+  length: number;
+}
+
+export interface SfntFont {
+  bytes: Uint8Array;          // Plain sfnt data (WOFF already unpacked)
+  tables: Map<string, SfntTable>;
+  unitsPerEm: number;
+  ascender: number;
+  descender: number;
+  numGlyphs: number;
+  isCff: boolean;
+  isVariable: boolean;
+  postScriptName: string;
+  familyName: string;
+  weightClass: number;        // OS/2 usWeightClass, 400 when absent
+  isItalic: boolean;
+  getName: (nameId: number) => string;
+  glyphForCodePoint: (codePoint: number) => number;
+  advanceWidth: (glyphId: number) => number;
+}
+
+const tagAt = (view: DataView, offset: number) =>
+  String.fromCharCode(view.getUint8(offset), view.getUint8(offset + 1), view.getUint8(offset + 2), view.getUint8(offset + 3));
+
+const inflate = async (data: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+// Rebuilds a plain sfnt from WOFF 1.0 by inflating each table
+const unpackWoff = async (view: DataView): Promise<Uint8Array> => {
+  const flavor = view.getUint32(4);
+  const numTables = view.getUint16(12);
+  const entries: { tag: string; data: Uint8Array; checksum: number }[] = [];
+
+  for (let i = 0; i < numTables; i++) {
+    const base = 44 + i * 20;
+    const offset = view.getUint32(base + 4);
+    const compLength = view.getUint32(base + 8);
+    const origLength = view.getUint32(base + 12);
+    const raw = new Uint8Array(view.buffer, view.byteOffset + offset, compLength);
+    entries.push({
+      tag: tagAt(view, base),
+      data: compLength < origLength ? await inflate(raw) : raw.slice(),
+      checksum: view.getUint32(base + 16)
+    });
+  }
+
+  const headerSize = 12 + numTables * 16;
+  const totalSize = entries.reduce((sum, e) => sum + ((e.data.length + 3) & ~3), headerSize);
+  const out = new Uint8Array(totalSize);
+  const outView = new DataView(out.buffer);
+
+  const entrySelector = Math.floor(Math.log2(numTables));
+  const searchRange = Math.pow(2, entrySelector) * 16;
+  outView.setUint32(0, flavor);
+  outView.setUint16(4, numTables);
+  outView.setUint16(6, searchRange);
+  outView.setUint16(8, entrySelector);
+  outView.setUint16(10, numTables * 16 - searchRange);
+
+  let offset = headerSize;
+  entries.forEach((entry, i) => {
+    const base = 12 + i * 16;
+    for (let c = 0; c < 4; c++) outView.setUint8(base + c, entry.tag.charCodeAt(c));
+    outView.setUint32(base + 4, entry.checksum);
+    outView.setUint32(base + 8, offset);
+    outView.setUint32(base + 12, entry.data.length);
+    out.set(entry.data, offset);
+    offset += (entry.data.length + 3) & ~3;
+  });
+
+  return out;
+};
+
+// Builds a code point -> glyph lookup from the best available cmap subtable (format 12 or 4)
+const readCmap = (view: DataView, table: SfntTable): ((cp: number) => number) => {
+  const numSubtables = view.getUint16(table.offset + 2);
+  let format4 = -1;
+  let format12 = -1;
+
+  for (let i = 0; i < numSubtables; i++) {
+    const base = table.offset + 4 + i * 8;
+    const platform = view.getUint16(base);
+    const encoding = view.getUint16(base + 2);
+    const offset = table.offset + view.getUint32(base + 4);
+    const format = view.getUint16(offset);
+    const isUnicode = platform === 0 || (platform === 3 && (encoding === 1 || encoding === 10));
+    if (!isUnicode) continue;
+    if (format === 12) format12 = offset;
+    if (format === 4) format4 = offset;
+  }
+
+  if (format12 >= 0) {
+    const numGroups = view.getUint32(format12 + 12);
+    return (cp) => {
+      for (let i = 0; i < numGroups; i++) {
+        const base = format12 + 16 + i * 12;
+        const start = view.getUint32(base);
+        const end = view.getUint32(base + 4);
+        if (cp >= start && cp <= end) return view.getUint32(base + 8) + (cp - start);
+      }
+      return 0;
+    };
+  }
+
+  if (format4 >= 0) {
+    const segCount = view.getUint16(format4 + 6) / 2;
+    const endCodes = format4 + 14;
+    const startCodes = endCodes + segCount * 2 + 2;
+    const idDeltas = startCodes + segCount * 2;
+    const idRangeOffsets = idDeltas + segCount * 2;
+    return (cp) => {
+      if (cp > 0xffff) return 0;
+      for (let i = 0; i < segCount; i++) {
+        if (cp > view.getUint16(endCodes + i * 2)) continue;
+        const start = view.getUint16(startCodes + i * 2);
+        if (cp < start) return 0;
+        const delta = view.getInt16(idDeltas + i * 2);
+        const rangeOffsetPos = idRangeOffsets + i * 2;
+        const rangeOffset = view.getUint16(rangeOffsetPos);
+        if (rangeOffset === 0) return (cp + delta) & 0xffff;
+        const glyph = view.getUint16(rangeOffsetPos + rangeOffset + (cp - start) * 2);
+        return glyph === 0 ? 0 : (glyph + delta) & 0xffff;
+      }
+      return 0;
+    };
+  }
+
+  return () => 0;
+};
+
+// nameIDs: 1 family, 6 PostScript name, 16 typographic family
+const readName = (view: DataView, table: SfntTable | undefined, nameId: number): string => {
+  if (!table) return '';
+  const count = view.getUint16(table.offset + 2);
+  const stringsOffset = table.offset + view.getUint16(table.offset + 4);
+
+  for (let i = 0; i < count; i++) {
+    const base = table.offset + 6 + i * 12;
+    if (view.getUint16(base + 6) !== nameId) continue;
+    const platform = view.getUint16(base);
+    const length = view.getUint16(base + 8);
+    const offset = stringsOffset + view.getUint16(base + 10);
+    let name = '';
+    if (platform === 3 || platform === 0) {
+      for (let c = 0; c < length; c += 2) name += String.fromCharCode(view.getUint16(offset + c));
+    } else {
+      for (let c = 0; c < length; c++) name += String.fromCharCode(view.getUint8(offset + c));
+    }
+    if (name) return name;
+  }
+  return '';
+};
+
+/**
+ * Parses TTF, OTF or WOFF data. Throws if the data is not a supported font.
+ */
+export const parseSfnt = async (buffer: ArrayBuffer): Promise<SfntFont> => {
+  let view = new DataView(buffer);
+  const signature = tagAt(view, 0);
+
+  if (signature === 'wOF2') throw new Error("WOFF2 fonts cannot be read in the browser without Brotli support.");
+  if (signature === 'wOFF') {
+    const unpacked = await unpackWoff(view);
+    view = new DataView(unpacked.buffer);
+  }
+
+  const version = view.getUint32(0);
+  if (version !== 0x00010000 && tagAt(view, 0) !== 'OTTO' && tagAt(view, 0) !== 'true') {
+    throw new Error("Unrecognised font file.");
+  }
+
+  const tables = new Map<string, SfntTable>();
+  const numTables = view.getUint16(4);
+  for (let i = 0; i < numTables; i++) {
+    const base = 12 + i * 16;
+    tables.set(tagAt(view, base), { offset: view.getUint32(base + 8), length: view.getUint32(base + 12) });
+  }
+
+  const head = tables.get('head');
+  const hhea = tables.get('hhea');
+  const hmtx = tables.get('hmtx');
+  const maxp = tables.get('maxp');
+  const cmap = tables.get('cmap');
+  const os2 = tables.get('OS/2');
+  if (!head || !hhea || !hmtx || !maxp || !cmap) throw new Error("Font is missing required tables.");
+
+  const numberOfHMetrics = view.getUint16(hhea.offset + 34);
+  const lastAdvance = view.getUint16(hmtx.offset + (numberOfHMetrics - 1) * 4);
+
+  return {
+    bytes: new Uint8Array(view.buffer, view.byteOffset, view.byteLength),
+    tables,
+    unitsPerEm: view.getUint16(head.offset + 18),
+    ascender: view.getInt16(hhea.offset + 4),
+    descender: view.getInt16(hhea.offset + 6),
+    numGlyphs: view.getUint16(maxp.offset + 4),
+    isCff: tables.has('CFF ') || tables.has('CFF2'),
+    isVariable: tables.has('fvar'),
+    postScriptName: readName(view, tables.get('name'), 6),
+    familyName: readName(view, tables.get('name'), 16) || readName(view, tables.get('name'), 1),
+    weightClass: os2 ? view.getUint16(os2.offset + 4) : 400,
+    isItalic: os2 ? (view.getUint16(os2.offset + 62) & 1) === 1 : false,
+    getName: (nameId) => readName(view, tables.get('name'), nameId),
+    glyphForCodePoint: readCmap(view, cmap),
+    advanceWidth: (glyphId) => glyphId < numberOfHMetrics ? view.getUint16(hmtx.offset + glyphId * 4) : lastAdvance
+  };
+};
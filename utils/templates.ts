@@ -0,0 +1,28 @@
+import { TemplateSlotAccess, TextLayer } from '../types';
+import { updateRunsForEdit } from './textRuns';
+
+/**
+ * Templates: a design whose layers are marked as locked or editable slots. Template users only
+ * see the editable slots and can only change what the slot allows.
+ */
+
+export const TEMPLATE_SLOT_ACCESS: Record<TemplateSlotAccess, { label: string; description: string }> = {
+  'locked': { label: 'Locked', description: 'Fixed part of the design' },
+  'text': { label: 'Text', description: 'Users can change the wording' },
+  'text-color': { label: 'Text + Color', description: 'Users can change the wording and text color' }
+};
+
+export const getEditableSlots = (layers: TextLayer[]) =>
+  layers.filter(l => l.templateSlot !== 'locked');
+
+// Applies a template user's edit, dropping anything the slot doesn't allow
+export const applySlotEdit = (layer: TextLayer, changes: Partial<Pick<TextLayer, 'textOverlay' | 'textColor'>>): TextLayer => {
+  if (layer.templateSlot === 'locked') return layer;
+  const next = { ...layer };
+  if (changes.textOverlay !== undefined) {
+    next.textOverlay = changes.textOverlay;
+    next.textRuns = updateRunsForEdit(layer.textRuns, layer.textOverlay, changes.textOverlay);
+  }
+  if (changes.textColor !== undefined && layer.templateSlot === 'text-color') next.textColor = changes.textColor;
+  return next;
+};
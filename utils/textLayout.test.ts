@@ -0,0 +1,175 @@
+import { describe, expect, it } from 'vitest';
+import { RenderContext2D, TextLayer } from '../types';
+import { createLayer } from './defaults';
+import { calculatePathLayout, calculateStandardLayout, measureTextLayout, measureVerticalColumns, splitGraphemes } from './textLayout';
+
+// A 2D context whose glyphs are all half an em wide, with an ascent of 0.8em and a descent of 0.2em
+const createStubContext = () => {
+  let font = '';
+  const ctx = {
+    canvas: null,
+    get font() { return font; },
+    set font(value: string) { font = value; },
+    measureText: (text: string) => {
+      const size = parseFloat(font.split(' ').find(part => part.endsWith('px')) || '10');
+      const width = splitGraphemes(text).length * size * 0.5;
+      return {
+        width,
+        actualBoundingBoxLeft: 0,
+        actualBoundingBoxRight: width,
+        fontBoundingBoxAscent: size * 0.8,
+        fontBoundingBoxDescent: size * 0.2
+      } as TextMetrics;
+    }
+  };
+  return ctx as unknown as RenderContext2D;
+};
+
+const makeLayer = (text: string, changes: Partial<TextLayer> = {}): TextLayer => ({
+  ...createLayer('test', text),
+  textAlign: 'center',
+  letterSpacing: 0,
+  letterRotation: 0,
+  isUppercase: false,
+  direction: 'auto',
+  writingMode: 'horizontal',
+  textOrientation: 'mixed',
+  ...changes
+});
+
+// Layout functions expect the layer's font to be set on the context already
+const layout = (layer: TextLayer, fontSizePx = 100) => {
+  const ctx = createStubContext();
+  ctx.font = `normal normal 400 normal ${fontSizePx}px "${layer.fontFamily}"`;
+  return calculateStandardLayout(ctx, layer, fontSizePx);
+};
+
+const positions = (items: { char: string; x: number; y: number }[]) => items.map(({ char, x, y }) => [char, x, y]);
+
+describe('splitGraphemes', () => {
+  it('keeps combining marks and emoji sequences whole', () => {
+    expect(splitGraphemes('ab')).toEqual(['a', 'b']);
+    expect(splitGraphemes('e\u0301x')).toEqual(['e\u0301', 'x']);
+    expect(splitGraphemes('\u{1F468}\u200D\u{1F469}\u200D\u{1F467}!')).toHaveLength(2);
+  });
+});
+
+describe('calculateStandardLayout', () => {
+  it('shapes whole words centred on the block', () => {
+    expect(positions(layout(makeLayer('AB CD')))).toEqual([['AB', -75, 0], [' ', 0, 0], ['CD', 75, 0]]);
+  });
+
+  it('stacks lines one em apart around the origin', () => {
+    expect(positions(layout(makeLayer('AB\nC')))).toEqual([['AB', 0, -50], ['C', 0, 50]]);
+  });
+
+  it('aligns shorter lines to the widest one', () => {
+    expect(positions(layout(makeLayer('ABCD\nA', { textAlign: 'left' })))).toEqual([['ABCD', 0, -50], ['A', -75, 50]]);
+    expect(positions(layout(makeLayer('ABCD\nA', { textAlign: 'right' })))).toEqual([['ABCD', 0, -50], ['A', 75, 50]]);
+  });
+
+  it('places glyphs one by one with scaled letter spacing', () => {
+    // 10 spacing at 100px is 20px, counted after every glyph
+    const items = layout(makeLayer('AB', { letterSpacing: 10 }));
+    expect(positions(items)).toEqual([['A', -45, 0], ['B', 25, 0]]);
+  });
+
+  it('rotates individual glyphs', () => {
+    const items = layout(makeLayer('AB', { letterRotation: 15 }));
+    expect(items.map(i => [i.char, i.x, i.r])).toEqual([['A', -25, 15], ['B', 25, 15]]);
+  });
+
+  it('opens up lines for larger runs and shifts raised ones', () => {
+    const layer = makeLayer('Hello world\nline', { textRuns: [{ start: 6, end: 11, style: { size: 200, baselineShift: 10 } }] });
+    // First line box: 160 above and 40 below the baseline for the 200% run, 200px in total
+    expect(positions(layout(layer))).toEqual([['Hello', -275, -20], [' ', -125, -20], ['world', 150, -60], ['line', 0, 100]]);
+  });
+
+  it('lays vertical text out in columns from the right', () => {
+    const items = layout(makeLayer('AB\nC', { writingMode: 'vertical' }));
+    expect(items.map(i => [i.char, i.x, i.y, i.r])).toEqual([['A', 50, -25, 90], ['B', 50, 25, 90], ['C', -50, 0, 90]]);
+  });
+});
+
+describe('measureVerticalColumns', () => {
+  it('advances sideways glyphs by their width and upright ones by an em', () => {
+    const ctx = createStubContext();
+    ctx.font = 'normal normal 400 normal 100px "Inter"';
+    const columns = measureVerticalColumns(ctx, makeLayer('A\u6F22'), 100);
+    expect(columns).toHaveLength(1);
+    expect(columns[0].glyphs.map(g => [g.char, g.upright, g.advance])).toEqual([['A', false, 50], ['\u6F22', true, 100]]);
+    expect(columns[0].length).toBe(150);
+  });
+
+  it('keeps every glyph upright when asked to', () => {
+    const ctx = createStubContext();
+    ctx.font = 'normal normal 400 normal 100px "Inter"';
+    const columns = measureVerticalColumns(ctx, makeLayer('AB', { textOrientation: 'upright' }), 100);
+    expect(columns[0].glyphs.every(g => g.upright && g.advance === 100)).toBe(true);
+  });
+});
+
+describe('calculatePathLayout', () => {
+  const path = { pathPoints: [{ x: 0, y: 100 }, { x: 400, y: 100 }], pathSmoothing: 0 };
+
+  const pathLayout = (layer: TextLayer) => {
+    const ctx = createStubContext();
+    ctx.font = 'normal normal 400 normal 100px "Inter"';
+    return calculatePathLayout(ctx, layer, 100);
+  };
+
+  it('places glyph centres along the path from its start', () => {
+    const items = pathLayout(makeLayer('AB', { ...path, textAlign: 'left' }));
+    expect(items.map(i => [i.char, i.x, i.y, i.r])).toEqual([['A', 25, 100, 0], ['B', 75, 100, 0]]);
+  });
+
+  it('centres the text on the path', () => {
+    expect(pathLayout(makeLayer('AB', path)).map(i => i.x)).toEqual([175, 225]);
+  });
+
+  it('drops glyphs that run past the end of the path', () => {
+    expect(pathLayout(makeLayer('ABCDEFGHIJ', { ...path, textAlign: 'left' }))).toHaveLength(8);
+  });
+
+  it('lifts raised runs off the path along its normal', () => {
+    const layer = makeLayer('AB', { ...path, textAlign: 'left', textRuns: [{ start: 1, end: 2, style: { baselineShift: 20 } }] });
+    expect(pathLayout(layer).map(i => i.y)).toEqual([100, 80]);
+  });
+
+  it('needs at least two points', () => {
+    expect(pathLayout(makeLayer('AB', { pathPoints: [{ x: 0, y: 0 }] }))).toEqual([]);
+  });
+});
+
+describe('right-to-left layout', () => {
+  const ALEF = '\u05D0';
+  const BET = '\u05D1';
+
+  it('lists right-to-left text in visual order', () => {
+    const items = layout(makeLayer(ALEF + BET, { letterRotation: 1 }));
+    expect(items.map(i => [i.char, i.x, i.rtl])).toEqual([[BET, -25, true], [ALEF, 25, true]]);
+  });
+
+  it('shapes mixed lines as runs of one direction', () => {
+    const items = layout(makeLayer(`ab ${ALEF}${BET}`));
+    expect(items.map(i => [i.char, i.x, i.rtl])).toEqual([['ab', -75, false], [' ', 0, false], [ALEF + BET, 75, true]]);
+  });
+
+  it('places right-to-left text along a path in visual order', () => {
+    const ctx = createStubContext();
+    ctx.font = 'normal normal 400 normal 100px "Inter"';
+    const layer = makeLayer(`${ALEF}${BET}(`, { pathPoints: [{ x: 0, y: 0 }, { x: 400, y: 0 }], pathSmoothing: 0, textAlign: 'left' });
+    expect(calculatePathLayout(ctx, layer, 100).map(i => [i.char, i.x, i.rtl])).toEqual([['(', 25, true], [BET, 75, true], [ALEF, 125, true]]);
+  });
+});
+
+describe('measureTextLayout', () => {
+  it('returns the ink width and line height plus the gizmo buffer', () => {
+    // 10% of a 1000px canvas is a 100px font; the buffer is half of that
+    expect(measureTextLayout(createStubContext(), makeLayer('AB\nC', { textSize: 10 }), 1000)).toEqual({ width: 150, height: 225 });
+  });
+
+  it('measures vertical text as columns', () => {
+    expect(measureTextLayout(createStubContext(), makeLayer('AB\nC', { textSize: 10, writingMode: 'vertical' }), 1000)).toEqual({ width: 225, height: 150 });
+  });
+});
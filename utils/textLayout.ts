@@ -0,0 +1,417 @@
+import { RenderContext2D, TextLayer, TextRunStyle } from '../types';
+import { getBidiRuns, getVisualClusters, resolveDirection } from './bidi';
+import { getSmoothedPoints } from './geometry';
+import { getRunAt, getRunLayer, getRunScale } from './textRuns';
+import { constructCanvasFont, getFontFeatureSettings, getFontVariationSettings } from './typography';
+
+// A single glyph's centre and rotation (degrees). Standard layouts are relative to the layer
+// origin; path layouts are in absolute canvas coordinates.
+export interface GlyphPlacement {
+    char: string; // One grapheme cluster, or a whole word when words are shaped
+    x: number;
+    y: number;
+    r: number;
+    rtl: boolean; // Drawn right-to-left, so the shaper mirrors brackets
+    style?: TextRunStyle; // Style of the run the glyph is in, drawn with getRunFont
+}
+
+const graphemeSegmenter = typeof Intl !== 'undefined' && typeof Intl.Segmenter === 'function'
+    ? new Intl.Segmenter(undefined, { granularity: 'grapheme' })
+    : null;
+
+// User-perceived characters: surrogate pairs, ZWJ emoji sequences and combining marks stay whole.
+// Without Intl.Segmenter this falls back to code points.
+export const splitGraphemes = (text: string): string[] =>
+    graphemeSegmenter ? Array.from(graphemeSegmenter.segment(text), s => s.segment) : Array.from(text);
+
+// Drawing whole words keeps the font's kerning and ligatures, which is only possible when
+// glyphs are neither spaced nor rotated individually
+export const canShapeWords = (layer: TextLayer) => layer.letterSpacing === 0 && layer.letterRotation === 0;
+
+// Base direction of the whole layer; lines keep their physical alignment either way
+export const isRtlLayer = (layer: TextLayer) => resolveDirection(layer.textOverlay, layer.direction) === 'rtl';
+
+// One grapheme of the layer's text with the style of the run it is in
+export interface StyledCluster {
+    text: string;
+    style?: TextRunStyle;
+}
+
+// The layer's text as styled graphemes per line, uppercased if the layer is
+export const getStyledLines = (layer: TextLayer): StyledCluster[][] => {
+    const runs = layer.textRuns || [];
+    const lines: StyledCluster[][] = [[]];
+    let offset = 0;
+    splitGraphemes(layer.textOverlay).forEach(cluster => {
+        if (cluster === '\n' || cluster === '\r\n') {
+            lines.push([]);
+        } else {
+            const style = getRunAt(runs, offset)?.style;
+            const text = layer.isUppercase ? cluster.toUpperCase() : cluster;
+            splitGraphemes(text).forEach(char => lines[lines.length - 1].push({ text: char, style }));
+        }
+        offset += cluster.length;
+    });
+    return lines;
+};
+
+// Neighbouring clusters of the same run joined into one, still in logical order
+export const joinStyledClusters = (clusters: StyledCluster[]): StyledCluster[] => {
+    const joined: StyledCluster[] = [];
+    clusters.forEach(cluster => {
+        const last = joined[joined.length - 1];
+        if (last && last.style === cluster.style) last.text += cluster.text;
+        else joined.push({ ...cluster });
+    });
+    return joined;
+};
+
+export interface LineSegment {
+    text: string;
+    rtl: boolean;
+    style?: TextRunStyle;
+}
+
+// The units a line is measured and drawn in, in visual order: words and the whitespace between
+// them, or graphemes. Words in RTL runs are listed right to left but each keeps its logical order.
+// Words break where the run style changes.
+export const getLineSegments = (line: StyledCluster[], shapeWords: boolean, rtl: boolean): LineSegment[] => {
+    const clusters = line.map(c => c.text);
+    if (!shapeWords) return getVisualClusters(clusters, rtl).map(c => ({ text: c.text, rtl: c.rtl, style: line[c.start].style }));
+    return getBidiRuns(clusters, rtl, line.map(c => c.style)).flatMap(run => {
+        const style = line[run.start].style;
+        const words = run.text.split(/(\s+)/).filter(Boolean).map(text => ({ text, rtl: run.rtl, style }));
+        return run.rtl ? words.reverse() : words;
+    });
+};
+
+// Canvas font of a run: the layer's font with the run's family, weight and size
+export const getRunFont = (layer: TextLayer, style: TextRunStyle | undefined, fontSizePx: number) =>
+    style ? constructCanvasFont(getRunLayer(layer, style), fontSizePx * getRunScale(style)) : constructCanvasFont(layer, fontSizePx);
+
+// Raise of a run above the baseline in pixels
+export const getBaselineShift = (style: TextRunStyle | undefined, fontSizePx: number) =>
+    ((style?.baselineShift ?? 0) / 100) * fontSizePx;
+
+// Switches the context to run fonts only when they change. Expects the layer's font to be set
+// and puts it back on restore(). A run's weight also replaces the layer's wght axis, which only
+// reaches the canvas through its element style.
+const createFontSwitcher = (ctx: RenderContext2D, layer: TextLayer, fontSizePx: number) => {
+    let current = constructCanvasFont(layer, fontSizePx);
+    let currentVariations = getFontVariationSettings(layer);
+    const use = (style?: TextRunStyle) => {
+        const font = getRunFont(layer, style, fontSizePx);
+        if (font !== current) ctx.font = current = font;
+        const variations = getFontVariationSettings(style ? getRunLayer(layer, style) : layer);
+        if (variations !== currentVariations && ctx.canvas && 'style' in ctx.canvas) {
+            ctx.canvas.style.fontVariationSettings = currentVariations = variations;
+        }
+    };
+    return { use, restore: () => use(undefined) };
+};
+
+// CJK scripts and emoji stay upright in vertical columns; other text turns with the column
+const UPRIGHT_IN_VERTICAL = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}\p{Script=Bopomofo}\p{Extended_Pictographic}\u3000-\u303F\uFF01-\uFF60\uFFE0-\uFFE6]/u;
+// CJK punctuation that is drawn sideways in vertical text (long vowel mark, brackets, dashes)
+const ROTATED_IN_VERTICAL = /[\u3008-\u3011\u3014-\u301C\u30FC\uFF08\uFF09\uFF0D\uFF1A\uFF1B\uFF3B\uFF3D\uFF5B\uFF5D\uFF5E]/;
+
+export const isUprightInVertical = (cluster: string, layer: TextLayer) =>
+    layer.textOrientation === 'upright' || (UPRIGHT_IN_VERTICAL.test(cluster) && !ROTATED_IN_VERTICAL.test(cluster));
+
+export interface VerticalColumn {
+    glyphs: { char: string; upright: boolean; advance: number; style?: TextRunStyle }[];
+    length: number; // Includes trailing letter spacing, like horizontal line widths
+}
+
+// Each line becomes a column read top to bottom. Upright glyphs advance by one em of their run
+// (line-height 1), sideways glyphs by their width.
+export const measureVerticalColumns = (ctx: RenderContext2D, layer: TextLayer, fontSizePx: number): VerticalColumn[] => {
+    const scaledLetterSpacing = layer.letterSpacing * (fontSizePx / 50);
+    const fonts = createFontSwitcher(ctx, layer, fontSizePx);
+    const columns = getStyledLines(layer).map(line => {
+        const glyphs = line.map(({ text: char, style }) => {
+            const upright = isUprightInVertical(char, layer);
+            fonts.use(style);
+            const size = upright ? fontSizePx * (style ? getRunScale(style) : 1) : ctx.measureText(char).width;
+            return { char, upright, advance: size + scaledLetterSpacing, style };
+        });
+        return { glyphs, length: glyphs.reduce((sum, g) => sum + g.advance, 0) };
+    });
+    fonts.restore();
+    return columns;
+};
+
+// X of a column's centre relative to the block centre; columns run right to left unless 'ltr'
+export const getColumnX = (layer: TextLayer, index: number, columnCount: number, fontSizePx: number) => {
+    const offset = (index + 0.5) * fontSizePx - (columnCount * fontSizePx) / 2;
+    return layer.columnDirection === 'ltr' ? offset : -offset;
+};
+
+// Start of a column relative to the block centre; textAlign left/center/right maps to top/middle/bottom
+export const getColumnStartY = (layer: TextLayer, length: number, maxLength: number) => {
+    if (layer.textAlign === 'left') return -maxLength / 2;
+    if (layer.textAlign === 'right') return maxLength / 2 - length;
+    return -length / 2;
+};
+
+const calculateVerticalLayout = (ctx: RenderContext2D, layer: TextLayer, fontSizePx: number) => {
+    const scaledLetterSpacing = layer.letterSpacing * (fontSizePx / 50);
+    const columns = measureVerticalColumns(ctx, layer, fontSizePx);
+    const maxLength = Math.max(...columns.map(c => c.length));
+    const layout: GlyphPlacement[] = [];
+
+    columns.forEach((column, i) => {
+        const x = getColumnX(layer, i, columns.length, fontSizePx);
+        let cursorY = getColumnStartY(layer, column.length, maxLength);
+        column.glyphs.forEach(glyph => {
+            // Raised runs move towards the right-hand side of the column, where sideways glyphs have their ascent
+            layout.push({
+                char: glyph.char,
+                x: x + getBaselineShift(glyph.style, fontSizePx),
+                y: cursorY + (glyph.advance - scaledLetterSpacing) / 2,
+                r: layer.letterRotation + (glyph.upright ? 0 : 90),
+                rtl: false,
+                style: glyph.style
+            });
+            cursorY += glyph.advance;
+        });
+    });
+    return layout;
+};
+
+export interface MeasuredSegment extends LineSegment {
+    metrics: TextMetrics;
+}
+
+export interface MeasuredLine {
+    segments: MeasuredSegment[];
+    width: number; // Includes trailing letter spacing, as CSS does for centred blocks
+    ascent: number; // Line box extent above and below the baseline
+    descent: number;
+}
+
+// Extent of an inline box around its baseline with line-height 1, as CSS lays it out: one em
+// tall, with the font's ascent and descent centred in it
+const getInlineBox = (metrics: TextMetrics, sizePx: number) => {
+    const { fontBoundingBoxAscent: a = 0, fontBoundingBoxDescent: d = 0 } = metrics;
+    return { ascent: (sizePx + a - d) / 2, descent: (sizePx - a + d) / 2 };
+};
+
+/**
+ * Measures the lines of a horizontal layer in their run fonts. Unstyled lines are one em tall;
+ * larger runs open up their line the way they would in the DOM preview.
+ */
+export const measureStandardLines = (ctx: RenderContext2D, layer: TextLayer, fontSizePx: number, shapeWords: boolean = canShapeWords(layer)): MeasuredLine[] => {
+    const scaledLetterSpacing = layer.letterSpacing * (fontSizePx / 50);
+    const rtl = isRtlLayer(layer);
+    const fonts = createFontSwitcher(ctx, layer, fontSizePx);
+    const strut = getInlineBox(ctx.measureText(''), fontSizePx);
+
+    const lines = getStyledLines(layer).map(line => {
+        let width = 0;
+        let { ascent, descent } = strut;
+        const segments = getLineSegments(line, shapeWords, rtl).map(segment => {
+            fonts.use(segment.style);
+            const metrics = ctx.measureText(segment.text);
+            const box = getInlineBox(metrics, fontSizePx * (segment.style ? getRunScale(segment.style) : 1));
+            ascent = Math.max(ascent, box.ascent);
+            descent = Math.max(descent, box.descent);
+            width += metrics.width + scaledLetterSpacing;
+            return { ...segment, metrics };
+        });
+        return { segments, width, ascent, descent };
+    });
+    fonts.restore();
+    return lines;
+};
+
+// Helper: Generate Standard Text Layout (Local Coordinates)
+export const calculateStandardLayout = (ctx: RenderContext2D, layer: TextLayer, fontSizePx: number, shapeWords: boolean = canShapeWords(layer)) => {
+    if (layer.writingMode === 'vertical') return calculateVerticalLayout(ctx, layer, fontSizePx);
+
+    const scaledLetterSpacing = layer.letterSpacing * (fontSizePx / 50);
+    
+    const layout: GlyphPlacement[] = [];
+    
+    // 1. Measure all lines to determine block dimensions
+    const lineMetrics = measureStandardLines(ctx, layer, fontSizePx, shapeWords);
+    
+    const totalHeight = lineMetrics.reduce((sum, m) => sum + m.ascent + m.descent, 0);
+    // Align so that (0,0) is the center of the text block
+    // Using TOP baseline alignment logic for calculations to match CSS box model
+    let lineY = -(totalHeight / 2); 
+    const maxLineWidth = Math.max(...lineMetrics.map(m => m.width));
+    
+    lineMetrics.forEach(metric => {
+        // Calculate X start for this line relative to the BLOCK CENTER
+        let lineX = 0;
+        
+        if (layer.textAlign === 'left') {
+            lineX = -maxLineWidth / 2;
+        } else if (layer.textAlign === 'center') {
+            lineX = -metric.width / 2;
+        } else if (layer.textAlign === 'right') {
+            lineX = maxLineWidth / 2 - metric.width;
+        }
+        
+        const baselineY = lineY + metric.ascent;
+        
+        let cursorX = lineX;
+        metric.segments.forEach(char => {
+             const { width: w, fontBoundingBoxAscent: a = 0, fontBoundingBoxDescent: d = 0 } = char.metrics;
+             
+             const charCenterX = cursorX + (w / 2); // Center of the glyph itself
+             
+             // Glyphs are drawn from their middle, which sits (ascent - descent) / 2 above the
+             // baseline; for unstyled text that is the center of the line
+             const charCenterY = baselineY - (a - d) / 2 - getBaselineShift(char.style, fontSizePx);
+
+             layout.push({
+                 char: char.text,
+                 x: charCenterX,
+                 y: charCenterY,
+                 r: layer.letterRotation,
+                 rtl: char.rtl,
+                 style: char.style
+             });
+             cursorX += w + scaledLetterSpacing;
+        });
+        lineY += metric.ascent + metric.descent;
+    });
+    
+    return layout;
+};
+
+// Helper: Calculate Path Character Positions (Absolute Coordinates)
+export const calculatePathLayout = (ctx: RenderContext2D, layer: TextLayer, fontSizePx: number) => {
+    const scaledLetterSpacing = layer.letterSpacing * (fontSizePx/50);
+    
+    // 1. Get Path Points
+    const smoothedPoints = getSmoothedPoints(layer.pathPoints, layer.pathSmoothing);
+    if (smoothedPoints.length < 2) return [];
+
+    // 2. Calculate Cumulative Distances along path
+    const distances = [0];
+    for (let i = 1; i < smoothedPoints.length; i++) {
+        const dx = smoothedPoints[i].x - smoothedPoints[i-1].x;
+        const dy = smoothedPoints[i].y - smoothedPoints[i-1].y;
+        distances.push(distances[i-1] + Math.sqrt(dx*dx + dy*dy));
+    }
+    const totalPathLen = distances[distances.length - 1];
+
+    // 3. Prepare Text
+    const singleLine = getStyledLines(layer).flatMap((line, i) => i === 0 ? line : [{ text: ' ' }, ...line]);
+
+    // 4. Measure Total Text Width
+    // Glyphs follow the curve one by one, so words are never shaped here. They are placed in
+    // visual order from the start of the path, so RTL text reads correctly along it.
+    const chars = getLineSegments(singleLine, false, isRtlLayer(layer));
+    const fonts = createFontSwitcher(ctx, layer, fontSizePx);
+    let totalTextWidth = 0;
+    const charWidths = chars.map(char => {
+        fonts.use(char.style);
+        const w = ctx.measureText(char.text).width;
+        totalTextWidth += w + scaledLetterSpacing;
+        return w;
+    });
+    fonts.restore();
+    if (charWidths.length > 0) totalTextWidth -= scaledLetterSpacing;
+
+    // 5. Determine Start Offset based on Align
+    let currentDist = 0;
+    if (layer.textAlign === 'center') currentDist = (totalPathLen - totalTextWidth) / 2;
+    if (layer.textAlign === 'right') currentDist = totalPathLen - totalTextWidth;
+    
+    const layout: GlyphPlacement[] = [];
+
+    for (let i = 0; i < chars.length; i++) {
+        const char = chars[i];
+        const charW = charWidths[i];
+        const charMidDist = currentDist + (charW / 2);
+
+        if (charMidDist >= 0 && charMidDist <= totalPathLen) {
+            let idx = 0;
+            while (distances[idx + 1] < charMidDist && idx < distances.length - 2) idx++;
+            
+            const p1 = smoothedPoints[idx];
+            const p2 = smoothedPoints[idx+1];
+            const segStart = distances[idx];
+            const segLen = distances[idx+1] - segStart;
+            const t = (charMidDist - segStart) / (segLen || 1); 
+            
+            const xBase = p1.x + (p2.x - p1.x) * t;
+            const yBase = p1.y + (p2.y - p1.y) * t;
+            
+            const angleRad = Math.atan2(p2.y - p1.y, p2.x - p1.x);
+            const finalRotation = (angleRad * 180 / Math.PI) + layer.letterRotation;
+            // Baseline shift lifts the glyph away from the path along its normal
+            const shift = getBaselineShift(char.style, fontSizePx);
+
+            layout.push({
+                char: char.text,
+                x: xBase + Math.sin(angleRad) * shift,
+                y: yBase - Math.cos(angleRad) * shift,
+                r: finalRotation,
+                rtl: char.rtl,
+                style: char.style
+            });
+        }
+        currentDist += charW + scaledLetterSpacing;
+    }
+    return layout;
+};
+
+// Helper: Get text metrics (Tight Ink Bounds) for Gizmo
+const measureInkWidth = (line: MeasuredLine, letterSpacing: number) => {
+    let currentX = 0;
+    let minX = Infinity;
+    let maxX = -Infinity;
+    
+    if (line.segments.length === 0) return 0;
+
+    line.segments.forEach(({ metrics }) => {
+        const charInkLeft = currentX - metrics.actualBoundingBoxLeft;
+        const charInkRight = currentX + metrics.actualBoundingBoxRight;
+        
+        if (charInkLeft < minX) minX = charInkLeft;
+        if (charInkRight > maxX) maxX = charInkRight;
+        
+        // Match width calculation to standard layout (include spacing)
+        currentX += metrics.width + letterSpacing;
+    });
+
+    return maxX - minX;
+};
+
+export const measureTextLayout = (ctx: RenderContext2D, layer: TextLayer, width: number) => {
+    const fontSize = (layer.textSize / 100) * width;
+    ctx.font = constructCanvasFont(layer, fontSize);
+    
+    // Apply variations to context for measurement too! (HTMLCanvasElement only)
+    if (ctx.canvas && 'style' in ctx.canvas) {
+        ctx.canvas.style.fontVariationSettings = getFontVariationSettings(layer);
+        ctx.canvas.style.fontFeatureSettings = getFontFeatureSettings(layer);
+        ctx.canvas.style.letterSpacing = '0px'; 
+    }
+
+    const buffer = fontSize * 0.5; // Generous buffer for gizmo
+
+    if (layer.writingMode === 'vertical' && layer.pathPoints.length === 0) {
+        const columns = measureVerticalColumns(ctx, layer, fontSize);
+        const maxLength = Math.max(...columns.map(c => c.length));
+        return { width: columns.length * fontSize + (buffer * 0.5), height: maxLength + buffer };
+    }
+
+    const scaledLetterSpacing = layer.letterSpacing * (fontSize / 50);
+    const lines = measureStandardLines(ctx, layer, fontSize);
+    const totalHeight = lines.reduce((sum, line) => sum + line.ascent + line.descent, 0);
+
+    let maxInkWidth = 0;
+
+    lines.forEach(line => {
+        const inkWidth = measureInkWidth(line, scaledLetterSpacing);
+        if (inkWidth > maxInkWidth) maxInkWidth = inkWidth;
+    });
+
+    return { width: maxInkWidth + buffer, height: totalHeight + (buffer * 0.5) };
+};
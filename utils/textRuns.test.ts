@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { TextRun } from '../types';
+import { updateRunsForEdit } from './textRuns';
+
+const RED = { color: '#ff0000' };
+const BOLD = { fontWeight: 700 };
+
+// "Hello world" with "world" in bold
+const boldWorld: TextRun[] = [{ start: 6, end: 11, style: BOLD }];
+// "Hello world" with "Hello" in red and "world" in bold
+const redAndBold: TextRun[] = [{ start: 0, end: 5, style: RED }, { start: 6, end: 11, style: BOLD }];
+
+describe('updateRunsForEdit', () => {
+  it('moves runs after inserted text', () => {
+    expect(updateRunsForEdit(boldWorld, 'Hello world', 'Hello big world')).toEqual([{ start: 10, end: 15, style: BOLD }]);
+    expect(updateRunsForEdit(boldWorld, 'Hello world', 'Oh, Hello world')).toEqual([{ start: 10, end: 15, style: BOLD }]);
+  });
+
+  it('grows a run for text typed inside or at the end of it', () => {
+    expect(updateRunsForEdit(boldWorld, 'Hello world', 'Hello wo-rld')).toEqual([{ start: 6, end: 12, style: BOLD }]);
+    expect(updateRunsForEdit(boldWorld, 'Hello world', 'Hello world!')).toEqual([{ start: 6, end: 12, style: BOLD }]);
+  });
+
+  it('moves and shrinks runs around deleted text', () => {
+    expect(updateRunsForEdit(boldWorld, 'Hello world', 'Hi world')).toEqual([{ start: 3, end: 8, style: BOLD }]);
+    expect(updateRunsForEdit(boldWorld, 'Hello world', 'Hello wd')).toEqual([{ start: 6, end: 8, style: BOLD }]);
+  });
+
+  it('drops runs whose text is deleted', () => {
+    expect(updateRunsForEdit(boldWorld, 'Hello world', 'Hello ')).toEqual([]);
+    expect(updateRunsForEdit(redAndBold, 'Hello world', 'world')).toEqual([{ start: 0, end: 5, style: BOLD }]);
+  });
+
+  it('gives a replaced selection across runs the style of its first character', () => {
+    // "lo wo" becomes "X": the red run ends on it and the bold run starts after it
+    expect(updateRunsForEdit(redAndBold, 'Hello world', 'HelXrld')).toEqual([
+      { start: 0, end: 4, style: RED },
+      { start: 4, end: 7, style: BOLD }
+    ]);
+    // A selection starting in unstyled text stays unstyled
+    expect(updateRunsForEdit(redAndBold, 'Hello world', 'Hello-XYZrld')).toEqual([
+      { start: 0, end: 5, style: RED },
+      { start: 9, end: 12, style: BOLD }
+    ]);
+  });
+
+  it('leaves runs alone when the text is unchanged', () => {
+    expect(updateRunsForEdit(boldWorld, 'Hello world', 'Hello world')).toBe(boldWorld);
+  });
+});
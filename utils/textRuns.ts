@@ -0,0 +1,111 @@
+import { TextLayer, TextRun, TextRunStyle } from '../types';
+
+/**
+ * Styled runs inside a layer's text. A run overrides the layer's color, font, weight, size or
+ * baseline for a range of textOverlay. Runs are kept sorted, non-overlapping and merged with
+ * equal neighbours; unstyled text has no run. Offsets follow the typed text, so edits to it must
+ * go through updateRunsForEdit.
+ */
+
+const STYLE_KEYS: (keyof TextRunStyle)[] = ['color', 'fontFamily', 'fontWeight', 'size', 'baselineShift'];
+
+const cleanStyle = (style: TextRunStyle): TextRunStyle => {
+  const clean: TextRunStyle = {};
+  STYLE_KEYS.forEach(key => {
+    if (style[key] !== undefined && style[key] !== null) (clean as Record<string, unknown>)[key] = style[key];
+  });
+  return clean;
+};
+
+const isSameStyle = (a: TextRunStyle, b: TextRunStyle) => STYLE_KEYS.every(key => a[key] === b[key]);
+
+const normalizeRuns = (runs: TextRun[]): TextRun[] => {
+  const result: TextRun[] = [];
+  runs
+    .map(run => ({ start: run.start, end: run.end, style: cleanStyle(run.style) }))
+    .filter(run => run.end > run.start && Object.keys(run.style).length > 0)
+    .sort((a, b) => a.start - b.start)
+    .forEach(run => {
+      const last = result[result.length - 1];
+      if (last && last.end === run.start && isSameStyle(last.style, run.style)) last.end = run.end;
+      else result.push(run);
+    });
+  return result;
+};
+
+// Drops malformed runs from saved projects and clamps them to the text
+export const sanitizeRuns = (raw: unknown, textLength: number): TextRun[] => {
+  if (!Array.isArray(raw)) return [];
+  return normalizeRuns(raw
+    .filter(run => run && typeof run === 'object' && run.style && typeof run.style === 'object')
+    .map(run => ({
+      start: Math.max(0, Math.min(textLength, Math.floor(Number(run.start) || 0))),
+      end: Math.max(0, Math.min(textLength, Math.floor(Number(run.end) || 0))),
+      style: run.style
+    })));
+};
+
+export const getRunAt = (runs: TextRun[], index: number): TextRun | undefined =>
+  runs.find(run => run.start <= index && index < run.end);
+
+/**
+ * Sets style fields on a range, splitting the runs it overlaps. Undefined values clear a field.
+ */
+export const applyRunStyle = (runs: TextRun[], start: number, end: number, style: TextRunStyle): TextRun[] => {
+  if (end <= start) return runs;
+  const bounds = Array.from(new Set([start, end, ...runs.flatMap(run => [run.start, run.end])])).sort((a, b) => a - b);
+  const pieces: TextRun[] = [];
+  for (let i = 0; i < bounds.length - 1; i++) {
+    const pieceStyle = { ...getRunAt(runs, bounds[i])?.style };
+    const inRange = bounds[i] >= start && bounds[i + 1] <= end;
+    pieces.push({ start: bounds[i], end: bounds[i + 1], style: inRange ? { ...pieceStyle, ...style } : pieceStyle });
+  }
+  return normalizeRuns(pieces);
+};
+
+export const clearRunStyles = (runs: TextRun[], start: number, end: number): TextRun[] =>
+  applyRunStyle(runs, start, end, Object.fromEntries(STYLE_KEYS.map(key => [key, undefined])));
+
+/**
+ * Moves runs for an edit that replaced `removed` characters at `at` with `inserted` characters.
+ * Text typed at the end of a run continues its style; text typed at its start does not. A
+ * replaced selection passes the style of its first character on to the new text.
+ */
+export const shiftRuns = (runs: TextRun[], at: number, removed: number, inserted: number): TextRun[] => {
+  const delta = inserted - removed;
+  const map = (pos: number) => pos < at || (pos === at && removed > 0) ? pos : Math.max(pos, at + removed) + delta;
+  return normalizeRuns(runs.map(run => ({ ...run, start: map(run.start), end: map(run.end) })));
+};
+
+// Finds the changed range between two versions of the text (one contiguous edit, as typed)
+export const updateRunsForEdit = (runs: TextRun[], before: string, after: string): TextRun[] => {
+  if (runs.length === 0 || before === after) return runs;
+  const maxPrefix = Math.min(before.length, after.length);
+  let prefix = 0;
+  while (prefix < maxPrefix && before[prefix] === after[prefix]) prefix++;
+  let suffix = 0;
+  while (suffix < maxPrefix - prefix && before[before.length - 1 - suffix] === after[after.length - 1 - suffix]) suffix++;
+  return shiftRuns(runs, prefix, before.length - prefix - suffix, after.length - prefix - suffix);
+};
+
+// Size multiplier of a run relative to the layer's text size
+export const getRunScale = (style: TextRunStyle) => (style.size ?? 100) / 100;
+
+// The layer as a run draws it; size and baseline shift are applied by the layout
+export const getRunLayer = (layer: TextLayer, style: TextRunStyle): TextLayer => ({
+  ...layer,
+  fontFamily: style.fontFamily ?? layer.fontFamily,
+  textColor: style.color ?? layer.textColor,
+  fontVariations: style.fontWeight !== undefined ? { ...layer.fontVariations, wght: style.fontWeight } : layer.fontVariations
+});
+
+/**
+ * The layer plus one layer per run that changes the font, each with only the run's text, so
+ * font loading covers every face and character a layer draws.
+ */
+export const getFontLayers = (layer: TextLayer): TextLayer[] => [
+  layer,
+  ...(layer.textRuns || [])
+    .filter(run => run.style.fontFamily !== undefined || run.style.fontWeight !== undefined)
+    .map(run => ({ ...getRunLayer(layer, run.style), textOverlay: layer.textOverlay.slice(run.start, run.end), textRuns: [] }))
+];
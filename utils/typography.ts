@@ -0,0 +1,58 @@
+import { TextLayer } from '../types';
+import { DEFAULT_ON_FEATURES } from '../constants';
+
+// Helper: Check if font supports external CSS shadows
+export const isShadowSupported = (fontFamily: string) => {
+    // Honk has baked-in shadows/3D effects controlled by axes
+    return fontFamily !== 'Honk'; 
+};
+
+// The descriptors that select a font face; other variable axes are applied to the chosen face
+export const getFontDescriptors = (layer: TextLayer) => {
+    // Canvas font strings handle weight/style, but standard axes support varies.
+    // We construct the basic descriptors here.
+    let weight = layer.isBold ? 700 : 400;
+    if (layer.fontVariations && layer.fontVariations['wght'] !== undefined) {
+        weight = Math.round(layer.fontVariations['wght']);
+    }
+    let stretch = "normal";
+    if (layer.fontVariations && layer.fontVariations['wdth'] !== undefined) {
+        const wVal = layer.fontVariations['wdth'];
+        if (wVal !== 100) stretch = `${Math.round(wVal)}%`;
+    }
+    let style = layer.isItalic ? 'italic' : 'normal';
+    if (layer.fontVariations && layer.fontVariations['slnt'] !== undefined) {
+        const slnt = layer.fontVariations['slnt'];
+        // Use negative slnt for oblique angle because OpenType slnt is usually negative for clockwise slant,
+        // while CSS oblique angle is positive for clockwise slant.
+        if (slnt !== 0) style = `oblique ${-slnt}deg`;
+    }
+    return { weight, stretch, style };
+};
+
+export const constructCanvasFont = (layer: TextLayer, fontSizePx: number): string => {
+    const fontFamily = `"${layer.fontFamily}"`;
+    const { weight, stretch, style } = getFontDescriptors(layer);
+    // Canvas 2D font parser can be strict. Remove /1 line-height shorthand.
+    return `${style} normal ${weight} ${stretch} ${fontSizePx}px ${fontFamily}`;
+};
+
+export const isFontFeatureEnabled = (layer: TextLayer, tag: string): boolean =>
+    layer.fontFeatures?.[tag] ?? DEFAULT_ON_FEATURES.includes(tag);
+
+// Only the features a layer overrides, so unset ones keep the font's defaults (e.g. contextual alternates)
+export const getFontFeatureSettings = (layer: TextLayer): string => {
+    const features = Object.entries(layer.fontFeatures || {});
+    if (features.length === 0) return 'normal';
+    return features.map(([tag, on]) => `"${tag}" ${on ? 1 : 0}`).join(', ');
+};
+
+export const getFontVariationSettings = (layer: TextLayer): string => {
+    if (!layer.fontVariations || Object.keys(layer.fontVariations).length === 0) {
+        return 'normal';
+    }
+    return Object.entries(layer.fontVariations)
+        .map(([key, val]) => `"${key}" ${val}`)
+        .join(', ');
+};
+
@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { getVariableFontConfig } from './variableFonts';
+
+describe('getVariableFontConfig', () => {
+  it('reads catalog axes from the ranges the font source requests', () => {
+    expect(getVariableFontConfig('Fraunces')?.axes).toEqual([
+      { tag: 'opsz', name: 'Optical Size', min: 9, max: 144, defaultValue: 14, step: 1 },
+      { tag: 'wght', name: 'Weight', min: 100, max: 900, defaultValue: 400, step: 1 },
+      { tag: 'SOFT', name: 'Softness', min: 0, max: 100, defaultValue: 0, step: 1 },
+      { tag: 'WONK', name: 'Wonkiness', min: 0, max: 1, defaultValue: 0, step: 1, inputType: 'toggle' }
+    ]);
+  });
+
+  it('clamps registry defaults into the served range', () => {
+    expect(getVariableFontConfig('Kalnia Glaze')?.axes.map(a => [a.tag, a.min, a.max, a.defaultValue])).toEqual([
+      ['wdth', 100, 125, 100],
+      ['wght', 100, 700, 400]
+    ]);
+    expect(getVariableFontConfig('Orbitron')?.axes[0].defaultValue).toBe(400);
+    expect(getVariableFontConfig('Bodoni Moda')?.axes.find(a => a.tag === 'opsz')?.defaultValue).toBe(14);
+  });
+
+  it('has no config for static weights or unknown families', () => {
+    expect(getVariableFontConfig('Cinzel')).toBeUndefined();
+    expect(getVariableFontConfig('Anton')).toBeUndefined();
+    expect(getVariableFontConfig('Not A Font')).toBeUndefined();
+  });
+});
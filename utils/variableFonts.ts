@@ -0,0 +1,149 @@
+import { LayerFontFamily } from '../types';
+import { FontAxis, NamedInstance, VariableFontConfig } from '../constants';
+import { SfntFont } from './sfnt';
+import { getFontBinary } from './fontBinaries';
+import { getFontSourceAxes } from './fontManifest';
+
+/**
+ * Variable axes read from font binaries (fvar for ranges and named instances, STAT for axis
+ * names and order). Catalog fonts are WOFF2 and can't be read back, so their axes come from the
+ * ranges their font sources request, which is exactly what the bundle and Google Fonts serve.
+ */
+
+const HIDDEN_AXIS_FLAG = 0x0001;
+
+// Names and defaults from the Google Fonts axis registry: fallback labels for uploaded fonts whose
+// name table has none, and the whole description for catalog axes
+const AXIS_REGISTRY: Record<string, { name: string; defaultValue: number }> = {
+  wght: { name: 'Weight', defaultValue: 400 },
+  wdth: { name: 'Width', defaultValue: 100 },
+  slnt: { name: 'Slant', defaultValue: 0 },
+  ital: { name: 'Italic', defaultValue: 0 },
+  opsz: { name: 'Optical Size', defaultValue: 14 },
+  ROND: { name: 'Roundness', defaultValue: 0 },
+  SOFT: { name: 'Softness', defaultValue: 0 },
+  WONK: { name: 'Wonkiness', defaultValue: 0 },
+  ELGR: { name: 'Grid Size', defaultValue: 1 },
+  ELSH: { name: 'Element Shape', defaultValue: 0 },
+  MORF: { name: 'Morph', defaultValue: 0 },
+  SHLN: { name: 'Shadow Length', defaultValue: 50 },
+  EDPT: { name: 'Depth', defaultValue: 100 },
+  EHLT: { name: 'Highlight', defaultValue: 12 },
+  XROT: { name: 'X Rotation', defaultValue: 0 },
+  YROT: { name: 'Y Rotation', defaultValue: 0 }
+};
+
+const discovered = new Map<string, VariableFontConfig | null>();
+const catalogConfigs = new Map<string, VariableFontConfig | null>();
+
+const tagAt = (bytes: Uint8Array, offset: number) =>
+  String.fromCharCode(bytes[offset], bytes[offset + 1], bytes[offset + 2], bytes[offset + 3]);
+
+const fixedAt = (view: DataView, offset: number) => view.getInt32(offset) / 65536;
+
+// Finer steps for narrow ranges so e.g. a 0-1 axis isn't limited to its ends
+const stepForRange = (range: number) => range <= 2 ? 0.01 : range <= 20 ? 0.1 : 1;
+
+// On/off axes such as WONK become toggles
+const createAxis = (tag: string, name: string, min: number, max: number, defaultValue: number): FontAxis =>
+  min === 0 && max === 1
+    ? { tag, name, min, max, defaultValue, step: 1, inputType: 'toggle' }
+    : { tag, name, min, max, defaultValue, step: tag === 'wght' ? 1 : stepForRange(max - min) };
+
+// STAT design axes give the preferred display order and often better names than fvar
+const readStatAxes = (font: SfntFont, view: DataView): Map<string, { name: string; ordering: number }> => {
+  const axes = new Map<string, { name: string; ordering: number }>();
+  const stat = font.tables.get('STAT');
+  if (!stat) return axes;
+
+  const designAxisSize = view.getUint16(stat.offset + 4);
+  const designAxisCount = view.getUint16(stat.offset + 6);
+  const designAxesOffset = stat.offset + view.getUint32(stat.offset + 8);
+  for (let i = 0; i < designAxisCount; i++) {
+    const base = designAxesOffset + i * designAxisSize;
+    axes.set(tagAt(font.bytes, base), {
+      name: font.getName(view.getUint16(base + 4)),
+      ordering: view.getUint16(base + 6)
+    });
+  }
+  return axes;
+};
+
+/**
+ * Reads axes and named instances from a parsed font. Returns null for static fonts.
+ */
+export const readVariationConfig = (font: SfntFont): VariableFontConfig | null => {
+  const fvar = font.tables.get('fvar');
+  if (!fvar) return null;
+
+  const view = new DataView(font.bytes.buffer, font.bytes.byteOffset, font.bytes.byteLength);
+  const axesOffset = fvar.offset + view.getUint16(fvar.offset + 4);
+  const axisCount = view.getUint16(fvar.offset + 8);
+  const axisSize = view.getUint16(fvar.offset + 10);
+  const instanceCount = view.getUint16(fvar.offset + 12);
+  const instanceSize = view.getUint16(fvar.offset + 14);
+  const statAxes = readStatAxes(font, view);
+
+  const allAxes = Array.from({ length: axisCount }, (_, i) => {
+    const base = axesOffset + i * axisSize;
+    const tag = tagAt(font.bytes, base);
+    const min = fixedAt(view, base + 4);
+    const max = fixedAt(view, base + 12);
+    const name = statAxes.get(tag)?.name || font.getName(view.getUint16(base + 18)) || AXIS_REGISTRY[tag]?.name || tag;
+    const axis = createAxis(tag, name, min, max, fixedAt(view, base + 8));
+    return { axis, hidden: (view.getUint16(base + 16) & HIDDEN_AXIS_FLAG) !== 0 };
+  });
+
+  const axes = allAxes
+    .filter(a => !a.hidden)
+    .map(a => a.axis)
+    .sort((a, b) => (statAxes.get(a.tag)?.ordering ?? axisCount) - (statAxes.get(b.tag)?.ordering ?? axisCount));
+
+  const instancesOffset = axesOffset + axisCount * axisSize;
+  const instances: NamedInstance[] = [];
+  for (let i = 0; i < instanceCount; i++) {
+    const base = instancesOffset + i * instanceSize;
+    const name = font.getName(view.getUint16(base));
+    if (!name || instances.some(inst => inst.name === name)) continue;
+    const coordinates: Record<string, number> = {};
+    allAxes.forEach(({ axis, hidden }, a) => {
+      if (!hidden) coordinates[axis.tag] = fixedAt(view, base + 4 + a * 4);
+    });
+    instances.push({ name, coordinates });
+  }
+
+  return axes.length > 0 ? { axes, instances } : null;
+};
+
+/**
+ * Reads the variation config from the family's registered binary, if any. Call after
+ * registering or replacing a font binary.
+ */
+export const discoverVariableAxes = async (family: string): Promise<VariableFontConfig | null> => {
+  const font = await getFontBinary(family, 400, false);
+  const config = font ? readVariationConfig(font) : null;
+  discovered.set(family, config);
+  return config;
+};
+
+export const forgetVariableAxes = (family: string) => {
+  discovered.delete(family);
+};
+
+// Italic is the layer's italic switch rather than a slider, so catalog 'ital' ranges are skipped
+const getCatalogConfig = (family: string): VariableFontConfig | null => {
+  if (!catalogConfigs.has(family)) {
+    const axes = getFontSourceAxes(family)
+      .filter(({ tag }) => tag !== 'ital')
+      .map(({ tag, min, max }) => {
+        const registered = AXIS_REGISTRY[tag];
+        const defaultValue = Math.min(max, Math.max(min, registered?.defaultValue ?? min));
+        return createAxis(tag, registered?.name || tag, min, max, defaultValue);
+      });
+    catalogConfigs.set(family, axes.length > 0 ? { axes } : null);
+  }
+  return catalogConfigs.get(family)!;
+};
+
+export const getVariableFontConfig = (family: LayerFontFamily): VariableFontConfig | undefined =>
+  discovered.get(family) || getCatalogConfig(family) || undefined;
@@ -0,0 +1,60 @@
+import { RenderWorkerRequest, RenderWorkerResponse } from '../types';
+import { drawScene } from '../utils/layerRenderer';
+import { createFontFace, loadLayerFonts } from '../utils/fontManifest';
+
+/**
+ * Renders a scene on OffscreenCanvas so large exports and stamps don't block the page. A worker
+ * can't see document.fonts, so the job carries the catalog faces the page resolved and the data
+ * of uploaded fonts.
+ */
+
+// The project compiles against the DOM lib only, so describe the worker globals used here
+interface RenderWorkerScope {
+  fonts?: FontFaceSet;
+  onmessage: ((e: MessageEvent<RenderWorkerRequest>) => void) | null;
+  postMessage: (message: RenderWorkerResponse) => void;
+}
+
+const scope = self as unknown as RenderWorkerScope;
+
+const render = async (job: RenderWorkerRequest): Promise<Blob> => {
+  const { fonts } = scope;
+  if (!fonts) throw new Error("Fonts are not available in workers in this browser");
+
+  job.fontFaces.forEach(face => fonts.add(createFontFace(face)));
+  job.customFonts.forEach(font => fonts.add(new FontFace(font.family, font.data, {
+    weight: String(font.weight),
+    style: font.italic ? 'italic' : 'normal'
+  })));
+  // The page already checked these load; failing here sends the render back to the main thread
+  const missing = (await loadLayerFonts(fonts, job.layers))
+    .filter(family => job.fontFaces.some(face => face.family === family));
+  if (missing.length > 0) throw new Error(`Could not load font ${missing.join(', ')} in the worker`);
+
+  const { width, height } = job;
+  const canvas = new OffscreenCanvas(width, height);
+  const ctx = canvas.getContext('2d');
+  const scratch = new OffscreenCanvas(width, height);
+  const scratchCtx = scratch.getContext('2d');
+  if (!ctx || !scratchCtx) throw new Error("Could not get canvas context");
+
+  drawScene(ctx, scratchCtx, {
+    background: job.includeBackground ? job.background : null,
+    backgroundType: job.backgroundType,
+    backgroundColor: job.backgroundColor,
+    layers: job.layers
+  }, {
+    onLayerDrawn: (done, total) => scope.postMessage({ type: 'progress', done, total })
+  });
+  job.background.close();
+
+  return canvas.convertToBlob({ type: job.mimeType, quality: job.quality });
+};
+
+scope.onmessage = async (e) => {
+  try {
+    scope.postMessage({ type: 'done', blob: await render(e.data) });
+  } catch (err) {
+    scope.postMessage({ type: 'error', message: err instanceof Error ? err.message : String(err) });
+  }
+};